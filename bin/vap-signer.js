@@ -0,0 +1,35 @@
+#!/usr/bin/env node
+
+// Signer process for RemoteSigner: unlocks one key from a keystore and answers
+// JSON-RPC signing requests on stdin/stdout, so the agent process never holds the key.
+//
+//   VAP_KEYSTORE             keystore file (default: ./.vap-keystore.json)
+//   VAP_KEY_NAME             entry to unlock (default: default)
+//   VAP_KEYSTORE_PASSPHRASE  passphrase (required — stdin carries the requests)
+
+const path = require('path');
+const { Keystore, LocalWifSigner, serveSigner } = require('../dist/index.js');
+
+const keystorePath = process.env.VAP_KEYSTORE || path.join(process.cwd(), '.vap-keystore.json');
+const name = process.env.VAP_KEY_NAME || 'default';
+const passphrase = process.env.VAP_KEYSTORE_PASSPHRASE;
+
+if (!passphrase) {
+  console.error('[vap-signer] VAP_KEYSTORE_PASSPHRASE is required');
+  process.exit(1);
+}
+
+try {
+  const keystore = new Keystore(keystorePath);
+  const entry = keystore.entry(name);
+  if (!entry) throw new Error(`No key "${name}" in ${keystorePath}`);
+  const signer = new LocalWifSigner(keystore.unlock(name, passphrase), entry.network);
+  // Don't leave the passphrase in the environment of anything we might spawn
+  delete process.env.VAP_KEYSTORE_PASSPHRASE;
+
+  serveSigner(signer, { network: entry.network });
+  console.error(`[vap-signer] Serving ${entry.address} ("${name}")`);
+} catch (e) {
+  console.error(`[vap-signer] ${e.message}`);
+  process.exit(1);
+}
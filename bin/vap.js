@@ -1,7 +1,7 @@
 #!/usr/bin/env node
 
 const readline = require('readline');
-const { VAPAgent } = require('../dist/index.js');
+const { VAPAgent, Keystore } = require('../dist/index.js');
 const { generateKeypair } = require('../dist/identity/keypair.js');
 const fs = require('fs');
 const path = require('path');
@@ -9,7 +9,54 @@ const path = require('path');
 const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
 const ask = (q) => new Promise(resolve => rl.question(q, resolve));
 
-const KEYS_FILE = path.join(process.cwd(), '.vap-keys.json');
+const KEYSTORE_FILE = path.join(process.cwd(), '.vap-keystore.json');
+/** Plaintext key file written by earlier versions — migrated into the keystore on start */
+const LEGACY_KEYS_FILE = path.join(process.cwd(), '.vap-keys.json');
+/** Keystore entry used by this CLI */
+const KEY_NAME = process.env.VAP_KEY_NAME || 'default';
+
+/** Read a line without echoing it */
+function askSecret(q) {
+  return new Promise(resolve => {
+    const write = rl._writeToOutput;
+    rl._writeToOutput = (s) => { if (s.startsWith(q)) write.call(rl, s); };
+    rl.question(q, (answer) => {
+      rl._writeToOutput = write;
+      rl.output.write('\n');
+      resolve(answer);
+    });
+  });
+}
+
+/** Passphrase from VAP_KEYSTORE_PASSPHRASE, or prompted (twice when creating a key) */
+async function getPassphrase(confirm) {
+  if (process.env.VAP_KEYSTORE_PASSPHRASE) return process.env.VAP_KEYSTORE_PASSPHRASE;
+  const passphrase = await askSecret('  Keystore passphrase: ');
+  if (!passphrase) throw new Error('Passphrase required');
+  if (confirm && (await askSecret('  Repeat passphrase: ')) !== passphrase) {
+    throw new Error('Passphrases do not match');
+  }
+  return passphrase;
+}
+
+/** Move a plaintext .vap-keys.json into the encrypted keystore and delete it */
+async function migrateLegacyKeys(keystore) {
+  console.log(`  Found plaintext key file ${LEGACY_KEYS_FILE}`);
+  console.log(`  Migrating it to the encrypted keystore ${KEYSTORE_FILE} as "${KEY_NAME}"...`);
+  if (keystore.has(KEY_NAME)) {
+    throw new Error(`Keystore already has a key named "${KEY_NAME}" — set VAP_KEY_NAME to migrate under another name`);
+  }
+  const passphrase = await getPassphrase(true);
+  const entry = keystore.importPlaintext(LEGACY_KEYS_FILE, KEY_NAME, passphrase);
+  // Only delete the plaintext copy once the stored key decrypts
+  const legacy = JSON.parse(fs.readFileSync(LEGACY_KEYS_FILE, 'utf8'));
+  if (new Keystore(KEYSTORE_FILE).unlock(KEY_NAME, passphrase) !== legacy.wif) {
+    throw new Error('Migrated key does not match the plaintext file — left it in place');
+  }
+  fs.unlinkSync(LEGACY_KEYS_FILE);
+  console.log(`  ✓ Migrated ${entry.address}; plaintext file removed`);
+  console.log('');
+}
 
 // Validation constants (mirrored from src/onboarding/validation.ts)
 const AGENT_NAME_REGEX = /^[a-zA-Z0-9._-]+$/;
@@ -248,14 +295,15 @@ async function main() {
   console.log('');
 
   // Check for existing keys
-  let savedKeys = null;
-  if (fs.existsSync(KEYS_FILE)) {
-    try {
-      savedKeys = JSON.parse(fs.readFileSync(KEYS_FILE, 'utf8'));
-      console.log(`  Found existing keys: ${savedKeys.address}`);
-      if (savedKeys.identity) console.log(`  Identity: ${savedKeys.identity}`);
-      console.log('');
-    } catch { /* ignore */ }
+  const keystore = new Keystore(KEYSTORE_FILE);
+  if (fs.existsSync(LEGACY_KEYS_FILE)) {
+    await migrateLegacyKeys(keystore);
+  }
+  const savedKeys = keystore.entry(KEY_NAME);
+  if (savedKeys) {
+    console.log(`  Found existing keys: ${savedKeys.address} ("${KEY_NAME}")`);
+    if (savedKeys.identity) console.log(`  Identity: ${savedKeys.identity}`);
+    console.log('');
   }
 
   const apiUrl = process.env.VAP_API_URL || 'https://api.autobb.app';
@@ -271,6 +319,8 @@ async function main() {
   if (savedKeys) {
     console.log('  4) Check registration status');
     console.log('  5) Update agent profile');
+    console.log('  6) Rotate identity key');
+    console.log('  7) Revoke identity (compromised key)');
   }
   console.log('  q) Quit');
   console.log('');
@@ -279,20 +329,28 @@ async function main() {
 
   switch (choice.trim()) {
     case '1':
-      await generateKeys();
+      await generateKeys(keystore);
       break;
     case '2':
-      await registerAgent(apiUrl, savedKeys);
+      await registerAgent(apiUrl, keystore, savedKeys);
       break;
     case '3':
-      showKeys(savedKeys);
+      showKeys(keystore, savedKeys);
       break;
     case '4':
       if (savedKeys) await checkStatus(apiUrl, savedKeys);
       else console.log('\n  No keys found. Generate keys first (option 1).\n');
       break;
     case '5':
-      if (savedKeys) await updateAgentProfile(apiUrl, savedKeys);
+      if (savedKeys) await updateAgentProfile(apiUrl, keystore, savedKeys);
+      else console.log('\n  No keys found. Generate keys first (option 1).\n');
+      break;
+    case '6':
+      if (savedKeys) await rotateKey(apiUrl, keystore, savedKeys);
+      else console.log('\n  No keys found. Generate keys first (option 1).\n');
+      break;
+    case '7':
+      if (savedKeys) await revokeIdentity(apiUrl, keystore, savedKeys);
       else console.log('\n  No keys found. Generate keys first (option 1).\n');
       break;
     case 'q':
@@ -305,8 +363,12 @@ async function main() {
   rl.close();
 }
 
-async function generateKeys() {
+async function generateKeys(keystore) {
   console.log('');
+  if (keystore.has(KEY_NAME)) {
+    console.log(`  Keystore already has a key named "${KEY_NAME}". Set VAP_KEY_NAME to create another.\n`);
+    return;
+  }
   const network = await ask('  Network (verustest/verus) [verustest]: ');
   const net = validateNetwork(network.trim() || 'verustest');
   if (!net) return;
@@ -318,47 +380,49 @@ async function generateKeys() {
   console.log('  ╠═══════════════════════════════════════╣');
   console.log(`  ║  Address: ${keys.address}`);
   console.log(`  ║  Pubkey:  ${keys.pubkey}`);
-  console.log(`  ║  WIF:     ${keys.wif.substring(0, 4)}...${keys.wif.slice(-4)}  (full key saved to file)`);
+  console.log(`  ║  WIF:     ${keys.wif.substring(0, 4)}...${keys.wif.slice(-4)}  (full key saved encrypted)`);
   console.log('  ╠═══════════════════════════════════════╣');
-  console.log('  ║  ⚠️  SAVE YOUR WIF KEY!               ║');
-  console.log('  ║  It cannot be recovered if lost.      ║');
-  console.log('  ║  Full key is in .vap-keys.json        ║');
+  console.log('  ║  ⚠️  REMEMBER YOUR PASSPHRASE!        ║');
+  console.log('  ║  The key cannot be recovered without  ║');
+  console.log('  ║  it. Stored in .vap-keystore.json     ║');
   console.log('  ╚═══════════════════════════════════════╝');
   console.log('');
 
   const save = await ask('  Save keys locally? (y/n) [y]: ');
   if (save.trim().toLowerCase() !== 'n') {
-    fs.writeFileSync(KEYS_FILE, JSON.stringify({ ...keys, network: net }, null, 2));
-    fs.chmodSync(KEYS_FILE, 0o600);
-    console.log(`  ✓ Keys saved to ${KEYS_FILE} (chmod 600)`);
+    const passphrase = await getPassphrase(true);
+    keystore.add(KEY_NAME, keys.wif, passphrase, { network: net });
+    console.log(`  ✓ Keys saved encrypted to ${KEYSTORE_FILE} as "${KEY_NAME}" (chmod 600)`);
     console.log('');
   }
 }
 
-async function registerAgent(apiUrl, savedKeys) {
+async function registerAgent(apiUrl, keystore, savedKeys) {
   console.log('');
 
   // Show field rules before collecting input
   printFieldRules();
 
   let keys = savedKeys;
-  if (!keys || !keys.wif) {
+  let passphrase;
+  if (!keys) {
     console.log('  No keys found. Generating new keypair...');
     const network = await ask('  Network (verustest/verus) [verustest]: ');
     const net = validateNetwork(network.trim() || 'verustest');
     if (!net) return;
-    keys = generateKeypair(net);
-    keys.network = net;
+    const generated = generateKeypair(net);
 
-    console.log(`  Address: ${keys.address}`);
-    console.log(`  WIF:     ${keys.wif.substring(0, 4)}...${keys.wif.slice(-4)}  (saved to ${KEYS_FILE})`);
-    console.log(`  Pubkey:  ${keys.pubkey}`);
+    console.log(`  Address: ${generated.address}`);
+    console.log(`  WIF:     ${generated.wif.substring(0, 4)}...${generated.wif.slice(-4)}  (saved encrypted to ${KEYSTORE_FILE})`);
+    console.log(`  Pubkey:  ${generated.pubkey}`);
     console.log('');
 
-    fs.writeFileSync(KEYS_FILE, JSON.stringify(keys, null, 2));
-    fs.chmodSync(KEYS_FILE, 0o600);
-    console.log(`  ✓ Keys saved to ${KEYS_FILE}`);
+    passphrase = await getPassphrase(true);
+    keys = keystore.add(KEY_NAME, generated.wif, passphrase, { network: net });
+    console.log(`  ✓ Keys saved to ${KEYSTORE_FILE} as "${KEY_NAME}"`);
     console.log('');
+  } else {
+    passphrase = await getPassphrase(false);
   }
 
   // Collect full agent profile
@@ -378,7 +442,11 @@ async function registerAgent(apiUrl, savedKeys) {
   console.log('  This may take several minutes (waiting for block confirmation).');
   console.log('');
 
-  const agent = new VAPAgent({ vapUrl: apiUrl, wif: keys.wif, network: keys.network || 'verustest' });
+  const agent = new VAPAgent({
+    vapUrl: apiUrl,
+    keystore: { keystore, name: KEY_NAME, passphrase },
+    network: keys.network || 'verustest',
+  });
 
   try {
     // Step 1: On-chain identity registration
@@ -393,9 +461,7 @@ async function registerAgent(apiUrl, savedKeys) {
     console.log('');
 
     // Update saved keys with identity
-    keys.identity = `${trimmed}.agentplatform@`;
-    if (result.iAddress) keys.iAddress = result.iAddress;
-    fs.writeFileSync(KEYS_FILE, JSON.stringify(keys, null, 2));
+    keystore.setIdentity(KEY_NAME, `${trimmed}.agentplatform@`, result.iAddress);
 
     // Canary protection
     const enableCanary = (await ask('  Enable canary token protection? (Y/n): ')).trim().toLowerCase();
@@ -434,7 +500,7 @@ async function registerAgent(apiUrl, savedKeys) {
   }
 }
 
-async function updateAgentProfile(apiUrl, savedKeys) {
+async function updateAgentProfile(apiUrl, keystore, savedKeys) {
   console.log('');
 
   if (!savedKeys || !savedKeys.identity) {
@@ -442,11 +508,6 @@ async function updateAgentProfile(apiUrl, savedKeys) {
     return;
   }
 
-  if (!savedKeys.wif) {
-    console.log('  No WIF key found. Cannot authenticate.\n');
-    return;
-  }
-
   // Show field rules
   printFieldRules();
 
@@ -460,11 +521,10 @@ async function updateAgentProfile(apiUrl, savedKeys) {
   console.log('  ── Services ──\n');
   const services = await collectServices();
 
+  const passphrase = await getPassphrase(false);
   const agent = new VAPAgent({
     vapUrl: apiUrl,
-    wif: savedKeys.wif,
-    identityName: savedKeys.identity,
-    iAddress: savedKeys.iAddress,
+    keystore: { keystore, name: KEY_NAME, passphrase },
     network: savedKeys.network || 'verustest',
   });
 
@@ -498,7 +558,92 @@ async function updateAgentProfile(apiUrl, savedKeys) {
   }
 }
 
-function showKeys(savedKeys) {
+async function rotateKey(apiUrl, keystore, savedKeys) {
+  console.log('');
+  if (!savedKeys.identity) {
+    console.log('  No registered identity found. Register first (option 2).\n');
+    return;
+  }
+  const nextName = `${KEY_NAME}.next`;
+  const retiredName = `${KEY_NAME}.retired`;
+  if (keystore.has(nextName) || keystore.has(retiredName)) {
+    console.log(`  Keystore still has "${nextName}" or "${retiredName}" from an earlier rotation — remove it first.\n`);
+    return;
+  }
+
+  console.log(`  Replaces the primary key of ${savedKeys.identity} (${savedKeys.address}) with a new one.`);
+  console.log('  Funds at the current address stay there and remain spendable with the old key.');
+  const confirm = await ask('  Continue? (y/N): ');
+  if (confirm.trim().toLowerCase() !== 'y') return;
+
+  const passphrase = await getPassphrase(false);
+  const network = savedKeys.network || 'verustest';
+  const next = generateKeypair(network);
+  // Save the new key before it becomes the only one that controls the identity
+  keystore.add(nextName, next.wif, passphrase, { network, identity: savedKeys.identity, iAddress: savedKeys.iAddress });
+
+  const agent = new VAPAgent({
+    vapUrl: apiUrl,
+    keystore: { keystore, name: KEY_NAME, passphrase },
+    network,
+  });
+
+  try {
+    console.log(`  New address: ${next.address}`);
+    console.log('  Authenticating and broadcasting the update (waits for confirmation)...');
+    await agent.authenticate();
+    const { txid } = await agent.rotateKey(next.wif);
+
+    // New key becomes the default entry; the old one is kept for the funds at its address
+    const oldWif = keystore.unlock(KEY_NAME, passphrase);
+    keystore.add(retiredName, oldWif, passphrase, { network });
+    keystore.remove(KEY_NAME);
+    keystore.add(KEY_NAME, next.wif, passphrase, { network, identity: savedKeys.identity, iAddress: savedKeys.iAddress });
+    keystore.remove(nextName);
+
+    console.log(`  ✅ Key rotated: ${txid}`);
+    console.log(`  ✓ New key saved as "${KEY_NAME}", old key kept as "${retiredName}"`);
+    console.log('');
+  } catch (e) {
+    console.error(`  ❌ ${e.message}`);
+    console.log(`  The new key is kept as "${nextName}" in case the update confirms later.`);
+    console.log('');
+  }
+}
+
+async function revokeIdentity(apiUrl, keystore, savedKeys) {
+  console.log('');
+  if (!savedKeys.identity) {
+    console.log('  No registered identity found.\n');
+    return;
+  }
+  console.log(`  Revokes ${savedKeys.identity}: it can't sign or log in until its recovery authority recovers it.`);
+  console.log('  Signed with this key, so this identity must be its own revocation authority.');
+  const confirm = await ask('  Type the identity name to confirm: ');
+  if (confirm.trim() !== savedKeys.identity) {
+    console.log('  Cancelled.\n');
+    return;
+  }
+
+  const passphrase = await getPassphrase(false);
+  const agent = new VAPAgent({
+    vapUrl: apiUrl,
+    keystore: { keystore, name: KEY_NAME, passphrase },
+    network: savedKeys.network || 'verustest',
+  });
+
+  try {
+    await agent.authenticate();
+    const txid = await agent.revokeIdentity();
+    console.log(`  ✅ Identity revoked: ${txid}`);
+    console.log('');
+  } catch (e) {
+    console.error(`  ❌ ${e.message}`);
+    console.log('');
+  }
+}
+
+function showKeys(keystore, savedKeys) {
   console.log('');
   if (!savedKeys) {
     console.log('  No keys found. Generate keys first (option 1).\n');
@@ -506,10 +651,12 @@ function showKeys(savedKeys) {
   }
   console.log(`  Address:  ${savedKeys.address || '(missing)'}`);
   console.log(`  Pubkey:   ${savedKeys.pubkey || '(missing)'}`);
-  console.log(`  WIF:      ${savedKeys.wif ? `${savedKeys.wif.substring(0, 4)}...${savedKeys.wif.slice(-4)}  (full key in ${KEYS_FILE})` : '(missing)'}`);
+  console.log(`  WIF:      (encrypted in ${KEYSTORE_FILE} as "${KEY_NAME}")`);
   console.log(`  Network:  ${savedKeys.network || 'verustest'}`);
   if (savedKeys.identity) console.log(`  Identity: ${savedKeys.identity}`);
   if (savedKeys.iAddress) console.log(`  i-Address: ${savedKeys.iAddress}`);
+  const others = keystore.names.filter(n => n !== KEY_NAME);
+  if (others.length) console.log(`  Other keys: ${others.join(', ')} (select with VAP_KEY_NAME)`);
   console.log('');
 }
 
@@ -15,12 +15,13 @@
  */
 
 import { EventEmitter } from 'node:events';
-import { VAPClient } from './client/index.js';
+import { VAPClient, isNotFound } from './client/index.js';
 import { generateKeypair, keypairFromWIF, type Keypair } from './identity/keypair.js';
-import { signMessage } from './identity/signer.js';
-import { ChatClient, type IncomingMessage, type SessionEndingEvent, type SessionExpiringEvent, type JobStatusChangedEvent, type ReviewReceivedEvent } from './chat/client.js';
+import { unlockKeystoreRef, type KeystoreRef } from './identity/keystore.js';
+import { isSigner, signerAddress, signMessage, type Signer } from './identity/signer.js';
+import { ChatClient, type IncomingMessage, type SessionEndingEvent, type SessionExpiringEvent, type JobStatusChangedEvent, type ReviewReceivedEvent, type JobRequestedEvent } from './chat/client.js';
 import type { JobHandler, JobHandlerConfig } from './jobs/types.js';
-import type { Job } from './client/index.js';
+import type { Job, JobExtension, JobMilestone, MilestoneInput } from './client/index.js';
 import type { SessionInput } from './onboarding/finalize.js';
 import { buildAgentContentMultimap, buildUpdateIdentityPayload } from './onboarding/vdxf.js';
 import type { PrivacyTier } from './privacy/tiers.js';
@@ -30,8 +31,64 @@ import type { JobCategory } from './pricing/tables.js';
 import { generateCanary, checkForCanaryLeak, type CanaryConfig } from './safety/canary.js';
 import { randomUUID } from 'node:crypto';
 import { canonicalize } from 'json-canonicalize';
-import { buildIdentityUpdateTx } from './identity/update.js';
-import { VDXF_KEYS, encodeVdxfValue } from './onboarding/vdxf.js';
+import {
+  buildIdentityUpdateTx,
+  buildRecoverIdentityTx,
+  buildRevokeIdentityTx,
+  createPartialIdentityUpdate,
+  estimateIdentityUpdateFee,
+  isIdentityRevoked,
+  MAX_IDENTITY_SCRIPT_SIZE,
+  multisigPrimaries,
+  previewIdentityUpdate,
+  type IdentityUpdateParams,
+  type IdentityUpdatePreview,
+} from './identity/update.js';
+import {
+  applyContentMultimapPatch,
+  normalizeContentMultimap,
+  type ContentMultimapDiff,
+  type ContentMultimapPatch,
+} from './identity/content-patch.js';
+import {
+  appendReviewPatch,
+  buildReviewProof,
+  planReviewCompaction,
+  reviewsFromContentMultimap,
+  type ArchivedReview,
+  type ReviewAggregate,
+  type ReviewArchiveStore,
+  type ReviewCompaction,
+  type ReviewField,
+  type ReviewProof,
+} from './identity/review-archive.js';
+import { buildConsolidation, estimateConsolidationFee } from './tx/payment.js';
+import { keyAddress, keyParams } from './tx/signing.js';
+import {
+  finalizePartialTransaction,
+  signPartialTransaction,
+  type PartialTransaction,
+} from './tx/partial.js';
+import { feeRateFromChainInfo, type FeePolicy } from './tx/fees.js';
+import { CHANGE_DUST, type CoinSelectionStrategy } from './tx/coin-selection.js';
+import type { RawIdentityData, Utxo } from './client/index.js';
+import { UtxoManager, type ChangeOutput, type UtxoManagerOptions, type UtxoReservation } from './tx/utxo-manager.js';
+import { TxTracker, type TxTrackerOptions, type WaitForConfirmationOptions } from './tx/tracker.js';
+import type { TxStatus } from './client/index.js';
+import { VDXF_KEYS, decodeVdxfValue, encodeVdxfValue } from './onboarding/vdxf.js';
+import { buildAcceptMessage, buildDeactivateMessage, buildDisputeMessage } from './signing/messages.js';
+import { evaluateAutoAccept } from './jobs/auto-accept.js';
+import { MemoryJobStore, type JobStore } from './jobs/store.js';
+import { runDelivery, DeliveryError, type DeliveryOutput, type DeliveryResult } from './jobs/delivery.js';
+import { WebhookReceiver, type WebhookEvent } from './jobs/webhook.js';
+import { StatusReconciler, type StatusTransition } from './jobs/reconciler.js';
+import { JobQueue } from './jobs/queue.js';
+import { DeadlineScheduler } from './jobs/deadlines.js';
+import { ExtensionTracker } from './jobs/extensions.js';
+import { VAPBuyer } from './buyer.js';
+import { PaymentWatcher, requiresPayment } from './jobs/payments.js';
+import { MilestoneTracker, isSplitPayment, validateMilestones } from './jobs/milestones.js';
+import { verifyJobSignatures, type JobSignatureReport, type SignerResolver, type VerifyJobSignaturesOptions } from './jobs/signatures.js';
 
 /** Default request timeout for raw fetch calls (ms) */
 const FETCH_TIMEOUT = 30_000;
@@ -39,11 +96,18 @@ const FETCH_TIMEOUT = 30_000;
 /** Minimum allowed polling interval (ms) */
 const MIN_POLL_INTERVAL = 5_000;
 
+/** Default fallback polling interval while webhooks deliver job events (ms) */
+const DEFAULT_RECONCILE_INTERVAL = 300_000;
+
 export interface VAPAgentConfig {
   /** VAP API base URL */
   vapUrl: string;
   /** WIF private key (omit to generate new keypair) */
   wif?: string;
+  /** Encrypted keystore entry to load the WIF from instead of `wif` */
+  keystore?: KeystoreRef;
+  /** Signer holding the key instead of `wif` (e.g. a RemoteSigner, so this process never sees it) */
+  signer?: Signer;
   /** Identity name (e.g. myagent.agentplatform@) */
   identityName?: string;
   /** i-address */
@@ -52,15 +116,78 @@ export interface VAPAgentConfig {
   handler?: JobHandler;
   /** Job handler config */
   jobConfig?: JobHandlerConfig;
+  /** Where job decisions are persisted (default: in-memory, lost on restart) */
+  jobStore?: JobStore;
+  /** UTXO cache, coin selection and dust settings shared by all transactions the agent builds */
+  utxo?: UtxoManagerOptions;
+  /** Fee rate (sat/byte, or 'chain' for the node's relay fee), floor and cap for transactions the agent builds */
+  fees?: AgentFeeConfig;
+  /** Archive older reviews off-chain so the identity stays small (see compactReviews()) */
+  reviewArchive?: ReviewArchiveConfig;
+  /** Confirmation tracking for transactions the agent broadcasts */
+  txTracking?: TxTrackerOptions & {
+    /** How long identity updates wait for their confirmation in ms (default: 1800000) */
+    timeout?: number;
+  };
   network?: 'verus' | 'verustest';
 }
 
+export interface AgentFeeConfig extends Omit<FeePolicy, 'feeRate'> {
+  /** Satoshis per byte, or 'chain' to use the relay/wallet fee from getChainInfo() (default: 10) */
+  feeRate?: number | 'chain';
+}
+
+export interface ReviewArchiveConfig {
+  /** VDXF key (i-address) the review aggregate is stored under */
+  aggregateKey: string;
+  /** Where archived reviews are kept — they can't be recovered from the chain */
+  store: ReviewArchiveStore;
+  /**
+   * Reviews kept on-chain after a compaction (default: 10). acceptReview() keeps
+   * fewer when that many would still leave the script over `compactAtScriptSize`.
+   */
+  keep?: number;
+  /**
+   * acceptReview() compacts once the identity script would grow past this many
+   * bytes (default: 80% of MAX_IDENTITY_SCRIPT_SIZE, about 16 reviews on a bare identity)
+   */
+  compactAtScriptSize?: number;
+}
+
+/** Default number of reviews a compaction keeps on-chain */
+const DEFAULT_REVIEWS_KEPT = 10;
+
+/** Default script size at which acceptReview() compacts, leaving room below the hard limit */
+const DEFAULT_COMPACT_AT_SCRIPT_SIZE = Math.floor(MAX_IDENTITY_SCRIPT_SIZE * 0.8);
+
+/** What an identity update changes: content, authorities or primary keys */
+export type IdentityChanges = Pick<
+  IdentityUpdateParams,
+  'vdxfAdditions' | 'patch' | 'revocationauthority' | 'recoveryauthority' | 'primaryaddresses' | 'minimumsignatures'
+>;
+
+/** Who signs a revocation or recovery, and what pays for it */
+export interface IdentityAuthorityOptions {
+  /**
+   * Primary key of the revocation / recovery authority (default: the agent's
+   * own key, when the identity is its own authority)
+   */
+  authorityKey?: string | Signer;
+  /** UTXOs of the authority key's address for the fee (required with `authorityKey`) */
+  utxos?: Utxo[];
+  /** Current identity data (default: fetched with the agent's session, which a revoked identity may not have) */
+  identityData?: RawIdentityData;
+}
+
+/** How long a fee rate read from getChainInfo() is reused (ms) */
+const CHAIN_FEE_TTL = 10 * 60 * 1000;
+
 export class VAPAgent extends EventEmitter {
   private readonly _client: VAPClient;
-  private keypair: Keypair | null = null;
   private identityName: string | null;
   private iAddress: string | null;
-  private wif: string | null;
+  /** WIF or Signer everything is signed with */
+  private key: string | Signer | null;
   private handler: JobHandler | null;
   private jobConfig: JobHandlerConfig;
   private networkType: 'verus' | 'verustest' = 'verustest';
@@ -71,7 +198,32 @@ export class VAPAgent extends EventEmitter {
   private vapUrl: string;
   private canaryConfig: CanaryConfig | null = null;
   private polling = false;
-  private seenJobIds = new Set<string>();
+  private jobStore: JobStore;
+  /** Jobs currently going through onJobRequested (poll and webhook may race) */
+  private processingJobs = new Set<string>();
+  private webhookReceiver: WebhookReceiver | null = null;
+  private reconciler: StatusReconciler;
+  private queue: JobQueue;
+  private deadlines: DeadlineScheduler;
+  private extensions: ExtensionTracker;
+  private payments: PaymentWatcher;
+  private milestones: MilestoneTracker;
+  private paymentTimer: ReturnType<typeof setInterval> | null = null;
+  /** Prepay jobs whose payment is not confirmed yet */
+  private awaitingPayment = new Set<string>();
+  private utxoManager: UtxoManager;
+  private utxoOptions: UtxoManagerOptions | undefined;
+  private feeConfig: AgentFeeConfig;
+  private reviewArchive: ReviewArchiveConfig | null;
+  private txTracker: TxTracker;
+  private confirmationTimeout: number;
+  /** Tail of the identity update chain — see lockIdentity() */
+  private identityLock: Promise<void> = Promise.resolve();
+  /** Review updates broadcast but not yet accepted in the inbox, by inbox id */
+  private reviewTxids = new Map<string, string>();
+  /** Fee inputs of partial transactions this agent proposed, by unsigned tx hex */
+  private partialReservations = new Map<string, { reservation: UtxoReservation; change: ChangeOutput | null }>();
+  private chainFeeRate: { rate: number; at: number } | null = null;
   private loginPromise: Promise<string> | null = null;
 
   constructor(config: VAPAgentConfig) {
@@ -87,12 +239,90 @@ export class VAPAgent extends EventEmitter {
       console.log('[VAP Agent] Session expired, re-authenticating...');
       await this.login();
     });
-    this.wif = config.wif || null;
-    this.identityName = config.identityName || null;
-    this.iAddress = config.iAddress || null;
+    if ([config.wif, config.keystore, config.signer].filter(Boolean).length > 1) {
+      throw new Error('Provide only one of wif, keystore or signer');
+    }
+    const stored = config.keystore ? unlockKeystoreRef(config.keystore) : null;
+    this.key = config.signer || config.wif || stored?.wif || null;
+    this.identityName = config.identityName || stored?.entry.identity || null;
+    this.iAddress = config.iAddress || stored?.entry.iAddress || null;
     this.handler = config.handler || null;
     this.jobConfig = config.jobConfig || { pollInterval: 30_000 };
-    this.networkType = config.network || 'verustest';
+    this.networkType = config.network || stored?.entry.network || 'verustest';
+    this.jobStore = config.jobStore || new MemoryJobStore();
+    this.utxoOptions = config.utxo;
+    this.utxoManager = new UtxoManager(this._client, config.utxo);
+    this.feeConfig = config.fees || {};
+    this.reviewArchive = config.reviewArchive || null;
+    this.txTracker = new TxTracker(this._client, config.txTracking);
+    this.confirmationTimeout = config.txTracking?.timeout ?? 30 * 60 * 1000;
+    for (const event of ['tx:confirmed', 'tx:reorged', 'tx:rebroadcast', 'tx:dropped']) {
+      this.txTracker.on(event, (data) => this.emit(event, data));
+    }
+    // Spent inputs stay excluded until their transaction confirms or is dropped (switchKey replaces the manager)
+    this.txTracker.on('tx:confirmed', (status: TxStatus) => this.utxoManager.confirmed(status.txid));
+    this.txTracker.on('tx:dropped', (event: { txid: string }) => this.utxoManager.dropped(event.txid));
+    this.reconciler = new StatusReconciler(this._client, this.jobStore, (t) => this.dispatchTransition(t));
+    this.reconciler.onError = (err) => this.emit('error', err);
+    this.queue = new JobQueue({
+      maxConcurrentJobs: this.jobConfig.maxConcurrentJobs,
+      maxQueuedJobs: this.jobConfig.maxQueuedJobs,
+      perServiceLimits: this.jobConfig.perServiceLimits,
+    });
+    this.queue.onChange = (stats) => this.emit('queue:depth', stats);
+    this.deadlines = new DeadlineScheduler(this.jobConfig.deadlines || {}, {
+      approaching: (event) => this.emit('job:deadlineApproaching', event),
+      missed: (event) => this.emit('job:deadlineMissed', event),
+      extend: async (jobId, amount, reason) => {
+        await this.requestExtension(jobId, amount, reason);
+      },
+      deliver: async (jobId) => {
+        console.log(`[VAP Agent] Deadline close for job ${jobId} — delivering the job...`);
+        await this.deliver(jobId);
+      },
+      error: (err) => this.emit('error', err),
+    });
+    this.payments = new PaymentWatcher(this._client, this.jobConfig.payments);
+    this.milestones = new MilestoneTracker(this._client, this.jobStore, {
+      paid: async (job, milestone, tx) => {
+        this.emit('job:milestonePaid', { jobId: job.id, milestone, tx });
+        if (this.handler?.onMilestonePaid) {
+          await this.handler.onMilestonePaid(job, milestone);
+        }
+      },
+      paymentProblem: (job, milestone, problem) => {
+        console.warn(`[VAP Agent] Payment for milestone ${milestone.index} of job ${job.id} not accepted: ${problem}`);
+      },
+    }, {
+      minConfirmations: this.jobConfig.milestoneConfirmations,
+      getTransaction: this.jobConfig.payments?.getTransaction,
+      addresses: () => this.paymentAddresses(),
+    });
+    this.extensions = new ExtensionTracker(this._client, this.jobStore, {
+      requested: async (job, extension) => {
+        this.emit('job:extensionRequested', { jobId: job.id, extension, requestedBy: 'buyer' });
+        const decision = this.handler?.onExtensionRequested
+          ? await this.handler.onExtensionRequested(job, extension)
+          : 'hold';
+        if (decision === 'approve') this.emit('job:extensionApproved', { jobId: job.id, extension });
+        else if (decision === 'reject') this.emit('job:extensionRejected', { jobId: job.id, extension });
+        return decision;
+      },
+      paid: async (job, extension, tx) => {
+        this.emit('job:extensionPaid', { jobId: job.id, extension, tx });
+        if (this.handler?.onExtensionPaid) {
+          await this.handler.onExtensionPaid(job, extension);
+        }
+      },
+      paymentProblem: (job, extension, problem) => {
+        console.warn(`[VAP Agent] Payment for extension ${extension.id} of job ${job.id} not accepted: ${problem}`);
+      },
+    }, {
+      minConfirmations: this.jobConfig.extensionConfirmations,
+      self: () => [this.identityName, this.iAddress],
+      getTransaction: this.jobConfig.payments?.getTransaction,
+      addresses: () => this.paymentAddresses(),
+    });
 
     // Prevent uncaught 'error' events from crashing the process.
     // Only log if no user-provided listener is registered.
@@ -113,13 +343,23 @@ export class VAPAgent extends EventEmitter {
 
   /**
    * Generate a new keypair for this agent.
-   * Call this before register() if no WIF was provided.
+   * Call this before register() if no WIF, keystore or signer was provided.
    */
   generateKeys(network?: 'verus' | 'verustest'): Keypair {
     const net = network || this.networkType;
-    this.keypair = generateKeypair(net);
-    this.wif = this.keypair.wif;
-    return this.keypair;
+    const keypair = generateKeypair(net);
+    this.key = keypair.wif;
+    return keypair;
+  }
+
+  /** Address and public key of the signing key */
+  private async ownKey(network: 'verus' | 'verustest' = this.networkType): Promise<{ address: string; pubkey: string }> {
+    if (!this.key) throw new Error('Signing key required');
+    if (!isSigner(this.key)) {
+      const { address, pubkey } = keypairFromWIF(this.key, network);
+      return { address, pubkey };
+    }
+    return { address: await signerAddress(this.key, network), pubkey: await this.key.getPublicKey() };
   }
 
   /**
@@ -139,7 +379,7 @@ export class VAPAgent extends EventEmitter {
   }
 
   private async _loginImpl(): Promise<string> {
-    if (!this.wif) throw new Error('WIF key required');
+    if (!this.key) throw new Error('Signing key required');
     if (!this.identityName) throw new Error('Identity name required');
 
     const challengeRes = await this._client.getAuthChallenge();
@@ -153,7 +393,7 @@ export class VAPAgent extends EventEmitter {
       }
     }
 
-    const signature = signMessage(this.wif, challengeRes.challenge, this.networkType);
+    const signature = await signMessage(this.key, challengeRes.challenge, this.networkType);
 
     const controller = new AbortController();
     const timer = setTimeout(() => controller.abort(), FETCH_TIMEOUT);
@@ -226,13 +466,11 @@ export class VAPAgent extends EventEmitter {
     const previousNetwork = this.networkType;
     this.networkType = network;
     try {
-    if (!this.keypair && this.wif) {
-      this.keypair = keypairFromWIF(this.wif, network);
-    } else if (!this.keypair) {
+    if (!this.key) {
       this.generateKeys(network);
     }
 
-    const kp = this.keypair!;
+    const kp = await this.ownKey(network);
 
     console.log(`[VAP Agent] Registering "${name}.agentplatform@"...`);
 
@@ -254,7 +492,7 @@ export class VAPAgent extends EventEmitter {
     // (the local verification expects this format, not legacy signMessage)
     // Onboarding challenge uses R-address message verification path on server.
     // Use legacy signMessage here; keep signChallenge for identity/i-address flows.
-    const signature = signMessage(this.wif!, challenge, network);
+    const signature = await signMessage(this.key!, challenge, network);
     console.log(`[VAP Agent] Challenge signed. Submitting registration...`);
 
     // Step 3: Submit with signature
@@ -348,13 +586,8 @@ export class VAPAgent extends EventEmitter {
     /** Set to false to disable automatic canary token registration (default: true) */
     canary?: boolean;
   }): Promise<{ agentId: string }> {
-    if (!this.wif) {
-      throw new Error('WIF key required for registration');
-    }
-
-    // Ensure keypair is derived when agent is instantiated from existing WIF
-    if (!this.keypair) {
-      this.keypair = keypairFromWIF(this.wif, this.networkType);
+    if (!this.key) {
+      throw new Error('Signing key required for registration');
     }
 
     if (!this.identityName) {
@@ -380,7 +613,7 @@ export class VAPAgent extends EventEmitter {
     };
 
     const message = canonicalize(payload);
-    const regSignature = signMessage(this.wif, message, this.networkType);
+    const regSignature = await signMessage(this.key, message, this.networkType);
 
     let isAlreadyRegistered = false;
     let agentIdResult = '';
@@ -445,6 +678,26 @@ export class VAPAgent extends EventEmitter {
     }
   }
 
+  /**
+   * Deactivate this agent on the platform with a signed deactivation message.
+   * PROPOSED: signs the SDK's deactivation format, which the platform is not
+   * known to verify; the call fails if the platform rejects the signature.
+   *
+   * @param agentId - Platform agent ID (default: the identity name)
+   */
+  async deactivate(agentId?: string): Promise<{ id: string; status: string; message: string }> {
+    if (!this.key || !this.identityName) {
+      throw new Error('Signing key and identity name required to deactivate the agent');
+    }
+    const timestamp = Math.floor(Date.now() / 1000);
+    const message = buildDeactivateMessage({ verusId: this.identityName, timestamp });
+    const signature = await signMessage(this.key, message, this.networkType);
+    const result = await this._client.deactivateAgent(agentId || this.identityName, this.identityName, signature, timestamp);
+    console.log(`[VAP Agent] Agent deactivated: ${this.identityName}`);
+    this.emit('agent:deactivated', result);
+    return result;
+  }
+
   /**
    * Register a service offering.
    * Must be called after registerWithVAP().
@@ -470,6 +723,81 @@ export class VAPAgent extends EventEmitter {
     return result;
   }
 
+  /** UTXO manager shared by the agent's payments and identity updates */
+  get utxos(): UtxoManager {
+    return this.utxoManager;
+  }
+
+  /** Confirmation tracker for transactions the agent broadcasts (emits tx:* events) */
+  get transactions(): TxTracker {
+    return this.txTracker;
+  }
+
+  /**
+   * Wait until a transaction has enough confirmations. Re-broadcasts it if it
+   * disappears and raw hex is known (always the case for the agent's own transactions).
+   *
+   * @param options.confirmations - Confirmations required (default: txTracking.confirmations or 1)
+   * @param options.timeout - Give up after this many ms (default: txTracking.timeout or 30 minutes)
+   * @throws Error when the transaction is dropped or the timeout passes
+   */
+  waitForConfirmation(txid: string, options: WaitForConfirmationOptions = {}): Promise<TxStatus> {
+    return this.txTracker.wait(txid, { timeout: this.confirmationTimeout, ...options });
+  }
+
+  /**
+   * Merge dust UTXOs into one output so later transactions need fewer inputs.
+   *
+   * @param options.threshold - UTXOs below this many satoshis are merged (default: the manager's dustThreshold)
+   * @param options.maxInputs - Maximum inputs in one consolidation (default: 50)
+   * @returns Transaction ID, or null when there was nothing to consolidate
+   */
+  async consolidateDust(options: { threshold?: number; maxInputs?: number } = {}): Promise<string | null> {
+    if (!this.key) {
+      throw new Error('Signing key required to consolidate UTXOs');
+    }
+    const fees = await this.feePolicy();
+    const reservation = await this.utxoManager.reserveDust(options);
+    if (!reservation) return null;
+
+    try {
+      if (reservation.total - estimateConsolidationFee({ utxos: reservation.utxos, ...fees }).fee <= CHANGE_DUST) {
+        reservation.release();
+        return null;
+      }
+      const { rawhex, satoshis } = await buildConsolidation({ ...keyParams(this.key), utxos: reservation.utxos, network: this.networkType, ...fees });
+      const { txid } = await this._client.broadcast(rawhex);
+      reservation.commit(txid, { vout: 0, satoshis });
+      this.txTracker.track(txid, { rawhex });
+      console.log(`[VAP Agent] ✅ Consolidated ${reservation.utxos.length} UTXOs: ${txid}`);
+      this.emit('utxo:consolidated', { txid, inputs: reservation.utxos.length, satoshis });
+      return txid;
+    } catch (err) {
+      reservation.release();
+      throw err;
+    }
+  }
+
+  /**
+   * Buyer role for this agent: hire other agents with the same session, key and network.
+   */
+  buyer(): VAPBuyer {
+    if (!this.key || !this.identityName) {
+      throw new Error('Signing key and identity name required to act as a buyer');
+    }
+    const buyer = new VAPBuyer({
+      client: this._client,
+      utxos: this.utxoManager,
+      ...keyParams(this.key),
+      identityName: this.identityName,
+      network: this.networkType,
+      fees: () => this.feePolicy(),
+    });
+    // Track its payments so their inputs are released in the shared UTXO manager
+    buyer.on('buyer:broadcast', ({ txid }: { txid: string }) => this.txTracker.track(txid));
+    return buyer;
+  }
+
   /**
    * Set the job handler (how your agent responds to jobs).
    */
@@ -479,7 +807,11 @@ export class VAPAgent extends EventEmitter {
 
   /**
    * Start listening for jobs.
-   * Uses polling by default — webhook and websocket support coming.
+   * Uses polling by default. With `notificationMethod: 'webhook'` an HTTP receiver
+   * handles job events and polling continues as a slow fallback reconciler.
+   * With `notificationMethod: 'websocket'` job events arrive over SafeChat;
+   * getMyJobs() runs on reconnect to catch up and on a timer (pollInterval unless
+   * reconcileInterval is set), which stays the source of truth for new requests.
    */
   async start(): Promise<void> {
     if (this.running) return;
@@ -491,8 +823,42 @@ export class VAPAgent extends EventEmitter {
     // Prevent double-start race: set running before any async work
     this.running = true;
 
-    const interval = Math.max(this.jobConfig.pollInterval || 30_000, MIN_POLL_INTERVAL);
-    console.log(`[VAP Agent] Listening for jobs (polling every ${interval / 1000}s)...`);
+    // Restore job decisions from previous runs before the first poll
+    try {
+      await this.jobStore.load();
+    } catch (err) {
+      this.running = false;
+      throw err;
+    }
+    // Jobs in progress before a restart keep their queue slots and deadlines
+    await this.restoreActiveJobs();
+
+    const useWebhook = this.jobConfig.notificationMethod === 'webhook';
+    const useWebsocket = this.jobConfig.notificationMethod === 'websocket';
+    try {
+      if (useWebhook) {
+        await this.startWebhookReceiver();
+      } else if (useWebsocket && !this.chatClient?.isConnected) {
+        await this.connectChat();
+      }
+    } catch (err) {
+      this.running = false;
+      throw err;
+    }
+
+    // job_requested is a proposed socket event, so websocket mode keeps polling at pollInterval unless told otherwise
+    const interval = useWebhook
+      ? Math.max(this.jobConfig.reconcileInterval || DEFAULT_RECONCILE_INTERVAL, MIN_POLL_INTERVAL)
+      : useWebsocket
+        ? Math.max(this.jobConfig.reconcileInterval || this.jobConfig.pollInterval || 30_000, MIN_POLL_INTERVAL)
+        : Math.max(this.jobConfig.pollInterval || 30_000, MIN_POLL_INTERVAL);
+    if (useWebhook) {
+      console.log(`[VAP Agent] Listening for jobs (webhook on port ${this.webhookReceiver!.port}, reconciling every ${interval / 1000}s)...`);
+    } else if (useWebsocket) {
+      console.log(`[VAP Agent] Listening for jobs over SafeChat (reconciling every ${interval / 1000}s)...`);
+    } else {
+      console.log(`[VAP Agent] Listening for jobs (polling every ${interval / 1000}s)...`);
+    }
 
     // Initial check (non-fatal — still start polling even if first check fails)
     try {
@@ -501,21 +867,48 @@ export class VAPAgent extends EventEmitter {
       this.emit('error', err instanceof Error ? err : new Error(String(err)));
     }
 
+    // Guard against stop() being called during the initial checkForJobs() await
+    if (!this.running) return;
+
+    // Push modes keep a slow poll: it also re-evaluates held jobs, extensions and milestones
+    this.startPolling(interval);
+    this.deadlines.start();
+    this.startPaymentChecks();
+
+    this.emit('started');
+  }
+
+  /**
+   * Reserve queue slots and track deadlines for jobs the store records as accepted
+   * or in progress. Live transitions do this for new jobs; after a restart with a
+   * persistent store those transitions were already recorded and are not dispatched again.
+   */
+  private async restoreActiveJobs(): Promise<void> {
+    const records = await this.jobStore.list();
+    for (const record of records) {
+      if (record.lastStatus !== 'accepted' && record.lastStatus !== 'in_progress') continue;
+      if (this.queue.has(record.jobId)) continue;
+      try {
+        const job = await this._client.getJob(record.jobId);
+        // Jobs that moved on while the agent was down are left to the reconciler
+        if (job.status !== 'accepted' && job.status !== 'in_progress') continue;
+        this.queue.reserve(job);
+        this.deadlines.track(job);
+      } catch (err) {
+        this.emit('error', new Error(`Could not restore job ${record.jobId}: ${err instanceof Error ? err.message : String(err)}`));
+      }
+    }
+  }
+
+  /** Run checkForJobs() on a timer (replaces a running timer) */
+  private startPolling(interval: number): void {
+    if (this.pollTimer) clearInterval(this.pollTimer);
     this.pollTimer = setInterval(() => {
       if (!this.running) return;
       this.checkForJobs().catch((err) => {
         this.emit('error', err instanceof Error ? err : new Error(String(err)));
       });
     }, interval);
-
-    // Guard against stop() being called during the initial checkForJobs() await
-    if (!this.running) {
-      clearInterval(this.pollTimer);
-      this.pollTimer = null;
-      return;
-    }
-
-    this.emit('started');
   }
 
   /**
@@ -527,7 +920,20 @@ export class VAPAgent extends EventEmitter {
       this.pollTimer = null;
     }
     this.running = false;
-    // Don't clear seenJobIds — persist across stop/start to avoid re-processing jobs
+    this.deadlines.stop();
+    this.txTracker.stop();
+    if (this.paymentTimer) {
+      clearInterval(this.paymentTimer);
+      this.paymentTimer = null;
+    }
+    if (this.webhookReceiver) {
+      const receiver = this.webhookReceiver;
+      this.webhookReceiver = null;
+      receiver.stop().catch((err) => {
+        this.emit('error', err instanceof Error ? err : new Error(String(err)));
+      });
+    }
+    // Job store is kept across stop/start to avoid re-processing jobs
     this.emit('stopped');
     console.log('[VAP Agent] Stopped.');
     this.chatClient?.disconnect();
@@ -558,8 +964,31 @@ export class VAPAgent extends EventEmitter {
     this.chatClient.onReconnectFailed = (err) => {
       this.emit('chat:reconnectFailed', err);
       this.emit('error', new Error(`Chat permanently disconnected: ${err.message}`));
+      // Websocket mode has no other source of job events — poll at the normal rate instead of the reconcile rate
+      if (this.running && this.jobConfig.notificationMethod === 'websocket') {
+        const interval = Math.max(this.jobConfig.pollInterval || 30_000, MIN_POLL_INTERVAL);
+        console.warn(`[VAP Agent] Falling back to polling every ${interval / 1000}s`);
+        this.startPolling(interval);
+      }
     };
 
+    // Events sent while disconnected are lost — catch up on reconnect
+    this.chatClient.onReconnect(async () => {
+      this.emit('chat:reconnected');
+      if (this.running && this.jobConfig.notificationMethod === 'websocket') {
+        await this.checkForJobs();
+      }
+    });
+
+    this.chatClient.onJobRequested(async (event: JobRequestedEvent) => {
+      if (!this.running) return;
+      try {
+        await this.handleRequestedJobEvent(event.jobId);
+      } catch (err) {
+        this.emit('error', err instanceof Error ? err : new Error(String(err)));
+      }
+    });
+
     this.chatClient.onMessage((msg) => {
       // Don't handle our own messages — check both iAddress and identityName independently
       if (msg.senderVerusId === this.iAddress || msg.senderVerusId === this.identityName) return;
@@ -598,23 +1027,13 @@ export class VAPAgent extends EventEmitter {
 
     this.chatClient.onSessionExpiring((event: SessionExpiringEvent) => {
       this.emit('session:expiring', event);
+      const expiresAt = event.expiresAt || Date.now() + event.remainingSeconds * 1000;
+      this.deadlines.setDeadline(event.jobId, expiresAt, 'session');
     });
 
     this.chatClient.onJobStatusChanged(async (event: JobStatusChangedEvent) => {
-      this.emit('job:statusChanged', event);
-      // Dispatch to relevant JobHandler hooks based on new status
-      if (!this.handler) return;
       try {
-        const job = await this._client.getJob(event.jobId);
-        if (event.status === 'in_progress' && this.handler.onJobStarted) {
-          await this.handler.onJobStarted(job);
-        } else if (event.status === 'completed' && this.handler.onJobCompleted) {
-          await this.handler.onJobCompleted(job);
-        } else if (event.status === 'disputed' && this.handler.onJobDisputed) {
-          await this.handler.onJobDisputed(job, 'Dispute raised');
-        } else if (event.status === 'cancelled' && this.handler.onJobCancelled) {
-          await this.handler.onJobCancelled(job, event.reason);
-        }
+        await this.handleStatusChange(event);
       } catch (err) {
         this.emit('error', err instanceof Error ? err : new Error(String(err)));
       }
@@ -673,13 +1092,176 @@ export class VAPAgent extends EventEmitter {
     this.chatClient.sendMessage(jobId, content);
   }
 
+  /**
+   * Deliver a job: uploads files, signs the delivery hash, and submits it.
+   * Uses `output` when given, otherwise asks JobHandler.onDeliver() for the deliverable.
+   * Safe to call again after a failure — finished uploads are skipped and
+   * an already-delivered job is not delivered twice.
+   *
+   * @throws DeliveryError with `retryable` set when a step fails
+   */
+  async deliver(jobId: string, output?: DeliveryOutput): Promise<DeliveryResult> {
+    if (!this.key || !this.iAddress) {
+      throw new Error(`Cannot deliver job ${jobId}: Signing key and i-address required`);
+    }
+    const key = this.key;
+
+    const job = await this._client.getJob(jobId);
+    if (job.status !== 'accepted' && job.status !== 'in_progress' && job.status !== 'delivered') {
+      throw new Error(`Job ${jobId} is in status '${job.status}' and cannot be delivered`);
+    }
+
+    try {
+      // Skip onDeliver() when an earlier attempt already finished
+      const record = await this.jobStore.get(jobId);
+      let deliverable = output;
+      if (!deliverable && !record?.deliveredAt) {
+        deliverable = this.handler?.onDeliver
+          ? await this.handler.onDeliver(job)
+          : { content: 'Session ended — work delivered automatically.' };
+      }
+
+      const result = await runDelivery(job, deliverable || { content: '' }, {
+        client: this._client,
+        store: this.jobStore,
+        sign: (message) => signMessage(key, message, this.networkType),
+      });
+      if (!result.alreadyDelivered) {
+        console.log(`[VAP Agent] ✅ Delivered job ${jobId} (${result.files.length} file(s))`);
+        this.emit('job:delivered', result);
+      }
+      // Free the queue slot now rather than when the 'delivered' status is observed
+      if (this.queue.release(jobId)) this.recheckHeldJobs();
+      return result;
+    } catch (err) {
+      const retryable = err instanceof DeliveryError ? err.retryable : false;
+      this.emit('job:deliveryFailed', { jobId, error: err, retryable });
+      throw err;
+    }
+  }
+
+  /**
+   * Declare the milestones of an accepted split-payment job.
+   * Tranches must add up to the job amount.
+   */
+  async declareMilestones(jobId: string, milestones: MilestoneInput[]): Promise<JobMilestone[]> {
+    const job = await this._client.getJob(jobId);
+    if (!isSplitPayment(job)) {
+      throw new Error(`Job ${jobId} does not use split payment terms`);
+    }
+    validateMilestones(job, milestones);
+    const declared = await this._client.setMilestones(jobId, milestones);
+    // An empty map marks the job for tranche checks
+    const record = await this.jobStore.get(jobId);
+    await this.jobStore.update(jobId, { milestones: record?.milestones || {} });
+    console.log(`[VAP Agent] Declared ${declared.length} milestone(s) for job ${jobId}`);
+    this.emit('job:milestonesDeclared', { jobId, milestones: declared });
+    return declared;
+  }
+
+  /**
+   * Deliver one milestone of a split-payment job. The delivery hash is signed
+   * with the milestone index, so each partial delivery can be verified on its own.
+   * Safe to call again after a failure, like deliver().
+   *
+   * @throws DeliveryError with `retryable` set when a step fails
+   */
+  async deliverMilestone(jobId: string, index: number, output: DeliveryOutput): Promise<DeliveryResult> {
+    if (!this.key || !this.iAddress) {
+      throw new Error(`Cannot deliver job ${jobId}: Signing key and i-address required`);
+    }
+    const key = this.key;
+
+    const job = await this._client.getJob(jobId);
+    if (job.status !== 'accepted' && job.status !== 'in_progress') {
+      throw new Error(`Job ${jobId} is in status '${job.status}' and cannot be delivered`);
+    }
+    if (!job.milestones?.some(m => m.index === index)) {
+      throw new Error(`Job ${jobId} has no milestone ${index}`);
+    }
+
+    try {
+      const result = await runDelivery(job, output, {
+        client: this._client,
+        store: this.jobStore,
+        sign: (message) => signMessage(key, message, this.networkType),
+      }, index);
+      if (!result.alreadyDelivered) {
+        console.log(`[VAP Agent] ✅ Delivered milestone ${index} of job ${jobId} (${result.files.length} file(s))`);
+        this.emit('job:milestoneDelivered', result);
+      }
+      return result;
+    } catch (err) {
+      const retryable = err instanceof DeliveryError ? err.retryable : false;
+      this.emit('job:deliveryFailed', { jobId, milestone: index, error: err, retryable });
+      throw err;
+    }
+  }
+
+  /**
+   * Ask the buyer to pay the tranche of a delivered milestone.
+   * The payment is followed up automatically; onMilestonePaid fires once it is confirmed.
+   */
+  async requestMilestonePayment(jobId: string, index: number): Promise<JobMilestone> {
+    const record = await this.jobStore.get(jobId);
+    const state = record?.milestones?.[String(index)];
+    if (!state?.deliveredAt) {
+      throw new Error(`Milestone ${index} of job ${jobId} has not been delivered`);
+    }
+    const milestone = await this._client.requestMilestonePayment(jobId, index);
+    // Re-read: other milestones may have changed while the request was in flight
+    const milestones = (await this.jobStore.get(jobId))?.milestones || {};
+    await this.jobStore.update(jobId, {
+      milestones: { ...milestones, [String(index)]: { ...milestones[String(index)], paymentRequestedAt: new Date().toISOString() } },
+    });
+    this.emit('job:milestonePaymentRequested', { jobId, milestone });
+    return milestone;
+  }
+
+  /**
+   * Ask the buyer for an extension (more session time or work for an extra payment).
+   * Approval and payment are followed up automatically; onExtensionPaid fires
+   * once the payment is confirmed.
+   *
+   * @param amount - Extra amount in the job's currency
+   */
+  async requestExtension(jobId: string, amount: number, reason?: string): Promise<JobExtension> {
+    if (!Number.isFinite(amount) || amount <= 0) {
+      throw new Error(`Extension amount must be a positive number, got ${amount}`);
+    }
+    const extension = await this._client.requestExtension(jobId, amount, reason);
+    await this.extensions.recordRequested({ ...extension, jobId: extension.jobId || jobId });
+    console.log(`[VAP Agent] Requested extension for job ${jobId} (${amount})`);
+    this.emit('job:extensionRequested', { jobId, extension, requestedBy: 'agent' });
+    return extension;
+  }
+
+  /**
+   * Dispute a job as the seller (e.g. the buyer never paid), with a signed dispute message.
+   * PROPOSED: signs the SDK's dispute format, which the platform is not known
+   * to verify; the call fails if the platform rejects the signature.
+   */
+  async disputeJob(jobId: string, reason: string): Promise<Job> {
+    if (!this.key) {
+      throw new Error('Signing key required to sign a dispute');
+    }
+    if (!reason.trim()) throw new Error('A dispute needs a reason');
+    const job = await this._client.getJob(jobId);
+    const timestamp = Math.floor(Date.now() / 1000);
+    const message = buildDisputeMessage({ jobHash: job.jobHash, reason, timestamp });
+    const disputed = await this._client.disputeJob(jobId, reason, await signMessage(this.key, message, this.networkType), timestamp);
+    console.log(`[VAP Agent] Disputed job ${jobId}: ${reason}`);
+    this.emit('job:disputedByAgent', { job: disputed, reason });
+    return disputed;
+  }
+
   /**
    * Auto-deliver a job (used as default when session ends and no custom handler is set).
-   * Signs a delivery message and submits it to the platform.
+   * Runs the delivery pipeline, which calls JobHandler.onDeliver() when it is implemented.
    */
   private async autoDeliver(jobId: string): Promise<void> {
-    if (!this.wif || !this.iAddress) {
-      console.error(`[VAP Agent] Cannot auto-deliver job ${jobId}: WIF key and i-address required`);
+    if (!this.key || !this.iAddress) {
+      console.error(`[VAP Agent] Cannot auto-deliver job ${jobId}: Signing key and i-address required`);
       return;
     }
 
@@ -692,15 +1274,8 @@ export class VAPAgent extends EventEmitter {
         return;
       }
 
-      const timestamp = Math.floor(Date.now() / 1000);
-      const deliveryHash = 'session-ended';
-      const deliveryMessage = 'Session ended — work delivered automatically.';
-      const message = `VAP-DELIVER|Job:${job.jobHash}|Delivery:${deliveryHash}|Ts:${timestamp}|I have delivered the work for this job.`;
-      const signature = signMessage(this.wif, message, this.networkType);
-
-      await this._client.deliverJob(jobId, deliveryHash, signature, timestamp, deliveryMessage);
-      console.log(`[VAP Agent] ✅ Auto-delivered job ${jobId}`);
-      this.emit('job:delivered', { jobId });
+      // deliver() logs and emits the result
+      await this.deliver(jobId);
     } catch (err) {
       console.error(`[VAP Agent] Auto-deliver failed for job ${jobId}:`, err instanceof Error ? err.message : String(err));
       throw err;
@@ -709,18 +1284,18 @@ export class VAPAgent extends EventEmitter {
 
   /**
    * Set revocation and recovery authorities for this agent's identity.
-   * Builds and broadcasts a signed updateidentity transaction.
+   * Builds and broadcasts a signed updateidentity transaction and waits for it to confirm.
    *
    * IMPORTANT: Once set, only the revocation authority can revoke this identity,
    * and only the recovery authority can recover it. Choose trusted i-addresses.
    *
    * @param revokeAddress - i-address of the revocation authority
    * @param recoverAddress - i-address of the recovery authority
-   * @returns Transaction ID of the broadcast update
+   * @returns Transaction ID of the confirmed update
    */
   async setRevokeRecoverAuthorities(revokeAddress: string, recoverAddress: string): Promise<string> {
-    if (!this.wif || !this.iAddress) {
-      throw new Error('WIF key and iAddress are required to update identity authorities');
+    if (!this.key || !this.iAddress) {
+      throw new Error('Signing key and iAddress are required to update identity authorities');
     }
 
     // Validate i-address format
@@ -734,39 +1309,154 @@ export class VAPAgent extends EventEmitter {
     console.log(`[VAP Agent] Setting revocation authority: ${revokeAddress}`);
     console.log(`[VAP Agent] Setting recovery authority: ${recoverAddress}`);
 
-    // Fetch current identity data + UTXOs
-    const [{ data: identityData }, utxoData] = await Promise.all([
-      this._client.getIdentityRaw(),
-      this._client.getUtxos(),
-    ]);
+    const release = await this.lockIdentity();
+    try {
+      // Fetch current identity data
+      const { data: identityData } = await this._client.getIdentityRaw();
 
-    if (!identityData.prevOutput) {
-      throw new Error('Identity previous output not found — identity may not be confirmed on-chain');
+      if (!identityData.prevOutput) {
+        throw new Error('Identity previous output not found — identity may not be confirmed on-chain');
+      }
+
+      // Check if authorities are already set correctly
+      if (identityData.identity.revocationauthority === revokeAddress &&
+          identityData.identity.recoveryauthority === recoverAddress) {
+        console.log(`[VAP Agent] Authorities already set correctly, no update needed`);
+        return 'already-set';
+      }
+
+      // Build identity update transaction with new authorities (no VDXF changes) and broadcast
+      const txid = await this.broadcastIdentityUpdate(identityData, {
+        vdxfAdditions: {}, // no content changes
+        revocationauthority: revokeAddress,
+        recoveryauthority: recoverAddress,
+      });
+      console.log(`[VAP Agent] Authorities update broadcast: ${txid}, waiting for confirmation...`);
+      await this.waitForConfirmation(txid);
+      console.log(`[VAP Agent] ✅ Authorities updated on-chain: ${txid}`);
+
+      return txid;
+    } finally {
+      release();
     }
+  }
 
-    // Check if authorities are already set correctly
-    if (identityData.identity.revocationauthority === revokeAddress &&
-        identityData.identity.recoveryauthority === recoverAddress) {
-      console.log(`[VAP Agent] Authorities already set correctly, no update needed`);
-      return 'already-set';
+  /**
+   * Replace the identity's primary key with `newKey` (key rotation), wait for
+   * the update to confirm, then sign everything with `newKey` and log in again.
+   * The identity, its i-address and its content stay the same.
+   *
+   * Funds at the old key's address stay there — sweep them first if the old key
+   * is being retired. Persist `newKey` (e.g. Keystore.add) before calling this.
+   *
+   * @returns Transaction ID of the confirmed update and the new primary address
+   * @throws Error when the identity is multisig (rotate with proposeIdentityUpdate()) or revoked
+   */
+  async rotateKey(newKey: string | Signer): Promise<{ txid: string; address: string }> {
+    if (!this.key || !this.iAddress) {
+      throw new Error('Signing key and iAddress are required to rotate the identity key');
+    }
+    const [{ address: oldAddress }, address] = await Promise.all([this.ownKey(), keyAddress(newKey, this.networkType)]);
+    if (address === oldAddress) {
+      throw new Error('New key is the current key');
     }
 
-    // Build identity update transaction with new authorities (no VDXF changes)
-    const signedTxHex = buildIdentityUpdateTx({
-      wif: this.wif,
-      identityData,
-      utxos: utxoData.utxos,
-      vdxfAdditions: {}, // no content changes
-      network: this.networkType,
-      revocationauthority: revokeAddress,
-      recoveryauthority: recoverAddress,
-    });
+    const release = await this.lockIdentity();
+    let txid: string;
+    try {
+      const { data: identityData } = await this._client.getIdentityRaw();
+      if (!identityData.prevOutput) {
+        throw new Error('Identity previous output not found — identity may not be confirmed on-chain');
+      }
+      if (!identityData.identity.primaryaddresses.includes(oldAddress)) {
+        throw new Error(`${oldAddress} is not a primary address of ${identityData.identity.name}`);
+      }
+
+      console.log(`[VAP Agent] Rotating primary key ${oldAddress} → ${address}`);
+      txid = await this.broadcastIdentityUpdate(identityData, { primaryaddresses: [address], minimumsignatures: 1 });
+      console.log(`[VAP Agent] Key rotation broadcast: ${txid}, waiting for confirmation...`);
+      await this.waitForConfirmation(txid);
+    } finally {
+      release();
+    }
+
+    await this.switchKey(newKey);
+    console.log(`[VAP Agent] ✅ Primary key rotated: ${txid}`);
+    this.emit('identity:keyRotated', { txid, oldAddress, address });
+    return { txid, address };
+  }
+
+  /**
+   * Revoke this identity, e.g. after its key leaked. Signed by the revocation
+   * authority; once confirmed the identity can't sign, log in or be updated
+   * until recoverIdentity().
+   *
+   * @returns Transaction ID of the confirmed revocation
+   */
+  async revokeIdentity(options: IdentityAuthorityOptions = {}): Promise<string> {
+    const release = await this.lockIdentity();
+    try {
+      const identityData = options.identityData || (await this._client.getIdentityRaw()).data;
+      if (!identityData.prevOutput) {
+        throw new Error('Identity previous output not found — identity may not be confirmed on-chain');
+      }
 
-    // Broadcast
-    const result = await this._client.broadcast(signedTxHex);
-    console.log(`[VAP Agent] ✅ Authorities updated on-chain: ${result.txid}`);
+      console.log(`[VAP Agent] Revoking ${identityData.identity.name} (revocation authority: ${identityData.identity.revocationauthority})`);
+      const txid = await this.broadcastAuthorityTx(identityData, options, (key, utxos, fees) => buildRevokeIdentityTx({
+        ...keyParams(key),
+        identityData,
+        utxos,
+        ...fees,
+        network: this.networkType,
+      }));
+      console.log(`[VAP Agent] Revocation broadcast: ${txid}, waiting for confirmation...`);
+      await this.waitForConfirmation(txid);
+      console.log(`[VAP Agent] ✅ Identity revoked: ${txid}`);
+      this.emit('identity:revoked', { txid });
+      return txid;
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * Recover this identity with the recovery authority's key: clear a revocation
+   * and make `newKey` its only primary key. Once confirmed, the agent signs with
+   * `newKey` and logs in again.
+   *
+   * @returns Transaction ID of the confirmed recovery and the new primary address
+   */
+  async recoverIdentity(newKey: string | Signer, options: IdentityAuthorityOptions = {}): Promise<{ txid: string; address: string }> {
+    const address = await keyAddress(newKey, this.networkType);
+
+    const release = await this.lockIdentity();
+    let txid: string;
+    try {
+      const identityData = options.identityData || (await this._client.getIdentityRaw()).data;
+      if (!identityData.prevOutput) {
+        throw new Error('Identity previous output not found — identity may not be confirmed on-chain');
+      }
+
+      const revoked = isIdentityRevoked(identityData);
+      console.log(`[VAP Agent] Recovering ${identityData.identity.name}${revoked ? ' (revoked)' : ''} to ${address}`);
+      txid = await this.broadcastAuthorityTx(identityData, options, (key, utxos, fees) => buildRecoverIdentityTx({
+        ...keyParams(key),
+        identityData,
+        utxos,
+        primaryaddresses: [address],
+        ...fees,
+        network: this.networkType,
+      }));
+      console.log(`[VAP Agent] Recovery broadcast: ${txid}, waiting for confirmation...`);
+      await this.waitForConfirmation(txid);
+    } finally {
+      release();
+    }
 
-    return result.txid;
+    await this.switchKey(newKey);
+    console.log(`[VAP Agent] ✅ Identity recovered: ${txid}`);
+    this.emit('identity:recovered', { txid, address });
+    return { txid, address };
   }
 
   /**
@@ -804,100 +1494,490 @@ export class VAPAgent extends EventEmitter {
   }
 
   /**
-   * Accept a review from the inbox and update identity on-chain.
-   * Builds a signed updateidentity transaction, broadcasts it, and marks the inbox item as accepted.
+   * Make this identity multisig: the agent's own key plus `cosigners`, any
+   * `minimumSignatures` of which must sign later updates (see proposeIdentityUpdate()).
+   * Signed by the agent's key alone, so the identity must still be single-signature.
+   *
+   * @param cosigners - R-addresses of the other key holders
+   * @returns Transaction ID of the confirmed update
    */
-  async acceptReview(inboxId: string): Promise<void> {
-    if (!this.wif || !this.iAddress) {
-      console.error(`[VAP Agent] Cannot accept review ${inboxId}: WIF key and i-address required`);
-      return;
+  async convertToMultisig(cosigners: string[], minimumSignatures: number): Promise<string> {
+    if (!this.key || !this.iAddress) {
+      throw new Error('Signing key and iAddress are required to update primary addresses');
     }
+    const primaries = multisigPrimaries([(await this.ownKey()).address, ...cosigners], minimumSignatures);
 
+    const release = await this.lockIdentity();
     try {
-      // 1. Fetch the inbox item to get VDXF data
-      const { data: inboxItem } = await this._client.getInboxItem(inboxId);
-      if (inboxItem.status !== 'pending') {
-        console.log(`[VAP Agent] Inbox item ${inboxId} already ${inboxItem.status}, skipping`);
-        return;
-      }
-
-      // 2. Get current identity data + UTXOs from platform
-      const [{ data: identityData }, utxoData] = await Promise.all([
-        this._client.getIdentityRaw(),
-        this._client.getUtxos(),
-      ]);
-
+      const { data: identityData } = await this._client.getIdentityRaw();
       if (!identityData.prevOutput) {
-        console.error(`[VAP Agent] Cannot accept review: identity previous output not found`);
-        return;
+        throw new Error('Identity previous output not found — identity may not be confirmed on-chain');
       }
 
-      if (!utxoData.utxos || utxoData.utxos.length === 0) {
-        console.error(`[VAP Agent] Cannot accept review: no UTXOs available for fee`);
-        return;
-      }
+      const txid = await this.broadcastIdentityUpdate(identityData, primaries);
+      console.log(`[VAP Agent] Multisig update broadcast: ${txid}, waiting for confirmation...`);
+      await this.waitForConfirmation(txid);
+      console.log(`[VAP Agent] ✅ Identity now needs ${minimumSignatures} of ${primaries.primaryaddresses.length} signatures: ${txid}`);
+      return txid;
+    } finally {
+      release();
+    }
+  }
 
-      // 3. Build VDXF additions from the inbox item's review data
-      const reviewKeys = VDXF_KEYS.review;
-      const vdxfAdditions: Record<string, string[]> = {};
+  /**
+   * Start an identity update for a multisig identity, funded and signed by this
+   * agent. Pass the result to the other key holders (signPartialTransaction()),
+   * combine their copies and broadcast with broadcastPartialTransaction().
+   *
+   * The fee inputs stay locked until the update is broadcast or the UTXO
+   * manager's lockTtl passes.
+   */
+  async proposeIdentityUpdate(
+    changes: IdentityChanges,
+    description?: string,
+  ): Promise<PartialTransaction> {
+    if (!this.key) {
+      throw new Error('Signing key required to propose an identity update');
+    }
+    const [{ data: identityData }, { address }, fees] = await Promise.all([
+      this._client.getIdentityRaw(),
+      this.ownKey(),
+      this.feePolicy(),
+    ]);
+    if (!identityData.prevOutput) {
+      throw new Error('Identity previous output not found — identity may not be confirmed on-chain');
+    }
 
-      // Check if vdxfData keys are actual i-addresses (pre-mapped VDXF keys)
-      const hasIAddressKeys = inboxItem.vdxfData &&
+    const feeFor = (inputs: number) => estimateIdentityUpdateFee({ identityData, ...changes, ...fees, inputs }).fee;
+    const reservation = await this.utxoManager.reserve(feeFor);
+    try {
+      const partial = createPartialIdentityUpdate({
+        identityData,
+        utxos: reservation.utxos,
+        ...changes,
+        ...fees,
+        fundingAddress: address,
+        network: this.networkType,
+        strategy: 'all',
+        description,
+      });
+      const signed = await this.signPartialTransaction(partial);
+      const change = reservation.total - feeFor(reservation.utxos.length);
+      this.partialReservations.set(partial.tx, { reservation, change: change > 0 ? { vout: 1, satoshis: change } : null });
+      return signed;
+    } catch (err) {
+      reservation.release();
+      throw err;
+    }
+  }
+
+  /** Add this agent's signatures to a partial transaction proposed by another key holder */
+  async signPartialTransaction(partial: PartialTransaction): Promise<PartialTransaction> {
+    if (!this.key) {
+      throw new Error('Signing key required to sign a partial transaction');
+    }
+    return signPartialTransaction(partial, this.key);
+  }
+
+  /**
+   * Finalize a fully signed partial transaction, broadcast it and track it.
+   *
+   * @returns Transaction ID
+   * @throws Error when signatures are still missing
+   */
+  async broadcastPartialTransaction(partial: PartialTransaction): Promise<string> {
+    const rawhex = finalizePartialTransaction(partial);
+    const { txid } = await this._client.broadcast(rawhex);
+    this.txTracker.track(txid, { rawhex });
+
+    const proposed = this.partialReservations.get(partial.tx);
+    if (proposed) {
+      this.partialReservations.delete(partial.tx);
+      proposed.reservation.commit(txid, proposed.change);
+    }
+    console.log(`[VAP Agent] ✅ Partially-signed transaction broadcast: ${txid}`);
+    return txid;
+  }
+
+  /**
+   * What `patch` would change in this identity's contentmultimap, its script
+   * size and fee — nothing is signed or broadcast.
+   *
+   * @throws Error when the result exceeds the on-chain size limit
+   */
+  async previewContentUpdate(patch: ContentMultimapPatch): Promise<IdentityUpdatePreview> {
+    const [{ data: identityData }, fees] = await Promise.all([this._client.getIdentityRaw(), this.feePolicy()]);
+    return previewIdentityUpdate({ identityData, patch, ...fees, network: this.networkType });
+  }
+
+  /**
+   * Edit this identity's contentmultimap on-chain, e.g. remove a retired
+   * service (removeValue) or a stale key (removeKey). Waits for confirmation.
+   *
+   * @returns Transaction ID of the confirmed update and the applied diff
+   * @throws Error when the result exceeds the on-chain size limit
+   */
+  async updateContent(patch: ContentMultimapPatch): Promise<{ txid: string; diff: ContentMultimapDiff }> {
+    if (!this.key || !this.iAddress) {
+      throw new Error('Signing key and iAddress are required to update identity content');
+    }
+    const release = await this.lockIdentity();
+    try {
+      const { data: identityData } = await this._client.getIdentityRaw();
+      if (!identityData.prevOutput) {
+        throw new Error('Identity previous output not found — identity may not be confirmed on-chain');
+      }
+      const { diff } = previewIdentityUpdate({ identityData, patch });
+      if (diff.length === 0) {
+        console.log('[VAP Agent] Content patch changes nothing, no update needed');
+        return { txid: 'unchanged', diff };
+      }
+
+      const txid = await this.broadcastIdentityUpdate(identityData, { patch });
+      console.log(`[VAP Agent] Content update broadcast: ${txid} (${diff.length} key(s)), waiting for confirmation...`);
+      await this.waitForConfirmation(txid);
+      console.log(`[VAP Agent] ✅ Identity content updated: ${txid}`);
+      this.emit('identity:contentUpdated', { txid, diff });
+      return { txid, diff };
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * Accept a review from the inbox and update identity on-chain.
+   * Builds a signed updateidentity transaction, broadcasts it, waits for it to confirm
+   * and marks the inbox item as accepted.
+   *
+   * A transaction still unconfirmed at the confirmation timeout (but not dropped) is
+   * accepted in the inbox anyway; the tx tracker keeps rebroadcasting it. A retry
+   * after a failed acceptInboxItem() reuses the broadcast txid instead of appending
+   * the review again.
+   */
+  async acceptReview(inboxId: string): Promise<void> {
+    if (!this.key || !this.iAddress) {
+      console.error(`[VAP Agent] Cannot accept review ${inboxId}: Signing key and i-address required`);
+      return;
+    }
+
+    try {
+      // 1. Fetch the inbox item to get VDXF data
+      const { data: inboxItem } = await this._client.getInboxItem(inboxId);
+      if (inboxItem.status !== 'pending') {
+        console.log(`[VAP Agent] Inbox item ${inboxId} already ${inboxItem.status}, skipping`);
+        return;
+      }
+
+      // Already broadcast by an earlier attempt: only the inbox acceptance is missing
+      const broadcastTxid = this.reviewTxids.get(inboxId);
+      if (broadcastTxid) {
+        await this.finishReviewAcceptance(inboxId, broadcastTxid, false);
+        return;
+      }
+
+      // 2. Append the inbox item's review to the review keys, keeping earlier reviews.
+      // Every review key gets a value (REVIEW_FIELD_ABSENT when missing) so the keys stay parallel.
+      const reviewKeys = VDXF_KEYS.review;
+      const review: ArchivedReview = {};
+      const patch: ContentMultimapPatch = [];
+
+      // Check if vdxfData keys are actual i-addresses (pre-mapped VDXF keys)
+      const hasIAddressKeys = inboxItem.vdxfData &&
         Object.keys(inboxItem.vdxfData).every((k: string) => /^i[A-HJ-NP-Za-km-z1-9]{24,}$/.test(k));
       if (hasIAddressKeys) {
         // Use the pre-computed VDXF data from the inbox item
+        const fields = new Map<string, ReviewField>(Object.entries(reviewKeys).map(([field, key]) => [key, field as ReviewField]));
         for (const [key, value] of Object.entries(inboxItem.vdxfData!)) {
-          if (value != null) {
-            vdxfAdditions[key] = [String(value)];
+          if (value == null) continue;
+          const field = fields.get(key);
+          // Pre-computed values must already be hex-encoded, as encodeVdxfValue() produces them
+          if (typeof value !== 'string' || !/^([0-9a-fA-F]{2})*$/.test(value)) {
+            throw new Error(`Inbox item ${inboxId} has a VDXF value for ${key} that is not hex-encoded: ${String(value).slice(0, 32)}`);
           }
+          if (field) review[field] = value;
+          else patch.push({ op: 'append', key, values: [value] });
         }
       } else {
         // Build VDXF data from inbox item fields
-        if (inboxItem.senderVerusId) {
-          vdxfAdditions[reviewKeys.buyer] = [encodeVdxfValue(inboxItem.senderVerusId)];
-        }
-        if (inboxItem.jobHash) {
-          vdxfAdditions[reviewKeys.jobHash] = [encodeVdxfValue(inboxItem.jobHash)];
+        if (inboxItem.senderVerusId) review.buyer = encodeVdxfValue(inboxItem.senderVerusId);
+        if (inboxItem.jobHash) review.jobHash = encodeVdxfValue(inboxItem.jobHash);
+        if (inboxItem.message) review.message = encodeVdxfValue(inboxItem.message);
+        if (inboxItem.rating != null) review.rating = encodeVdxfValue(inboxItem.rating);
+        if (inboxItem.signature) review.signature = encodeVdxfValue(inboxItem.signature);
+        review.timestamp = encodeVdxfValue(Math.floor(Date.now() / 1000));
+      }
+      patch.push(...appendReviewPatch(review));
+
+      // 3. Get current identity data + spendable UTXOs
+      const release = await this.lockIdentity();
+      try {
+        const [{ data: identityData }, utxos] = await Promise.all([
+          this._client.getIdentityRaw(),
+          this.utxoManager.available(),
+        ]);
+
+        if (!identityData.prevOutput) {
+          console.error(`[VAP Agent] Cannot accept review: identity previous output not found`);
+          return;
         }
-        if (inboxItem.message) {
-          vdxfAdditions[reviewKeys.message] = [encodeVdxfValue(inboxItem.message)];
+
+        if (utxos.length === 0) {
+          console.error(`[VAP Agent] Cannot accept review: no UTXOs available for fee`);
+          return;
         }
-        if (inboxItem.rating != null) {
-          vdxfAdditions[reviewKeys.rating] = [encodeVdxfValue(inboxItem.rating)];
+
+        // 4. Past the script size budget, archive older reviews in the same update
+        const compaction = await this.planReviewArchival(identityData, patch, 'scriptSize');
+        if (compaction) patch.push(...compaction.patch);
+
+        // 5. Build, sign and broadcast the identity update transaction
+        console.log(`[VAP Agent] Building identity update transaction...`);
+        const txid = await this.broadcastIdentityUpdate(identityData, { patch });
+        this.reviewTxids.set(inboxId, txid);
+        console.log(`[VAP Agent] Identity update broadcast: ${txid}, waiting for confirmation...`);
+        let confirmed = true;
+        try {
+          await this.waitForConfirmation(txid);
+          console.log(`[VAP Agent] ✅ Identity updated on-chain: ${txid}`);
+        } catch (err) {
+          // Dropped: nothing was appended, so a retry builds the update again
+          if (!(await this.isTxKnown(txid))) {
+            this.reviewTxids.delete(inboxId);
+            throw err;
+          }
+          confirmed = false;
+          console.warn(`[VAP Agent] Identity update ${txid} not confirmed yet — accepting review ${inboxId} with it anyway`);
         }
-        if (inboxItem.signature) {
-          vdxfAdditions[reviewKeys.signature] = [encodeVdxfValue(inboxItem.signature)];
+
+        // 6. Mark inbox item as accepted
+        await this.finishReviewAcceptance(inboxId, txid, confirmed);
+        if (compaction) {
+          console.log(`[VAP Agent] ✅ Archived ${compaction.archived.length} older review(s) off-chain`);
+          this.emit('review:compacted', { txid, archived: compaction.archived.length, aggregate: compaction.aggregate });
         }
-        vdxfAdditions[reviewKeys.timestamp] = [encodeVdxfValue(Math.floor(Date.now() / 1000))];
+      } finally {
+        release();
+      }
+    } catch (err) {
+      console.error(`[VAP Agent] Failed to accept review ${inboxId}:`, err instanceof Error ? err.message : String(err));
+      throw err;
+    }
+  }
+
+  /** Mark a review's inbox item as accepted with the identity update that appended it */
+  private async finishReviewAcceptance(inboxId: string, txid: string, confirmed: boolean): Promise<void> {
+    await this._client.acceptInboxItem(inboxId, txid);
+    this.reviewTxids.delete(inboxId);
+    console.log(`[VAP Agent] ✅ Review accepted and identity updated`);
+    this.emit('review:accepted', { inboxId, txid, confirmed });
+  }
+
+  /** Whether a transaction is in the mempool or a block */
+  private async isTxKnown(txid: string): Promise<boolean> {
+    try {
+      await this._client.getTxStatus(txid);
+      return true;
+    } catch (err) {
+      if (isNotFound(err)) return false;
+      throw err;
+    }
+  }
+
+  /**
+   * Move all but the newest `keep` on-chain reviews to the review archive,
+   * leaving their count, mean rating and Merkle root on-chain. Waits for confirmation.
+   *
+   * @returns Transaction ID and the new aggregate, or null when there is nothing to archive
+   * @throws Error without `reviewArchive` config, or when the stored archive doesn't match the chain
+   */
+  async compactReviews(keep?: number): Promise<{ txid: string; aggregate: ReviewAggregate } | null> {
+    if (!this.key || !this.iAddress || !this.reviewArchive) {
+      throw new Error('Signing key, iAddress and reviewArchive config are required to compact reviews');
+    }
+    const release = await this.lockIdentity();
+    try {
+      const { data: identityData } = await this._client.getIdentityRaw();
+      if (!identityData.prevOutput) {
+        throw new Error('Identity previous output not found — identity may not be confirmed on-chain');
       }
+      const compaction = await this.planReviewArchival(identityData, [], keep ?? this.reviewArchive.keep ?? DEFAULT_REVIEWS_KEPT);
+      if (!compaction) return null;
+
+      const txid = await this.broadcastIdentityUpdate(identityData, { patch: compaction.patch });
+      console.log(`[VAP Agent] Review compaction broadcast: ${txid}, waiting for confirmation...`);
+      await this.waitForConfirmation(txid);
+      console.log(`[VAP Agent] ✅ Archived ${compaction.archived.length} review(s); ${compaction.aggregate.count} archived in total`);
+      this.emit('review:compacted', { txid, archived: compaction.archived.length, aggregate: compaction.aggregate });
+      return { txid, aggregate: compaction.aggregate };
+    } finally {
+      release();
+    }
+  }
 
-      // 4. Build and sign the identity update transaction
-      console.log(`[VAP Agent] Building identity update transaction...`);
-      const signedTxHex = buildIdentityUpdateTx({
-        wif: this.wif,
+  /**
+   * Proof that an archived review (found by job hash) is covered by the
+   * on-chain aggregate. Anyone can check it with verifyArchivedReview().
+   *
+   * @returns null when no archived review has that job hash
+   */
+  async proveArchivedReview(jobHash: string): Promise<{ review: ArchivedReview; proof: ReviewProof } | null> {
+    if (!this.reviewArchive) {
+      throw new Error('reviewArchive config is required to prove archived reviews');
+    }
+    const archive = await this.reviewArchive.store.load();
+    const index = archive.findIndex(r => r.jobHash !== undefined && decodeVdxfValue(r.jobHash) === jobHash);
+    return index < 0 ? null : { review: archive[index], proof: buildReviewProof(archive, index) };
+  }
+
+  /**
+   * Compaction of the reviews on-chain after `patch`, saved to the archive store
+   * before anything is broadcast (an unconfirmed compaction is ignored by the next one).
+   *
+   * @param when - 'scriptSize' compacts only once the identity script would pass
+   *   `compactAtScriptSize`, keeping as many reviews as fit below it (at most `keep`);
+   *   a number compacts whenever more reviews than that are on-chain
+   */
+  private async planReviewArchival(
+    identityData: RawIdentityData,
+    patch: ContentMultimapPatch,
+    when: 'scriptSize' | number,
+  ): Promise<ReviewCompaction | null> {
+    const config = this.reviewArchive;
+    if (!config) return null;
+    const contentmultimap = applyContentMultimapPatch(normalizeContentMultimap(identityData.identity.contentmultimap), patch);
+    const archive = await config.store.load();
+    const plan = (keep: number) => planReviewCompaction({ contentmultimap, keep, aggregateKey: config.aggregateKey, archive });
+
+    let compaction: ReviewCompaction | null = null;
+    if (typeof when === 'number') {
+      compaction = plan(when);
+    } else {
+      const limit = config.compactAtScriptSize ?? DEFAULT_COMPACT_AT_SCRIPT_SIZE;
+      // Sized without the hard limit, so an oversized update is measured rather than refused
+      const scriptSize = (extra: ContentMultimapPatch) =>
+        previewIdentityUpdate({ identityData, patch: [...patch, ...extra], maxScriptSize: Infinity }).scriptSize;
+      if (scriptSize([]) <= limit) return null;
+
+      // Fewer reviews stay on-chain when the configured number would still not fit
+      const onChain = reviewsFromContentMultimap(contentmultimap).length;
+      for (let keep = Math.min(config.keep ?? DEFAULT_REVIEWS_KEPT, onChain); keep >= 0; keep--) {
+        compaction = plan(keep);
+        if (compaction && scriptSize(compaction.patch) <= limit) break;
+      }
+    }
+    if (compaction) await config.store.save(compaction.archive);
+    return compaction;
+  }
+
+  /**
+   * Build, sign and broadcast an identity update.
+   * Fee inputs are locked in the UTXO manager so a concurrent payment can't spend them too.
+   */
+  private async broadcastIdentityUpdate(
+    identityData: RawIdentityData,
+    changes: IdentityChanges,
+  ): Promise<string> {
+    if (!this.key) {
+      throw new Error('Signing key required to update the identity');
+    }
+    const key = this.key;
+    const fees = await this.feePolicy();
+    const feeFor = (inputs: number) => estimateIdentityUpdateFee({ identityData, ...changes, ...fees, inputs }).fee;
+
+    return this.utxoManager.spend(feeFor, async (utxos, total) => {
+      const signedTxHex = await buildIdentityUpdateTx({
+        ...keyParams(key),
         identityData,
-        utxos: utxoData.utxos,
-        vdxfAdditions,
+        utxos,
+        ...changes,
+        ...fees,
         network: this.networkType,
+        strategy: 'all',
       });
+      const result = await this._client.broadcast(signedTxHex);
+      this.txTracker.track(result.txid, { rawhex: signedTxHex });
+      const change = total - feeFor(utxos.length);
+      return { txid: result.txid, change: change > 0 ? { vout: 1, satoshis: change } : null };
+    });
+  }
 
-      // 5. Broadcast the signed transaction
-      console.log(`[VAP Agent] Broadcasting identity update transaction...`);
-      const broadcastResult = await this._client.broadcast(signedTxHex);
-      console.log(`[VAP Agent] ✅ Identity updated on-chain: ${broadcastResult.txid}`);
+  /**
+   * Build, sign and broadcast a revocation or recovery. Signed by the agent's own
+   * key with fee inputs from the UTXO manager, or by `options.authorityKey`
+   * with `options.utxos`.
+   */
+  private async broadcastAuthorityTx(
+    identityData: RawIdentityData,
+    options: IdentityAuthorityOptions,
+    build: (key: string | Signer, utxos: Utxo[], fees: FeePolicy & { strategy?: CoinSelectionStrategy }) => string | Promise<string>,
+  ): Promise<string> {
+    const fees = await this.feePolicy();
+
+    if (options.authorityKey) {
+      if (!options.utxos || options.utxos.length === 0) {
+        throw new Error('UTXOs of the authority key\'s address are required to pay the fee');
+      }
+      const signedTxHex = await build(options.authorityKey, options.utxos, fees);
+      const { txid } = await this._client.broadcast(signedTxHex);
+      this.txTracker.track(txid, { rawhex: signedTxHex });
+      return txid;
+    }
 
-      // 6. Mark inbox item as accepted
-      await this._client.acceptInboxItem(inboxId, broadcastResult.txid);
-      console.log(`[VAP Agent] ✅ Review accepted and identity updated`);
+    if (!this.key) {
+      throw new Error('Signing key or authorityKey required');
+    }
+    const key = this.key;
+    const feeFor = (inputs: number) => estimateIdentityUpdateFee({ identityData, ...fees, inputs }).fee;
+    return this.utxoManager.spend(feeFor, async (utxos, total) => {
+      // Build with exactly the reserved inputs
+      const signedTxHex = await build(key, utxos, { ...fees, strategy: 'all' });
+      const result = await this._client.broadcast(signedTxHex);
+      this.txTracker.track(result.txid, { rawhex: signedTxHex });
+      const change = total - feeFor(utxos.length);
+      return { txid: result.txid, change: change > 0 ? { vout: 1, satoshis: change } : null };
+    });
+  }
 
-      this.emit('review:accepted', {
-        inboxId,
-        txid: broadcastResult.txid,
-      });
-    } catch (err) {
-      console.error(`[VAP Agent] Failed to accept review ${inboxId}:`, err instanceof Error ? err.message : String(err));
-      throw err;
+  /**
+   * Sign with `key` from now on and log in with it. UTXOs are tracked afresh,
+   * since the old key's change outputs are not spendable by the new one.
+   */
+  private async switchKey(key: string | Signer): Promise<void> {
+    this.key = key;
+    this.utxoManager = new UtxoManager(this._client, this.utxoOptions);
+    await this.authenticate();
+  }
+
+  /**
+   * Identity updates spend the identity's previous output, so an update built
+   * before the last one confirms would conflict with it. Callers hold the lock
+   * from reading the identity until their update is confirmed.
+   *
+   * @returns Function releasing the lock
+   */
+  private async lockIdentity(): Promise<() => void> {
+    let release!: () => void;
+    const held = new Promise<void>((resolve) => {
+      release = resolve;
+    });
+    const previous = this.identityLock;
+    this.identityLock = previous.then(() => held);
+    await previous;
+    return release;
+  }
+
+  /**
+   * Fee policy for transactions the agent builds.
+   * With feeRate 'chain', the rate follows getChainInfo() (cached for 10 minutes).
+   */
+  private async feePolicy(): Promise<FeePolicy> {
+    const { feeRate, ...rest } = this.feeConfig;
+    if (feeRate !== 'chain') return { feeRate, ...rest };
+
+    if (!this.chainFeeRate || Date.now() - this.chainFeeRate.at > CHAIN_FEE_TTL) {
+      this.chainFeeRate = { rate: feeRateFromChainInfo(await this._client.getChainInfo()), at: Date.now() };
     }
+    return { feeRate: this.chainFeeRate.rate, ...rest };
   }
 
   /**
@@ -908,15 +1988,307 @@ export class VAPAgent extends EventEmitter {
   }
 
   /**
-   * Check for new job requests and process them.
+   * Sign and submit acceptance for a requested job.
+   * Failures are emitted, and the job is left unseen so the next poll retries it.
    */
-  /** Maximum number of job IDs to track for deduplication */
-  private static readonly MAX_SEEN_JOBS = 10_000;
+  private async acceptRequestedJob(job: Job): Promise<void> {
+    if (!this.key || !this.iAddress) {
+      this.emit('error', new Error(`Cannot accept job ${job.id}: Signing key and i-address required`));
+      return;
+    }
+    try {
+      const timestamp = Math.floor(Date.now() / 1000);
+      const acceptMessage = buildAcceptMessage({
+        jobHash: job.jobHash,
+        buyerVerusId: job.buyerVerusId,
+        amount: job.amount,
+        currency: job.currency,
+        timestamp,
+      });
+      const signature = await signMessage(this.key, acceptMessage, this.networkType);
+      await this._client.acceptJob(job.id, signature, timestamp);
+      this.queue.reserve(job);
+      await this.jobStore.update(job.id, { decision: 'accepted', jobHash: job.jobHash });
+      this.emit('job:accepted', job);
+      // Auto-join chat room if chat is connected
+      if (this.chatClient?.isConnected) {
+        this.chatClient.joinJob(job.id);
+      }
+    } catch (err) {
+      // Don't mark as seen on failure — allow retry on next poll
+      this.emit('error', new Error(`Failed to accept job ${job.id}: ${err instanceof Error ? err.message : String(err)}`));
+      return;
+    }
 
+    if (isSplitPayment(job) && this.handler?.onPlanMilestones) {
+      try {
+        const plan = await this.handler.onPlanMilestones(job);
+        if (plan) await this.declareMilestones(job.id, plan);
+      } catch (err) {
+        this.emit('error', new Error(`Failed to declare milestones for job ${job.id}: ${err instanceof Error ? err.message : String(err)}`));
+      }
+    }
+  }
+
+  /**
+   * Start the webhook receiver for job events.
+   * The listen path is taken from `webhookUrl` (default: /vap/webhook).
+   */
+  private async startWebhookReceiver(): Promise<void> {
+    const webhook = this.jobConfig.webhook;
+    if (!webhook?.secret) {
+      throw new Error("jobConfig.webhook.secret is required when notificationMethod is 'webhook'");
+    }
+
+    let path: string | undefined;
+    if (this.jobConfig.webhookUrl) {
+      try {
+        path = new URL(this.jobConfig.webhookUrl).pathname;
+      } catch {
+        throw new Error(`Invalid webhookUrl: ${this.jobConfig.webhookUrl}`);
+      }
+    }
+
+    const receiver = new WebhookReceiver({ ...webhook, path, store: this.jobStore }, (event) => this.handleWebhookEvent(event));
+    receiver.onError = (err) => this.emit('error', err);
+    await receiver.start();
+    this.webhookReceiver = receiver;
+  }
+
+  /**
+   * Dispatch a verified webhook event.
+   * Redeliveries are absorbed by the job store: decided jobs and already-dispatched
+   * statuses are skipped. Errors propagate so the receiver answers with a 500 and
+   * the platform delivers the event again; a stopped agent fails events the same way.
+   */
+  private async handleWebhookEvent(event: WebhookEvent): Promise<void> {
+    if (!this.running) {
+      throw new Error(`Agent is not running, webhook event ${event.id} not handled`);
+    }
+    this.emit('webhook:received', event);
+
+    if (event.type === 'job.requested') {
+      await this.handleRequestedJobEvent(event.jobId);
+    } else if (event.type === 'job.status_changed' && event.status) {
+      await this.handleStatusChange({ jobId: event.jobId, status: event.status, reason: event.reason });
+    }
+  }
+
+  /**
+   * Handle a pushed job request (webhook or SafeChat).
+   */
+  private async handleRequestedJobEvent(jobId: string): Promise<void> {
+    const job = await this._client.getJob(jobId);
+    // Stale event: the job moved on before we got to it
+    if (job.status !== 'requested') return;
+    await this.processRequestedJob(job);
+  }
+
+  /**
+   * Handle a pushed status change (SafeChat or webhook).
+   * The job is re-read so hooks get current data; the reconciler drops duplicates.
+   */
+  private async handleStatusChange(event: JobStatusChangedEvent): Promise<void> {
+    const job = await this._client.getJob(event.jobId);
+    await this.reconciler.observe(job, job.status === event.status ? event.reason : undefined);
+  }
+
+  /**
+   * Dispatch a status transition to the JobHandler hooks.
+   * Called by the reconciler once per transition; a hook that throws propagates,
+   * so the transition is not recorded and is dispatched again on the next pass.
+   */
+  private async dispatchTransition(transition: StatusTransition): Promise<void> {
+    const { job, status, previousStatus, reason } = transition;
+    this.emit('job:statusChanged', { jobId: job.id, status, previousStatus, reason });
+
+    // Keep queue slots, deadline timers and payment checks in step with the job lifecycle
+    if (status === 'accepted' || status === 'in_progress') {
+      if (status === 'accepted') this.queue.reserve(job);
+      this.deadlines.track(job);
+    } else if (status === 'delivered' || status === 'completed' || status === 'cancelled' || status === 'disputed') {
+      this.deadlines.untrack(job.id);
+      this.awaitingPayment.delete(job.id);
+      if (this.queue.release(job.id)) this.recheckHeldJobs();
+    }
+
+    if ((status === 'accepted' || status === 'in_progress') && requiresPayment(job)) {
+      const record = await this.jobStore.get(job.id);
+      if (!record?.paymentConfirmedAt) {
+        // Prepay: onJobStarted waits until checkPayment() confirms the payment
+        this.awaitingPayment.add(job.id);
+        await this.jobStore.update(job.id, { paymentPending: true });
+        await this.checkPayment(job.id, job);
+        return;
+      }
+    }
+
+    if (status === 'in_progress') {
+      this.startJob(job);
+      return;
+    }
+
+    if (!this.handler) return;
+    if (status === 'completed' && this.handler.onJobCompleted) {
+      await this.handler.onJobCompleted(job, await this.findJobReview(job));
+    } else if (status === 'disputed' && this.handler.onJobDisputed) {
+      await this.handler.onJobDisputed(job, job.dispute?.reason || reason || 'Dispute raised');
+    } else if (status === 'cancelled' && this.handler.onJobCancelled) {
+      await this.handler.onJobCancelled(job, reason);
+    }
+  }
+
+  /** Check pending prepay payments on a timer (resumes jobs still pending from a previous run) */
+  private startPaymentChecks(): void {
+    if (this.paymentTimer) return;
+    this.jobStore.list().then((records) => {
+      for (const record of records) {
+        if (record.paymentPending) this.awaitingPayment.add(record.jobId);
+      }
+    }).catch((err) => {
+      this.emit('error', err instanceof Error ? err : new Error(String(err)));
+    });
+
+    this.paymentTimer = setInterval(() => {
+      if (!this.running) return;
+      for (const jobId of [...this.awaitingPayment]) {
+        this.checkPayment(jobId).catch((err) => {
+          this.emit('error', err instanceof Error ? err : new Error(String(err)));
+        });
+      }
+    }, this.jobConfig.payments?.checkInterval ?? 30_000);
+  }
+
+  /**
+   * Check a prepay job's payment once. Starts the job when the payment is
+   * confirmed and it is already in progress; releases it on timeout.
+   */
+  private async checkPayment(jobId: string, known?: Job): Promise<void> {
+    if (!this.awaitingPayment.has(jobId)) return;
+    // Payment txids are recorded after acceptance, so re-read the job unless it was just fetched
+    const job = known || await this._client.getJob(jobId);
+    const record = await this.jobStore.get(jobId);
+    const acceptedAt = Date.parse(job.timestamps?.accepted || record?.decidedAt || '') || Date.now();
+
+    const result = await this.payments.check(job, acceptedAt, await this.paymentAddresses());
+    if (result.state !== 'confirmed' && result.problem) console.warn(`[VAP Agent] Payment for job ${jobId} not accepted: ${result.problem}`);
+    if (result.state === 'pending' || !this.awaitingPayment.has(jobId)) return;
+    this.awaitingPayment.delete(jobId);
+
+    if (result.state === 'confirmed') {
+      await this.jobStore.update(jobId, { paymentPending: false, paymentConfirmedAt: new Date().toISOString() });
+      console.log(`[VAP Agent] ✅ Payment confirmed for job ${jobId} (${result.payment.confirmations} confirmation(s))`);
+      this.emit('job:paymentConfirmed', { jobId, payment: result.payment, fee: result.fee });
+      if (job.status === 'in_progress') this.startJob(job);
+      return;
+    }
+
+    // Timed out unpaid: free the slot and stop tracking the job
+    await this.jobStore.update(jobId, { paymentPending: false });
+    console.warn(`[VAP Agent] Payment for job ${jobId} not confirmed in time — releasing job`);
+    this.deadlines.untrack(jobId);
+    if (this.queue.release(jobId)) this.recheckHeldJobs();
+    this.emit('job:paymentTimeout', { jobId, payment: result.payment, fee: result.fee, problem: result.problem });
+
+    // The platform still has the job accepted: dispute it so it is released there too
+    if (this.jobConfig.payments?.disputeOnTimeout) {
+      try {
+        await this.disputeJob(jobId, result.problem
+          ? `Payment not accepted: ${result.problem}`
+          : 'Payment not confirmed before the payment timeout');
+      } catch (err) {
+        this.emit('error', err instanceof Error ? err : new Error(String(err)));
+      }
+    }
+  }
+
+  /** Addresses a prepay payment must go to: payments.addresses, or this agent's R-address */
+  private async paymentAddresses(): Promise<string[]> {
+    const configured = this.jobConfig.payments?.addresses;
+    if (configured?.length) return configured;
+    return this.key ? [(await this.ownKey()).address] : [];
+  }
+
+  /**
+   * Run onJobStarted() through the job queue. Not awaited: a job waiting for a
+   * slot must not block status dispatch for other jobs.
+   */
+  private startJob(job: Job): void {
+    const handler = this.handler;
+    // The slot stays taken after onJobStarted returns, until the job is delivered, cancelled or disputed
+    this.queue.enqueue(job, async () => {
+      if (handler?.onJobStarted) await handler.onJobStarted(job);
+    }).catch((err) => {
+      this.emit('error', err instanceof Error ? err : new Error(String(err)));
+    }).finally(() => {
+      // Released (e.g. delivered) while onJobStarted was still running
+      if (!this.queue.has(job.id)) this.recheckHeldJobs();
+    });
+  }
+
+  /** A queue slot opened up — re-evaluate held requests (oldest first) without waiting for the next poll */
+  private recheckHeldJobs(): void {
+    if (!this.running) return;
+    this.jobStore.list().then(async (records) => {
+      const held = records
+        .filter(r => r.decision === 'held')
+        .sort((a, b) => a.firstSeenAt.localeCompare(b.firstSeenAt));
+      for (const record of held) {
+        if (!this.running) break;
+        try {
+          await this.handleRequestedJobEvent(record.jobId);
+        } catch (err) {
+          this.emit('error', err instanceof Error ? err : new Error(String(err)));
+        }
+      }
+    }).catch((err) => {
+      this.emit('error', err instanceof Error ? err : new Error(String(err)));
+    });
+  }
+
+  /** Look up the buyer's review for a completed job (undefined if none yet) */
+  private async findJobReview(job: Job): Promise<{ rating: number; comment: string } | undefined> {
+    try {
+      const review = await this._client.getJobReview(job.jobHash);
+      return review ? { rating: review.rating, comment: review.message } : undefined;
+    } catch (err) {
+      if (isNotFound(err)) {
+        return undefined;
+      }
+      this.emit('error', new Error(`Failed to load review for job ${job.id}: ${err instanceof Error ? err.message : String(err)}`));
+      return undefined;
+    }
+  }
+
+  /**
+   * Check for new job requests and status transitions.
+   */
   private async checkForJobs(): Promise<void> {
-    if (!this.handler || this.polling) return;
+    if (this.polling) return;
     this.polling = true;
 
+    try {
+      if (this.handlesRequests()) {
+        await this.checkRequestedJobs();
+      }
+      if (this.running) {
+        await this.reconciler.reconcile();
+      }
+      if (this.running) {
+        await this.checkExtensions();
+        await this.checkMilestones();
+      }
+    } catch (error) {
+      this.emit('error', error instanceof Error ? error : new Error(String(error)));
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  /**
+   * Fetch requested jobs and run each one through processRequestedJob().
+   */
+  private async checkRequestedJobs(): Promise<void> {
     try {
       const res = await this._client.getMyJobs({ status: 'requested', role: 'seller' });
       const jobs = res.data || [];
@@ -925,64 +2297,162 @@ export class VAPAgent extends EventEmitter {
         // Stop processing if agent was stopped mid-poll
         if (!this.running) break;
 
-        // Skip jobs without an id (malformed response) or already processed
+        // Skip jobs without an id (malformed response)
         if (!job.id) continue;
-        if (this.seenJobIds.has(job.id)) continue;
 
         try {
-          this.emit('job:requested', job);
-
-          if (this.handler.onJobRequested) {
-            const decision = await this.handler.onJobRequested(job);
-
-            if (decision === 'accept') {
-              if (!this.wif || !this.iAddress) {
-                this.emit('error', new Error(`Cannot accept job ${job.id}: WIF key and i-address required`));
-                continue;
-              }
-              try {
-                const timestamp = Math.floor(Date.now() / 1000);
-                const acceptMessage = `VAP-ACCEPT|Job:${job.jobHash}|Buyer:${job.buyerVerusId}|Amt:${job.amount} ${job.currency}|Ts:${timestamp}|I accept this job and commit to delivering the work.`;
-                const signature = signMessage(this.wif, acceptMessage, this.networkType);
-                await this._client.acceptJob(job.id, signature, timestamp);
-                this.seenJobIds.add(job.id);
-                this.emit('job:accepted', job);
-                // Auto-join chat room if chat is connected
-                if (this.chatClient?.isConnected) {
-                  this.chatClient.joinJob(job.id);
-                }
-              } catch (err) {
-                // Don't mark as seen on failure — allow retry on next poll
-                this.emit('error', new Error(`Failed to accept job ${job.id}: ${err instanceof Error ? err.message : String(err)}`));
-              }
-            } else if (decision === 'reject') {
-              this.seenJobIds.add(job.id);
-              this.emit('job:rejected', job);
-            }
-            // 'hold' = do nothing; NOT added to seenJobIds so it's re-evaluated next poll
-          } else {
-            // No onJobRequested handler — mark as seen to avoid repeated job:requested events
-            this.seenJobIds.add(job.id);
-          }
+          await this.processRequestedJob(job);
         } catch (jobErr) {
           // Per-job error: don't skip remaining jobs in batch
           this.emit('error', jobErr instanceof Error ? jobErr : new Error(String(jobErr)));
         }
       }
-
-      // Evict oldest entries if the set grows too large
-      while (this.seenJobIds.size > VAPAgent.MAX_SEEN_JOBS) {
-        const first = this.seenJobIds.values().next().value;
-        if (first !== undefined) this.seenJobIds.delete(first);
-        else break;
-      }
     } catch (error) {
+      // Reported here so a failed request poll doesn't skip status reconciliation
       this.emit('error', error instanceof Error ? error : new Error(String(error)));
+    }
+  }
+
+  /**
+   * Check extensions of active jobs. Runs for every active job when the handler
+   * has extension hooks, otherwise only for jobs with extensions the agent requested.
+   */
+  private async checkExtensions(): Promise<void> {
+    const hooks = !!(this.handler?.onExtensionRequested || this.handler?.onExtensionPaid);
+    const records = await this.jobStore.list();
+    for (const record of records) {
+      if (!this.running) break;
+      if (record.lastStatus !== 'accepted' && record.lastStatus !== 'in_progress' && record.lastStatus !== 'delivered') continue;
+      if (!hooks && !record.extensions) continue;
+      try {
+        await this.extensions.check(record.jobId, () => this._client.getJob(record.jobId));
+      } catch (err) {
+        this.emit('error', new Error(`Extension check failed for job ${record.jobId}: ${err instanceof Error ? err.message : String(err)}`));
+      }
+    }
+  }
+
+  /** Check tranche payments of active jobs with declared milestones */
+  private async checkMilestones(): Promise<void> {
+    const records = await this.jobStore.list();
+    for (const record of records) {
+      if (!this.running) break;
+      if (!record.milestones) continue;
+      if (record.lastStatus !== 'accepted' && record.lastStatus !== 'in_progress' && record.lastStatus !== 'delivered') continue;
+      try {
+        await this.milestones.check(await this._client.getJob(record.jobId));
+      } catch (err) {
+        this.emit('error', new Error(`Milestone check failed for job ${record.jobId}: ${err instanceof Error ? err.message : String(err)}`));
+      }
+    }
+  }
+
+  /** Whether anything (auto-accept rules or a handler) decides on requested jobs */
+  private handlesRequests(): boolean {
+    const autoAccept = this.jobConfig.autoAccept;
+    return !!this.handler || !!(autoAccept?.enabled && autoAccept.rules?.length);
+  }
+
+  /**
+   * Decide on a single requested job: auto-accept rules first, then onJobRequested.
+   * Jobs already decided (anything but 'held') are skipped.
+   */
+  private async processRequestedJob(job: Job): Promise<void> {
+    if (!this.handlesRequests() || this.processingJobs.has(job.id)) return;
+    this.processingJobs.add(job.id);
+
+    try {
+      const record = await this.jobStore.get(job.id);
+      if (record && record.decision !== 'held') return;
+
+      const autoAccept = this.jobConfig.autoAccept;
+      const rules = autoAccept?.enabled ? autoAccept.rules || [] : [];
+
+      this.emit('job:requested', job);
+
+      let decision: 'accept' | 'reject' | 'hold' | null = null;
+      let holdReason: 'capacity' | 'handler' = 'handler';
+
+      // Refuse jobs whose request the buyer didn't verifiably sign
+      if (this.jobConfig.verifySignatures?.enabled && !(await this.requestSignatureAccepted(job))) {
+        decision = 'reject';
+      }
+
+      // At capacity: hold until a queue slot frees up
+      if (!decision && !this.queue.hasCapacity(job)) {
+        decision = 'hold';
+        holdReason = 'capacity';
+      }
+
+      // Auto-accept rules run first; 'defer' falls through to the handler
+      if (!decision && rules.length > 0) {
+        const result = await evaluateAutoAccept(job, rules, this._client, { fallback: autoAccept?.fallback });
+        this.emit('job:autoAcceptDecision', { job, ...result });
+        if (result.action !== 'defer') {
+          decision = result.action;
+        }
+      }
+
+      if (!decision && this.handler?.onJobRequested) {
+        decision = await this.handler.onJobRequested(job);
+      }
+
+      if (decision === 'accept') {
+        await this.acceptRequestedJob(job);
+      } else if (decision === 'reject') {
+        await this.jobStore.update(job.id, { decision: 'rejected', jobHash: job.jobHash });
+        this.emit('job:rejected', job);
+      } else if (decision === 'hold') {
+        // Recorded as held, which is still re-evaluated on the next poll
+        await this.jobStore.update(job.id, { decision: 'held', jobHash: job.jobHash, holds: (record?.holds ?? 0) + 1 });
+        this.emit('job:held', { job, reason: holdReason });
+      } else {
+        // No onJobRequested handler — mark as seen to avoid repeated job:requested events
+        await this.jobStore.update(job.id, { decision: 'seen', jobHash: job.jobHash });
+      }
     } finally {
-      this.polling = false;
+      this.processingJobs.delete(job.id);
     }
   }
 
+  /**
+   * Whether a job's request signature passes the verifySignatures policy.
+   * Emits job:signatureInvalid when it doesn't.
+   */
+  private async requestSignatureAccepted(job: Job): Promise<boolean> {
+    const report = await this.verifyJobSignatures(job, { kinds: ['request'] });
+    const { status } = report.signatures.request;
+    const allowUnresolved = this.jobConfig.verifySignatures?.unresolved === 'allow';
+    if (status === 'valid' || (status === 'unresolved' && allowUnresolved)) return true;
+
+    console.warn(`[VAP Agent] Request signature of job ${job.id} is ${status}, rejecting`);
+    this.emit('job:signatureInvalid', { job, report });
+    return false;
+  }
+
+  /**
+   * Verify the signatures on a job (request, acceptance, delivery, completion)
+   * against the signers' primary addresses. The request message comes from the platform.
+   *
+   * @param options.resolve - Primary addresses of other VerusIDs (default: jobConfig.verifySignatures.resolve);
+   *   the agent's own signatures are checked against its own key
+   * @returns Per-signature results; `valid` is false if any present signature fails
+   */
+  async verifyJobSignatures(
+    job: Job,
+    options: Omit<VerifyJobSignaturesOptions, 'network' | 'client'> & { resolve?: SignerResolver } = {},
+  ): Promise<JobSignatureReport> {
+    const { resolve = this.jobConfig.verifySignatures?.resolve, ...rest } = options;
+    const resolver: SignerResolver = async (verusId) => {
+      // Our own signatures are made with our own key
+      if (this.key && (verusId === this.identityName || verusId === this.iAddress)) {
+        return [(await this.ownKey()).address];
+      }
+      return resolve ? resolve(verusId) : [];
+    };
+    return verifyJobSignatures(job, resolver, { ...rest, client: this._client, network: this.networkType });
+  }
+
   /** Get the agent's identity name */
   get identity(): string | null {
     return this.identityName;
@@ -1082,8 +2552,8 @@ export class VAPAgent extends EventEmitter {
     network?: 'verus' | 'verustest',
   ): Promise<DeletionAttestation> {
     const net = network ?? this.networkType;
-    if (!this.wif) {
-      throw new Error('WIF key required for signing attestations');
+    if (!this.key) {
+      throw new Error('Signing key required for signing attestations');
     }
     if (!this.identityName) {
       throw new Error('Agent must be registered before attesting deletions');
@@ -1100,7 +2570,7 @@ export class VAPAgent extends EventEmitter {
       attestedBy: this.identityName,
     });
 
-    const attestation = signAttestation(payload, this.wif, net);
+    const attestation = await signAttestation(payload, this.key, net);
 
     // Submit to platform
     await this._client.submitAttestation(attestation);
@@ -0,0 +1,408 @@
+/**
+ * VAPBuyer — hires other agents on the Verus Agent Platform.
+ * Covers the buyer side of a job: find a service, sign the request, pay the
+ * seller and the platform fee, wait for delivery, verify it, then complete or dispute.
+ *
+ * @example
+ * ```typescript
+ * const buyer = agent.buyer(); // shares the agent's session, key and network
+ *
+ * const [service] = await buyer.searchServices({ q: 'translation' });
+ * const job = await buyer.hire({ service, description: 'Translate README.md to German' });
+ * await buyer.waitForStatus(job.id, ['accepted']);
+ * await buyer.pay(job.id);
+ *
+ * const delivered = await buyer.waitForDelivery(job.id);
+ * const check = await buyer.verifyDelivery(delivered.id);
+ * if (check.valid) await buyer.complete(delivered.id);
+ * else await buyer.dispute(delivered.id, 'Delivery hash does not match the files');
+ * ```
+ */
+
+import { EventEmitter } from 'node:events';
+import { VAPClient, type Job, type Service, type ServiceSearchParams } from './client/index.js';
+import { signMessage, type Signer } from './identity/signer.js';
+import { buildBatchPayment, estimateBatchFee, type BatchOutput } from './tx/payment.js';
+import { keyParams } from './tx/signing.js';
+import { UtxoManager } from './tx/utxo-manager.js';
+import type { FeePolicy } from './tx/fees.js';
+import { buildCompleteMessage, buildDisputeMessage } from './signing/messages.js';
+import { computeDeliveryHash, sha256Hex } from './jobs/delivery.js';
+
+const SATS_PER_COIN = 100000000;
+
+/** Job statuses after which a job will not be delivered anymore */
+const FINAL_STATUSES: Job['status'][] = ['completed', 'disputed', 'cancelled'];
+
+export interface VAPBuyerConfig {
+  /** Authenticated client to use (e.g. VAPAgent.client); otherwise one is created from vapUrl */
+  client?: VAPClient;
+  /** VAP API base URL (required without `client`) */
+  vapUrl?: string;
+  /** UTXO manager to spend from (e.g. VAPAgent.utxos), so payments never race the agent's own transactions */
+  utxos?: UtxoManager;
+  /** WIF private key used for signing and payments */
+  wif?: string;
+  /** Signer holding the key instead of `wif` (e.g. a RemoteSigner) */
+  signer?: Signer;
+  /** Buyer identity (e.g. mybuyer.agentplatform@) */
+  identityName: string;
+  network?: 'verus' | 'verustest';
+  /** Fee rate, floor and cap for payments — or a function resolving them per payment (e.g. from the chain) */
+  fees?: FeePolicy | (() => Promise<FeePolicy>);
+}
+
+export interface HireParams {
+  /** Service to hire (sets seller, price and currency) */
+  service?: Service;
+  /** Seller identity (required without `service`) */
+  sellerVerusId?: string;
+  description: string;
+  /** Price (defaults to the service price) */
+  amount?: number;
+  currency?: string;
+  /** ISO deadline */
+  deadline?: string;
+  paymentTerms?: 'prepay' | 'postpay' | 'split';
+  safechatEnabled?: boolean;
+}
+
+export interface PaymentResult {
+  jobId: string;
+  /** Payment to the seller (existing txid when it was already recorded) */
+  paymentTxid: string;
+  /** Platform fee payment (existing txid when it was already recorded) */
+  feeTxid: string;
+}
+
+export interface DeliveryVerification {
+  jobId: string;
+  valid: boolean;
+  /** Delivery hash signed by the seller */
+  expected: string | null;
+  /** Hash recomputed from the delivery message and downloaded files */
+  actual: string;
+  files: { id: string; filename: string; checksum: string }[];
+}
+
+export interface WaitOptions {
+  /** Give up after this many ms (default: 24 hours) */
+  timeoutMs?: number;
+  /** Polling interval in ms (default: 15000) */
+  pollInterval?: number;
+}
+
+export class VAPBuyer extends EventEmitter {
+  private readonly _client: VAPClient;
+  private readonly utxos: UtxoManager;
+  private readonly key: string | Signer;
+  private readonly identityName: string;
+  private readonly networkType: 'verus' | 'verustest';
+  private readonly fees: FeePolicy | (() => Promise<FeePolicy>);
+  /**
+   * Payments broadcast but not yet recorded on the platform, keyed by job (and milestone).
+   * A retry records these instead of broadcasting a second payment.
+   */
+  private unrecorded = new Map<string, { txid: string; agent: boolean; fee: boolean }>();
+
+  constructor(config: VAPBuyerConfig) {
+    super();
+    if (!config.client && !config.vapUrl) {
+      throw new Error('VAPBuyer needs either a client or a vapUrl');
+    }
+    this._client = config.client || new VAPClient({ vapUrl: config.vapUrl! });
+    this.utxos = config.utxos || new UtxoManager(this._client);
+    if (config.wif && config.signer) {
+      throw new Error('Provide either wif or signer, not both');
+    }
+    const key = config.signer || config.wif;
+    if (!key) throw new Error('VAPBuyer needs a wif or signer');
+    this.key = key;
+    this.identityName = config.identityName;
+    this.networkType = config.network || 'verustest';
+    this.fees = config.fees || {};
+  }
+
+  /** The underlying VAPClient */
+  get client(): VAPClient {
+    return this._client;
+  }
+
+  /**
+   * Log in with the buyer's key. Not needed when the client is already
+   * authenticated (e.g. when created via VAPAgent.buyer()).
+   */
+  async authenticate(): Promise<void> {
+    await this._client.authenticateWithWIF(this.key, this.identityName, this.networkType);
+  }
+
+  /** Search active services */
+  async searchServices(params: ServiceSearchParams = {}): Promise<Service[]> {
+    const res = await this._client.getServices({ status: 'active', ...params });
+    return res.data || [];
+  }
+
+  /**
+   * Sign and submit a job request.
+   * The request message comes from the platform, so the signature always matches its format.
+   */
+  async hire(params: HireParams): Promise<Job> {
+    const sellerVerusId = params.sellerVerusId || params.service?.verusId;
+    const amount = params.amount ?? params.service?.price;
+    const currency = params.currency || params.service?.currency;
+    if (!sellerVerusId) throw new Error('hire() needs a service or sellerVerusId');
+    if (amount == null || !(amount > 0)) throw new Error('hire() needs a positive amount');
+
+    const request = await this._client.getJobRequestMessage({
+      sellerVerusId,
+      description: params.description,
+      amount,
+      currency,
+      deadline: params.deadline,
+      safechatEnabled: params.safechatEnabled,
+    });
+    const signature = await signMessage(this.key, request.message, this.networkType);
+
+    const job = await this._client.createJob({
+      sellerVerusId,
+      description: params.description,
+      amount,
+      currency,
+      serviceId: params.service?.id,
+      deadline: params.deadline,
+      paymentTerms: params.paymentTerms,
+      safechatEnabled: params.safechatEnabled,
+      timestamp: request.timestamp,
+      signature,
+    });
+    this.emit('buyer:hired', job);
+    return job;
+  }
+
+  /**
+   * Pay the seller and the platform fee in one transaction (tagged with the
+   * job hash in an OP_RETURN memo), then record the txid for both.
+   * Emits `buyer:broadcast` with `{ jobId, txid }` before the txid is recorded.
+   * Safe to call again: payments already recorded on the job are not sent twice, and
+   * a payment broadcast by a call whose recording failed is only recorded again.
+   */
+  async pay(jobId: string): Promise<PaymentResult> {
+    const job = await this._client.getJob(jobId);
+    if (job.status !== 'accepted' && job.status !== 'in_progress' && job.status !== 'delivered') {
+      throw new Error(`Job ${jobId} is in status '${job.status}' and cannot be paid`);
+    }
+
+    let paymentTxid = job.payment?.txid || null;
+    let feeTxid = job.payment?.platformFeeTxid || null;
+
+    let sent = this.unrecorded.get(jobId);
+    if (!sent && (!paymentTxid || !feeTxid)) {
+      const outputs: BatchOutput[] = [];
+      if (!paymentTxid) {
+        const qr = await this._client.getPaymentQr(jobId, 'agent');
+        outputs.push({ address: qr.address, amount: qr.amount });
+      }
+      if (!feeTxid) {
+        const qr = await this._client.getPaymentQr(jobId, 'fee');
+        outputs.push({ address: qr.address, amount: qr.amount });
+      }
+      const txid = await this.send(outputs, job.jobHash);
+      sent = { txid, agent: !paymentTxid, fee: !feeTxid };
+      this.unrecorded.set(jobId, sent);
+      this.emit('buyer:broadcast', { jobId, txid });
+    }
+
+    if (sent) {
+      // The batch transaction pays both, so an unrecorded fee reuses its txid
+      if (!paymentTxid && sent.agent) {
+        await this._client.recordPayment(jobId, sent.txid);
+        paymentTxid = sent.txid;
+      }
+      if (!feeTxid && sent.fee) {
+        await this._client.recordPlatformFee(jobId, sent.txid);
+        feeTxid = sent.txid;
+      }
+      this.unrecorded.delete(jobId);
+    }
+    if (!paymentTxid || !feeTxid) {
+      throw new Error(`Job ${jobId} is missing a ${paymentTxid ? 'platform fee' : 'payment'} txid after paying`);
+    }
+
+    const result = { jobId, paymentTxid, feeTxid };
+    this.emit('buyer:paid', result);
+    return result;
+  }
+
+  /**
+   * Poll a job until it reaches one of the given statuses.
+   *
+   * @throws if the job ends in a final status that was not asked for, or on timeout
+   */
+  async waitForStatus(jobId: string, statuses: Job['status'][], options: WaitOptions = {}): Promise<Job> {
+    const timeoutMs = options.timeoutMs ?? 24 * 60 * 60 * 1000;
+    const pollInterval = options.pollInterval ?? 15_000;
+    const deadline = Date.now() + timeoutMs;
+
+    for (;;) {
+      const job = await this._client.getJob(jobId);
+      if (statuses.includes(job.status)) return job;
+      if (FINAL_STATUSES.includes(job.status)) {
+        throw new Error(`Job ${jobId} ended in status '${job.status}'`);
+      }
+      if (Date.now() + pollInterval > deadline) {
+        throw new Error(`Timed out waiting for job ${jobId} to reach ${statuses.join('/')} (status: ${job.status})`);
+      }
+      await new Promise(r => setTimeout(r, pollInterval));
+    }
+  }
+
+  /** Wait until the seller has delivered */
+  async waitForDelivery(jobId: string, options: WaitOptions = {}): Promise<Job> {
+    const job = await this.waitForStatus(jobId, ['delivered'], options);
+    this.emit('buyer:delivered', job);
+    return job;
+  }
+
+  /**
+   * Recompute the delivery hash from the delivery message and the seller's files.
+   * Files are downloaded and hashed locally; the platform's checksums are not trusted.
+   *
+   * @param fileIds - Files that belong to the delivery, in upload order (default: all files uploaded by the seller)
+   */
+  async verifyDelivery(jobId: string, fileIds?: string[]): Promise<DeliveryVerification> {
+    const job = await this._client.getJob(jobId);
+    return this.verifyHash(job, job.delivery?.hash || null, job.delivery?.message || '', fileIds);
+  }
+
+  /**
+   * Recompute the delivery hash of one milestone of a split-payment job.
+   *
+   * @param fileIds - Files that belong to this milestone, in upload order
+   */
+  async verifyMilestone(jobId: string, index: number, fileIds: string[] = []): Promise<DeliveryVerification> {
+    const job = await this._client.getJob(jobId);
+    const milestone = job.milestones?.find(m => m.index === index);
+    if (!milestone) throw new Error(`Job ${jobId} has no milestone ${index}`);
+    return this.verifyHash(job, milestone.deliveryHash || null, milestone.deliveryMessage || '', fileIds);
+  }
+
+  /**
+   * Pay the tranche of a delivered milestone to the seller and record the txid.
+   * Safe to call again: a tranche already recorded, or broadcast by a call whose
+   * recording failed, is not sent twice.
+   */
+  async payMilestone(jobId: string, index: number): Promise<{ jobId: string; milestone: number; txid: string }> {
+    const job = await this._client.getJob(jobId);
+    const milestone = job.milestones?.find(m => m.index === index);
+    if (!milestone) throw new Error(`Job ${jobId} has no milestone ${index}`);
+
+    let txid = milestone.txid || null;
+    if (!txid) {
+      const key = `${jobId}:milestone:${index}`;
+      let sent = this.unrecorded.get(key);
+      if (!sent) {
+        if (milestone.status === 'pending') {
+          throw new Error(`Milestone ${index} of job ${jobId} has not been delivered`);
+        }
+        const address = job.payment?.address || (await this._client.getPaymentQr(jobId, 'agent')).address;
+        sent = { txid: await this.send([{ address, amount: milestone.amount }], job.jobHash), agent: true, fee: false };
+        this.unrecorded.set(key, sent);
+        this.emit('buyer:broadcast', { jobId, milestone: index, txid: sent.txid });
+      }
+      await this._client.recordMilestonePayment(jobId, index, sent.txid);
+      this.unrecorded.delete(key);
+      txid = sent.txid;
+    }
+
+    const result = { jobId, milestone: index, txid };
+    this.emit('buyer:milestonePaid', result);
+    return result;
+  }
+
+  /**
+   * Confirm the delivery with a signed completion message.
+   * The signature names the delivery hash, so a delivery without one is not completed.
+   * PROPOSED: signs the SDK's completion format, which the platform is not known to verify.
+   */
+  async complete(jobId: string): Promise<Job> {
+    const job = await this._client.getJob(jobId);
+    if (job.status !== 'delivered') {
+      throw new Error(`Job ${jobId} is in status '${job.status}' and cannot be completed`);
+    }
+    const deliveryHash = job.delivery?.hash;
+    if (!deliveryHash) {
+      throw new Error(`Job ${jobId} has no delivery hash to confirm`);
+    }
+    const timestamp = Math.floor(Date.now() / 1000);
+    const message = buildCompleteMessage({ jobHash: job.jobHash, deliveryHash, timestamp });
+    const completed = await this._client.completeJob(jobId, await signMessage(this.key, message, this.networkType), timestamp);
+    this.emit('buyer:completed', completed);
+    return completed;
+  }
+
+  /** Dispute a job with a signed dispute message (PROPOSED: the SDK's dispute format, see buildDisputeMessage) */
+  async dispute(jobId: string, reason: string): Promise<Job> {
+    if (!reason.trim()) throw new Error('A dispute needs a reason');
+    const job = await this._client.getJob(jobId);
+    const timestamp = Math.floor(Date.now() / 1000);
+    const message = buildDisputeMessage({ jobHash: job.jobHash, reason, timestamp });
+    const disputed = await this._client.disputeJob(jobId, reason, await signMessage(this.key, message, this.networkType), timestamp);
+    this.emit('buyer:disputed', disputed);
+    return disputed;
+  }
+
+  /** Cancel a job that hasn't been accepted yet */
+  async cancel(jobId: string): Promise<Job> {
+    const job = await this._client.getJob(jobId);
+    if (job.status !== 'requested') {
+      throw new Error(`Job ${jobId} is in status '${job.status}' and cannot be cancelled`);
+    }
+    const cancelled = await this._client.cancelJob(jobId);
+    this.emit('buyer:cancelled', cancelled);
+    return cancelled;
+  }
+
+  /** Hash the given delivery content and files and compare with the signed hash */
+  private async verifyHash(job: Job, expected: string | null, content: string, fileIds?: string[]): Promise<DeliveryVerification> {
+    const jobId = job.id;
+    const { data: allFiles } = await this._client.getJobFiles(jobId);
+    const deliveryFiles = fileIds
+      ? fileIds.map((id) => {
+          const file = allFiles.find(f => f.id === id);
+          if (!file) throw new Error(`File ${id} not found on job ${jobId}`);
+          return file;
+        })
+      : allFiles
+          .filter(f => f.uploaderVerusId === job.sellerVerusId)
+          .sort((a, b) => Date.parse(a.createdAt) - Date.parse(b.createdAt));
+
+    const files: DeliveryVerification['files'] = [];
+    for (const file of deliveryFiles) {
+      const download = await this._client.downloadFile(jobId, file.id);
+      files.push({ id: file.id, filename: file.filename, checksum: sha256Hex(new Uint8Array(download.data)) });
+    }
+
+    const actual = computeDeliveryHash(content, files.map(f => f.checksum));
+    return { jobId, valid: expected === actual, expected, actual, files };
+  }
+
+  /**
+   * Build, sign and broadcast a payment with one or more outputs.
+   * Inputs are locked in the UTXO manager while the transaction is built, and
+   * the change output can be spent by the next payment right away.
+   */
+  private async send(outputs: BatchOutput[], memo?: string): Promise<string> {
+    const amountSatoshis = outputs.reduce((sum, o) => sum + Math.ceil(o.amount * SATS_PER_COIN), 0);
+    const memoBytes = memo != null ? Buffer.byteLength(memo, 'utf8') : undefined;
+    const fees = typeof this.fees === 'function' ? await this.fees() : this.fees;
+    const target = (inputs: number) => amountSatoshis + estimateBatchFee({ ...fees, inputs, outputs: outputs.length, memoBytes });
+
+    return this.utxos.spend(target, async (utxos) => {
+      const { rawhex, change } = await buildBatchPayment({
+        ...keyParams(this.key), outputs, utxos, memo, network: this.networkType, strategy: 'all', ...fees,
+      });
+      const { txid } = await this._client.broadcast(rawhex);
+      return { txid, change };
+    });
+  }
+}
@@ -41,6 +41,13 @@ export interface JobStatusChangedEvent {
   reason?: string;
 }
 
+/** Payload of the proposed `job_requested` socket event */
+export interface JobRequestedEvent {
+  jobId: string;
+  jobHash?: string;
+  buyerVerusId?: string;
+}
+
 export interface ReviewReceivedEvent {
   inboxId: string;
   jobHash: string;
@@ -53,6 +60,7 @@ export type SessionEndingHandler = (event: SessionEndingEvent) => void | Promise
 export type SessionExpiringHandler = (event: SessionExpiringEvent) => void | Promise<void>;
 export type JobStatusChangedHandler = (event: JobStatusChangedEvent) => void | Promise<void>;
 export type ReviewReceivedHandler = (event: ReviewReceivedEvent) => void | Promise<void>;
+export type JobRequestedHandler = (event: JobRequestedEvent) => void | Promise<void>;
 
 /** Safely invoke any async/sync callback, catching both sync throws and async rejections */
 function safeCall(fn: () => void | Promise<void>): void {
@@ -79,6 +87,10 @@ export class ChatClient {
   private sessionExpiringHandler: SessionExpiringHandler | null = null;
   private jobStatusChangedHandler: JobStatusChangedHandler | null = null;
   private reviewReceivedHandler: ReviewReceivedHandler | null = null;
+  private jobRequestedHandler: JobRequestedHandler | null = null;
+  private reconnectHandler: (() => void | Promise<void>) | null = null;
+  /** Set after the first successful connect; later connects are reconnects */
+  private connectedOnce = false;
   /** Callback invoked when auto-reconnect fails permanently (S4) */
   onReconnectFailed: ((error: Error) => void) | null = null;
 
@@ -155,13 +167,20 @@ export class ChatClient {
       }, 10000);
 
       this.socket.on('connect', () => {
+        // Re-join any rooms we were in (also after Socket.IO auto-reconnects)
+        for (const jobId of this.joinedRooms) {
+          this.socket?.emit('join_job', { jobId });
+        }
+        if (this.connectedOnce) {
+          const handler = this.reconnectHandler;
+          if (handler) {
+            safeCall(() => handler());
+          }
+        }
+        this.connectedOnce = true;
         if (!resolved) {
           resolved = true;
           clearTimeout(timeoutId);
-          // Re-join any rooms we were in
-          for (const jobId of this.joinedRooms) {
-            this.socket?.emit('join_job', { jobId });
-          }
           resolve();
         }
       });
@@ -241,6 +260,13 @@ export class ChatClient {
           safeCall(() => handler(data));
         }
       });
+
+      this.socket.on('job_requested', (data: JobRequestedEvent) => {
+        const handler = this.jobRequestedHandler;
+        if (handler) {
+          safeCall(() => handler(data));
+        }
+      });
     });
   }
 
@@ -327,6 +353,26 @@ export class ChatClient {
     this.reviewReceivedHandler = handler;
   }
 
+  /**
+   * Register a handler for new job requests.
+   * Fired when a buyer requests a job from this agent.
+   *
+   * PROPOSED: the platform does not document a `job_requested` socket event yet.
+   * Treat it as a hint only and keep polling getMyJobs() for requested jobs.
+   */
+  onJobRequested(handler: JobRequestedHandler): void {
+    this.jobRequestedHandler = handler;
+  }
+
+  /**
+   * Register a handler for reconnects.
+   * Fired on every connect after the first one — events sent while
+   * disconnected are lost, so use this to catch up.
+   */
+  onReconnect(handler: () => void | Promise<void>): void {
+    this.reconnectHandler = handler;
+  }
+
   /**
    * Send a typing indicator.
    */
@@ -368,5 +414,8 @@ export class ChatClient {
     this.sessionExpiringHandler = null;
     this.jobStatusChangedHandler = null;
     this.reviewReceivedHandler = null;
+    this.jobRequestedHandler = null;
+    this.reconnectHandler = null;
+    this.connectedOnce = false;
   }
 }
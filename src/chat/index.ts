@@ -1,3 +1,3 @@
 export { ChatClient, type ChatClientConfig, type IncomingMessage, type MessageHandler } from './client.js';
-export type { SessionEndingEvent, SessionExpiringEvent, JobStatusChangedEvent, ReviewReceivedEvent, SessionEndingHandler, SessionExpiringHandler, JobStatusChangedHandler, ReviewReceivedHandler } from './client.js';
+export type { SessionEndingEvent, SessionExpiringEvent, JobStatusChangedEvent, ReviewReceivedEvent, JobRequestedEvent, SessionEndingHandler, SessionExpiringHandler, JobStatusChangedHandler, ReviewReceivedHandler, JobRequestedHandler } from './client.js';
 export type { ChatMessage, ChatFile } from './types.js';
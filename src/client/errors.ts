@@ -0,0 +1,21 @@
+/**
+ * Errors thrown by VAPClient. Kept apart from the client so job modules can
+ * classify failures without loading the signing stack.
+ */
+
+export class VAPError extends Error {
+  code: string;
+  statusCode: number;
+
+  constructor(message: string, code: string, statusCode: number) {
+    super(message);
+    this.name = 'VAPError';
+    this.code = code;
+    this.statusCode = statusCode;
+  }
+}
+
+/** True when a client call failed because the resource doesn't exist (HTTP 404) */
+export function isNotFound(err: unknown): boolean {
+  return err instanceof VAPError && err.statusCode === 404;
+}
@@ -6,7 +6,10 @@
 import type { DeletionAttestation } from '../privacy/attestation.js';
 import type { SessionInput } from '../onboarding/validation.js';
 import { keypairFromWIF } from '../identity/keypair.js';
-import { signMessage as verusSignMessage } from '../identity/signer.js';
+import { isSigner, signerAddress, signMessage as verusSignMessage, type Signer } from '../identity/signer.js';
+import { VAPError } from './errors.js';
+
+export { VAPError, isNotFound } from './errors.js';
 
 export interface VAPClientConfig {
   /** VAP API base URL (e.g. https://api.autobb.app) */
@@ -199,13 +202,13 @@ export class VAPClient {
    * Handles: challenge → sign → login → set session token.
    * Bridges can use VAPClient directly without VAPAgent.
    *
-   * @param wif - Private key in WIF format
+   * @param wif - Private key in WIF format, or a Signer holding it
    * @param verusId - Identity name (e.g. "myagent.agentplatform@")
    * @param network - 'verus' or 'verustest' (default: 'verustest')
    * @returns Session token string
    */
   async authenticateWithWIF(
-    wif: string,
+    wif: string | Signer,
     verusId: string,
     network: 'verus' | 'verustest' = 'verustest',
   ): Promise<string> {
@@ -213,7 +216,7 @@ export class VAPClient {
     const { challengeId, challenge } = await this.getAuthChallenge();
 
     // Step 2: Sign challenge
-    const signature = verusSignMessage(wif, challenge, network);
+    const signature = await verusSignMessage(wif, challenge, network);
 
     // Step 3: Login
     const controller = new AbortController();
@@ -291,7 +294,7 @@ export class VAPClient {
    * ONE-STEP onboarding: Create identity with a WIF key (handles all steps internally)
    * 
    * @param name - Agent name (without @ suffix, e.g., 'myagent')
-   * @param wif - Private key in WIF format
+   * @param wif - Private key in WIF format, or a Signer holding it
    * @param identityAddress - The expected i-address (for signing challenge)
    * @returns OnboardStatus when complete
    * 
@@ -306,12 +309,14 @@ export class VAPClient {
    */
   async registerIdentity(
     name: string,
-    wif: string,
+    wif: string | Signer,
     identityAddress: string,
     network: 'verus' | 'verustest' = 'verustest'
   ): Promise<OnboardStatus> {
     // Get keypair info from WIF
-    const keypair = keypairFromWIF(wif, network);
+    const keypair = isSigner(wif)
+      ? { pubkey: await wif.getPublicKey(), address: await signerAddress(wif, network) }
+      : keypairFromWIF(wif, network);
 
     // Validate that the WIF-derived address matches the expected identity address
     if (keypair.address !== identityAddress) {
@@ -330,7 +335,7 @@ export class VAPClient {
     }
     
     // Step 2: Sign challenge with verifymessage-compatible signature
-    const signature = verusSignMessage(wif, challengeRes.challenge, network);
+    const signature = await verusSignMessage(wif, challengeRes.challenge, network);
     
     // Step 3: Submit with signature
     const result = await this.onboardWithSignature(
@@ -601,6 +606,44 @@ export class VAPClient {
     return res.data;
   }
 
+  // ------------------------------------------
+  // Job Milestone endpoints (split payment)
+  //
+  // PROPOSED: the platform does not publish milestone routes yet. These paths
+  // and payloads are the SDK's proposal; until the platform serves them the
+  // calls fail with a 404 VAPError (isNotFound()).
+  // ------------------------------------------
+
+  /** Declare the milestones of a split-payment job (seller, after accepting). Proposed route. */
+  async setMilestones(jobId: string, milestones: MilestoneInput[]): Promise<JobMilestone[]> {
+    const res = await this.request<{ data: JobMilestone[] }>('POST', `/v1/jobs/${encodeURIComponent(jobId)}/milestones`, { milestones });
+    return res.data;
+  }
+
+  /** Get milestones for a job. Proposed route. */
+  async getMilestones(jobId: string): Promise<JobMilestone[]> {
+    const res = await this.request<{ data: JobMilestone[] }>('GET', `/v1/jobs/${encodeURIComponent(jobId)}/milestones`);
+    return res.data;
+  }
+
+  /** Deliver one milestone (signature over the VAP-DELIVER message with its milestone index). Proposed route. */
+  async deliverMilestone(jobId: string, index: number, deliveryHash: string, signature: string, timestamp: number, deliveryMessage?: string): Promise<JobMilestone> {
+    const res = await this.request<{ data: JobMilestone }>('POST', `/v1/jobs/${encodeURIComponent(jobId)}/milestones/${index}/deliver`, { deliveryHash, deliveryMessage, timestamp, signature });
+    return res.data;
+  }
+
+  /** Ask the buyer to pay the tranche of a delivered milestone. Proposed route. */
+  async requestMilestonePayment(jobId: string, index: number): Promise<JobMilestone> {
+    const res = await this.request<{ data: JobMilestone }>('POST', `/v1/jobs/${encodeURIComponent(jobId)}/milestones/${index}/payment-request`, {});
+    return res.data;
+  }
+
+  /** Record the txid of a milestone payment (buyer submits after sending). Proposed route. */
+  async recordMilestonePayment(jobId: string, index: number, txid: string): Promise<JobMilestone> {
+    const res = await this.request<{ data: JobMilestone }>('POST', `/v1/jobs/${encodeURIComponent(jobId)}/milestones/${index}/payment`, { txid });
+    return res.data;
+  }
+
   // ------------------------------------------
   // Attestation endpoints
   // ------------------------------------------
@@ -876,7 +919,7 @@ export class VAPClient {
     return this.request<{ data: AgentSummary[]; pagination: PaginationMeta }>('GET', `/v1/search?${query}`);
   }
 
-  /** Deactivate an agent (signed request) */
+  /** Deactivate an agent (signed request, see buildDeactivateMessage) */
   async deactivateAgent(agentId: string, verusId: string, signature: string, timestamp?: number): Promise<{ id: string; status: string; message: string }> {
     const res = await this.request<{ data: { id: string; status: string; message: string } }>('POST', `/v1/agents/${encodeURIComponent(agentId)}/deactivate`, { verusId, signature, timestamp });
     return res.data;
@@ -1125,22 +1168,6 @@ export class VAPClient {
   }
 }
 
-// ------------------------------------------
-// Error class
-// ------------------------------------------
-
-export class VAPError extends Error {
-  code: string;
-  statusCode: number;
-
-  constructor(message: string, code: string, statusCode: number) {
-    super(message);
-    this.name = 'VAPError';
-    this.code = code;
-    this.statusCode = statusCode;
-  }
-}
-
 // ------------------------------------------
 // Types
 // ------------------------------------------
@@ -1261,6 +1288,13 @@ export interface Job {
     hash?: string;
     message?: string;
   };
+  /** Milestones of a split-payment job, in delivery order (proposed field, see the milestone endpoints) */
+  milestones?: JobMilestone[] | null;
+  dispute?: {
+    reason?: string | null;
+    raisedBy?: string | null;
+    raisedAt?: string | null;
+  } | null;
   timestamps?: {
     requested?: string | null;
     accepted?: string | null;
@@ -1302,6 +1336,30 @@ export interface JobExtension {
   createdAt: string;
 }
 
+export interface MilestoneInput {
+  title: string;
+  /** Tranche paid when this milestone is delivered */
+  amount: number;
+  description?: string;
+}
+
+export interface JobMilestone {
+  /** Position in the job's milestone list (0-based) */
+  index: number;
+  title: string;
+  description?: string;
+  amount: number;
+  status: 'pending' | 'delivered' | 'payment_requested' | 'paid';
+  deliveryHash?: string | null;
+  deliveryMessage?: string | null;
+  /** Buyer's payment for this tranche */
+  txid?: string | null;
+  /** Whether the platform verified that txid pays this tranche to the seller (proposed field) */
+  verified?: boolean;
+  deliveredAt?: string | null;
+  paidAt?: string | null;
+}
+
 export interface ChatMessage {
   id: string;
   jobId: string;
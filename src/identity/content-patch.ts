@@ -0,0 +1,124 @@
+/**
+ * Editing an identity's contentmultimap.
+ *
+ * An updateidentity transaction carries the whole contentmultimap, so every
+ * edit is applied to the current one and the result replaces it on-chain.
+ * A patch lists the edits in order:
+ *
+ *   add          replace all values of a key (create it if missing; no values removes it)
+ *   append       add values after the existing ones (no values is a no-op)
+ *   removeValue  remove every occurrence of one value (the key goes when it's empty)
+ *   removeKey    remove a key and all its values
+ *
+ * Values are hex-encoded, as produced by encodeVdxfValue().
+ */
+
+export type ContentMultimapOp =
+  | { op: 'add'; key: string; values: string[] }
+  | { op: 'append'; key: string; values: string[] }
+  | { op: 'removeValue'; key: string; value: string }
+  | { op: 'removeKey'; key: string };
+
+export type ContentMultimapPatch = ContentMultimapOp[];
+
+export type ContentMultimap = Record<string, string[]>;
+
+/** How one key changes */
+export interface ContentMultimapKeyDiff {
+  key: string;
+  /** Values before the patch (null: the key didn't exist) */
+  before: string[] | null;
+  /** Values after the patch (null: the key is removed) */
+  after: string[] | null;
+  /** Values in `after` but not in `before` */
+  added: string[];
+  /** Values in `before` but not in `after` */
+  removed: string[];
+}
+
+/** Keys a patch changes, in key order; unchanged keys are left out */
+export type ContentMultimapDiff = ContentMultimapKeyDiff[];
+
+/** Patch equivalent to the old `vdxfAdditions`: replace each key's values */
+export function additionsToPatch(additions: ContentMultimap): ContentMultimapPatch {
+  return Object.entries(additions).map(([key, values]) => ({ op: 'add', key, values }));
+}
+
+/** Copy of a contentmultimap as returned by getidentity, with every value in an array */
+export function normalizeContentMultimap(cmm: Record<string, string[] | string> | undefined): ContentMultimap {
+  const result: ContentMultimap = {};
+  for (const [key, values] of Object.entries(cmm || {})) {
+    result[key] = Array.isArray(values) ? [...values] : [values];
+  }
+  return result;
+}
+
+/**
+ * Apply `patch` to `current` and return the new contentmultimap.
+ * `current` is not modified.
+ *
+ * @throws Error on an unknown operation or a value that is not hex
+ */
+export function applyContentMultimapPatch(current: ContentMultimap, patch: ContentMultimapPatch): ContentMultimap {
+  const result = normalizeContentMultimap(current);
+  for (const [i, op] of patch.entries()) {
+    if (typeof op?.key !== 'string' || op.key.length === 0) {
+      throw new Error(`Patch operation ${i} has no key`);
+    }
+    switch (op.op) {
+      case 'add':
+        // A key can't hold zero values: replacing with none removes it
+        if (checkValues(op.values, i).length > 0) result[op.key] = [...op.values];
+        else delete result[op.key];
+        break;
+      case 'append':
+        if (checkValues(op.values, i).length > 0) result[op.key] = [...(result[op.key] || []), ...op.values];
+        break;
+      case 'removeValue': {
+        const remaining = (result[op.key] || []).filter(v => v !== op.value);
+        if (remaining.length > 0) result[op.key] = remaining;
+        else delete result[op.key];
+        break;
+      }
+      case 'removeKey':
+        delete result[op.key];
+        break;
+      default:
+        throw new Error(`Unknown patch operation: ${(op as { op: unknown }).op}`);
+    }
+  }
+  return result;
+}
+
+function checkValues(values: string[], index: number): string[] {
+  if (!Array.isArray(values)) {
+    throw new Error(`Patch operation ${index} needs a values array`);
+  }
+  for (const value of values) {
+    if (typeof value !== 'string' || !/^([0-9a-fA-F]{2})*$/.test(value)) {
+      throw new Error(`Patch operation ${index} has a value that is not hex: ${String(value).slice(0, 32)}`);
+    }
+  }
+  return values;
+}
+
+/** Keys that differ between two contentmultimaps */
+export function diffContentMultimaps(before: ContentMultimap, after: ContentMultimap): ContentMultimapDiff {
+  const keys = [...new Set([...Object.keys(before), ...Object.keys(after)])].sort();
+  const diff: ContentMultimapDiff = [];
+  for (const key of keys) {
+    // A key with no values is the same as no key
+    const was = before[key]?.length ? before[key] : null;
+    const now = after[key]?.length ? after[key] : null;
+    if (!was && !now) continue;
+    if (was && now && was.length === now.length && was.every((v, i) => v === now[i])) continue;
+    diff.push({
+      key,
+      before: was && [...was],
+      after: now && [...now],
+      added: (now || []).filter(v => !(was || []).includes(v)),
+      removed: (was || []).filter(v => !(now || []).includes(v)),
+    });
+  }
+  return diff;
+}
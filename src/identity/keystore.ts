@@ -0,0 +1,281 @@
+/**
+ * Encrypted keystore for agent WIFs.
+ *
+ * Keys are encrypted at rest with AES-256-GCM under a key derived from a
+ * passphrase with scrypt. One file holds any number of named identities;
+ * the address, public key and identity of each entry stay readable so a
+ * keystore can be listed without the passphrase.
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { keypairFromWIF } from './keypair.js';
+
+/** Keystore file format version */
+const KEYSTORE_VERSION = 1;
+
+/** scrypt cost parameters (N = 2^15: ~32 MiB, ~100ms per derivation) */
+const DEFAULT_SCRYPT = { n: 32768, r: 8, p: 1 };
+
+const KEY_LENGTH = 32;
+const SALT_LENGTH = 32;
+const IV_LENGTH = 12;
+
+export interface KeystoreCrypto {
+  kdf: 'scrypt';
+  kdfparams: { n: number; r: number; p: number; salt: string };
+  cipher: 'aes-256-gcm';
+  /** Hex-encoded IV, auth tag and encrypted WIF */
+  iv: string;
+  tag: string;
+  ciphertext: string;
+}
+
+/** Public part of a keystore entry (readable without the passphrase) */
+export interface KeystoreEntry {
+  name: string;
+  /** R-address of the key */
+  address: string;
+  /** Compressed public key hex */
+  pubkey: string;
+  network: 'verus' | 'verustest';
+  /** VerusID registered for the key (e.g. myagent.agentplatform@) */
+  identity?: string;
+  iAddress?: string;
+  createdAt: string;
+}
+
+interface StoredEntry extends Omit<KeystoreEntry, 'name'> {
+  crypto: KeystoreCrypto;
+}
+
+interface KeystoreFile {
+  version: number;
+  keys: Record<string, StoredEntry>;
+}
+
+export interface KeystoreOptions {
+  /** scrypt cost parameters for newly encrypted keys (default: N=32768, r=8, p=1) */
+  scrypt?: { n: number; r: number; p: number };
+}
+
+/** Where VAPAgent finds its key: a keystore (or its path), the entry name and the passphrase */
+export interface KeystoreRef {
+  keystore: Keystore | string;
+  name: string;
+  passphrase: string;
+}
+
+/** Plaintext key file written by earlier versions of the `vap` CLI */
+export interface PlaintextKeyFile {
+  address: string;
+  pubkey: string;
+  wif: string;
+  network?: 'verus' | 'verustest';
+  identity?: string;
+  iAddress?: string;
+}
+
+function deriveKey(passphrase: string, salt: Buffer, params: { n: number; r: number; p: number }): Buffer {
+  return crypto.scryptSync(passphrase, salt, KEY_LENGTH, {
+    N: params.n,
+    r: params.r,
+    p: params.p,
+    maxmem: 256 * params.n * params.r,
+  });
+}
+
+/** Encrypt a WIF under a passphrase */
+export function encryptKey(wif: string, passphrase: string, params = DEFAULT_SCRYPT): KeystoreCrypto {
+  if (!passphrase) throw new Error('Passphrase required');
+  const salt = crypto.randomBytes(SALT_LENGTH);
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const key = deriveKey(passphrase, salt, params);
+  const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+  const ciphertext = Buffer.concat([cipher.update(wif, 'utf8'), cipher.final()]);
+  return {
+    kdf: 'scrypt',
+    kdfparams: { ...params, salt: salt.toString('hex') },
+    cipher: 'aes-256-gcm',
+    iv: iv.toString('hex'),
+    tag: cipher.getAuthTag().toString('hex'),
+    ciphertext: ciphertext.toString('hex'),
+  };
+}
+
+/**
+ * Decrypt a WIF encrypted by encryptKey().
+ * @throws Error when the passphrase is wrong or the data was tampered with
+ */
+export function decryptKey(data: KeystoreCrypto, passphrase: string): string {
+  if (data.kdf !== 'scrypt' || data.cipher !== 'aes-256-gcm') {
+    throw new Error(`Unsupported keystore encryption: ${data.kdf}/${data.cipher}`);
+  }
+  const { salt, ...params } = data.kdfparams;
+  const key = deriveKey(passphrase, Buffer.from(salt, 'hex'), params);
+  const decipher = crypto.createDecipheriv('aes-256-gcm', key, Buffer.from(data.iv, 'hex'));
+  decipher.setAuthTag(Buffer.from(data.tag, 'hex'));
+  try {
+    return Buffer.concat([
+      decipher.update(Buffer.from(data.ciphertext, 'hex')),
+      decipher.final(),
+    ]).toString('utf8');
+  } catch {
+    throw new Error('Wrong passphrase or corrupted key');
+  }
+}
+
+/**
+ * File-backed keystore holding multiple named, encrypted keys.
+ *
+ * The file is written atomically with mode 0600 on every change.
+ */
+export class Keystore {
+  private readonly filePath: string;
+  private readonly scrypt: { n: number; r: number; p: number };
+  private data: KeystoreFile;
+
+  constructor(filePath: string, options: KeystoreOptions = {}) {
+    this.filePath = path.resolve(filePath);
+    this.scrypt = options.scrypt || DEFAULT_SCRYPT;
+    this.data = this.load();
+  }
+
+  /** Absolute path of the keystore file */
+  get path(): string {
+    return this.filePath;
+  }
+
+  /** Names of the stored keys */
+  get names(): string[] {
+    return Object.keys(this.data.keys);
+  }
+
+  has(name: string): boolean {
+    return Object.prototype.hasOwnProperty.call(this.data.keys, name);
+  }
+
+  /** Public details of every stored key */
+  list(): KeystoreEntry[] {
+    return this.names.map(name => this.entry(name)!);
+  }
+
+  /** Public details of a stored key, or null when there is none by that name */
+  entry(name: string): KeystoreEntry | null {
+    if (!this.has(name)) return null;
+    const { crypto: _crypto, ...entry } = this.data.keys[name];
+    return { name, ...entry };
+  }
+
+  /**
+   * Encrypt and store a WIF under `name`.
+   * @throws Error when a key with that name already exists
+   */
+  add(
+    name: string,
+    wif: string,
+    passphrase: string,
+    details: { network?: 'verus' | 'verustest'; identity?: string; iAddress?: string } = {},
+  ): KeystoreEntry {
+    if (!name) throw new Error('Key name required');
+    if (this.has(name)) throw new Error(`Key "${name}" already exists in ${this.filePath}`);
+    const network = details.network || 'verustest';
+    const keypair = keypairFromWIF(wif, network);
+    this.data.keys[name] = {
+      address: keypair.address,
+      pubkey: keypair.pubkey,
+      network,
+      ...(details.identity && { identity: details.identity }),
+      ...(details.iAddress && { iAddress: details.iAddress }),
+      createdAt: new Date().toISOString(),
+      crypto: encryptKey(wif, passphrase, this.scrypt),
+    };
+    this.save();
+    return this.entry(name)!;
+  }
+
+  /**
+   * Decrypt the WIF stored under `name`.
+   * @throws Error when there is no such key or the passphrase is wrong
+   */
+  unlock(name: string, passphrase: string): string {
+    return decryptKey(this.stored(name).crypto, passphrase);
+  }
+
+  /** Record the identity registered for a key */
+  setIdentity(name: string, identity: string, iAddress?: string): KeystoreEntry {
+    const stored = this.stored(name);
+    stored.identity = identity;
+    if (iAddress) stored.iAddress = iAddress;
+    this.save();
+    return this.entry(name)!;
+  }
+
+  /** Re-encrypt a key under a new passphrase */
+  changePassphrase(name: string, oldPassphrase: string, newPassphrase: string): void {
+    const wif = this.unlock(name, oldPassphrase);
+    this.stored(name).crypto = encryptKey(wif, newPassphrase, this.scrypt);
+    this.save();
+  }
+
+  /** Delete a key. Returns false when there was none by that name. */
+  remove(name: string): boolean {
+    if (!this.has(name)) return false;
+    delete this.data.keys[name];
+    this.save();
+    return true;
+  }
+
+  /**
+   * Import a plaintext key file written by earlier versions of the `vap` CLI.
+   * The plaintext file is left in place — delete it once the import is confirmed.
+   */
+  importPlaintext(filePath: string, name: string, passphrase: string): KeystoreEntry {
+    const keys = JSON.parse(fs.readFileSync(filePath, 'utf8')) as PlaintextKeyFile;
+    if (!keys.wif) throw new Error(`No WIF found in ${filePath}`);
+    const entry = this.add(name, keys.wif, passphrase, {
+      network: keys.network,
+      identity: keys.identity,
+      iAddress: keys.iAddress,
+    });
+    if (entry.address !== keys.address) {
+      this.remove(name);
+      throw new Error(`WIF in ${filePath} does not match its address ${keys.address}`);
+    }
+    return entry;
+  }
+
+  private stored(name: string): StoredEntry {
+    if (!this.has(name)) throw new Error(`No key "${name}" in ${this.filePath}`);
+    return this.data.keys[name];
+  }
+
+  private load(): KeystoreFile {
+    if (!fs.existsSync(this.filePath)) return { version: KEYSTORE_VERSION, keys: {} };
+    const data = JSON.parse(fs.readFileSync(this.filePath, 'utf8')) as KeystoreFile;
+    if (data.version !== KEYSTORE_VERSION || typeof data.keys !== 'object' || data.keys === null) {
+      throw new Error(`Unsupported keystore file: ${this.filePath}`);
+    }
+    return data;
+  }
+
+  private save(): void {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    // Atomic write: write to temp file then rename to prevent corruption on crash
+    const tmp = this.filePath + '.tmp';
+    fs.writeFileSync(tmp, JSON.stringify(this.data, null, 2), { mode: 0o600 });
+    fs.renameSync(tmp, this.filePath);
+  }
+}
+
+/**
+ * Resolve a keystore reference to its WIF and entry details.
+ * @throws Error when the key doesn't exist or the passphrase is wrong
+ */
+export function unlockKeystoreRef(ref: KeystoreRef): { wif: string; entry: KeystoreEntry } {
+  const keystore = typeof ref.keystore === 'string' ? new Keystore(ref.keystore) : ref.keystore;
+  const wif = keystore.unlock(ref.name, ref.passphrase);
+  return { wif, entry: keystore.entry(ref.name)! };
+}
@@ -0,0 +1,258 @@
+/**
+ * Remote signing over JSON-RPC 2.0 — keeps the private key out of the agent process.
+ *
+ * RemoteSigner spawns a signer process and talks to it over stdin/stdout, one
+ * JSON message per line. The signer process wraps its own Signer (usually a
+ * LocalWifSigner unlocked from a Keystore) with serveSigner(). `vap-signer`
+ * is a ready-made signer process.
+ *
+ * Methods: getPublicKey, signMessage, signTransactionInput (see Signer).
+ * signTransactionInput carries the unsigned transaction, never a hash: the
+ * signer process computes the hash of the input from it, so what `authorize`
+ * inspects is what gets signed.
+ */
+
+import { spawn, type ChildProcessByStdio } from 'child_process';
+import type { Socket } from 'net';
+import * as readline from 'readline';
+import type { Readable, Writable } from 'stream';
+
+import { inputSignatureHash, verifyInputSignature } from '../tx/sighash.js';
+import type { SignMessageOptions, Signer, SignTransactionInputRequest } from './signer.js';
+
+/** Default time a signer process has to answer a request (ms) */
+const DEFAULT_TIMEOUT = 30_000;
+
+const PARSE_ERROR = -32700;
+const INVALID_REQUEST = -32600;
+const METHOD_NOT_FOUND = -32601;
+/** Signing refused by policy or failed */
+const SIGNER_ERROR = -32000;
+
+export type SignerMethod = 'getPublicKey' | 'signMessage' | 'signTransactionInput';
+
+type SignerProcess = ChildProcessByStdio<Writable, Readable, null>;
+
+interface RpcRequest {
+  jsonrpc: '2.0';
+  id: number;
+  method: SignerMethod;
+  params?: unknown;
+}
+
+interface RpcResponse {
+  jsonrpc: '2.0';
+  id: number | null;
+  result?: unknown;
+  error?: { code: number; message: string };
+}
+
+export interface RemoteSignerOptions {
+  /** Command that starts the signer process (e.g. 'vap-signer' or 'node') */
+  command: string;
+  args?: string[];
+  /** Environment of the signer process (default: inherited) */
+  env?: NodeJS.ProcessEnv;
+  /** Time the signer has to answer each request in ms (default: 30000) */
+  timeout?: number;
+}
+
+/**
+ * Signer that forwards every request to a child process.
+ * The process is started on first use and again after it exits.
+ */
+export class RemoteSigner implements Signer {
+  private readonly options: RemoteSignerOptions;
+  private child: SignerProcess | null = null;
+  private nextId = 1;
+  private pending = new Map<number, { resolve: (value: unknown) => void; reject: (err: Error) => void; timer: ReturnType<typeof setTimeout> }>();
+  private publicKey: string | null = null;
+
+  constructor(options: RemoteSignerOptions) {
+    this.options = options;
+  }
+
+  async getPublicKey(): Promise<string> {
+    if (!this.publicKey) {
+      this.publicKey = await this.call('getPublicKey') as string;
+    }
+    return this.publicKey;
+  }
+
+  async signMessage(message: string, options: SignMessageOptions = {}): Promise<string> {
+    return await this.call('signMessage', { message, ...options }) as string;
+  }
+
+  async signTransactionInput(request: SignTransactionInputRequest): Promise<string> {
+    return await this.call('signTransactionInput', request) as string;
+  }
+
+  /** Stop the signer process and fail outstanding requests */
+  close(): void {
+    if (this.child) {
+      this.child.kill();
+      this.child = null;
+    }
+    this.failPending(new Error('Remote signer closed'));
+  }
+
+  private call(method: SignerMethod, params?: unknown): Promise<unknown> {
+    const child = this.child || this.start();
+    const id = this.nextId++;
+    const request: RpcRequest = { jsonrpc: '2.0', id, method, ...(params !== undefined && { params }) };
+    const timeout = this.options.timeout ?? DEFAULT_TIMEOUT;
+
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(id);
+        reject(new Error(`Remote signer did not answer ${method} within ${timeout}ms`));
+      }, timeout);
+      this.pending.set(id, { resolve, reject, timer });
+      child.stdin.write(JSON.stringify(request) + '\n');
+    });
+  }
+
+  private start(): SignerProcess {
+    const child = spawn(this.options.command, this.options.args || [], {
+      env: this.options.env,
+      // stderr is passed through so the signer can log
+      stdio: ['pipe', 'pipe', 'inherit'],
+    });
+    this.child = child;
+
+    readline.createInterface({ input: child.stdout }).on('line', (line) => this.onLine(line));
+    child.on('error', (err) => {
+      if (this.child === child) this.child = null;
+      this.failPending(new Error(`Remote signer failed: ${err.message}`));
+    });
+    child.on('exit', (code, signal) => {
+      if (this.child === child) this.child = null;
+      this.failPending(new Error(`Remote signer exited (${signal || `code ${code}`})`));
+    });
+    // Don't keep the agent alive just for an idle signer
+    child.unref();
+    (child.stdin as unknown as Socket).unref();
+    (child.stdout as unknown as Socket).unref();
+    return child;
+  }
+
+  private onLine(line: string): void {
+    let response: RpcResponse;
+    try {
+      response = JSON.parse(line) as RpcResponse;
+    } catch {
+      console.warn('[VAP Agent] Ignoring malformed remote signer output');
+      return;
+    }
+    const waiter = response.id != null ? this.pending.get(response.id) : undefined;
+    if (!waiter) return;
+    this.pending.delete(response.id!);
+    clearTimeout(waiter.timer);
+    if (response.error) {
+      waiter.reject(new Error(`Remote signer: ${response.error.message}`));
+    } else {
+      waiter.resolve(response.result);
+    }
+  }
+
+  private failPending(err: Error): void {
+    for (const waiter of this.pending.values()) {
+      clearTimeout(waiter.timer);
+      waiter.reject(err);
+    }
+    this.pending.clear();
+  }
+}
+
+export interface ServeSignerOptions {
+  /** Where requests arrive (default: process.stdin) */
+  input?: NodeJS.ReadableStream;
+  /** Where responses go (default: process.stdout) */
+  output?: NodeJS.WritableStream;
+  /** Network of the served key (default: 'verustest') */
+  network?: 'verus' | 'verustest';
+  /**
+   * Decide whether to sign, e.g. by decoding `params.unsignedTx` and checking
+   * its outputs. Returning false (or throwing) refuses the request. For
+   * signTransactionInput the signature is made over a hash computed from
+   * exactly these params.
+   */
+  authorize?: (method: SignerMethod, params: Record<string, unknown>) => boolean | Promise<boolean>;
+}
+
+/**
+ * Answer RemoteSigner requests with `signer` — the signer process side.
+ *
+ * @returns Stops serving
+ */
+export function serveSigner(signer: Signer, options: ServeSignerOptions = {}): () => void {
+  const input = options.input || process.stdin;
+  const output = options.output || process.stdout;
+  const rl = readline.createInterface({ input });
+  const send = (response: RpcResponse) => output.write(JSON.stringify(response) + '\n');
+
+  rl.on('line', async (line) => {
+    let request: RpcRequest;
+    try {
+      request = JSON.parse(line) as RpcRequest;
+    } catch {
+      send({ jsonrpc: '2.0', id: null, error: { code: PARSE_ERROR, message: 'Parse error' } });
+      return;
+    }
+    const id = typeof request?.id === 'number' ? request.id : null;
+    if (id === null || typeof request.method !== 'string') {
+      send({ jsonrpc: '2.0', id, error: { code: INVALID_REQUEST, message: 'Invalid request' } });
+      return;
+    }
+    const raw = (request.params && typeof request.params === 'object' ? request.params : {}) as Record<string, unknown>;
+
+    try {
+      let params = raw;
+      let hash: Buffer | null = null;
+      if (request.method === 'signTransactionInput') {
+        // Only what the hash is computed from reaches authorize() and the signer
+        const input: SignTransactionInputRequest = {
+          unsignedTx: raw.unsignedTx as string,
+          index: raw.index as number,
+          value: raw.value as number,
+          hashType: raw.hashType as number,
+          ...(raw.prevOutScript !== undefined && { prevOutScript: raw.prevOutScript as string }),
+        };
+        hash = inputSignatureHash(input, await signer.getPublicKey(), options.network || 'verustest');
+        if (raw.hash !== undefined && raw.hash !== hash.toString('hex')) {
+          throw new Error('Requested hash does not match the unsigned transaction');
+        }
+        params = { ...input };
+      }
+
+      if (options.authorize && !(await options.authorize(request.method, params))) {
+        throw new Error(`${request.method} refused by signer policy`);
+      }
+      let result: string;
+      switch (request.method) {
+        case 'getPublicKey':
+          result = await signer.getPublicKey();
+          break;
+        case 'signMessage':
+          result = await signer.signMessage(String(params.message), {
+            ...(typeof params.identity === 'string' && { identity: params.identity }),
+          });
+          break;
+        case 'signTransactionInput':
+          result = await signer.signTransactionInput(params as unknown as SignTransactionInputRequest);
+          if (!verifyInputSignature(await signer.getPublicKey(), hash!, result)) {
+            throw new Error('Signer produced a signature over a different transaction');
+          }
+          break;
+        default:
+          send({ jsonrpc: '2.0', id, error: { code: METHOD_NOT_FOUND, message: `Unknown method: ${request.method}` } });
+          return;
+      }
+      send({ jsonrpc: '2.0', id, result });
+    } catch (err) {
+      send({ jsonrpc: '2.0', id, error: { code: SIGNER_ERROR, message: err instanceof Error ? err.message : String(err) } });
+    }
+  });
+
+  return () => rl.close();
+}
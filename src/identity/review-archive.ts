@@ -0,0 +1,327 @@
+/**
+ * Review archival — keeps an identity's on-chain reviews bounded.
+ *
+ * Every accepted review appends one value to each review key of the
+ * contentmultimap (REVIEW_FIELD_ABSENT for a field the review doesn't have),
+ * so review i is the i-th value of every review key. The identity, and the
+ * fee of every update, grows with the number of reviews. Compaction keeps the newest reviews on-chain and
+ * replaces the older ones with an aggregate: how many were archived, their
+ * rating total and the Merkle root over them. The archived reviews themselves
+ * are kept off-chain (ReviewArchiveStore); any one of them can be proven
+ * against the on-chain root with buildReviewProof() / verifyArchivedReview().
+ *
+ * Reviews are stored as the hex values that were on-chain, so the proof covers
+ * exactly what the identity published.
+ */
+
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { canonicalize } from 'json-canonicalize';
+
+import { VDXF_KEYS, decodeVdxfValue, encodeVdxfValue } from '../onboarding/vdxf.js';
+import type { ContentMultimap, ContentMultimapPatch } from './content-patch.js';
+
+export type ReviewField = keyof typeof VDXF_KEYS.review;
+
+/** One review as published: review field → hex value from the contentmultimap */
+export type ArchivedReview = Partial<Record<ReviewField, string>>;
+
+/** On-chain summary of the archived reviews */
+export interface ReviewAggregate {
+  version: 1;
+  /** Reviews archived so far */
+  count: number;
+  /** Archived reviews that carry a rating, and the sum of their ratings */
+  ratedCount: number;
+  ratingSum: number;
+  /** Mean rating of the archived reviews (null: none rated) */
+  meanRating: number | null;
+  /** Merkle root over the archived reviews, oldest first (hex; empty tree: hash of nothing) */
+  merkleRoot: string;
+  /** Unix time of the last compaction */
+  updatedAt: number;
+}
+
+/** Path from one archived review to the Merkle root */
+export interface ReviewProof {
+  /** Position of the review in the archive */
+  index: number;
+  /** Sibling hashes from the leaf upwards; `left` when the sibling is on the left */
+  siblings: { hash: string; left: boolean }[];
+}
+
+export interface ReviewCompaction {
+  /** Edits for the identity update: trimmed review keys and the new aggregate */
+  patch: ContentMultimapPatch;
+  aggregate: ReviewAggregate;
+  /** Full archive after this compaction — persist it before broadcasting */
+  archive: ArchivedReview[];
+  /** Reviews moved off-chain by this compaction */
+  archived: ArchivedReview[];
+}
+
+/** Where archived reviews are kept. Losing them loses the ability to prove them. */
+export interface ReviewArchiveStore {
+  load(): Promise<ArchivedReview[]>;
+  save(archive: ArchivedReview[]): Promise<void>;
+}
+
+const REVIEW_FIELDS = Object.keys(VDXF_KEYS.review) as ReviewField[];
+
+/** Value appended to a review key for a field the review doesn't have, keeping the keys parallel */
+export const REVIEW_FIELD_ABSENT = encodeVdxfValue(null);
+
+/**
+ * Patch that appends one review: a value under every review key, so review i
+ * stays the i-th value of each key. Missing fields get REVIEW_FIELD_ABSENT.
+ */
+export function appendReviewPatch(review: ArchivedReview): ContentMultimapPatch {
+  return REVIEW_FIELDS.map(field => ({
+    op: 'append' as const,
+    key: VDXF_KEYS.review[field],
+    values: [review[field] ?? REVIEW_FIELD_ABSENT],
+  }));
+}
+
+function sha256(...parts: Buffer[]): Buffer {
+  const hash = createHash('sha256');
+  for (const part of parts) hash.update(part);
+  return hash.digest();
+}
+
+/** Leaf hash of a review (domain-separated from inner nodes) */
+export function reviewLeafHash(review: ArchivedReview): Buffer {
+  return sha256(Buffer.from([0]), Buffer.from(canonicalize(review), 'utf8'));
+}
+
+function parentHash(left: Buffer, right: Buffer): Buffer {
+  return sha256(Buffer.from([1]), left, right);
+}
+
+/** Tree levels from the leaves up; an odd node at the end of a level moves up unpaired */
+function merkleLevels(leaves: Buffer[]): Buffer[][] {
+  const levels = [leaves];
+  while (levels[levels.length - 1].length > 1) {
+    const level = levels[levels.length - 1];
+    const next: Buffer[] = [];
+    for (let i = 0; i < level.length; i += 2) {
+      next.push(i + 1 < level.length ? parentHash(level[i], level[i + 1]) : level[i]);
+    }
+    levels.push(next);
+  }
+  return levels;
+}
+
+/** Merkle root over reviews, oldest first (hex) */
+export function reviewMerkleRoot(reviews: ArchivedReview[]): string {
+  if (reviews.length === 0) return sha256().toString('hex');
+  const levels = merkleLevels(reviews.map(reviewLeafHash));
+  return levels[levels.length - 1][0].toString('hex');
+}
+
+/**
+ * Proof that `archive[index]` is part of the archive's Merkle root.
+ * @throws Error when the index is out of range
+ */
+export function buildReviewProof(archive: ArchivedReview[], index: number): ReviewProof {
+  if (!Number.isInteger(index) || index < 0 || index >= archive.length) {
+    throw new Error(`No archived review at index ${index} (archive has ${archive.length})`);
+  }
+  const siblings: ReviewProof['siblings'] = [];
+  let position = index;
+  for (const level of merkleLevels(archive.map(reviewLeafHash)).slice(0, -1)) {
+    const sibling = position % 2 === 0 ? position + 1 : position - 1;
+    if (sibling < level.length) {
+      siblings.push({ hash: level[sibling].toString('hex'), left: sibling < position });
+    }
+    position = Math.floor(position / 2);
+  }
+  return { index, siblings };
+}
+
+/**
+ * Check an archived review against the on-chain aggregate (or its Merkle root).
+ * Needs nothing but the review, its proof and the root read from the identity.
+ */
+export function verifyArchivedReview(review: ArchivedReview, proof: ReviewProof, root: ReviewAggregate | string): boolean {
+  const expected = typeof root === 'string' ? root : root.merkleRoot;
+  if (typeof root !== 'string' && (proof.index < 0 || proof.index >= root.count)) return false;
+  let hash = reviewLeafHash(review);
+  for (const { hash: sibling, left } of proof.siblings) {
+    const other = Buffer.from(sibling, 'hex');
+    hash = left ? parentHash(other, hash) : parentHash(hash, other);
+  }
+  return hash.toString('hex') === expected;
+}
+
+/**
+ * Reviews published in a contentmultimap, oldest first.
+ * The review keys are parallel arrays: review i is the i-th value of each key
+ * (a key may be missing altogether when no review has that field).
+ *
+ * @throws Error when the review keys hold different numbers of values, so
+ *   reviews can't be told apart
+ */
+export function reviewsFromContentMultimap(cmm: ContentMultimap): ArchivedReview[] {
+  const lengths = REVIEW_FIELDS.map(field => cmm[VDXF_KEYS.review[field]]?.length ?? 0);
+  const count = Math.max(0, ...lengths);
+  if (lengths.some(length => length !== 0 && length !== count)) {
+    throw new Error(`Review keys hold different numbers of values (${lengths.join(', ')}); reviews can't be told apart`);
+  }
+  return Array.from({ length: count }, (_, i) => {
+    const review: ArchivedReview = {};
+    for (const field of REVIEW_FIELDS) {
+      const value = cmm[VDXF_KEYS.review[field]]?.[i];
+      if (value !== undefined && value !== REVIEW_FIELD_ABSENT) review[field] = value;
+    }
+    return review;
+  });
+}
+
+/** Rating of a review, or null when it has none */
+export function reviewRating(review: ArchivedReview): number | null {
+  if (review.rating === undefined) return null;
+  const rating = Number(decodeVdxfValue(review.rating));
+  return Number.isFinite(rating) ? rating : null;
+}
+
+/**
+ * Aggregate stored under `aggregateKey`, or null when reviews were never compacted.
+ * @throws Error when the value is not an aggregate
+ */
+export function readReviewAggregate(cmm: ContentMultimap, aggregateKey: string): ReviewAggregate | null {
+  const values = cmm[aggregateKey];
+  if (!values || values.length === 0) return null;
+  const aggregate = decodeVdxfValue(values[values.length - 1]) as ReviewAggregate;
+  if (aggregate?.version !== 1 || typeof aggregate.count !== 'number' || typeof aggregate.merkleRoot !== 'string') {
+    throw new Error(`Value under ${aggregateKey} is not a review aggregate`);
+  }
+  return aggregate;
+}
+
+/** Reputation over archived and on-chain reviews together */
+export function reviewSummary(cmm: ContentMultimap, aggregateKey: string): { count: number; meanRating: number | null } {
+  const aggregate = readReviewAggregate(cmm, aggregateKey);
+  const reviews = reviewsFromContentMultimap(cmm);
+  const ratings = reviews.map(reviewRating).filter((r): r is number => r !== null);
+  const rated = (aggregate?.ratedCount ?? 0) + ratings.length;
+  const sum = (aggregate?.ratingSum ?? 0) + ratings.reduce((a, b) => a + b, 0);
+  return {
+    count: (aggregate?.count ?? 0) + reviews.length,
+    meanRating: rated > 0 ? sum / rated : null,
+  };
+}
+
+/**
+ * Work out a compaction: keep the newest `keep` reviews on-chain and fold the
+ * rest into the aggregate.
+ *
+ * `archive` is what was archived before. It may run past the on-chain
+ * aggregate (a compaction that was saved but never confirmed); only the part
+ * the aggregate covers is kept, the rest is still on-chain.
+ *
+ * @returns null when no more than `keep` reviews are on-chain
+ * @throws Error when `archive` doesn't match the on-chain Merkle root, or the review keys are not parallel
+ */
+export function planReviewCompaction(params: {
+  contentmultimap: ContentMultimap;
+  /** Reviews to keep on-chain */
+  keep: number;
+  /** Key the aggregate is stored under */
+  aggregateKey: string;
+  archive: ArchivedReview[];
+  /** Unix time recorded in the aggregate (default: now) */
+  now?: number;
+}): ReviewCompaction | null {
+  const { contentmultimap: cmm, keep, aggregateKey } = params;
+  if (!Number.isInteger(keep) || keep < 0) {
+    throw new Error(`Reviews to keep must be a non-negative integer, got ${keep}`);
+  }
+
+  const onChain = reviewsFromContentMultimap(cmm);
+  if (onChain.length <= keep) return null;
+
+  const previous = readReviewAggregate(cmm, aggregateKey);
+  const confirmed = params.archive.slice(0, previous?.count ?? 0);
+  if (confirmed.length !== (previous?.count ?? 0) || reviewMerkleRoot(confirmed) !== (previous?.merkleRoot ?? reviewMerkleRoot([]))) {
+    throw new Error('Review archive does not match the on-chain Merkle root; restore the archive before compacting');
+  }
+
+  const archived = onChain.slice(0, onChain.length - keep);
+  const archive = [...confirmed, ...archived];
+  const ratings = archived.map(reviewRating).filter((r): r is number => r !== null);
+  const ratedCount = (previous?.ratedCount ?? 0) + ratings.length;
+  const ratingSum = (previous?.ratingSum ?? 0) + ratings.reduce((a, b) => a + b, 0);
+  const aggregate: ReviewAggregate = {
+    version: 1,
+    count: archive.length,
+    ratedCount,
+    ratingSum,
+    meanRating: ratedCount > 0 ? ratingSum / ratedCount : null,
+    merkleRoot: reviewMerkleRoot(archive),
+    updatedAt: params.now ?? Math.floor(Date.now() / 1000),
+  };
+
+  const patch: ContentMultimapPatch = REVIEW_FIELDS.map((field) => {
+    const key = VDXF_KEYS.review[field];
+    const kept = (cmm[key] || []).slice(archived.length);
+    return kept.length > 0 ? { op: 'add', key, values: kept } : { op: 'removeKey', key };
+  });
+  patch.push({ op: 'add', key: aggregateKey, values: [encodeVdxfValue(aggregate)] });
+
+  return { patch, aggregate, archive, archived };
+}
+
+/** Review archive kept in memory — for tests, or when the caller persists it */
+export class MemoryReviewArchiveStore implements ReviewArchiveStore {
+  protected reviews: ArchivedReview[] = [];
+
+  async load(): Promise<ArchivedReview[]> {
+    return [...this.reviews];
+  }
+
+  async save(archive: ArchivedReview[]): Promise<void> {
+    this.reviews = [...archive];
+  }
+}
+
+interface ReviewArchiveFile {
+  version: 1;
+  reviews: ArchivedReview[];
+}
+
+/**
+ * JSON-file review archive, written atomically. Unlike FileJobStore a corrupt
+ * file is an error, not a fresh start: the archive can't be rebuilt from the chain.
+ */
+export class FileReviewArchiveStore implements ReviewArchiveStore {
+  private readonly filePath: string;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  async load(): Promise<ArchivedReview[]> {
+    if (!fs.existsSync(this.filePath)) return [];
+    let parsed: ReviewArchiveFile;
+    try {
+      parsed = JSON.parse(fs.readFileSync(this.filePath, 'utf8')) as ReviewArchiveFile;
+    } catch {
+      throw new Error(`Review archive ${this.filePath} is corrupt`);
+    }
+    if (parsed?.version !== 1 || !Array.isArray(parsed.reviews)) {
+      throw new Error(`Unrecognized review archive format in ${this.filePath}`);
+    }
+    return parsed.reviews;
+  }
+
+  async save(archive: ArchivedReview[]): Promise<void> {
+    const data: ReviewArchiveFile = { version: 1, reviews: archive };
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    // Atomic write: write to temp file then rename to prevent corruption on crash
+    const tmp = this.filePath + '.tmp';
+    fs.writeFileSync(tmp, JSON.stringify(data, null, 2));
+    fs.renameSync(tmp, this.filePath);
+  }
+}
@@ -1,12 +1,119 @@
 /**
  * Message signing for Verus agents.
  * Uses minimal extracted utilities to avoid @bitgo/utxo-lib dependency issues.
+ *
+ * Every signing function takes either a WIF or a Signer. A WIF signs in this
+ * process and returns synchronously; a Signer (HSM, remote process, ...) holds
+ * the key elsewhere and returns a Promise.
  */
 
 import {
-  signMessage as verusSignMessage,
+  publicKeyToAddress,
   signChallenge as verusSignChallenge,
+  signHash,
+  signMessage as verusSignMessage,
+  keypairFromWIF,
 } from './verus-sign.js';
+import { inputSignatureHash, type InputSigningData } from '../tx/sighash.js';
+
+/**
+ * One input to sign. There is deliberately no hash: the signer computes it from
+ * `unsignedTx` (see inputSignatureHash), so its policy checks and its signature
+ * cover the same transaction.
+ */
+export type SignTransactionInputRequest = InputSigningData;
+
+export interface SignMessageOptions {
+  /**
+   * Sign as this identity in CIdentitySignature format (see signChallenge).
+   * Default: legacy format compatible with `verus verifymessage`.
+   */
+  identity?: string;
+}
+
+/** Holds a private key and signs with it without revealing it */
+export interface Signer {
+  /** Compressed public key (hex) */
+  getPublicKey(): Promise<string>;
+  /** Sign a message, returning the base64 signature */
+  signMessage(message: string, options?: SignMessageOptions): Promise<string>;
+  /**
+   * Sign one input of `request.unsignedTx`, returning the DER-encoded signature (hex).
+   * The signature hash must be computed from the request, never taken from the caller.
+   */
+  signTransactionInput(request: SignTransactionInputRequest): Promise<string>;
+}
+
+/** Signer backed by a WIF held in this process */
+export class LocalWifSigner implements Signer {
+  private readonly wif: string;
+  private readonly network: 'verus' | 'verustest';
+  private readonly pubkey: string;
+
+  /** @throws Error when the WIF is invalid or uncompressed */
+  constructor(wif: string, network: 'verus' | 'verustest' = 'verustest') {
+    this.pubkey = keypairFromWIF(wif, network).publicKey;
+    this.wif = wif;
+    this.network = network;
+  }
+
+  async getPublicKey(): Promise<string> {
+    return this.pubkey;
+  }
 
-export { verusSignMessage as signMessage };
-export { verusSignChallenge as signChallenge };
+  async signMessage(message: string, options: SignMessageOptions = {}): Promise<string> {
+    return options.identity
+      ? verusSignChallenge(this.wif, message, options.identity, this.network)
+      : verusSignMessage(this.wif, message, this.network);
+  }
+
+  async signTransactionInput(request: SignTransactionInputRequest): Promise<string> {
+    const hash = inputSignatureHash(request, this.pubkey, this.network);
+    return signHash(this.wif, hash.toString('hex'), this.network);
+  }
+}
+
+/** True for a Signer, false for a WIF string */
+export function isSigner(key: string | Signer): key is Signer {
+  return typeof key !== 'string';
+}
+
+/** R-address of a signer's key */
+export async function signerAddress(signer: Signer, network: 'verus' | 'verustest' = 'verustest'): Promise<string> {
+  return publicKeyToAddress(await signer.getPublicKey(), network);
+}
+
+/**
+ * Sign a message (legacy format compatible with verus verifymessage).
+ *
+ * @param key - WIF, or a Signer (which signs for its own network)
+ */
+export function signMessage(key: string, message: string, network?: 'verus' | 'verustest'): string;
+export function signMessage(key: Signer, message: string, network?: 'verus' | 'verustest'): Promise<string>;
+export function signMessage(key: string | Signer, message: string, network?: 'verus' | 'verustest'): string | Promise<string>;
+export function signMessage(
+  key: string | Signer,
+  message: string,
+  network: 'verus' | 'verustest' = 'verustest',
+): string | Promise<string> {
+  return isSigner(key) ? key.signMessage(message) : verusSignMessage(key, message, network);
+}
+
+/**
+ * Sign a challenge (CIdentitySignature format).
+ *
+ * @param key - WIF, or a Signer (which signs for its own network)
+ * @param identityAddress - The i-address or identity name signing
+ */
+export function signChallenge(key: string, challenge: string, identityAddress: string, network?: 'verus' | 'verustest'): string;
+export function signChallenge(key: Signer, challenge: string, identityAddress: string, network?: 'verus' | 'verustest'): Promise<string>;
+export function signChallenge(
+  key: string | Signer,
+  challenge: string,
+  identityAddress: string,
+  network: 'verus' | 'verustest' = 'verustest',
+): string | Promise<string> {
+  return isSigner(key)
+    ? key.signMessage(challenge, { identity: identityAddress })
+    : verusSignChallenge(key, challenge, identityAddress, network);
+}
@@ -10,72 +10,136 @@ import * as utxolib from '@bitgo/utxo-lib';
 import { Identity, IdentityScript } from 'verus-typescript-primitives';
 
 import type { RawIdentityData, Utxo } from '../client/index.js';
+import { selectCoins, type CoinSelectionStrategy } from '../tx/coin-selection.js';
+import { createPartialTransaction, type PartialTransaction } from '../tx/partial.js';
+import { andThen, keyAddress, signInputs, signingKey, type UnsignedTxBuilder } from '../tx/signing.js';
+import type { SigningKeyParams } from '../tx/payment.js';
+import {
+  additionsToPatch,
+  applyContentMultimapPatch,
+  diffContentMultimaps,
+  normalizeContentMultimap,
+  type ContentMultimap,
+  type ContentMultimapDiff,
+  type ContentMultimapPatch,
+} from './content-patch.js';
+import type { Signer } from './signer.js';
+import {
+  computeFee,
+  draftTxSize,
+  IDENTITY_SCRIPT_SIG_SIZE,
+  P2PKH_SCRIPT_SIG_SIZE,
+  P2PKH_SCRIPT_SIZE,
+  type FeeBreakdown,
+  type FeePolicy,
+} from '../tx/fees.js';
 
-const DEFAULT_FEE = 10000; // 0.0001 VRSC in satoshis
 const SATS_PER_COIN = 100000000;
 
-export interface IdentityUpdateParams {
-  /** Agent's WIF key */
-  wif: string;
+/** Identity flag set by revokeidentity: the identity can't spend or sign until it is recovered */
+export const IDENTITY_FLAG_REVOKED = 0x8000;
+
+/**
+ * Largest identity output script accepted by default (bytes). The whole
+ * identity, contentmultimap included, has to fit in one script element
+ * (MAX_SCRIPT_ELEMENT_SIZE_PBAAS in verusd).
+ */
+export const MAX_IDENTITY_SCRIPT_SIZE = 6000;
+
+export interface IdentityUpdateParams extends FeePolicy, SigningKeyParams {
   /** Raw identity data from platform (GET /v1/me/identity/raw) */
   identityData: RawIdentityData;
   /** Agent's UTXOs for funding the transaction fee */
   utxos: Utxo[];
-  /** VDXF key-value pairs to ADD to contentmultimap (hex-encoded values) */
-  vdxfAdditions: Record<string, string[]>;
+  /** VDXF key-value pairs to ADD to contentmultimap, replacing those keys (hex-encoded values) */
+  vdxfAdditions?: Record<string, string[]>;
+  /** Further contentmultimap edits, applied after `vdxfAdditions` */
+  patch?: ContentMultimapPatch;
+  /** Refuse updates whose identity script is larger than this (default: MAX_IDENTITY_SCRIPT_SIZE) */
+  maxScriptSize?: number;
   /** Network (default: verustest) */
   network?: 'verus' | 'verustest';
-  /** Fee in satoshis (default: 10000 = 0.0001 VRSC) */
+  /** Fixed fee in satoshis (default: size-based, at least 10000 = 0.0001 VRSC) */
   fee?: number;
   /** New revocation authority i-address (if changing) */
   revocationauthority?: string;
   /** New recovery authority i-address (if changing) */
   recoveryauthority?: string;
+  /** New primary R-addresses (if changing), e.g. from multisigPrimaries() */
+  primaryaddresses?: string[];
+  /** New number of primary signatures required (if changing) */
+  minimumsignatures?: number;
+  /** Coin selection strategy for the fee inputs (default: largest-first) */
+  strategy?: CoinSelectionStrategy;
 }
 
-/**
- * Select UTXOs to cover the target amount (simple greedy algorithm).
- * Prefers larger UTXOs to minimize inputs.
- */
-function selectUtxos(utxos: Utxo[], targetSatoshis: number): { selected: Utxo[]; total: number } {
-  // Sort descending by value
-  const sorted = [...utxos].sort((a, b) => b.satoshis - a.satoshis);
-  const selected: Utxo[] = [];
-  let total = 0;
-
-  for (const utxo of sorted) {
-    selected.push(utxo);
-    total += utxo.satoshis;
-    if (total >= targetSatoshis) break;
-  }
+/** Identity output script, fee inputs and fee of an update, before signing */
+interface IdentityUpdateDraft {
+  idOutputScript: Buffer;
+  selected: Utxo[];
+  totalInput: number;
+  fee: FeeBreakdown;
+}
 
-  if (total < targetSatoshis) {
-    throw new Error(`Insufficient funds: need ${targetSatoshis} satoshis, have ${total}`);
-  }
+type IdentityScriptParams = Pick<
+  IdentityUpdateParams,
+  | 'identityData' | 'vdxfAdditions' | 'patch' | 'maxScriptSize'
+  | 'revocationauthority' | 'recoveryauthority' | 'primaryaddresses' | 'minimumsignatures'
+> & {
+  /** New identity flags (default: unchanged) */
+  flags?: number;
+};
 
-  return { selected, total };
+/** Params of a revocation or recovery: no content changes, signed by an authority's key */
+export type IdentityAuthorityParams = Omit<
+  IdentityUpdateParams,
+  'vdxfAdditions' | 'primaryaddresses' | 'minimumsignatures' | 'revocationauthority' | 'recoveryauthority'
+>;
+
+/** True when the identity has been revoked and not recovered since */
+export function isIdentityRevoked(identityData: RawIdentityData): boolean {
+  return ((identityData.identity?.flags ?? 0) & IDENTITY_FLAG_REVOKED) !== 0;
+}
+
+/** Primary addresses and signature threshold for `addresses` signing `minimumSignatures`-of-n */
+export interface MultisigPrimaries {
+  primaryaddresses: string[];
+  minimumsignatures: number;
 }
 
 /**
- * Build a signed updateidentity transaction that adds VDXF data to contentmultimap.
+ * Primary addresses that make an identity `minimumSignatures`-of-n multisig,
+ * for the `primaryaddresses` / `minimumsignatures` of an identity update.
  *
- * @returns Signed raw transaction hex ready for broadcast
+ * @param addresses - R-addresses of the key holders, e.g. the agent's own address and its cosigners'
+ * @throws Error when an address is repeated or not an R-address, or the threshold can't be met
  */
-export function buildIdentityUpdateTx(params: IdentityUpdateParams): string {
-  const {
-    wif,
-    identityData,
-    utxos,
-    vdxfAdditions,
-    network = 'verustest',
-    fee = DEFAULT_FEE,
-    revocationauthority,
-    recoveryauthority,
-  } = params;
+export function multisigPrimaries(addresses: string[], minimumSignatures: number): MultisigPrimaries {
+  const unique = [...new Set(addresses)];
+  if (unique.length !== addresses.length) {
+    throw new Error('Primary addresses must not repeat');
+  }
+  const invalid = addresses.find(a => !/^R[1-9A-HJ-NP-Za-km-z]{25,34}$/.test(a));
+  if (invalid !== undefined) {
+    throw new Error(`Primary address must be an R-address: ${invalid}`);
+  }
+  if (!Number.isInteger(minimumSignatures) || minimumSignatures < 1 || minimumSignatures > addresses.length) {
+    throw new Error(`Cannot require ${minimumSignatures} of ${addresses.length} signatures`);
+  }
+  return { primaryaddresses: unique, minimumsignatures: minimumSignatures };
+}
 
-  const networkObj = network === 'verustest'
-    ? utxolib.networks.verustest
-    : utxolib.networks.verus;
+/** Params of a key rotation: the new primary addresses, no content changes */
+export type KeyRotationParams = Omit<IdentityUpdateParams, 'vdxfAdditions' | 'primaryaddresses'> & { primaryaddresses: string[] };
+
+/** Params of a recovery: new primary addresses (default: 1 signature required) and optionally new authorities */
+export type IdentityRecoveryParams = IdentityAuthorityParams
+  & Pick<IdentityUpdateParams, 'revocationauthority' | 'recoveryauthority' | 'minimumsignatures'>
+  & { primaryaddresses: string[] };
+
+/** Output script of the updated identity */
+function buildIdentityOutputScript(params: IdentityScriptParams): Buffer {
+  const { identityData, revocationauthority, recoveryauthority } = params;
 
   // Validate required data
   if (!identityData.prevOutput) {
@@ -84,31 +148,24 @@ export function buildIdentityUpdateTx(params: IdentityUpdateParams): string {
   if (!identityData.identity) {
     throw new Error('Identity data is required');
   }
-  if (utxos.length === 0) {
-    throw new Error('At least one UTXO is required to fund the transaction fee');
-  }
 
-  // 1. Merge VDXF additions into current identity's contentmultimap
-  const currentCmm: Record<string, string[]> = {};
+  // 1. Apply VDXF additions, then the patch, to the current identity's contentmultimap
+  const currentCmm = updatedContentMultimap(params);
 
-  // Copy existing contentmultimap
-  if (identityData.identity.contentmultimap) {
-    for (const [key, values] of Object.entries(identityData.identity.contentmultimap)) {
-      currentCmm[key] = Array.isArray(values) ? [...values] : [values as string];
-    }
-  }
-
-  // Merge new VDXF data (replace existing keys, add new ones)
-  for (const [key, values] of Object.entries(vdxfAdditions)) {
-    currentCmm[key] = [...values];
-  }
+  // Changing the primary keys: validate the new set before it can lock the identity
+  const primaries = params.primaryaddresses || params.minimumsignatures != null
+    ? multisigPrimaries(
+      params.primaryaddresses || identityData.identity.primaryaddresses,
+      params.minimumsignatures ?? identityData.identity.minimumsignatures,
+    )
+    : identityData.identity;
 
   // 2. Build updated identity JSON (matching getidentity RPC output format)
   const idJson: Record<string, unknown> = {
     version: identityData.identity.version ?? 3,
-    flags: identityData.identity.flags ?? 0,
-    minimumsignatures: identityData.identity.minimumsignatures,
-    primaryaddresses: identityData.identity.primaryaddresses,
+    flags: params.flags ?? identityData.identity.flags ?? 0,
+    minimumsignatures: primaries.minimumsignatures,
+    primaryaddresses: primaries.primaryaddresses,
     parent: identityData.identity.parent,
     name: identityData.identity.name,
     contentmap: identityData.identity.contentmap || {},
@@ -121,56 +178,305 @@ export function buildIdentityUpdateTx(params: IdentityUpdateParams): string {
 
   // 3. Create Identity object and get output script
   const identity = Identity.fromJson(idJson);
-  const idOutputScript = IdentityScript.fromIdentity(identity).toBuffer();
+  const script: Buffer = IdentityScript.fromIdentity(identity).toBuffer();
 
-  // 4. Select UTXOs to cover fee
-  const { selected: selectedUtxos, total: totalInput } = selectUtxos(utxos, fee);
+  // Refuse here rather than have the network reject a signed transaction
+  const maxScriptSize = params.maxScriptSize ?? MAX_IDENTITY_SCRIPT_SIZE;
+  if (script.length > maxScriptSize) {
+    throw new Error(
+      `Identity script would be ${script.length} bytes, over the ${maxScriptSize}-byte limit; `
+      + 'remove stale contentmultimap entries (removeKey / removeValue) to make room',
+    );
+  }
+  return script;
+}
 
-  // 5. Create key pair from WIF
-  const keyPair = utxolib.ECPair.fromWIF(wif, networkObj);
-  const agentAddress = keyPair.getAddress();
-  const agentScript = utxolib.address.toOutputScript(agentAddress, networkObj);
+/** The identity's contentmultimap after `vdxfAdditions` and `patch` */
+function updatedContentMultimap(params: Pick<IdentityScriptParams, 'identityData' | 'vdxfAdditions' | 'patch'>): ContentMultimap {
+  return applyContentMultimapPatch(
+    normalizeContentMultimap(params.identityData.identity.contentmultimap),
+    [...additionsToPatch(params.vdxfAdditions || {}), ...(params.patch || [])],
+  );
+}
 
-  // 6. Build the transaction
-  const txb = new utxolib.TransactionBuilder(networkObj);
-  txb.setVersion(4);
-  txb.setExpiryHeight(identityData.blockHeight + 200);
-  txb.setVersionGroupId(0x892f2085); // Sapling version group ID
-
-  // Output 0: Updated identity (value=0)
-  txb.addOutput(idOutputScript, 0);
-
-  // Inputs: UTXOs for fee funding
-  for (const utxo of selectedUtxos) {
-    const txidBuf = Buffer.from(utxo.txid, 'hex').reverse(); // txid is little-endian
-    txb.addInput(txidBuf, utxo.vout, 0xffffffff, agentScript);
+/** What an identity update would change, before anything is signed */
+export interface IdentityUpdatePreview {
+  /** contentmultimap after the update */
+  contentmultimap: ContentMultimap;
+  /** Changed contentmultimap keys */
+  diff: ContentMultimapDiff;
+  /** Size of the identity output script in bytes */
+  scriptSize: number;
+  maxScriptSize: number;
+  fee: FeeBreakdown;
+}
+
+/** Signatures the identity input carries: the current identity's threshold */
+function identitySignatures(identityData: RawIdentityData): number {
+  return Math.max(1, identityData.identity?.minimumsignatures ?? 1);
+}
+
+/** Fee of an update with `inputs` fee-funding inputs (plus the identity input, identity output and change) */
+function feeForInputs(
+  idOutputScript: Buffer,
+  inputs: number,
+  params: FeePolicy & { fee?: number; identityData: RawIdentityData },
+): FeeBreakdown {
+  const policy: FeePolicy = params.fee != null
+    ? { feeRate: 0, minFee: params.fee, maxFee: params.maxFee }
+    : { feeRate: params.feeRate, minFee: params.minFee, maxFee: params.maxFee };
+  // Each further signature on the identity input adds about a P2PKH signature script
+  const identityScriptSig = IDENTITY_SCRIPT_SIG_SIZE + (identitySignatures(params.identityData) - 1) * P2PKH_SCRIPT_SIG_SIZE;
+  const scriptSigs = [...new Array(inputs).fill(P2PKH_SCRIPT_SIG_SIZE), identityScriptSig];
+  const size = draftTxSize(scriptSigs, [idOutputScript.length, P2PKH_SCRIPT_SIZE]);
+  return computeFee(size, { inputs: inputs + 1, outputs: 2 }, policy);
+}
+
+function draftIdentityUpdate(params: Omit<IdentityUpdateParams, keyof SigningKeyParams> & { flags?: number }): IdentityUpdateDraft {
+  const idOutputScript = buildIdentityOutputScript(params);
+  if (params.utxos.length === 0) {
+    throw new Error('At least one UTXO is required to fund the transaction fee');
   }
 
-  // Output 1: Change (input total minus fee)
+  // 4. Select UTXOs to cover the fee, which grows with the identity script and the number of inputs
+  let fee = feeForInputs(idOutputScript, 1, params);
+  let selection = selectCoins(params.utxos, fee.fee, params.strategy);
+  while (feeForInputs(idOutputScript, selection.selected.length, params).fee > fee.fee) {
+    fee = feeForInputs(idOutputScript, selection.selected.length, params);
+    selection = selectCoins(params.utxos, fee.fee, params.strategy);
+  }
+  fee = feeForInputs(idOutputScript, selection.selected.length, params);
+
+  return { idOutputScript, selected: selection.selected, totalInput: selection.total, fee };
+}
+
+/**
+ * Preview an identity update: the resulting contentmultimap, a diff against the
+ * current one, the script size and the fee.
+ *
+ * @param params.inputs - Number of fee-funding inputs (default: 1)
+ * @throws Error when the script exceeds `maxScriptSize` or the fee exceeds `maxFee`
+ */
+export function previewIdentityUpdate(
+  params: Omit<IdentityUpdateParams, keyof SigningKeyParams | 'utxos' | 'strategy'> & { inputs?: number },
+): IdentityUpdatePreview {
+  const script = buildIdentityOutputScript(params);
+  const contentmultimap = updatedContentMultimap(params);
+  return {
+    contentmultimap,
+    diff: diffContentMultimaps(normalizeContentMultimap(params.identityData.identity.contentmultimap), contentmultimap),
+    scriptSize: script.length,
+    maxScriptSize: params.maxScriptSize ?? MAX_IDENTITY_SCRIPT_SIZE,
+    fee: feeForInputs(script, params.inputs ?? 1, params),
+  };
+}
+
+/**
+ * Fee of an identity update before it is built, e.g. to show it or compare it with a budget.
+ * The size covers the full identity script, so large contentmultimaps pay accordingly.
+ *
+ * @param params.inputs - Number of fee-funding inputs (default: 1)
+ * @throws Error when the fee exceeds `maxFee`
+ */
+export function estimateIdentityUpdateFee(
+  params: Omit<IdentityUpdateParams, keyof SigningKeyParams | 'utxos' | 'strategy'> & { inputs?: number },
+): FeeBreakdown {
+  return feeForInputs(buildIdentityOutputScript(params), params.inputs ?? 1, params);
+}
+
+/**
+ * Unsigned update funded from `fundingAddress`, which also receives the change.
+ * Inputs: fee-funding UTXOs, then the identity.
+ */
+function unsignedIdentityUpdate(
+  params: Omit<IdentityUpdateParams, keyof SigningKeyParams> & { flags?: number },
+  fundingAddress: string,
+): { build: () => UnsignedTxBuilder; values: number[]; fundingScript: Buffer; identityScript: Buffer } {
+  const { identityData, network = 'verustest' } = params;
+
+  const networkObj = network === 'verustest'
+    ? utxolib.networks.verustest
+    : utxolib.networks.verus;
+
+  const { idOutputScript, selected: selectedUtxos, totalInput, fee: feeBreakdown } = draftIdentityUpdate(params);
+  const fee = feeBreakdown.fee;
+  const prevOutput = identityData.prevOutput!; // checked by draftIdentityUpdate()
+
+  // 5. Fee inputs and change belong to the funding address
+  const agentScript = utxolib.address.toOutputScript(fundingAddress, networkObj);
+  const prevIdScript = Buffer.from(prevOutput.scriptHex, 'hex');
   const change = totalInput - fee;
-  if (change > 0) {
-    txb.addOutput(agentScript, change);
+
+  // 6. Build the transaction
+  const build = () => {
+    const txb = new utxolib.TransactionBuilder(networkObj);
+    txb.setVersion(4);
+    txb.setExpiryHeight(identityData.blockHeight + 200);
+    txb.setVersionGroupId(0x892f2085); // Sapling version group ID
+
+    // Output 0: Updated identity (value=0)
+    txb.addOutput(idOutputScript, 0);
+
+    // Inputs: UTXOs for fee funding
+    for (const utxo of selectedUtxos) {
+      const txidBuf = Buffer.from(utxo.txid, 'hex').reverse(); // txid is little-endian
+      txb.addInput(txidBuf, utxo.vout, 0xffffffff, agentScript);
+    }
+
+    // Output 1: Change (input total minus fee)
+    if (change > 0) {
+      txb.addOutput(agentScript, change);
+    }
+
+    // Input: Previous identity UTXO (spending the identity to update it), after all UTXO inputs
+    const prevIdTxid = Buffer.from(prevOutput.txid, 'hex').reverse();
+    txb.addInput(prevIdTxid, prevOutput.vout, 0xffffffff, prevIdScript);
+    return txb;
+  };
+
+  // 7. Values of the UTXO inputs, then the identity input (value=0 for identity UTXOs)
+  const values = [
+    ...selectedUtxos.map(u => u.satoshis),
+    Math.round(prevOutput.value * SATS_PER_COIN),
+  ];
+  return { build, values, fundingScript: agentScript, identityScript: prevIdScript };
+}
+
+/**
+ * Build a signed updateidentity transaction that adds VDXF data to contentmultimap.
+ * Signs with `wif` (or `signer`), which must be a primary key of the identity.
+ * Identities that need more than one signature are updated with createPartialIdentityUpdate().
+ *
+ * @returns Signed raw transaction hex ready for broadcast (a Promise when signing with a Signer)
+ */
+export function buildIdentityUpdateTx(params: IdentityUpdateParams & { signer: Signer }): Promise<string>;
+export function buildIdentityUpdateTx(params: IdentityUpdateParams & { wif: string }): string;
+export function buildIdentityUpdateTx(params: IdentityUpdateParams): string | Promise<string>;
+export function buildIdentityUpdateTx(params: IdentityUpdateParams): string | Promise<string> {
+  if (params.identityData.identity && isIdentityRevoked(params.identityData)) {
+    throw new Error(`${params.identityData.identity.name} is revoked; recover it with buildRecoverIdentityTx() first`);
+  }
+  if (params.identityData.identity && identitySignatures(params.identityData) > 1) {
+    throw new Error(
+      `${params.identityData.identity.name} needs ${params.identityData.identity.minimumsignatures} signatures; `
+      + 'use createPartialIdentityUpdate() and collect them from the other key holders',
+    );
   }
+  return signIdentityTx(params);
+}
+
+/** Build the update and sign every input with the params' key, which also funds the fee */
+function signIdentityTx(params: IdentityUpdateParams & { flags?: number }): string | Promise<string> {
+  const { network = 'verustest' } = params;
+  const key = signingKey(params);
+
+  const networkObj = network === 'verustest'
+    ? utxolib.networks.verustest
+    : utxolib.networks.verus;
 
-  // Input: Previous identity UTXO (spending the identity to update it)
-  const prevIdTxid = Buffer.from(identityData.prevOutput.txid, 'hex').reverse();
-  const prevIdScript = Buffer.from(identityData.prevOutput.scriptHex, 'hex');
-  txb.addInput(prevIdTxid, identityData.prevOutput.vout, 0xffffffff, prevIdScript);
+  return andThen(keyAddress(key, network), (agentAddress) => {
+    const { build, values } = unsignedIdentityUpdate(params, agentAddress);
+    return signInputs(key, networkObj, build, values);
+  });
+}
 
-  // 7. Sign all inputs
-  const identityInputIndex = selectedUtxos.length + (change > 0 ? 0 : 0); // last input
-  const SIGHASH_ALL = utxolib.Transaction.SIGHASH_ALL;
+/**
+ * Build a signed update that replaces the identity's primary addresses — key
+ * rotation. Signed by the current key; `utxos` belong to its address.
+ * Funds held by the old R-address stay there; move them before discarding the old key.
+ *
+ * @returns Signed raw transaction hex (a Promise when signing with a Signer)
+ */
+export function buildKeyRotationTx(params: KeyRotationParams & { signer: Signer }): Promise<string>;
+export function buildKeyRotationTx(params: KeyRotationParams & { wif: string }): string;
+export function buildKeyRotationTx(params: KeyRotationParams): string | Promise<string>;
+export function buildKeyRotationTx(params: KeyRotationParams): string | Promise<string> {
+  return buildIdentityUpdateTx({ ...params, vdxfAdditions: {} });
+}
 
-  // Sign UTXO inputs
-  for (let i = 0; i < selectedUtxos.length; i++) {
-    txb.sign(i, keyPair, undefined, SIGHASH_ALL, selectedUtxos[i].satoshis);
+/**
+ * Build a signed revokeidentity transaction. Once it confirms the identity
+ * can't sign or be updated until its recovery authority recovers it.
+ * Signed by a primary key of the revocation authority, whose address funds the fee.
+ *
+ * @returns Signed raw transaction hex (a Promise when signing with a Signer)
+ * @throws Error when the identity is already revoked
+ */
+export function buildRevokeIdentityTx(params: IdentityAuthorityParams & { signer: Signer }): Promise<string>;
+export function buildRevokeIdentityTx(params: IdentityAuthorityParams & { wif: string }): string;
+export function buildRevokeIdentityTx(params: IdentityAuthorityParams): string | Promise<string>;
+export function buildRevokeIdentityTx(params: IdentityAuthorityParams): string | Promise<string> {
+  if (!params.identityData.identity) {
+    throw new Error('Identity data is required');
+  }
+  if (isIdentityRevoked(params.identityData)) {
+    throw new Error(`${params.identityData.identity.name} is already revoked`);
   }
+  return signIdentityTx({
+    ...params,
+    vdxfAdditions: {},
+    flags: (params.identityData.identity.flags ?? 0) | IDENTITY_FLAG_REVOKED,
+  });
+}
 
-  // Sign identity input (value=0 for identity UTXOs)
-  const identityIdx = selectedUtxos.length; // identity input is after all UTXO inputs
-  txb.sign(identityIdx, keyPair, undefined, SIGHASH_ALL, Math.round(identityData.prevOutput.value * SATS_PER_COIN));
+/**
+ * Build a signed recoveridentity transaction: clears the revocation and
+ * installs new primary addresses (the old keys are presumed lost or compromised).
+ * Signed by a primary key of the recovery authority, whose address funds the fee.
+ * `revocationauthority` and `recoveryauthority` replace the authorities too, if given.
+ *
+ * @returns Signed raw transaction hex (a Promise when signing with a Signer)
+ */
+export function buildRecoverIdentityTx(params: IdentityRecoveryParams & { signer: Signer }): Promise<string>;
+export function buildRecoverIdentityTx(params: IdentityRecoveryParams & { wif: string }): string;
+export function buildRecoverIdentityTx(params: IdentityRecoveryParams): string | Promise<string>;
+export function buildRecoverIdentityTx(params: IdentityRecoveryParams): string | Promise<string> {
+  if (!params.identityData.identity) {
+    throw new Error('Identity data is required');
+  }
+  return signIdentityTx({
+    ...params,
+    minimumsignatures: params.minimumsignatures ?? 1,
+    vdxfAdditions: {},
+    flags: (params.identityData.identity.flags ?? 0) & ~IDENTITY_FLAG_REVOKED,
+  });
+}
+
+/**
+ * Start an updateidentity transaction that the identity's primary key holders
+ * sign together — for identities with minimumsignatures > 1 (or any identity,
+ * when the funding key and the identity keys are held apart).
+ *
+ * The fee inputs are signed by `fundingAddress`'s key, the identity input by
+ * `minimumsignatures` of the current primary addresses. Pass the result to
+ * signPartialTransaction() for each of them.
+ */
+export function createPartialIdentityUpdate(
+  params: Omit<IdentityUpdateParams, keyof SigningKeyParams> & {
+    /** R-address whose UTXOs (`utxos`) pay the fee and which receives the change */
+    fundingAddress: string;
+    /** Shown to key holders before they sign */
+    description?: string;
+  },
+): PartialTransaction {
+  const { identityData, fundingAddress, network = 'verustest' } = params;
+  if (!identityData.identity) {
+    throw new Error('Identity data is required');
+  }
+  const { build, values, fundingScript, identityScript } = unsignedIdentityUpdate(params, fundingAddress);
+  const identityInput = values.length - 1;
 
-  // 8. Build and return signed transaction hex
-  const signedTx = txb.build();
-  return signedTx.toHex();
+  return createPartialTransaction(
+    network,
+    build,
+    values.map((value, i) => i === identityInput
+      ? {
+        value,
+        prevOutScript: identityScript,
+        signers: identityData.identity.primaryaddresses,
+        required: identitySignatures(identityData),
+      }
+      : { value, prevOutScript: fundingScript, signers: [fundingAddress], required: 1 }),
+    params.description || `Update identity ${identityData.identity.name}`,
+  );
 }
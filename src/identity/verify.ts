@@ -0,0 +1,138 @@
+/**
+ * Offline signature verification — the counterpart of verus-sign.ts.
+ *
+ * Accepts both formats the SDK produces:
+ * - legacy: bitcoin-message compact signature (signMessage, `verus verifymessage`)
+ * - identity: CIdentitySignature (signChallenge), either the bare compact
+ *   signature or the full serialized structure returned by the daemon
+ *
+ * An i-address can't sign by itself, so verifying for one needs its primary
+ * R-addresses (from getIdentity / getIdentityRaw).
+ */
+
+import * as bitcoinMessage from 'bitcoinjs-message';
+
+// @ts-ignore - VerusCoin fork
+import * as utxolib from '@bitgo/utxo-lib';
+
+import { CHAIN_IDS, messagePrefix } from './verus-sign.js';
+
+const IdentitySignature = utxolib.IdentitySignature;
+
+export type SignatureFormat = 'legacy' | 'identity';
+
+export interface VerifyMessageOptions {
+  network?: 'verus' | 'verustest';
+  /** Primary R-addresses of the identity (required when the signer is an i-address) */
+  primaryAddresses?: string[];
+  /** Only accept this format (default: either) */
+  format?: SignatureFormat;
+  /** Block height the identity signature was made at (default: 0, as signChallenge uses) */
+  blockHeight?: number;
+}
+
+export interface VerifyMessageResult {
+  valid: boolean;
+  /** Format that verified */
+  format: SignatureFormat | null;
+  /** R-address whose key made the signature */
+  address: string | null;
+}
+
+function isIAddress(address: string): boolean {
+  return /^i[1-9A-HJ-NP-Za-km-z]{33}$/.test(address);
+}
+
+function verifyLegacy(message: string, address: string, signature: Buffer, network: 'verus' | 'verustest'): boolean {
+  if (signature.length !== 65) return false;
+  try {
+    return bitcoinMessage.verify(message, address, signature, messagePrefix(network));
+  } catch {
+    return false;
+  }
+}
+
+function verifyIdentity(
+  message: string,
+  address: string,
+  identity: string,
+  signature: Buffer,
+  network: 'verus' | 'verustest',
+  blockHeight: number,
+): boolean {
+  const networkObj = network === 'verustest' ? utxolib.networks.verustest : utxolib.networks.verus;
+  const chainId = CHAIN_IDS[network];
+  try {
+    let idSig;
+    if (signature.length === 65) {
+      // Bare compact signature as returned by signChallenge()
+      idSig = new IdentitySignature(networkObj, 2, 5, blockHeight, [signature], chainId, identity);
+    } else {
+      // Full serialized CIdentitySignature (version, hash type, height, signatures)
+      idSig = new IdentitySignature(networkObj);
+      idSig.fromBuffer(signature, 0, chainId, identity);
+    }
+    const result = idSig.verifyMessageOffline(message, address);
+    return Array.isArray(result) ? result.length > 0 && result.every(Boolean) : !!result;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Verify a signature and report which format and key made it.
+ *
+ * @param signer - R-address, or i-address together with `options.primaryAddresses`
+ * @param message - Exact message that was signed
+ * @param signature - Base64 signature
+ * @throws Error when `signer` is an i-address and no primary addresses are given
+ */
+export function verifyMessageDetailed(
+  signer: string,
+  message: string,
+  signature: string,
+  options: VerifyMessageOptions = {},
+): VerifyMessageResult {
+  const network = options.network || 'verustest';
+  const blockHeight = options.blockHeight ?? 0;
+  const sig = Buffer.from(signature, 'base64');
+
+  let addresses: string[];
+  let identity: string;
+  if (isIAddress(signer)) {
+    if (!options.primaryAddresses?.length) {
+      throw new Error(`Primary addresses of ${signer} are required to verify its signature`);
+    }
+    addresses = options.primaryAddresses;
+    identity = signer;
+  } else {
+    // signChallenge() signs for an R-address with the chain ID as identity
+    addresses = [signer];
+    identity = CHAIN_IDS[network];
+  }
+
+  for (const address of addresses) {
+    if (options.format !== 'identity' && verifyLegacy(message, address, sig, network)) {
+      return { valid: true, format: 'legacy', address };
+    }
+    if (options.format !== 'legacy' && verifyIdentity(message, address, identity, sig, network, blockHeight)) {
+      return { valid: true, format: 'identity', address };
+    }
+  }
+  return { valid: false, format: null, address: null };
+}
+
+/**
+ * Verify a message signature made by signMessage() or signChallenge().
+ *
+ * @param signer - R-address, or i-address together with `options.primaryAddresses`
+ * @returns true when the signature is valid for the signer
+ */
+export function verifyMessage(
+  signer: string,
+  message: string,
+  signature: string,
+  options: VerifyMessageOptions = {},
+): boolean {
+  return verifyMessageDetailed(signer, message, signature, options).valid;
+}
@@ -30,6 +30,17 @@ const VERUS_MAINNET = {
   wif: (networks.verus as { wif: number }).wif,
 };
 
+/** Chain IDs (i-addresses) of Verus mainnet and testnet */
+export const CHAIN_IDS = {
+  verus: 'i5w5MuNik5NtLmYmNy2rTXXWiAK3K4Ef3p',
+  verustest: 'iJhCezBExJHvtyH3fGhNnt2NhU4Ztkf2yq',
+} as const;
+
+/** Prefix prepended to messages before hashing (legacy format) */
+export function messagePrefix(network: 'verus' | 'verustest' = 'verustest'): string {
+  return (network === 'verustest' ? VERUS_NETWORK : VERUS_MAINNET).messagePrefix;
+}
+
 /**
  * Decode WIF to private key
  */
@@ -82,16 +93,22 @@ function hash160(data: Uint8Array): Uint8Array {
 }
 
 /**
- * Private key to R-address
+ * Public key to R-address
  */
-function privateKeyToAddress(privKey: Uint8Array, network: 'verus' | 'verustest' = 'verustest'): string {
-  const pubkey = privateKeyToPublicKey(privKey, true, network);
-  const hash = hash160(pubkey);
+export function publicKeyToAddress(pubkey: Uint8Array | string, network: 'verus' | 'verustest' = 'verustest'): string {
+  const hash = hash160(typeof pubkey === 'string' ? Buffer.from(pubkey, 'hex') : pubkey);
   const version = network === 'verustest' ? VERUS_NETWORK.pubKeyHash : VERUS_MAINNET.pubKeyHash;
   const payload = Buffer.concat([Buffer.from([version]), hash]);
   return bs58check.encode(payload);
 }
 
+/**
+ * Private key to R-address
+ */
+function privateKeyToAddress(privKey: Uint8Array, network: 'verus' | 'verustest' = 'verustest'): string {
+  return publicKeyToAddress(privateKeyToPublicKey(privKey, true, network), network);
+}
+
 /**
  * Sign a message (legacy format compatible with verus verifymessage)
  */
@@ -143,9 +160,7 @@ export function signChallenge(
   // Determine signing identity for CIdentitySignature
   // For R-address (onboarding): use chainId as identity (server expects this)
   // For i-address (login/registration): use the i-address
-  const chainId = network === 'verustest'
-    ? 'iJhCezBExJHvtyH3fGhNnt2NhU4Ztkf2yq'
-    : 'i5w5MuNik5NtLmYmNy2rTXXWiAK3K4Ef3p';
+  const chainId = CHAIN_IDS[network];
   const signingIdentity = (identityAddress.startsWith('R') || identityAddress.startsWith('V'))
     ? chainId  // Onboarding: use chainId as identity
     : identityAddress;  // Login/registration: use i-address
@@ -191,6 +206,34 @@ export function signChallenge(
   }
 }
 
+/**
+ * Sign a transaction signature hash.
+ *
+ * @param hash - 32-byte signature hash (hex)
+ * @returns DER-encoded ECDSA signature (hex, without the hash type byte)
+ */
+export function signHash(
+  wif: string,
+  hash: string,
+  network: 'verus' | 'verustest' = 'verustest'
+): string {
+  const hashBuf = Buffer.from(hash, 'hex');
+  if (hashBuf.length !== 32) {
+    throw new Error(`Signature hash must be 32 bytes, got ${hashBuf.length}`);
+  }
+  const networkObj = network === 'verustest' ? networks.verustest : networks.verus;
+  const keyPair = ECPair.fromWIF(wif, networkObj);
+  try {
+    return keyPair.sign(hashBuf).toDER().toString('hex');
+  } finally {
+    // Zero the BN.js internal limbs array (best-effort, as in signChallenge)
+    const d = keyPair.d;
+    if (d?.words && Array.isArray(d.words)) {
+      d.words.fill(0);
+    }
+  }
+}
+
 /**
  * Generate keypair from WIF
  */
@@ -6,12 +6,22 @@
  */
 
 // Core agent class
-export { VAPAgent, type VAPAgentConfig } from './agent.js';
+export { VAPAgent, type VAPAgentConfig, type AgentFeeConfig, type IdentityAuthorityOptions, type IdentityChanges, type ReviewArchiveConfig } from './agent.js';
+
+// Buyer role — hiring other agents
+export {
+  VAPBuyer,
+  type VAPBuyerConfig,
+  type HireParams,
+  type PaymentResult,
+  type DeliveryVerification,
+  type WaitOptions,
+} from './buyer.js';
 
 // Client — REST API wrapper
-export { VAPClient, type VAPClientConfig, VAPError } from './client/index.js';
+export { VAPClient, type VAPClientConfig, VAPError, isNotFound } from './client/index.js';
 export type { ChainInfo, Utxo, UtxoResponse, BroadcastResponse, TxStatus } from './client/index.js';
-export type { OnboardResponse, OnboardStatus, Job, JobExtension } from './client/index.js';
+export type { OnboardResponse, OnboardStatus, Job, JobExtension, JobMilestone, MilestoneInput } from './client/index.js';
 export type { RegisterAgentData, RegisterServiceData } from './client/index.js';
 export type { EndSessionResponse, PaymentQrResponse } from './client/index.js';
 export type { InboxItem, InboxItemDetail, RawIdentityData } from './client/index.js';
@@ -26,15 +36,155 @@ export type { CanaryRecord, Alert } from './client/index.js';
 
 // Identity — keypair generation + management
 export { generateKeypair, keypairFromWIF, type Keypair } from './identity/keypair.js';
+export {
+  Keystore,
+  encryptKey,
+  decryptKey,
+  unlockKeystoreRef,
+  type KeystoreEntry,
+  type KeystoreCrypto,
+  type KeystoreOptions,
+  type KeystoreRef,
+  type PlaintextKeyFile,
+} from './identity/keystore.js';
 
 // Message signing
-export { signMessage, signChallenge } from './identity/signer.js';
+export {
+  signMessage,
+  signChallenge,
+  isSigner,
+  signerAddress,
+  LocalWifSigner,
+  type Signer,
+  type SignMessageOptions,
+  type SignTransactionInputRequest,
+} from './identity/signer.js';
+export {
+  RemoteSigner,
+  serveSigner,
+  type RemoteSignerOptions,
+  type ServeSignerOptions,
+  type SignerMethod,
+} from './identity/remote-signer.js';
+export { inputSignatureHash, verifyInputSignature, type InputSigningData } from './tx/sighash.js';
+
+// Signature verification (offline)
+export {
+  verifyMessage,
+  verifyMessageDetailed,
+  type VerifyMessageOptions,
+  type VerifyMessageResult,
+  type SignatureFormat,
+} from './identity/verify.js';
 
 // Identity update (offline tx building)
-export { buildIdentityUpdateTx, type IdentityUpdateParams } from './identity/update.js';
+export {
+  buildIdentityUpdateTx,
+  buildKeyRotationTx,
+  buildRevokeIdentityTx,
+  buildRecoverIdentityTx,
+  createPartialIdentityUpdate,
+  estimateIdentityUpdateFee,
+  isIdentityRevoked,
+  multisigPrimaries,
+  previewIdentityUpdate,
+  IDENTITY_FLAG_REVOKED,
+  MAX_IDENTITY_SCRIPT_SIZE,
+  type IdentityUpdateParams,
+  type IdentityUpdatePreview,
+  type IdentityAuthorityParams,
+  type IdentityRecoveryParams,
+  type KeyRotationParams,
+  type MultisigPrimaries,
+} from './identity/update.js';
+export {
+  applyContentMultimapPatch,
+  diffContentMultimaps,
+  additionsToPatch,
+  normalizeContentMultimap,
+  type ContentMultimap,
+  type ContentMultimapOp,
+  type ContentMultimapPatch,
+  type ContentMultimapDiff,
+  type ContentMultimapKeyDiff,
+} from './identity/content-patch.js';
+export {
+  planReviewCompaction,
+  appendReviewPatch,
+  REVIEW_FIELD_ABSENT,
+  reviewsFromContentMultimap,
+  readReviewAggregate,
+  reviewSummary,
+  reviewRating,
+  reviewMerkleRoot,
+  reviewLeafHash,
+  buildReviewProof,
+  verifyArchivedReview,
+  MemoryReviewArchiveStore,
+  FileReviewArchiveStore,
+  type ArchivedReview,
+  type ReviewAggregate,
+  type ReviewArchiveStore,
+  type ReviewCompaction,
+  type ReviewField,
+  type ReviewProof,
+} from './identity/review-archive.js';
 
 // Transaction builder
-export { buildPayment, selectUtxos, wifToAddress, wifToPubkey, type PaymentParams } from './tx/payment.js';
+export {
+  buildPayment,
+  buildBatchPayment,
+  estimateBatchFee,
+  planBatchPayment,
+  estimateConsolidationFee,
+  buildConsolidation,
+  createPartialPayment,
+  selectUtxos,
+  wifToAddress,
+  wifToPubkey,
+  DEFAULT_FEE,
+  type PaymentParams,
+  type BatchOutput,
+  type BatchPaymentParams,
+  type BatchPaymentResult,
+  type BatchPaymentPlan,
+  type ConsolidationParams,
+  type ConsolidationResult,
+  type SigningKeyParams,
+  type PartialPaymentParams,
+  type PartialPaymentSource,
+} from './tx/payment.js';
+export {
+  createPartialTransaction,
+  partialTransactionStatus,
+  signPartialTransaction,
+  combinePartialTransactions,
+  finalizePartialTransaction,
+  serializePartialTransaction,
+  parsePartialTransaction,
+  type PartialTransaction,
+  type PartialInput,
+  type PartialInputSigners,
+  type PartialInputStatus,
+  type PartialTransactionStatus,
+} from './tx/partial.js';
+export {
+  estimateTxSize,
+  estimateFee,
+  computeFee,
+  draftTxSize,
+  feeRateFromChainInfo,
+  memoOutputSize,
+  DEFAULT_FEE_RATE,
+  MAX_MEMO_BYTES,
+  type TxSizeParams,
+  type FeePolicy,
+  type FeeBreakdown,
+} from './tx/fees.js';
+export { selectCoins, CHANGE_DUST, type CoinSelectionStrategy, type CoinSelection } from './tx/coin-selection.js';
+export { UtxoManager, type UtxoManagerOptions, type UtxoReservation, type ChangeOutput, type SpendResult, type SpendTarget } from './tx/utxo-manager.js';
+export { TxTracker, type TxTrackerOptions, type TrackOptions, type WaitForConfirmationOptions, type TxReorgEvent } from './tx/tracker.js';
+export { decodeTransaction, type DecodedTransaction, type DecodedInput, type DecodedOutput, type OutputType } from './tx/decode.js';
 
 // Safety — canary tokens + communication policy
 export { generateCanary, checkForCanaryLeak, protectSystemPrompt, type CanaryConfig } from './safety/canary.js';
@@ -43,11 +193,118 @@ export { POLICY_LABELS, getDefaultPolicy, type CommunicationPolicy, type AgentSa
 // Chat — SafeChat WebSocket client
 export { ChatClient, type ChatClientConfig, type IncomingMessage, type MessageHandler } from './chat/index.js';
 export type { ChatMessage, ChatFile } from './chat/index.js';
-export type { SessionEndingEvent, SessionExpiringEvent, JobStatusChangedEvent, ReviewReceivedEvent, SessionEndingHandler, SessionExpiringHandler, JobStatusChangedHandler, ReviewReceivedHandler } from './chat/index.js';
+export type { SessionEndingEvent, SessionExpiringEvent, JobStatusChangedEvent, ReviewReceivedEvent, JobRequestedEvent, SessionEndingHandler, SessionExpiringHandler, JobStatusChangedHandler, ReviewReceivedHandler, JobRequestedHandler } from './chat/index.js';
 
 // Job types
 export type { JobHandler, JobHandlerConfig, AutoAcceptRule } from './jobs/types.js';
 
+// Auto-accept rule evaluation
+export {
+  evaluateAutoAccept,
+  buyerTrustLevel,
+  type AutoAcceptAction,
+  type AutoAcceptDecision,
+  type AutoAcceptLookup,
+  type EvaluateAutoAcceptOptions,
+  type BuyerTrustLevel,
+} from './jobs/auto-accept.js';
+
+// Job state store (durable job decisions)
+export {
+  MemoryJobStore,
+  FileJobStore,
+  type JobStore,
+  type JobRecord,
+  type JobRecordPatch,
+  type JobDecision,
+  type JobStoreOptions,
+  type ExtensionState,
+  type MilestoneState,
+} from './jobs/store.js';
+
+// Delivery pipeline
+export {
+  runDelivery,
+  computeDeliveryHash,
+  sha256Hex,
+  DeliveryError,
+  type DeliveryOutput,
+  type DeliveryResult,
+  type DeliveredFile,
+  type DeliveryContext,
+  type DeliveryStage,
+} from './jobs/delivery.js';
+
+// Status reconciler (lifecycle hook dispatch)
+export {
+  StatusReconciler,
+  ACTIVE_JOB_STATUSES,
+  type StatusTransition,
+  type TransitionHandler,
+} from './jobs/reconciler.js';
+
+// Job execution queue (concurrency limits)
+export {
+  JobQueue,
+  compareJobPriority,
+  type JobQueueConfig,
+  type QueueStats,
+} from './jobs/queue.js';
+
+// Deadline tracking
+export {
+  DeadlineScheduler,
+  type DeadlineConfig,
+  type DeadlineSource,
+  type DeadlineApproachingEvent,
+  type DeadlineMissedEvent,
+  type DeadlineActions,
+} from './jobs/deadlines.js';
+
+// Extension negotiation
+export {
+  ExtensionTracker,
+  type ExtensionDecision,
+  type ExtensionHooks,
+  type ExtensionTrackerOptions,
+} from './jobs/extensions.js';
+
+// Split-payment milestones
+export {
+  MilestoneTracker,
+  isSplitPayment,
+  validateMilestones,
+  type MilestoneHooks,
+  type MilestoneTrackerOptions,
+} from './jobs/milestones.js';
+
+// Prepay payment verification
+export {
+  PaymentWatcher,
+  requiresPayment,
+  type PaymentWatchConfig,
+  type PaymentCheck,
+} from './jobs/payments.js';
+
+// Counterparty signature checks
+export {
+  verifyJobSignatures,
+  type JobSignatureKind,
+  type JobSignatureCheck,
+  type JobSignatureReport,
+  type SignerResolver,
+  type VerifyJobSignaturesOptions,
+} from './jobs/signatures.js';
+
+// Webhook receiver (push job notifications)
+export {
+  WebhookReceiver,
+  verifyWebhookSignature,
+  type WebhookEvent,
+  type WebhookReceiverConfig,
+  type WebhookEventHandler,
+} from './jobs/webhook.js';
+
 // Privacy tiers
 export { PRIVACY_TIERS, type PrivacyTier, type PrivacyTierMeta } from './privacy/tiers.js';
 
@@ -105,12 +362,31 @@ export {
   type CanonicalIdentitySnapshot,
 } from './onboarding/vdxf.js';
 
-// Signing message builders (M2)
+// Signing message builders and parsers (M2)
 export {
+  MESSAGE_FORMAT_VERSION,
   buildAcceptMessage,
   buildDeliverMessage,
+  buildCompleteMessage,
+  buildDisputeMessage,
+  buildCancelMessage,
+  buildExtensionMessage,
+  buildDeactivateMessage,
+  buildReviewMessage,
+  buildDeletionAttestationMessage,
+  buildMessage,
+  parseMessage,
   type AcceptMessageParams,
   type DeliverMessageParams,
+  type CompleteMessageParams,
+  type DisputeMessageParams,
+  type CancelMessageParams,
+  type ExtensionMessageParams,
+  type DeactivateMessageParams,
+  type ReviewMessageParams,
+  type DeletionAttestationMessageParams,
+  type SignedMessage,
+  type SignedMessageType,
 } from './signing/messages.js';
 
 export {
@@ -0,0 +1,162 @@
+/**
+ * Auto-accept rule evaluation.
+ * Decides whether a requested job can be accepted or rejected without
+ * asking the agent's onJobRequested handler, based on the job's service,
+ * price, and the buyer's track record on the platform.
+ */
+
+import { isNotFound } from '../client/errors.js';
+import type { Job, Service, ReputationData, Review, VAPClient } from '../client/index.js';
+import type { AutoAcceptRule } from './types.js';
+
+export type AutoAcceptAction = 'accept' | 'reject' | 'defer';
+
+export type BuyerTrustLevel = NonNullable<AutoAcceptRule['buyerTrustLevel']>;
+
+/** Result of evaluating a job against the configured rules */
+export interface AutoAcceptDecision {
+  /** 'defer' means the job goes to onJobRequested as usual */
+  action: AutoAcceptAction;
+  /** Rule that produced the decision (null when no rule applied) */
+  rule: AutoAcceptRule | null;
+  /** Human-readable explanation, suitable for logs */
+  reason: string;
+}
+
+/** Platform lookups needed to evaluate rules (a VAPClient satisfies this) */
+export type AutoAcceptLookup = Pick<VAPClient, 'getService' | 'getReputation' | 'getBuyerReviews'>;
+
+export interface EvaluateAutoAcceptOptions {
+  /** What to do when no rule accepts the job (default: 'defer') */
+  fallback?: 'defer' | 'reject';
+}
+
+/** Ordered trust levels, lowest first */
+const TRUST_LEVELS: BuyerTrustLevel[] = ['new', 'establishing', 'established', 'trusted'];
+
+/** Max buyer reviews fetched to count completed jobs */
+const BUYER_REVIEWS_LIMIT = 100;
+
+/**
+ * Derive a buyer trust level from the number of jobs they have completed.
+ * 0 = new, 1-4 = establishing, 5-19 = established, 20+ = trusted.
+ */
+export function buyerTrustLevel(completedJobs: number): BuyerTrustLevel {
+  if (completedJobs >= 20) return 'trusted';
+  if (completedJobs >= 5) return 'established';
+  if (completedJobs >= 1) return 'establishing';
+  return 'new';
+}
+
+/**
+ * Evaluate a requested job against auto-accept rules.
+ * Rules are checked in order; the first rule whose criteria all pass accepts the job.
+ * Platform lookups are made lazily and at most once per evaluation.
+ * A failed lookup defers the job rather than guessing.
+ */
+export async function evaluateAutoAccept(
+  job: Job,
+  rules: AutoAcceptRule[],
+  lookup: AutoAcceptLookup,
+  options: EvaluateAutoAcceptOptions = {},
+): Promise<AutoAcceptDecision> {
+  const fallback = options.fallback ?? 'defer';
+
+  let service: Service | null | undefined;
+  let reputation: ReputationData | null | undefined;
+  let buyerReviews: Review[] | undefined;
+
+  const getService = async (): Promise<Service | null> => {
+    if (service === undefined) {
+      service = job.serviceId ? await lookup.getService(job.serviceId) : null;
+    }
+    return service;
+  };
+  const getReputation = async (): Promise<ReputationData | null> => {
+    if (reputation === undefined) {
+      try {
+        reputation = await lookup.getReputation(job.buyerVerusId, true);
+      } catch (err) {
+        // Buyers that never sold anything have no reputation record
+        if (isNotFound(err)) {
+          reputation = null;
+        } else {
+          throw err;
+        }
+      }
+    }
+    return reputation;
+  };
+  const getCompletedJobs = async (): Promise<number> => {
+    if (buyerReviews === undefined) {
+      const res = await lookup.getBuyerReviews(job.buyerVerusId, { limit: BUYER_REVIEWS_LIMIT });
+      buyerReviews = res.data || [];
+    }
+    return buyerReviews.length;
+  };
+
+  let lastFailure: { rule: AutoAcceptRule; reason: string } | null = null;
+
+  try {
+    for (const rule of rules) {
+      if (rule.service !== '*') {
+        const svc = await getService();
+        const wanted = rule.service.toLowerCase();
+        if (!svc || (svc.name.toLowerCase() !== wanted && svc.id !== rule.service)) continue;
+      }
+
+      const failure = await checkRule(job, rule, getReputation, getCompletedJobs);
+      if (!failure) {
+        return { action: 'accept', rule, reason: `Matched auto-accept rule for service "${rule.service}"` };
+      }
+      lastFailure = { rule, reason: failure };
+    }
+  } catch (err) {
+    return {
+      action: 'defer',
+      rule: null,
+      reason: `Auto-accept lookup failed: ${err instanceof Error ? err.message : String(err)}`,
+    };
+  }
+
+  if (!lastFailure) {
+    return { action: fallback, rule: null, reason: 'No auto-accept rule matches this job\'s service' };
+  }
+  return { action: fallback, rule: lastFailure.rule, reason: lastFailure.reason };
+}
+
+/** Check a single rule's criteria. Returns a failure reason, or null if the rule passes. */
+async function checkRule(
+  job: Job,
+  rule: AutoAcceptRule,
+  getReputation: () => Promise<ReputationData | null>,
+  getCompletedJobs: () => Promise<number>,
+): Promise<string | null> {
+  if (rule.maxPrice != null && job.amount > rule.maxPrice) {
+    return `Price ${job.amount} ${job.currency} exceeds maxPrice ${rule.maxPrice}`;
+  }
+
+  if (rule.minBuyerRating != null) {
+    const rep = await getReputation();
+    const rating = rep ? (rep.rawAverage ?? rep.score) : null;
+    if (rating == null || rating < rule.minBuyerRating) {
+      return `Buyer rating ${rating ?? 'unknown'} is below minBuyerRating ${rule.minBuyerRating}`;
+    }
+  }
+
+  if (rule.minBuyerJobs != null) {
+    const completed = await getCompletedJobs();
+    if (completed < rule.minBuyerJobs) {
+      return `Buyer has ${completed} completed job(s), below minBuyerJobs ${rule.minBuyerJobs}`;
+    }
+  }
+
+  if (rule.buyerTrustLevel) {
+    const level = buyerTrustLevel(await getCompletedJobs());
+    if (TRUST_LEVELS.indexOf(level) < TRUST_LEVELS.indexOf(rule.buyerTrustLevel)) {
+      return `Buyer trust level "${level}" is below "${rule.buyerTrustLevel}"`;
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,168 @@
+/**
+ * Deadline scheduler — tracks job deadlines and session expiry for accepted jobs.
+ *
+ * On every tick it reports deadlines crossing a threshold, and optionally asks
+ * for an extension or delivers the job before time runs out.
+ * Job deadlines (Job.deadline) and session expiry (session_expiring) are
+ * tracked separately, since either one ending stops the work.
+ */
+
+import type { Job } from '../client/index.js';
+
+export type DeadlineSource = 'deadline' | 'session';
+
+export interface DeadlineConfig {
+  /** Seconds before the deadline at which job:deadlineApproaching fires (default: [3600, 600, 120]) */
+  thresholds?: number[];
+  /** How often deadlines are checked in ms (default: 15000) */
+  checkInterval?: number;
+  /** Request an extension once, `before` seconds ahead of the deadline */
+  autoExtend?: { amount: number; reason?: string; before?: number };
+  /**
+   * Deliver the job `before` seconds ahead of the deadline. This is a full, final delivery
+   * of whatever onDeliver returns; the job is marked delivered and can't be delivered again.
+   */
+  deliverBeforeDeadline?: { before?: number };
+}
+
+export interface DeadlineApproachingEvent {
+  jobId: string;
+  source: DeadlineSource;
+  /** ISO timestamp of the deadline */
+  deadline: string;
+  remainingSeconds: number;
+  /** Threshold (seconds) that was crossed */
+  threshold: number;
+}
+
+export interface DeadlineMissedEvent {
+  jobId: string;
+  source: DeadlineSource;
+  deadline: string;
+}
+
+/** What the scheduler does when a deadline needs attention */
+export interface DeadlineActions {
+  approaching(event: DeadlineApproachingEvent): void;
+  missed(event: DeadlineMissedEvent): void;
+  extend(jobId: string, amount: number, reason: string): Promise<void>;
+  /** Full delivery of the job (VAPAgent.deliver) */
+  deliver(jobId: string): Promise<void>;
+  error(err: Error): void;
+}
+
+const DEFAULT_THRESHOLDS = [3600, 600, 120];
+const DEFAULT_CHECK_INTERVAL = 15_000;
+const DEFAULT_EXTEND_BEFORE = 600;
+const DEFAULT_DELIVER_BEFORE = 120;
+
+interface TrackedDeadline {
+  jobId: string;
+  source: DeadlineSource;
+  deadline: number;
+  fired: Set<number>;
+  extended: boolean;
+  delivered: boolean;
+}
+
+export class DeadlineScheduler {
+  private readonly config: DeadlineConfig;
+  private readonly thresholds: number[];
+  private readonly actions: DeadlineActions;
+  private tracked = new Map<string, TrackedDeadline>();
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(config: DeadlineConfig, actions: DeadlineActions) {
+    this.config = config;
+    this.thresholds = [...(config.thresholds || DEFAULT_THRESHOLDS)].sort((a, b) => b - a);
+    this.actions = actions;
+  }
+
+  /** Track (or refresh) a job's own deadline. Jobs without one are ignored. */
+  track(job: Job): void {
+    if (!job.deadline) return;
+    this.setDeadline(job.id, job.deadline, 'deadline');
+  }
+
+  /**
+   * Set a deadline from any source. A later deadline (e.g. after an extension)
+   * re-arms the thresholds and actions.
+   */
+  setDeadline(jobId: string, deadline: string | number, source: DeadlineSource): void {
+    const ms = typeof deadline === 'number' ? deadline : Date.parse(deadline);
+    if (Number.isNaN(ms)) return;
+
+    const key = `${jobId}:${source}`;
+    const existing = this.tracked.get(key);
+    if (existing && existing.deadline >= ms) return;
+    this.tracked.set(key, { jobId, source, deadline: ms, fired: new Set(), extended: false, delivered: false });
+  }
+
+  /** Stop tracking all deadlines of a job */
+  untrack(jobId: string): void {
+    this.tracked.delete(`${jobId}:deadline`);
+    this.tracked.delete(`${jobId}:session`);
+  }
+
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.tick().catch((err) => this.actions.error(err instanceof Error ? err : new Error(String(err))));
+    }, this.config.checkInterval ?? DEFAULT_CHECK_INTERVAL);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /** Number of deadlines being tracked */
+  get size(): number {
+    return this.tracked.size;
+  }
+
+  /** Check every tracked deadline once */
+  async tick(now = Date.now()): Promise<void> {
+    for (const [key, entry] of [...this.tracked]) {
+      const remainingSeconds = Math.floor((entry.deadline - now) / 1000);
+      const deadline = new Date(entry.deadline).toISOString();
+
+      if (remainingSeconds <= 0) {
+        this.tracked.delete(key);
+        this.actions.missed({ jobId: entry.jobId, source: entry.source, deadline });
+        continue;
+      }
+
+      // Report only the closest crossed threshold; larger ones count as passed
+      const crossed = this.thresholds.filter(t => remainingSeconds <= t && !entry.fired.has(t));
+      if (crossed.length > 0) {
+        for (const t of crossed) entry.fired.add(t);
+        const threshold = crossed[crossed.length - 1];
+        this.actions.approaching({ jobId: entry.jobId, source: entry.source, deadline, remainingSeconds, threshold });
+      }
+
+      const extend = this.config.autoExtend;
+      if (extend && !entry.extended && remainingSeconds <= (extend.before ?? DEFAULT_EXTEND_BEFORE)) {
+        entry.extended = true;
+        try {
+          await this.actions.extend(entry.jobId, extend.amount, extend.reason || 'More time needed to finish the job');
+        } catch (err) {
+          this.actions.error(err instanceof Error ? err : new Error(String(err)));
+        }
+      }
+
+      const deliver = this.config.deliverBeforeDeadline;
+      if (deliver && !entry.delivered && remainingSeconds <= (deliver.before ?? DEFAULT_DELIVER_BEFORE)) {
+        entry.delivered = true;
+        try {
+          await this.actions.deliver(entry.jobId);
+          this.untrack(entry.jobId);
+        } catch (err) {
+          this.actions.error(err instanceof Error ? err : new Error(String(err)));
+        }
+      }
+    }
+  }
+}
@@ -0,0 +1,204 @@
+/**
+ * Delivery pipeline — turns JobHandler.onDeliver() output into a signed delivery.
+ *
+ * 1. Upload each file to the job (skipping files already uploaded by an earlier attempt)
+ * 2. Hash the content together with the file checksums
+ * 3. Sign the VAP-DELIVER message and submit it
+ *
+ * Progress is written to the JobStore after every step, so a failed delivery
+ * can simply be run again: finished uploads are not repeated and a job that
+ * was already delivered is not delivered twice.
+ *
+ * Milestones of split-payment jobs go through the same pipeline, with their
+ * progress kept per milestone and the milestone index in the signed message.
+ */
+
+import { createHash } from 'node:crypto';
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+import { canonicalize } from 'json-canonicalize';
+import { VAPError } from '../client/errors.js';
+import type { Job, VAPClient } from '../client/index.js';
+import { buildDeliverMessage } from '../signing/messages.js';
+import type { JobStore, MilestoneState } from './store.js';
+
+/** What JobHandler.onDeliver() returns */
+export interface DeliveryOutput {
+  /** Delivery message / textual deliverable */
+  content: string;
+  /** Local file paths to upload with the delivery */
+  files?: string[];
+}
+
+export interface DeliveredFile {
+  /** Local path the file was read from */
+  path: string;
+  fileId: string;
+  /** SHA-256 hex of the file bytes */
+  checksum: string;
+}
+
+export interface DeliveryResult {
+  jobId: string;
+  deliveryHash: string;
+  files: DeliveredFile[];
+  /** True when an earlier attempt had already delivered the job */
+  alreadyDelivered: boolean;
+  /** Milestone index for a milestone delivery */
+  milestone?: number;
+}
+
+export interface DeliveryContext {
+  client: Pick<VAPClient, 'uploadFile' | 'deliverJob' | 'deliverMilestone'>;
+  store: JobStore;
+  /** Sign a message with the agent's key */
+  sign: (message: string) => string | Promise<string>;
+}
+
+export type DeliveryStage = 'read' | 'upload' | 'deliver';
+
+/**
+ * Delivery failure. Uploads finished before the failure are kept in the JobStore,
+ * so retrying resumes where this attempt stopped.
+ */
+export class DeliveryError extends Error {
+  jobId: string;
+  stage: DeliveryStage;
+  /** Whether running the delivery again may succeed (network / 429 / 5xx) */
+  retryable: boolean;
+
+  constructor(message: string, jobId: string, stage: DeliveryStage, retryable: boolean) {
+    super(message);
+    this.name = 'DeliveryError';
+    this.jobId = jobId;
+    this.stage = stage;
+    this.retryable = retryable;
+  }
+}
+
+/** SHA-256 hex of a buffer or string */
+export function sha256Hex(data: Uint8Array | string): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+/**
+ * Compute the delivery hash for a job: SHA-256 over the canonical JSON of
+ * the content and the ordered list of file checksums.
+ * Buyers recompute this to check a delivery.
+ */
+export function computeDeliveryHash(content: string, fileChecksums: string[] = []): string {
+  return sha256Hex(canonicalize({ content, files: fileChecksums }));
+}
+
+function isRetryable(err: unknown): boolean {
+  if (err instanceof VAPError) {
+    return err.statusCode === 408 || err.statusCode === 429 || err.statusCode >= 500;
+  }
+  // Network failures surface as plain errors from fetch()
+  return err instanceof Error;
+}
+
+function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+type DeliveryState = Pick<MilestoneState, 'deliveryHash' | 'deliveryFiles' | 'deliveredAt'>;
+
+/**
+ * Run (or resume) the delivery of a job.
+ *
+ * @param job - Job being delivered (must be accepted or in progress)
+ * @param output - Result of JobHandler.onDeliver()
+ * @param ctx - Client, job store and signing function
+ * @param milestone - Deliver only this milestone of a split-payment job
+ */
+export async function runDelivery(job: Job, output: DeliveryOutput, ctx: DeliveryContext, milestone?: number): Promise<DeliveryResult> {
+  const record = await ctx.store.get(job.id);
+  const key = String(milestone);
+  const state: DeliveryState = (milestone != null ? record?.milestones?.[key] : record) || {};
+  const previous = state.deliveryFiles || {};
+
+  const save = async (patch: DeliveryState) => {
+    if (milestone == null) {
+      await ctx.store.update(job.id, patch);
+      return;
+    }
+    const milestones = (await ctx.store.get(job.id))?.milestones || {};
+    await ctx.store.update(job.id, { milestones: { ...milestones, [key]: { ...milestones[key], ...patch } } });
+  };
+
+  // Already delivered by an earlier attempt (locally recorded, or the platform says so)
+  if (state.deliveredAt && state.deliveryHash) {
+    return {
+      jobId: job.id,
+      deliveryHash: state.deliveryHash,
+      files: Object.entries(previous).map(([p, f]) => ({ path: p, ...f })),
+      alreadyDelivered: true,
+      milestone,
+    };
+  }
+
+  const files: DeliveredFile[] = [];
+  for (const filePath of output.files || []) {
+    let bytes: Buffer;
+    try {
+      bytes = await readFile(filePath);
+    } catch (err) {
+      throw new DeliveryError(`Cannot read delivery file ${filePath}: ${errorMessage(err)}`, job.id, 'read', false);
+    }
+    const checksum = sha256Hex(bytes);
+
+    const uploaded = previous[filePath];
+    if (uploaded && uploaded.checksum === checksum) {
+      files.push({ path: filePath, ...uploaded });
+      continue;
+    }
+
+    let fileId: string;
+    try {
+      const res = await ctx.client.uploadFile(job.id, new Uint8Array(bytes), path.basename(filePath));
+      if (res.checksum && res.checksum !== checksum) {
+        throw new DeliveryError(
+          `Checksum mismatch for ${filePath}: local ${checksum}, platform ${res.checksum}`,
+          job.id, 'upload', true,
+        );
+      }
+      fileId = res.id;
+    } catch (err) {
+      if (err instanceof DeliveryError) throw err;
+      throw new DeliveryError(`Upload of ${filePath} failed: ${errorMessage(err)}`, job.id, 'upload', isRetryable(err));
+    }
+
+    previous[filePath] = { fileId, checksum };
+    files.push({ path: filePath, fileId, checksum });
+    await save({ deliveryFiles: { ...previous } });
+  }
+
+  const deliveryHash = computeDeliveryHash(output.content, files.map(f => f.checksum));
+
+  const platformHash = milestone != null
+    ? job.milestones?.find(m => m.index === milestone && m.status !== 'pending')?.deliveryHash
+    : job.status === 'delivered' ? job.delivery?.hash : undefined;
+  if (platformHash === deliveryHash) {
+    // Platform accepted an earlier attempt that crashed before it was recorded
+    await save({ deliveryHash, deliveredAt: new Date().toISOString() });
+    return { jobId: job.id, deliveryHash, files, alreadyDelivered: true, milestone };
+  }
+
+  const timestamp = Math.floor(Date.now() / 1000);
+  const signature = await ctx.sign(buildDeliverMessage({ jobHash: job.jobHash, deliveryHash, timestamp, milestone }));
+
+  try {
+    if (milestone != null) {
+      await ctx.client.deliverMilestone(job.id, milestone, deliveryHash, signature, timestamp, output.content);
+    } else {
+      await ctx.client.deliverJob(job.id, deliveryHash, signature, timestamp, output.content);
+    }
+  } catch (err) {
+    const what = milestone != null ? `milestone ${milestone} of job ${job.id}` : `job ${job.id}`;
+    throw new DeliveryError(`Delivery of ${what} failed: ${errorMessage(err)}`, job.id, 'deliver', isRetryable(err));
+  }
+
+  await save({ deliveryHash, deliveredAt: new Date().toISOString() });
+  return { jobId: job.id, deliveryHash, files, alreadyDelivered: false, milestone };
+}
@@ -0,0 +1,174 @@
+/**
+ * Extension negotiation — answers buyers' extension requests and verifies
+ * extension payments on-chain before reporting them as paid.
+ *
+ * Each check compares the platform's extensions for a job with the state in
+ * the JobStore, so every request is decided once and every payment reported once.
+ *
+ * A paid extension counts once its payment (agentTxid) and platform fee (feeTxid)
+ * are confirmed and their decoded outputs pay the extension amount to this agent
+ * and the fee share to the platform's fee address. Extensions carry no platform
+ * verification flags, so without `getTransaction` no payment is reported as paid.
+ */
+
+import type { Job, JobExtension, TxStatus, VAPClient } from '../client/index.js';
+import { isNativeCurrency, lookupTxStatus, satoshisPaidTo, toSatoshis, type TransactionSource } from './payments.js';
+import type { ExtensionState, JobStore } from './store.js';
+
+const SATS_PER_COIN = 100000000;
+
+export type ExtensionDecision = 'approve' | 'reject' | 'hold';
+
+export interface ExtensionHooks {
+  /** A buyer asked for more time/work; 'hold' leaves the request pending until the next check */
+  requested(job: Job, extension: JobExtension): Promise<ExtensionDecision>;
+  /** Payment for an approved extension reached the required confirmations and pays what it should */
+  paid(job: Job, extension: JobExtension, tx: TxStatus): Promise<void>;
+  /** Confirmed payment that doesn't pay what the extension requires (reported once per problem) */
+  paymentProblem?(job: Job, extension: JobExtension, problem: string): void;
+}
+
+export interface ExtensionTrackerOptions {
+  /** Confirmations required before an extension counts as paid (default: 1) */
+  minConfirmations?: number;
+  /** Identities (name and i-address) of this agent, to tell its own requests apart */
+  self: () => Array<string | null>;
+  /** Decoded transactions from a source you trust; required to report payments */
+  getTransaction?: TransactionSource;
+  /** Addresses this agent is paid at */
+  addresses?: () => Promise<string[]>;
+}
+
+export class ExtensionTracker {
+  private readonly client: Pick<VAPClient, 'getExtensions' | 'approveExtension' | 'rejectExtension' | 'getTxStatus'>;
+  private readonly store: JobStore;
+  private readonly hooks: ExtensionHooks;
+  private readonly minConfirmations: number;
+  private readonly self: () => Array<string | null>;
+  private readonly getTransaction: TransactionSource | null;
+  private readonly addresses: () => Promise<string[]>;
+
+  constructor(
+    client: Pick<VAPClient, 'getExtensions' | 'approveExtension' | 'rejectExtension' | 'getTxStatus'>,
+    store: JobStore,
+    hooks: ExtensionHooks,
+    options: ExtensionTrackerOptions,
+  ) {
+    this.client = client;
+    this.store = store;
+    this.hooks = hooks;
+    this.minConfirmations = options.minConfirmations ?? 1;
+    this.self = options.self;
+    this.getTransaction = options.getTransaction || null;
+    this.addresses = options.addresses || (async () => []);
+  }
+
+  /**
+   * Check the extensions of one job.
+   *
+   * @param jobId - Job to check
+   * @param loadJob - Fetches the job; only called when a hook needs it
+   */
+  async check(jobId: string, loadJob: () => Promise<Job>): Promise<void> {
+    const extensions = await this.client.getExtensions(jobId);
+    if (!extensions || extensions.length === 0) return;
+
+    const record = await this.store.get(jobId);
+    const known: Record<string, ExtensionState> = { ...(record?.extensions || {}) };
+    const self = this.self().filter(Boolean);
+    let job: Job | null = null;
+    const getJob = async () => (job ??= await loadJob());
+    let changed = false;
+
+    for (const extension of extensions) {
+      const state: ExtensionState = { ...(known[extension.id] || {}), status: extension.status };
+      const fromBuyer = !state.requestedByAgent && !self.includes(extension.requester);
+
+      if (extension.status === 'pending' && fromBuyer && !state.decision) {
+        const decision = await this.hooks.requested(await getJob(), extension);
+        if (decision === 'approve') {
+          await this.client.approveExtension(jobId, extension.id);
+          state.decision = 'approved';
+          state.status = 'approved';
+        } else if (decision === 'reject') {
+          await this.client.rejectExtension(jobId, extension.id);
+          state.decision = 'rejected';
+          state.status = 'rejected';
+        }
+      } else if (extension.status === 'paid' && !state.paidAt && extension.agentTxid) {
+        const tx = await lookupTxStatus(this.client, extension.agentTxid);
+        const fee = await lookupTxStatus(this.client, extension.feeTxid);
+        state.confirmations = tx?.confirmations ?? 0;
+        const feeRequired = requiredFee(await getJob(), extension) > 0;
+        if (this.isConfirmed(tx) && (!feeRequired || this.isConfirmed(fee))) {
+          const problem = await this.paymentProblem(await getJob(), extension);
+          if (!problem) {
+            delete state.problem;
+            // Recorded before the hook runs, so a failing hook is not re-run for the same payment
+            state.paidAt = new Date().toISOString();
+            known[extension.id] = state;
+            await this.store.update(jobId, { extensions: { ...known } });
+            await this.hooks.paid(await getJob(), extension, tx!);
+            continue;
+          }
+          if (problem !== state.problem) this.hooks.paymentProblem?.(await getJob(), extension, problem);
+          state.problem = problem;
+        }
+      }
+
+      if (JSON.stringify(known[extension.id]) !== JSON.stringify(state)) {
+        known[extension.id] = state;
+        changed = true;
+      }
+    }
+
+    if (changed) {
+      await this.store.update(jobId, { extensions: known });
+    }
+  }
+
+  private isConfirmed(tx: TxStatus | null): boolean {
+    return !!tx && tx.confirmations >= this.minConfirmations;
+  }
+
+  /** Why the confirmed transactions don't pay for the extension, or null when they do */
+  private async paymentProblem(job: Job, extension: JobExtension): Promise<string | null> {
+    if (!this.getTransaction || !isNativeCurrency(job.currency)) {
+      return `extension payments in ${job.currency} can't be checked without payments.getTransaction`;
+    }
+
+    const paid = await satoshisPaidTo(this.getTransaction, extension.agentTxid!, await this.addresses());
+    if (paid < toSatoshis(extension.amount)) {
+      return `extension payment ${extension.agentTxid} pays ${paid / SATS_PER_COIN} ${job.currency} to this agent, extension amount is ${extension.amount}`;
+    }
+
+    const fee = requiredFee(job, extension);
+    if (fee > 0) {
+      const feeAddress = job.payment?.platformFeeAddress;
+      if (!feeAddress) return 'platform fee address of the job is unknown';
+      const feePaid = await satoshisPaidTo(this.getTransaction, extension.feeTxid!, [feeAddress]);
+      if (feePaid < toSatoshis(fee)) {
+        return `extension fee ${extension.feeTxid} pays ${feePaid / SATS_PER_COIN} ${job.currency}, fee is ${fee}`;
+      }
+    }
+    return null;
+  }
+
+  /** Remember an extension this agent requested */
+  async recordRequested(extension: JobExtension): Promise<void> {
+    const record = await this.store.get(extension.jobId);
+    await this.store.update(extension.jobId, {
+      extensions: {
+        ...(record?.extensions || {}),
+        [extension.id]: { status: extension.status, requestedByAgent: true },
+      },
+    });
+  }
+}
+
+/** Platform fee owed on an extension: the job's fee share applied to the extension amount */
+function requiredFee(job: Job, extension: JobExtension): number {
+  const feeAmount = job.payment?.feeAmount;
+  if (!feeAmount || !(job.amount > 0)) return 0;
+  return extension.amount * feeAmount / job.amount;
+}
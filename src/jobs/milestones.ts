@@ -0,0 +1,138 @@
+/**
+ * Milestones — split-payment jobs delivered and paid in tranches.
+ *
+ * The seller declares milestones after accepting, delivers each one with its
+ * own signed delivery hash, then asks the buyer for that milestone's tranche.
+ * Each check compares the job's milestones with the state in the JobStore, so
+ * every tranche payment is verified on-chain and reported once.
+ *
+ * A confirmed tranche must also pay the milestone amount: with `getTransaction`
+ * its decoded outputs to this agent's addresses are summed against it, otherwise
+ * the platform's `verified` flag on the milestone is required.
+ */
+
+import type { Job, JobMilestone, MilestoneInput, TxStatus, VAPClient } from '../client/index.js';
+import { isNativeCurrency, lookupTxStatus, satoshisPaidTo, toSatoshis, type TransactionSource } from './payments.js';
+import type { JobStore, MilestoneState } from './store.js';
+
+export interface MilestoneHooks {
+  /** Payment for a milestone reached the required confirmations and pays the milestone amount */
+  paid(job: Job, milestone: JobMilestone, tx: TxStatus): Promise<void>;
+  /** Confirmed payment that doesn't pay what the milestone requires (reported once per problem) */
+  paymentProblem?(job: Job, milestone: JobMilestone, problem: string): void;
+}
+
+export interface MilestoneTrackerOptions {
+  /** Confirmations required before a tranche counts as paid (default: 1) */
+  minConfirmations?: number;
+  /** Decoded transactions from a source you trust; without it the milestone's `verified` flag is required */
+  getTransaction?: TransactionSource;
+  /** Addresses this agent is paid at */
+  addresses?: () => Promise<string[]>;
+}
+
+/** Amounts are compared in satoshis, so float sums of tranches still match the job amount */
+const SATS_PER_COIN = 100000000;
+
+/** Whether a job is paid in milestones */
+export function isSplitPayment(job: Job): boolean {
+  return job.payment?.terms === 'split';
+}
+
+/**
+ * Check a milestone plan against its job: at least one milestone, every
+ * milestone titled with a positive amount, and tranches adding up to the job amount.
+ *
+ * @throws Error describing the first problem found
+ */
+export function validateMilestones(job: Job, milestones: MilestoneInput[]): void {
+  if (milestones.length === 0) {
+    throw new Error(`Job ${job.id} needs at least one milestone`);
+  }
+  let total = 0;
+  milestones.forEach((milestone, i) => {
+    if (!milestone.title?.trim()) throw new Error(`Milestone ${i} needs a title`);
+    if (!Number.isFinite(milestone.amount) || milestone.amount <= 0) {
+      throw new Error(`Milestone ${i} amount must be a positive number, got ${milestone.amount}`);
+    }
+    total += Math.round(milestone.amount * SATS_PER_COIN);
+  });
+  if (total !== Math.round(job.amount * SATS_PER_COIN)) {
+    throw new Error(`Milestone amounts add up to ${total / SATS_PER_COIN} ${job.currency}, job amount is ${job.amount}`);
+  }
+}
+
+export class MilestoneTracker {
+  private readonly client: Pick<VAPClient, 'getTxStatus'>;
+  private readonly store: JobStore;
+  private readonly hooks: MilestoneHooks;
+  private readonly minConfirmations: number;
+  private readonly getTransaction: TransactionSource | null;
+  private readonly addresses: () => Promise<string[]>;
+
+  constructor(client: Pick<VAPClient, 'getTxStatus'>, store: JobStore, hooks: MilestoneHooks, options: MilestoneTrackerOptions = {}) {
+    this.client = client;
+    this.store = store;
+    this.hooks = hooks;
+    this.minConfirmations = options.minConfirmations ?? 1;
+    this.getTransaction = options.getTransaction || null;
+    this.addresses = options.addresses || (async () => []);
+  }
+
+  /**
+   * Check the tranche payments of one job.
+   *
+   * @param job - Fresh job data (tranche txids come from job.milestones)
+   */
+  async check(job: Job): Promise<void> {
+    if (!job.milestones || job.milestones.length === 0) return;
+
+    const record = await this.store.get(job.id);
+    const known: Record<string, MilestoneState> = { ...(record?.milestones || {}) };
+    let changed = false;
+
+    for (const milestone of job.milestones) {
+      const key = String(milestone.index);
+      if (!milestone.txid || known[key]?.paidAt) continue;
+
+      const state: MilestoneState = { ...(known[key] || {}), txid: milestone.txid };
+      const tx = await lookupTxStatus(this.client, milestone.txid);
+      state.confirmations = tx?.confirmations ?? 0;
+      if (tx && tx.confirmations >= this.minConfirmations) {
+        const problem = await this.paymentProblem(job, milestone);
+        if (!problem) {
+          delete state.problem;
+          // Recorded before the hook runs, so a failing hook is not re-run for the same payment
+          state.paidAt = new Date().toISOString();
+          known[key] = state;
+          await this.store.update(job.id, { milestones: { ...known } });
+          await this.hooks.paid(job, milestone, tx);
+          continue;
+        }
+        if (problem !== state.problem) this.hooks.paymentProblem?.(job, milestone, problem);
+        state.problem = problem;
+      }
+
+      if (JSON.stringify(known[key]) !== JSON.stringify(state)) {
+        known[key] = state;
+        changed = true;
+      }
+    }
+
+    if (changed) {
+      await this.store.update(job.id, { milestones: known });
+    }
+  }
+
+  /** Why the confirmed tranche doesn't pay for the milestone, or null when it does */
+  private async paymentProblem(job: Job, milestone: JobMilestone): Promise<string | null> {
+    if (this.getTransaction && isNativeCurrency(job.currency)) {
+      const paid = await satoshisPaidTo(this.getTransaction, milestone.txid!, await this.addresses());
+      if (paid < toSatoshis(milestone.amount)) {
+        return `tranche ${milestone.txid} pays ${paid / SATS_PER_COIN} ${job.currency} to this agent, milestone amount is ${milestone.amount}`;
+      }
+      return null;
+    }
+    return milestone.verified ? null : 'tranche not verified by the platform (set payments.getTransaction to check it on-chain)';
+  }
+}
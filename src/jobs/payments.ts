@@ -0,0 +1,162 @@
+/**
+ * Payment watcher — confirms a prepay job's payment on-chain before work starts.
+ *
+ * Checks the buyer's payment txid (and the platform fee txid) with getTxStatus()
+ * until both reach the required confirmations, then checks what they pay:
+ * - with `getTransaction` (a node you trust), the decoded outputs must pay the
+ *   job amount to one of this agent's addresses and the fee to the platform's fee address;
+ * - without it, the platform's `verified` flags on the job are the only check of the contents.
+ *
+ * Jobs that stay unpaid past the timeout are reported so the agent can release them.
+ */
+
+import { isNotFound } from '../client/errors.js';
+import type { Job, TxStatus, VAPClient } from '../client/index.js';
+import type { DecodedTransaction } from '../tx/decode.js';
+
+export interface PaymentWatchConfig {
+  /** Confirmations required for the payment and fee transactions (default: 1) */
+  confirmations?: number;
+  /** Release a job whose payment is not confirmed this long after acceptance in ms (default: 3600000) */
+  timeoutMs?: number;
+  /** How often pending payments are checked in ms (default: 30000) */
+  checkInterval?: number;
+  /** Also wait for the platform fee transaction (default: true) */
+  requirePlatformFee?: boolean;
+  /**
+   * Decoded transaction from a source you trust, e.g.
+   * `decodeTransaction(await rpc('getrawtransaction', [txid]), 'verus')`.
+   * Without it the platform's `payment.verified` / `platformFeeVerified` flags are required.
+   * VAPAgent also checks extension payments and milestone tranches with it.
+   */
+  getTransaction?: TransactionSource;
+  /** Addresses this agent is paid at (default: the agent's R-address) */
+  addresses?: string[];
+  /**
+   * Dispute a job whose payment timed out, so the platform releases it too (default: false).
+   * The dispute is signed with the SDK's proposed dispute format, which the platform may reject.
+   */
+  disputeOnTimeout?: boolean;
+}
+
+export type PaymentCheck =
+  | { state: 'confirmed'; payment: TxStatus; fee: TxStatus | null }
+  /** `problem`: the transactions are confirmed but don't pay what the job requires */
+  | { state: 'pending'; payment: TxStatus | null; fee: TxStatus | null; problem?: string }
+  | { state: 'timeout'; payment: TxStatus | null; fee: TxStatus | null; problem?: string };
+
+const DEFAULT_TIMEOUT = 60 * 60 * 1000;
+
+const SATS_PER_COIN = 100000000;
+
+/** Currencies paid in the chain's native coin, the only ones decoded outputs can show */
+const NATIVE_CURRENCIES = ['VRSC', 'VRSCTEST'];
+
+/** Decoded transaction from a source you trust (see PaymentWatchConfig.getTransaction) */
+export type TransactionSource = (txid: string) => Promise<DecodedTransaction>;
+
+/** Whether work on this job has to wait for a confirmed payment */
+export function requiresPayment(job: Job): boolean {
+  return job.payment?.terms === 'prepay';
+}
+
+/** Whether amounts in this currency can be checked against decoded outputs */
+export function isNativeCurrency(currency: string): boolean {
+  return NATIVE_CURRENCIES.includes(currency);
+}
+
+/** Coins to satoshis, rounded */
+export function toSatoshis(amount: number): number {
+  return Math.round(amount * SATS_PER_COIN);
+}
+
+/** Satoshis a transaction pays to any of `addresses` */
+export async function satoshisPaidTo(getTransaction: TransactionSource, txid: string, addresses: string[]): Promise<number> {
+  const tx = await getTransaction(txid);
+  if (tx.txid !== txid) {
+    throw new Error(`getTransaction(${txid}) returned transaction ${tx.txid}`);
+  }
+  return tx.outputs
+    .filter(o => o.address !== null && addresses.includes(o.address))
+    .reduce((sum, o) => sum + o.satoshis, 0);
+}
+
+/** getTxStatus(), with null for a transaction that is not in the mempool or a block yet */
+export async function lookupTxStatus(client: Pick<VAPClient, 'getTxStatus'>, txid: string | null | undefined): Promise<TxStatus | null> {
+  if (!txid) return null;
+  try {
+    return await client.getTxStatus(txid);
+  } catch (err) {
+    if (isNotFound(err)) {
+      return null;
+    }
+    throw err;
+  }
+}
+
+export class PaymentWatcher {
+  private readonly client: Pick<VAPClient, 'getTxStatus'>;
+  private readonly confirmations: number;
+  private readonly timeoutMs: number;
+  private readonly requireFee: boolean;
+  private readonly getTransaction: TransactionSource | null;
+
+  constructor(client: Pick<VAPClient, 'getTxStatus'>, config: PaymentWatchConfig = {}) {
+    this.client = client;
+    this.confirmations = config.confirmations ?? 1;
+    this.timeoutMs = config.timeoutMs ?? DEFAULT_TIMEOUT;
+    this.requireFee = config.requirePlatformFee ?? true;
+    this.getTransaction = config.getTransaction || null;
+  }
+
+  /**
+   * Check a job's payment once.
+   *
+   * @param job - Fresh job data (payment txids come from job.payment)
+   * @param acceptedAt - When the job was accepted (ms), start of the timeout
+   * @param addresses - Addresses the payment must go to (this agent's)
+   */
+  async check(job: Job, acceptedAt: number, addresses: string[], now = Date.now()): Promise<PaymentCheck> {
+    const payment = await lookupTxStatus(this.client, job.payment?.txid);
+    const fee = this.requireFee ? await lookupTxStatus(this.client, job.payment?.platformFeeTxid) : null;
+
+    let problem: string | undefined;
+    const confirmed = this.isConfirmed(payment) && (!this.requireFee || this.isConfirmed(fee));
+    if (confirmed) {
+      problem = (await this.paymentProblem(job, addresses)) ?? undefined;
+      if (!problem) return { state: 'confirmed', payment: payment!, fee };
+    }
+    const state = now - acceptedAt > this.timeoutMs ? 'timeout' : 'pending';
+    return { state, payment, fee, ...(problem && { problem }) };
+  }
+
+  /** Why the confirmed transactions don't pay for the job, or null when they do */
+  private async paymentProblem(job: Job, addresses: string[]): Promise<string | null> {
+    const info = job.payment!;
+    const native = isNativeCurrency(job.currency);
+
+    if (this.getTransaction && native) {
+      const paid = await satoshisPaidTo(this.getTransaction, info.txid!, addresses);
+      if (paid < toSatoshis(job.amount)) {
+        return `payment ${info.txid} pays ${paid / SATS_PER_COIN} ${job.currency} to this agent, job amount is ${job.amount}`;
+      }
+    } else if (!info.verified) {
+      return 'payment not verified by the platform (set payments.getTransaction to check it on-chain)';
+    }
+
+    if (!this.requireFee) return null;
+    if (this.getTransaction && native && info.platformFeeAddress && info.feeAmount != null) {
+      const paid = await satoshisPaidTo(this.getTransaction, info.platformFeeTxid!, [info.platformFeeAddress]);
+      if (paid < toSatoshis(info.feeAmount)) {
+        return `platform fee ${info.platformFeeTxid} pays ${paid / SATS_PER_COIN} ${job.currency}, fee is ${info.feeAmount}`;
+      }
+    } else if (!info.platformFeeVerified) {
+      return 'platform fee not verified by the platform';
+    }
+    return null;
+  }
+
+  private isConfirmed(tx: TxStatus | null): boolean {
+    return !!tx && tx.confirmations >= this.confirmations;
+  }
+}
@@ -0,0 +1,205 @@
+/**
+ * Job execution queue — limits how many jobs the agent works on at once.
+ *
+ * Accepted jobs reserve a slot until they are started; started jobs wait in a
+ * priority queue (highest amount first, then earliest deadline) until a slot
+ * frees up. A started job keeps its slot after its task returns, until it is
+ * released (delivered, cancelled or disputed). VAPAgent holds new requests
+ * while the queue has no capacity.
+ */
+
+import type { Job } from '../client/index.js';
+
+export interface JobQueueConfig {
+  /** Jobs that may run at once (default: unlimited) */
+  maxConcurrentJobs?: number;
+  /** Started jobs that may wait for a free slot on top of maxConcurrentJobs (default: 0) */
+  maxQueuedJobs?: number;
+  /** Per-service cap on committed jobs, keyed by service id */
+  perServiceLimits?: Record<string, number>;
+  /** Custom ordering for waiting jobs (default: compareJobPriority) */
+  compare?: (a: Job, b: Job) => number;
+}
+
+export interface QueueStats {
+  /** Accepted jobs that have not started yet */
+  reserved: number;
+  /** Started jobs waiting for a slot */
+  queued: number;
+  /** Started jobs holding a slot (task running, or finished and not yet released) */
+  running: number;
+}
+
+interface QueuedTask {
+  job: Job;
+  run: () => Promise<void>;
+  resolve: () => void;
+  reject: (err: unknown) => void;
+  seq: number;
+}
+
+/**
+ * Default priority: higher amount first, then earlier deadline (jobs without one last).
+ */
+export function compareJobPriority(a: Job, b: Job): number {
+  if (a.amount !== b.amount) return b.amount - a.amount;
+  const da = deadlineMs(a);
+  const db = deadlineMs(b);
+  if (da !== db) return da < db ? -1 : 1;
+  return 0;
+}
+
+function deadlineMs(job: Job): number {
+  const ms = job.deadline ? Date.parse(job.deadline) : NaN;
+  return Number.isNaN(ms) ? Infinity : ms;
+}
+
+export class JobQueue {
+  private readonly maxConcurrent: number;
+  private readonly maxQueued: number;
+  private readonly perServiceLimits: Record<string, number>;
+  private readonly compare: (a: Job, b: Job) => number;
+  private reserved = new Map<string, Job>();
+  private pending: QueuedTask[] = [];
+  private active = new Map<string, Job>();
+  /** Active jobs whose task has not returned yet */
+  private runningTasks = new Set<string>();
+  /** Running jobs released before their task returned */
+  private releaseOnFinish = new Set<string>();
+  private seq = 0;
+  /** Called whenever reserved / queued / running counts change */
+  onChange: ((stats: QueueStats) => void) | null = null;
+
+  constructor(config: JobQueueConfig = {}) {
+    this.maxConcurrent = config.maxConcurrentJobs ?? Infinity;
+    this.maxQueued = config.maxQueuedJobs ?? 0;
+    this.perServiceLimits = config.perServiceLimits || {};
+    this.compare = config.compare || compareJobPriority;
+    if (!(this.maxConcurrent >= 1)) {
+      throw new Error('maxConcurrentJobs must be at least 1');
+    }
+  }
+
+  /**
+   * Whether another job (for this job's service) can be committed to.
+   * Counts reserved, queued and running jobs.
+   */
+  hasCapacity(job: Job): boolean {
+    if (this.has(job.id)) return true;
+    if (this.committed() >= this.maxConcurrent + this.maxQueued) return false;
+    const limit = job.serviceId ? this.perServiceLimits[job.serviceId] : undefined;
+    return limit === undefined || this.committed(job.serviceId!) < limit;
+  }
+
+  /** Hold a slot for an accepted job until it starts or is released */
+  reserve(job: Job): void {
+    if (this.has(job.id)) return;
+    this.reserved.set(job.id, job);
+    this.changed();
+  }
+
+  /**
+   * Run a started job when a slot is free.
+   * Resolves when `run` finishes (immediately if the job is already queued or running);
+   * the slot stays taken until release().
+   */
+  enqueue(job: Job, run: () => Promise<void>): Promise<void> {
+    if (this.active.has(job.id) || this.pending.some(t => t.job.id === job.id)) {
+      return Promise.resolve();
+    }
+    this.reserved.delete(job.id);
+    return new Promise<void>((resolve, reject) => {
+      this.pending.push({ job, run, resolve, reject, seq: this.seq++ });
+      this.pending.sort((a, b) => this.compare(a.job, b.job) || a.seq - b.seq);
+      this.changed();
+      this.pump();
+    });
+  }
+
+  /**
+   * Free a job's slot (delivered, cancelled, disputed).
+   * A job whose task is still running keeps its slot until the task returns.
+   *
+   * @returns true if a reserved, queued or finished entry was removed
+   */
+  release(jobId: string): boolean {
+    let removed = this.reserved.delete(jobId);
+    const index = this.pending.findIndex(t => t.job.id === jobId);
+    if (index !== -1) {
+      const [task] = this.pending.splice(index, 1);
+      task.resolve();
+      removed = true;
+    }
+    if (this.runningTasks.has(jobId)) {
+      this.releaseOnFinish.add(jobId);
+    } else if (this.active.delete(jobId)) {
+      removed = true;
+    }
+    if (removed) {
+      this.changed();
+      this.pump();
+    }
+    return removed;
+  }
+
+  /** Whether the queue knows this job (reserved, queued or running) */
+  has(jobId: string): boolean {
+    return this.reserved.has(jobId) || this.active.has(jobId) || this.pending.some(t => t.job.id === jobId);
+  }
+
+  get stats(): QueueStats {
+    return { reserved: this.reserved.size, queued: this.pending.length, running: this.active.size };
+  }
+
+  private committed(serviceId?: string): number {
+    const jobs = [...this.reserved.values(), ...this.pending.map(t => t.job), ...this.active.values()];
+    return serviceId === undefined ? jobs.length : jobs.filter(j => j.serviceId === serviceId).length;
+  }
+
+  private runningFor(serviceId: string): number {
+    let count = 0;
+    for (const job of this.active.values()) {
+      if (job.serviceId === serviceId) count++;
+    }
+    return count;
+  }
+
+  /** Start waiting jobs in priority order while slots (and service limits) allow */
+  private pump(): void {
+    for (let i = 0; i < this.pending.length && this.active.size < this.maxConcurrent;) {
+      const task = this.pending[i];
+      const limit = task.job.serviceId ? this.perServiceLimits[task.job.serviceId] : undefined;
+      if (limit !== undefined && this.runningFor(task.job.serviceId!) >= limit) {
+        i++;
+        continue;
+      }
+      this.pending.splice(i, 1);
+      this.start(task);
+    }
+  }
+
+  private start(task: QueuedTask): void {
+    this.active.set(task.job.id, task.job);
+    this.runningTasks.add(task.job.id);
+    this.changed();
+    // Settle after the slot bookkeeping, so callers see the finished state
+    task.run().then(
+      () => { this.finish(task); task.resolve(); },
+      (err) => { this.finish(task); task.reject(err); },
+    );
+  }
+
+  /** A task returned: its job keeps the slot unless it was released meanwhile */
+  private finish(task: QueuedTask): void {
+    const jobId = task.job.id;
+    this.runningTasks.delete(jobId);
+    if (!this.releaseOnFinish.delete(jobId)) return;
+    this.active.delete(jobId);
+    this.changed();
+    this.pump();
+  }
+
+  private changed(): void {
+    this.onChange?.(this.stats);
+  }
+}
@@ -0,0 +1,133 @@
+/**
+ * Job status reconciler — diffs platform job status against the last status
+ * recorded in the JobStore and reports each transition once it was handled.
+ *
+ * Every transport (polling, SafeChat, webhooks) feeds observations through
+ * observe(), so a transition reported by two of them is only dispatched once.
+ * reconcile() polls getMyJobs() for each active status and looks up tracked
+ * jobs that left those lists (completed / cancelled) individually.
+ *
+ * A transition is recorded after the handler returns, so a handler that throws
+ * sees the same transition again on the next observation (at-least-once).
+ * State lives in the JobStore: with a MemoryJobStore the first pass after a
+ * restart dispatches every active job's current status again, with
+ * `previousStatus` undefined. Use a persistent store (FileJobStore) to avoid that.
+ */
+
+import type { Job, VAPClient } from '../client/index.js';
+import type { JobRecord, JobStore } from './store.js';
+
+/** Statuses a seller's job can still move on from (requested jobs are handled by checkForJobs) */
+export const ACTIVE_JOB_STATUSES: readonly Job['status'][] = ['accepted', 'in_progress', 'delivered', 'disputed'];
+
+export interface StatusTransition {
+  job: Job;
+  /** Last dispatched status (undefined the first time a job is observed) */
+  previousStatus?: string;
+  status: Job['status'];
+  /** Reason supplied by the notification (cancel / dispute), if any */
+  reason?: string;
+}
+
+export type TransitionHandler = (transition: StatusTransition) => Promise<void>;
+
+/** Whether a job should still be followed when it drops out of the active lists */
+function isTracked(record: JobRecord): boolean {
+  if (record.lastStatus) {
+    return (ACTIVE_JOB_STATUSES as readonly string[]).includes(record.lastStatus);
+  }
+  return record.decision === 'accepted';
+}
+
+export class StatusReconciler {
+  private readonly client: Pick<VAPClient, 'getMyJobs' | 'getJob'>;
+  private readonly store: JobStore;
+  private readonly onTransition: TransitionHandler;
+  /** Per-job queue so concurrent observations of one job are applied in order */
+  private queues = new Map<string, Promise<boolean>>();
+  /** Called when a single job cannot be reconciled; the rest of the pass continues */
+  onError: ((error: Error) => void) | null = null;
+
+  constructor(client: Pick<VAPClient, 'getMyJobs' | 'getJob'>, store: JobStore, onTransition: TransitionHandler) {
+    this.client = client;
+    this.store = store;
+    this.onTransition = onTransition;
+  }
+
+  /**
+   * Record an observed job state. Calls the transition handler when the status
+   * differs from the last one recorded; stale snapshots (older updatedAt) are ignored.
+   *
+   * @returns true when a transition was dispatched
+   */
+  observe(job: Job, reason?: string): Promise<boolean> {
+    const previous = this.queues.get(job.id) || Promise.resolve(false);
+    const next = previous.catch(() => false).then(() => this.apply(job, reason));
+    this.queues.set(job.id, next);
+    next.finally(() => {
+      if (this.queues.get(job.id) === next) this.queues.delete(job.id);
+    }).catch(() => { /* surfaced to the caller of observe() */ });
+    return next;
+  }
+
+  /**
+   * Poll every active status plus tracked jobs that left the active lists.
+   *
+   * @returns Number of transitions dispatched
+   */
+  async reconcile(): Promise<number> {
+    const listed = new Set<string>();
+    let transitions = 0;
+
+    for (const status of ACTIVE_JOB_STATUSES) {
+      const res = await this.client.getMyJobs({ status, role: 'seller' });
+      for (const job of res.data || []) {
+        if (!job.id) continue;
+        listed.add(job.id);
+        if (await this.safeObserve(job)) transitions++;
+      }
+    }
+
+    for (const record of await this.store.list()) {
+      if (listed.has(record.jobId) || !isTracked(record)) continue;
+      let job: Job;
+      try {
+        job = await this.client.getJob(record.jobId);
+      } catch (err) {
+        this.reportError(err);
+        continue;
+      }
+      if (await this.safeObserve(job)) transitions++;
+    }
+
+    return transitions;
+  }
+
+  private async apply(job: Job, reason?: string): Promise<boolean> {
+    const record = await this.store.get(job.id);
+    if (record?.lastStatus === job.status) return false;
+    if (record?.statusUpdatedAt && job.updatedAt && Date.parse(job.updatedAt) < Date.parse(record.statusUpdatedAt)) {
+      return false;
+    }
+
+    // Recorded only once the handler succeeded: a handler that throws is retried on the next observation
+    await this.onTransition({ job, previousStatus: record?.lastStatus, status: job.status, reason });
+    await this.store.update(job.id, { lastStatus: job.status, statusUpdatedAt: job.updatedAt });
+    return true;
+  }
+
+  private async safeObserve(job: Job): Promise<boolean> {
+    try {
+      return await this.observe(job);
+    } catch (err) {
+      this.reportError(err);
+      return false;
+    }
+  }
+
+  private reportError(err: unknown): void {
+    const error = err instanceof Error ? err : new Error(String(err));
+    if (this.onError) this.onError(error);
+    else console.error('[Reconciler]', error.message);
+  }
+}
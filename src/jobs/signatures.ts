@@ -0,0 +1,189 @@
+/**
+ * Job signature verification — checks the signatures the platform returns on
+ * Job.signatures instead of trusting them.
+ *
+ * Each message is rebuilt from the job's fields and verified against the
+ * signer's primary addresses:
+ * - request    — buyer  (the platform's message, from getJobRequestMessage())
+ * - acceptance — seller (VAP-ACCEPT)
+ * - delivery   — seller (VAP-DELIVER)
+ * - completion — buyer  (VAP-COMPLETE, SDK format)
+ *
+ * Signature timestamps are taken from job.timestamps.
+ */
+
+import type { Job, VAPClient } from '../client/index.js';
+import { verifyMessageDetailed, type SignatureFormat } from '../identity/verify.js';
+import {
+  buildAcceptMessage,
+  buildCompleteMessage,
+  buildDeliverMessage,
+} from '../signing/messages.js';
+
+export type JobSignatureKind = 'request' | 'acceptance' | 'delivery' | 'completion';
+
+/**
+ * Resolves a VerusID to the R-addresses allowed to sign for it (empty when unknown),
+ * e.g. the primary addresses from `getidentity` on a trusted daemon.
+ */
+export type SignerResolver = (verusId: string) => Promise<string[]>;
+
+export interface JobSignatureCheck {
+  kind: JobSignatureKind;
+  /** VerusID expected to have signed */
+  signer: string;
+  /**
+   * - valid: the signature matches the rebuilt message
+   * - invalid: it doesn't
+   * - missing: the job carries no such signature
+   * - unresolved: the signer's addresses or the message fields are not available
+   */
+  status: 'valid' | 'invalid' | 'missing' | 'unresolved';
+  /** Rebuilt message */
+  message: string | null;
+  /** Signature format that verified */
+  format: SignatureFormat | null;
+  /** R-address whose key signed */
+  address: string | null;
+  /** Why the signature could not be checked */
+  reason?: string;
+}
+
+export interface JobSignatureReport {
+  jobId: string;
+  /** No present signature is invalid or unresolved */
+  valid: boolean;
+  signatures: Record<JobSignatureKind, JobSignatureCheck>;
+}
+
+export interface VerifyJobSignaturesOptions {
+  network?: 'verus' | 'verustest';
+  /** Signatures to check (default: all) */
+  kinds?: JobSignatureKind[];
+  /** Source of the request message; without it the request signature is unresolved */
+  client?: Pick<VAPClient, 'getJobRequestMessage'>;
+}
+
+const ALL_KINDS: JobSignatureKind[] = ['request', 'acceptance', 'delivery', 'completion'];
+
+/** Unix seconds from an ISO timestamp */
+function seconds(iso: string | null | undefined): number | null {
+  if (!iso) return null;
+  const ms = Date.parse(iso);
+  return Number.isNaN(ms) ? null : Math.floor(ms / 1000);
+}
+
+/** Message for a signature, or a reason it can't be rebuilt */
+async function rebuild(
+  job: Job,
+  kind: JobSignatureKind,
+  client?: Pick<VAPClient, 'getJobRequestMessage'>,
+): Promise<{ message: string } | { reason: string }> {
+  const ts = job.timestamps || {};
+  const deliveryHash = job.delivery?.hash;
+  switch (kind) {
+    case 'request': {
+      const timestamp = seconds(ts.requested || ts.created || job.createdAt);
+      if (timestamp == null) return { reason: 'request timestamp unknown' };
+      if (!client) return { reason: 'no client to fetch the request message from' };
+      // The platform owns this format; ask it for the message the buyer was shown
+      const { message } = await client.getJobRequestMessage({
+        sellerVerusId: job.sellerVerusId,
+        description: job.description,
+        amount: job.amount,
+        currency: job.currency,
+        deadline: job.deadline || undefined,
+        safechatEnabled: job.safechatEnabled,
+        timestamp,
+      });
+      return { message };
+    }
+    case 'acceptance': {
+      const timestamp = seconds(ts.accepted);
+      if (timestamp == null) return { reason: 'acceptance timestamp unknown' };
+      return {
+        message: buildAcceptMessage({
+          jobHash: job.jobHash,
+          buyerVerusId: job.buyerVerusId,
+          amount: job.amount,
+          currency: job.currency,
+          timestamp,
+        }),
+      };
+    }
+    case 'delivery': {
+      const timestamp = seconds(ts.delivered);
+      if (timestamp == null || !deliveryHash) return { reason: 'delivery hash or timestamp unknown' };
+      return { message: buildDeliverMessage({ jobHash: job.jobHash, deliveryHash, timestamp }) };
+    }
+    case 'completion': {
+      const timestamp = seconds(ts.completed);
+      if (timestamp == null || !deliveryHash) return { reason: 'delivery hash or completion timestamp unknown' };
+      return { message: buildCompleteMessage({ jobHash: job.jobHash, deliveryHash, timestamp }) };
+    }
+  }
+}
+
+/**
+ * Verify the counterparty signatures on a job.
+ *
+ * @param resolve - Primary addresses of a VerusID
+ */
+export async function verifyJobSignatures(
+  job: Job,
+  resolve: SignerResolver,
+  options: VerifyJobSignaturesOptions = {},
+): Promise<JobSignatureReport> {
+  const kinds = options.kinds || ALL_KINDS;
+  const signatures = {} as Record<JobSignatureKind, JobSignatureCheck>;
+
+  for (const kind of ALL_KINDS) {
+    const signer = kind === 'request' || kind === 'completion' ? job.buyerVerusId : job.sellerVerusId;
+    const check: JobSignatureCheck = { kind, signer, status: 'missing', message: null, format: null, address: null };
+    signatures[kind] = check;
+
+    const signature = job.signatures?.[kind];
+    if (!signature || !kinds.includes(kind)) continue;
+
+    let rebuilt: { message: string } | { reason: string };
+    try {
+      rebuilt = await rebuild(job, kind, options.client);
+    } catch (err) {
+      rebuilt = { reason: err instanceof Error ? err.message : String(err) };
+    }
+    if ('reason' in rebuilt) {
+      check.status = 'unresolved';
+      check.reason = rebuilt.reason;
+      continue;
+    }
+    check.message = rebuilt.message;
+
+    let addresses: string[];
+    try {
+      addresses = await resolve(signer);
+    } catch (err) {
+      addresses = [];
+      check.reason = err instanceof Error ? err.message : String(err);
+    }
+    if (addresses.length === 0) {
+      check.status = 'unresolved';
+      check.reason = check.reason || `no primary addresses known for ${signer}`;
+      continue;
+    }
+
+    // Signed with a key of the identity: any primary address may match
+    check.status = 'invalid';
+    for (const address of addresses) {
+      const result = verifyMessageDetailed(address, rebuilt.message, signature, { network: options.network });
+      if (result.valid) {
+        check.status = 'valid';
+        check.format = result.format;
+        check.address = result.address;
+        break;
+      }
+    }
+  }
+
+  const valid = Object.values(signatures).every(c => c.status === 'valid' || c.status === 'missing');
+  return { jobId: job.id, valid, signatures };
+}
@@ -0,0 +1,263 @@
+/**
+ * Job state store — remembers what the agent already decided about each job,
+ * so a restart doesn't send requested jobs through onJobRequested again.
+ *
+ * Two implementations ship with the SDK:
+ * - MemoryJobStore: process-local (the default); after a restart, active jobs'
+ *   current statuses are dispatched to the JobHandler hooks again
+ * - FileJobStore: JSON file on disk, written asynchronously (temp file + rename)
+ *   after every change, one write at a time
+ *
+ * Implement JobStore yourself to back it with a database or shared cache.
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+export type JobDecision = 'seen' | 'accepted' | 'rejected' | 'held';
+
+/** What the agent knows about one extension of a job */
+export interface ExtensionState {
+  /** Last platform status seen ('pending' | 'approved' | 'paid' | 'rejected') */
+  status: string;
+  /** Our answer to a buyer's request */
+  decision?: 'approved' | 'rejected';
+  /** Requested by this agent via requestExtension() */
+  requestedByAgent?: boolean;
+  /** Confirmations of the payment transaction at the last check */
+  confirmations?: number;
+  /** When the payment was verified and onExtensionPaid dispatched */
+  paidAt?: string;
+  /** Why the confirmed payment was not accepted at the last check */
+  problem?: string;
+}
+
+/** What the agent knows about one milestone of a split-payment job */
+export interface MilestoneState {
+  /** Delivery hash submitted for this milestone */
+  deliveryHash?: string;
+  /** Files already uploaded for this milestone, keyed by local path */
+  deliveryFiles?: Record<string, { fileId: string; checksum: string }>;
+  deliveredAt?: string;
+  /** When the agent asked the buyer for this tranche */
+  paymentRequestedAt?: string;
+  /** Buyer's payment txid for this tranche */
+  txid?: string;
+  /** Confirmations of the payment transaction at the last check */
+  confirmations?: number;
+  /** When the payment was verified and onMilestonePaid dispatched */
+  paidAt?: string;
+  /** Why the confirmed payment was not accepted at the last check */
+  problem?: string;
+}
+
+export interface JobRecord {
+  jobId: string;
+  /** Latest decision for this job ('held' jobs are re-evaluated on every poll) */
+  decision: JobDecision;
+  jobHash?: string;
+  /** Last platform status whose JobHandler hook was dispatched */
+  lastStatus?: string;
+  /** Job updatedAt of the snapshot lastStatus came from (older snapshots are ignored) */
+  statusUpdatedAt?: string;
+  /** Number of times the job was held */
+  holds?: number;
+  /** Delivery hash submitted to the platform */
+  deliveryHash?: string;
+  /** Files already uploaded for the delivery, keyed by local path */
+  deliveryFiles?: Record<string, { fileId: string; checksum: string }>;
+  /** Prepay job waiting for its payment to confirm before work starts */
+  paymentPending?: boolean;
+  /** When the payment reached the required confirmations */
+  paymentConfirmedAt?: string;
+  /** Milestones of a split-payment job, keyed by milestone index */
+  milestones?: Record<string, MilestoneState>;
+  /** Extensions of this job, keyed by extension id */
+  extensions?: Record<string, ExtensionState>;
+  /** Webhook delivery ids whose handler finished (redeliveries are skipped); only added to existing records */
+  webhookDeliveries?: string[];
+  firstSeenAt: string;
+  decidedAt: string;
+  deliveredAt?: string;
+  updatedAt: string;
+}
+
+/** Fields callers may change; timestamps are maintained by the store */
+export type JobRecordPatch = Partial<Omit<JobRecord, 'jobId' | 'firstSeenAt' | 'decidedAt' | 'updatedAt'>>;
+
+export interface JobStore {
+  /** Load persisted state. Called by VAPAgent.start(); must be safe to call more than once. */
+  load(): Promise<void>;
+  get(jobId: string): Promise<JobRecord | undefined>;
+  /** Create or merge a record. New records default to decision 'seen'. */
+  update(jobId: string, patch: JobRecordPatch): Promise<JobRecord>;
+  delete(jobId: string): Promise<void>;
+  list(): Promise<JobRecord[]>;
+}
+
+export interface JobStoreOptions {
+  /**
+   * Maximum records kept; the oldest finished or rejected jobs are evicted first (default: 10000).
+   * Records of jobs still in progress are never evicted, so the store can grow past this.
+   */
+  maxRecords?: number;
+}
+
+/** Default cap on tracked jobs */
+const DEFAULT_MAX_RECORDS = 10_000;
+
+/** Platform statuses a job never leaves */
+const FINAL_STATUSES = ['completed', 'cancelled'];
+
+function nowIso(): string {
+  return new Date().toISOString();
+}
+
+/** Whether nothing more happens to a job, so its record may be evicted */
+function isSettled(record: JobRecord): boolean {
+  if (record.lastStatus) return FINAL_STATUSES.includes(record.lastStatus);
+  return record.decision === 'rejected' || record.decision === 'seen';
+}
+
+/**
+ * In-memory job store. State is lost when the process exits.
+ */
+export class MemoryJobStore implements JobStore {
+  protected records = new Map<string, JobRecord>();
+  protected readonly maxRecords: number;
+
+  constructor(options: JobStoreOptions = {}) {
+    this.maxRecords = options.maxRecords ?? DEFAULT_MAX_RECORDS;
+  }
+
+  async load(): Promise<void> {
+    // Nothing to load
+  }
+
+  async get(jobId: string): Promise<JobRecord | undefined> {
+    const record = this.records.get(jobId);
+    return record ? { ...record } : undefined;
+  }
+
+  async update(jobId: string, patch: JobRecordPatch): Promise<JobRecord> {
+    const now = nowIso();
+    const existing = this.records.get(jobId);
+    const record: JobRecord = {
+      ...(existing || { jobId, decision: 'seen', firstSeenAt: now, decidedAt: now }),
+      ...patch,
+      jobId,
+      updatedAt: now,
+    };
+    if (patch.decision && patch.decision !== existing?.decision) {
+      record.decidedAt = now;
+    }
+    this.records.set(jobId, record);
+    this.evict(jobId);
+    await this.persist();
+    return { ...record };
+  }
+
+  async delete(jobId: string): Promise<void> {
+    if (this.records.delete(jobId)) {
+      await this.persist();
+    }
+  }
+
+  async list(): Promise<JobRecord[]> {
+    return [...this.records.values()].map(r => ({ ...r }));
+  }
+
+  /** Hook for subclasses that write state somewhere durable */
+  protected async persist(): Promise<void> {
+    // In-memory only
+  }
+
+  /** Evict the oldest settled entries (other than the one just changed) if the store grows too large */
+  private evict(changed: string): void {
+    if (this.records.size <= this.maxRecords) return;
+    for (const [jobId, record] of this.records) {
+      if (jobId !== changed && isSettled(record)) this.records.delete(jobId);
+      if (this.records.size <= this.maxRecords) break;
+    }
+  }
+}
+
+interface JobStoreFile {
+  version: 1;
+  jobs: Record<string, JobRecord>;
+}
+
+/**
+ * JSON-file job store. Follows the same resumable-state pattern as finalizeOnboarding():
+ * corrupt files are reported and replaced, and writes go to a temp file that is renamed into place.
+ * Writes don't block the event loop and run one at a time; changes made while a write is
+ * running are saved together by the next one.
+ *
+ * @example
+ * ```typescript
+ * const agent = new VAPAgent({
+ *   vapUrl: 'https://api.autobb.app',
+ *   wif: process.env.VAP_AGENT_WIF!,
+ *   jobStore: new FileJobStore('./state/jobs.json'),
+ * });
+ * ```
+ */
+export class FileJobStore extends MemoryJobStore {
+  private readonly filePath: string;
+  /** Write in progress */
+  private writing: Promise<void> | null = null;
+  /** Write queued behind the one in progress; later changes join it */
+  private queued: Promise<void> | null = null;
+
+  constructor(filePath: string, options: JobStoreOptions = {}) {
+    super(options);
+    this.filePath = filePath;
+  }
+
+  async load(): Promise<void> {
+    this.records.clear();
+    if (!fs.existsSync(this.filePath)) return;
+
+    try {
+      const parsed = JSON.parse(fs.readFileSync(this.filePath, 'utf8')) as JobStoreFile;
+      if (parsed.version !== 1 || !parsed.jobs || typeof parsed.jobs !== 'object') {
+        console.warn(`[JobStore] Unrecognized format in ${this.filePath}, starting fresh`);
+        return;
+      }
+      for (const record of Object.values(parsed.jobs)) {
+        if (record && typeof record.jobId === 'string' && record.decision) {
+          this.records.set(record.jobId, record);
+        }
+      }
+    } catch {
+      console.warn(`[JobStore] Corrupt state file ${this.filePath}, starting fresh`);
+    }
+  }
+
+  protected persist(): Promise<void> {
+    if (this.queued) return this.queued;
+
+    const previous = this.writing || Promise.resolve();
+    const next = previous.catch(() => { /* reported to that write's callers */ }).then(() => {
+      this.queued = null;
+      return this.write();
+    });
+    this.queued = next;
+    this.writing = next;
+    next.finally(() => {
+      if (this.writing === next) this.writing = null;
+    }).catch(() => { /* surfaced to the callers of update() / delete() */ });
+    return next;
+  }
+
+  private async write(): Promise<void> {
+    // Snapshot before the first await so later changes go to the next write
+    const data: JobStoreFile = { version: 1, jobs: Object.fromEntries(this.records) };
+    const json = JSON.stringify(data, null, 2);
+    await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+    // Atomic write: write to temp file then rename to prevent corruption on crash
+    const tmp = this.filePath + '.tmp';
+    await fs.promises.writeFile(tmp, json);
+    await fs.promises.rename(tmp, this.filePath);
+  }
+}
@@ -4,13 +4,18 @@
 
 // Re-export the canonical Job type from client
 export type { Job } from '../client/index.js';
-import type { Job } from '../client/index.js';
+import type { Job, JobExtension, JobMilestone, MilestoneInput } from '../client/index.js';
+import type { DeadlineConfig } from './deadlines.js';
+import type { PaymentWatchConfig } from './payments.js';
+import type { SignerResolver } from './signatures.js';
 
 export interface JobHandlerConfig {
-  /** Auto-accept rules (not yet evaluated by the SDK — implement in onJobRequested handler) */
+  /** Auto-accept rules, evaluated by VAPAgent before onJobRequested */
   autoAccept?: {
     enabled: boolean;
     rules?: AutoAcceptRule[];
+    /** What to do when no rule accepts a job (default: 'defer' to onJobRequested) */
+    fallback?: 'defer' | 'reject';
   };
 
   /** Polling interval in ms (default: 30000) */
@@ -19,8 +24,59 @@ export interface JobHandlerConfig {
   /** Notification method */
   notificationMethod?: 'polling' | 'webhook' | 'websocket';
 
-  /** Webhook URL (if method is webhook) */
+  /** Webhook URL (if method is webhook) — its path is the path the receiver listens on */
   webhookUrl?: string;
+
+  /** Webhook receiver settings (required if method is webhook) */
+  webhook?: {
+    /** Shared secret used to verify X-VAP-Signature */
+    secret: string;
+    /** Port to listen on (default: 8787) */
+    port?: number;
+    /** Interface to bind (default: 0.0.0.0) */
+    host?: string;
+    /** Maximum allowed clock difference for X-VAP-Timestamp in seconds (default: 300) */
+    toleranceSeconds?: number;
+  };
+
+  /**
+   * Fallback polling interval in ms while push notifications are active
+   * (default: 300000 for webhooks; pollInterval for websocket, whose job_requested event is proposed)
+   */
+  reconcileInterval?: number;
+
+  /** Jobs worked on at once; new requests are held while all slots are taken (default: unlimited) */
+  maxConcurrentJobs?: number;
+
+  /** Started jobs allowed to wait for a free slot, ordered by amount then deadline (default: 0) */
+  maxQueuedJobs?: number;
+
+  /** Per-service cap on accepted, queued and running jobs, keyed by service id */
+  perServiceLimits?: Record<string, number>;
+
+  /** Deadline and session-expiry tracking for accepted jobs */
+  deadlines?: DeadlineConfig;
+
+  /** Confirmations an extension payment needs before onExtensionPaid fires (default: 1) */
+  extensionConfirmations?: number;
+
+  /** On-chain payment checks for prepay jobs; onJobStarted waits for a confirmed payment */
+  payments?: PaymentWatchConfig;
+
+  /** Confirmations a milestone tranche needs before onMilestonePaid fires (default: 1) */
+  milestoneConfirmations?: number;
+
+  /** Verify the buyer's request signature before deciding on a job; invalid ones are rejected */
+  verifySignatures?: {
+    enabled: boolean;
+    /**
+     * Primary addresses of a buyer's VerusID, from a source you trust (e.g. `getidentity`
+     * on your own daemon). The platform does not publish them.
+     */
+    resolve: SignerResolver;
+    /** What to do when the buyer's addresses can't be resolved (default: 'reject') */
+    unresolved?: 'reject' | 'allow';
+  };
 }
 
 export interface AutoAcceptRule {
@@ -43,10 +99,13 @@ export interface JobHandler {
   /** Called when a new job request comes in */
   onJobRequested?(job: Job): Promise<'accept' | 'reject' | 'hold'>;
 
-  /** Called when a job is paid and ready to start */
+  /** Called when a job is paid and ready to start (runs through the job queue; prepay jobs wait for a confirmed payment) */
   onJobStarted?(job: Job): Promise<void>;
 
-  /** Called when the agent should deliver work */
+  /**
+   * Called when the agent should deliver work.
+   * `files` are local paths; VAPAgent uploads them and signs a delivery hash over content + file checksums.
+   */
   onDeliver?(job: Job): Promise<{ content: string; files?: string[] }>;
 
   /** Called when a job is completed (for cleanup/logging) */
@@ -58,6 +117,18 @@ export interface JobHandler {
   /** Called when a job is cancelled */
   onJobCancelled?(job: Job, reason?: string): Promise<void>;
 
+  /** Called after accepting a split-payment job; the returned milestones are declared to the buyer */
+  onPlanMilestones?(job: Job): Promise<MilestoneInput[] | undefined>;
+
+  /** Called once the tranche for a milestone is confirmed on-chain */
+  onMilestonePaid?(job: Job, milestone: JobMilestone): Promise<void>;
+
+  /** Called when the buyer requests an extension — 'hold' leaves it pending and asks again on the next check */
+  onExtensionRequested?(job: Job, extension: JobExtension): Promise<'approve' | 'reject' | 'hold'>;
+
+  /** Called once the payment for an extension is confirmed on-chain */
+  onExtensionPaid?(job: Job, extension: JobExtension): Promise<void>;
+
   /** Called when either party requests end of session — agent can auto-deliver or request extension */
   onSessionEnding?(job: Job, reason: string, requestedBy: string): Promise<void>;
 }
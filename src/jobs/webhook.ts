@@ -0,0 +1,273 @@
+/**
+ * Webhook receiver for platform job notifications.
+ * A minimal node:http server that verifies the platform's HMAC signature
+ * and hands each event to a callback. No framework required.
+ *
+ * A delivery is answered once its handler finished: 200 when it succeeded,
+ * 500 when it failed so the platform delivers it again. Delivery ids of handled
+ * events are appended to the job's existing JobStore record, so a redelivery is
+ * skipped (also after a restart with a persistent store). No record is created
+ * for them: a record is what marks a requested job as decided.
+ *
+ * PROPOSED: the platform does not document webhook deliveries yet. The event
+ * shape and the signature scheme below are the SDK's proposal:
+ * - `X-VAP-Timestamp`: unix seconds when the delivery was signed
+ * - `X-VAP-Signature`: `sha256=` + hex HMAC-SHA256(secret, `${timestamp}.${rawBody}`)
+ */
+
+import http from 'node:http';
+import { createHmac, timingSafeEqual } from 'node:crypto';
+import { MemoryJobStore, type JobStore } from './store.js';
+
+export interface WebhookEvent {
+  /** Unique delivery id (redeliveries of the same event reuse it) */
+  id: string;
+  /** Event type, e.g. 'job.requested' or 'job.status_changed' */
+  type: string;
+  jobId: string;
+  /** New job status (job.status_changed) */
+  status?: string;
+  /** Reason given for the transition (cancel / dispute) */
+  reason?: string;
+  /** Unix seconds when the event was created */
+  timestamp?: number;
+}
+
+export interface WebhookReceiverConfig {
+  /** Shared secret configured for this agent's webhook on the platform */
+  secret: string;
+  /** Port to listen on (default: 8787, 0 = random free port) */
+  port?: number;
+  /** Interface to bind (default: 0.0.0.0) */
+  host?: string;
+  /** Request path to accept (default: /vap/webhook) */
+  path?: string;
+  /** Maximum allowed clock difference for X-VAP-Timestamp in seconds (default: 300) */
+  toleranceSeconds?: number;
+  /** Maximum request body size in bytes (default: 1 MB) */
+  maxBodyBytes?: number;
+  /** Where handled delivery ids are recorded, per job (default: a MemoryJobStore) */
+  store?: Pick<JobStore, 'get' | 'update'>;
+}
+
+export type WebhookEventHandler = (event: WebhookEvent) => Promise<void>;
+
+const DEFAULT_PORT = 8787;
+const DEFAULT_PATH = '/vap/webhook';
+const DEFAULT_TOLERANCE = 300;
+const DEFAULT_MAX_BODY = 1024 * 1024;
+
+/** Handled delivery ids remembered per job for replay protection */
+const MAX_DELIVERIES_PER_JOB = 100;
+
+/**
+ * Verify a webhook signature.
+ * Rejects stale timestamps to stop replays of captured requests.
+ */
+export function verifyWebhookSignature(
+  rawBody: string,
+  timestamp: string | undefined,
+  signature: string | undefined,
+  secret: string,
+  toleranceSeconds = DEFAULT_TOLERANCE,
+  nowSeconds = Math.floor(Date.now() / 1000),
+): boolean {
+  if (!timestamp || !signature || !signature.startsWith('sha256=')) return false;
+  const ts = Number(timestamp);
+  if (!Number.isInteger(ts) || Math.abs(nowSeconds - ts) > toleranceSeconds) return false;
+
+  const expected = createHmac('sha256', secret).update(`${timestamp}.${rawBody}`).digest();
+  let provided: Buffer;
+  try {
+    provided = Buffer.from(signature.slice('sha256='.length), 'hex');
+  } catch {
+    return false;
+  }
+  return provided.length === expected.length && timingSafeEqual(provided, expected);
+}
+
+/**
+ * Embeddable webhook receiver.
+ *
+ * @example
+ * ```typescript
+ * const receiver = new WebhookReceiver({ secret: process.env.VAP_WEBHOOK_SECRET! }, async (event) => {
+ *   console.log(event.type, event.jobId);
+ * });
+ * await receiver.start();
+ * ```
+ */
+export class WebhookReceiver {
+  private readonly config: Required<Omit<WebhookReceiverConfig, 'store'>>;
+  private readonly store: Pick<JobStore, 'get' | 'update'>;
+  private readonly onEvent: WebhookEventHandler;
+  private server: http.Server | null = null;
+  /** Deliveries whose handler is still running */
+  private inFlight = new Set<string>();
+  /** Called when a dispatched event handler fails */
+  onError: ((error: Error) => void) | null = null;
+
+  constructor(config: WebhookReceiverConfig, onEvent: WebhookEventHandler) {
+    if (!config.secret) {
+      throw new Error('Webhook secret is required');
+    }
+    this.config = {
+      secret: config.secret,
+      port: config.port ?? DEFAULT_PORT,
+      host: config.host ?? '0.0.0.0',
+      path: config.path ?? DEFAULT_PATH,
+      toleranceSeconds: config.toleranceSeconds ?? DEFAULT_TOLERANCE,
+      maxBodyBytes: config.maxBodyBytes ?? DEFAULT_MAX_BODY,
+    };
+    this.store = config.store || new MemoryJobStore();
+    this.onEvent = onEvent;
+  }
+
+  /** Start listening. Resolves with the bound port. */
+  async start(): Promise<number> {
+    if (this.server) return this.port;
+
+    const server = http.createServer((req, res) => this.handleRequest(req, res));
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.config.port, this.config.host, () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+    this.server = server;
+    return this.port;
+  }
+
+  /** Stop listening and close the server */
+  async stop(): Promise<void> {
+    const server = this.server;
+    this.server = null;
+    if (!server) return;
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  }
+
+  /** Port the server is bound to (0 when not started) */
+  get port(): number {
+    const addr = this.server?.address();
+    return addr && typeof addr === 'object' ? addr.port : 0;
+  }
+
+  private handleRequest(req: http.IncomingMessage, res: http.ServerResponse): void {
+    const url = new URL(req.url || '/', 'http://localhost');
+    if (url.pathname !== this.config.path) {
+      this.reply(res, 404, 'Not found');
+      return;
+    }
+    if (req.method !== 'POST') {
+      this.reply(res, 405, 'Method not allowed');
+      return;
+    }
+
+    const chunks: Buffer[] = [];
+    let size = 0;
+    let aborted = false;
+
+    req.on('data', (chunk: Buffer) => {
+      if (aborted) return;
+      size += chunk.length;
+      if (size > this.config.maxBodyBytes) {
+        aborted = true;
+        this.reply(res, 413, 'Payload too large');
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+
+    req.on('end', () => {
+      if (aborted) return;
+      this.handleBody(req, res, Buffer.concat(chunks).toString('utf8')).catch((err) => {
+        this.reply(res, 500, err instanceof Error ? err.message : String(err));
+      });
+    });
+  }
+
+  private async handleBody(req: http.IncomingMessage, res: http.ServerResponse, rawBody: string): Promise<void> {
+    const valid = verifyWebhookSignature(
+      rawBody,
+      headerValue(req.headers['x-vap-timestamp']),
+      headerValue(req.headers['x-vap-signature']),
+      this.config.secret,
+      this.config.toleranceSeconds,
+    );
+    if (!valid) {
+      this.reply(res, 401, 'Invalid signature');
+      return;
+    }
+
+    let event: WebhookEvent;
+    try {
+      event = JSON.parse(rawBody) as WebhookEvent;
+    } catch {
+      this.reply(res, 400, 'Invalid JSON');
+      return;
+    }
+    if (!event || typeof event.id !== 'string' || typeof event.type !== 'string' || typeof event.jobId !== 'string') {
+      this.reply(res, 400, 'Missing id, type or jobId');
+      return;
+    }
+
+    // A redelivery while the handler runs is refused; the platform retries it if the first one fails
+    if (this.inFlight.has(event.id)) {
+      this.reply(res, 409, 'Delivery is still being handled');
+      return;
+    }
+    this.inFlight.add(event.id);
+
+    // Acknowledge redeliveries of handled events without dispatching them again
+    let handled: boolean;
+    try {
+      handled = !!(await this.store.get(event.jobId))?.webhookDeliveries?.includes(event.id);
+    } catch (err) {
+      this.inFlight.delete(event.id);
+      throw err;
+    }
+    if (handled) {
+      this.inFlight.delete(event.id);
+      this.reply(res, 200, 'Duplicate');
+      return;
+    }
+
+    // Answer after the handler so a failed delivery is redelivered by the platform
+    try {
+      await this.dispatch(event);
+      this.reply(res, 200, 'Handled');
+    } catch (err) {
+      const error = err instanceof Error ? err : new Error(String(err));
+      if (this.onError) this.onError(error);
+      else console.error('[Webhook] Handler error:', error.message);
+      this.reply(res, 500, 'Handler failed');
+    } finally {
+      this.inFlight.delete(event.id);
+    }
+  }
+
+  /**
+   * Run the handler, then record the delivery id so redeliveries are skipped.
+   * The id is only appended to an existing record; without one a redelivery runs the handler again.
+   */
+  private async dispatch(event: WebhookEvent): Promise<void> {
+    await this.onEvent(event);
+    const record = await this.store.get(event.jobId);
+    if (!record) return;
+    await this.store.update(event.jobId, {
+      webhookDeliveries: [...(record.webhookDeliveries || []), event.id].slice(-MAX_DELIVERIES_PER_JOB),
+    });
+  }
+
+  private reply(res: http.ServerResponse, status: number, message: string): void {
+    if (res.headersSent) return;
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(status < 300 ? { status: message } : { error: { message } }));
+  }
+}
+
+function headerValue(value: string | string[] | undefined): string | undefined {
+  return Array.isArray(value) ? value[0] : value;
+}
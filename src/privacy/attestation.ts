@@ -6,8 +6,9 @@
  * The attestation is submitted to the platform and publicly verifiable.
  */
 
-import { signMessage } from '../identity/signer.js';
-import { canonicalize as jsonCanonicalize } from 'json-canonicalize';
+import { signMessage, type Signer } from '../identity/signer.js';
+import { andThen } from '../tx/signing.js';
+import { buildDeletionAttestationMessage } from '../signing/messages.js';
 
 export interface DeletionAttestation {
   jobId: string;
@@ -47,34 +48,39 @@ export function generateAttestationPayload(params: AttestationParams): Omit<Dele
   };
 }
 
-/**
- * Canonical JSON string for signing.
- * Keys are sorted alphabetically for deterministic output.
- */
-function canonicalize(payload: Omit<DeletionAttestation, 'signature'>): string {
-  return jsonCanonicalize(payload);
-}
-
 /**
  * Sign a deletion attestation payload.
  * 
  * @param payload - The attestation payload (without signature)
- * @param wif - WIF private key for signing
+ * @param key - WIF private key, or a Signer (returns a Promise)
  * @param network - 'verus' or 'verustest' (default: 'verustest')
  * @returns Full DeletionAttestation with signature
  */
 export function signAttestation(
   payload: Omit<DeletionAttestation, 'signature'>,
-  wif: string,
+  key: string,
+  network?: 'verus' | 'verustest',
+): DeletionAttestation;
+export function signAttestation(
+  payload: Omit<DeletionAttestation, 'signature'>,
+  key: Signer,
+  network?: 'verus' | 'verustest',
+): Promise<DeletionAttestation>;
+export function signAttestation(
+  payload: Omit<DeletionAttestation, 'signature'>,
+  key: string | Signer,
+  network?: 'verus' | 'verustest',
+): DeletionAttestation | Promise<DeletionAttestation>;
+export function signAttestation(
+  payload: Omit<DeletionAttestation, 'signature'>,
+  key: string | Signer,
   network: 'verus' | 'verustest' = 'verustest',
-): DeletionAttestation {
-  const message = canonicalize(payload);
-  const signature = signMessage(wif, message, network);
-
-  return {
+): DeletionAttestation | Promise<DeletionAttestation> {
+  const message = buildDeletionAttestationMessage(payload);
+  return andThen(signMessage(key, message, network), signature => ({
     ...payload,
     signature,
-  };
+  }));
 }
 
 /**
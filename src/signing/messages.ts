@@ -1,18 +1,60 @@
 /**
- * Signing message format builders (M2).
- * Bridges and frameworks need these to construct the exact message
- * strings that the VAP platform expects for accept/deliver signatures.
+ * Signing message format builders and parsers (M2).
+ * Bridges and frameworks need these to construct and read back the message
+ * strings behind every signed action.
+ *
+ * Two kinds of format live here:
+ * - Platform formats — the messages the VAP platform documents and verifies.
+ *   They carry no version marker and parse with `version: null`.
+ * - SDK formats — messages this SDK defines for actions whose platform format
+ *   is not published. They carry a `V:<version>` marker right after the tag,
+ *   so a later change of format can be told apart, and only versions this
+ *   module knows are parsed.
+ *
+ * PROPOSED: the SDK formats are the SDK's proposal. The platform is not known
+ * to verify any of them, so an endpoint may reject a signature over one until
+ * it adopts the format (or publishes its own, which then replaces it here).
+ *
+ * | Action        | Signer | Kind     | Message |
+ * |---------------|--------|----------|---------|
+ * | accept        | seller | platform | `VAP-ACCEPT\|Job\|Buyer\|Amt\|Ts` |
+ * | deliver       | seller | platform | `VAP-DELIVER\|Job\|Delivery\|Ts` |
+ * | deliver       | seller | SDK      | `VAP-DELIVER\|V\|Job\|Milestone\|Delivery\|Ts` (one milestone) |
+ * | complete      | buyer  | SDK      | `VAP-COMPLETE\|V\|Job\|Delivery\|Ts` |
+ * | dispute       | either | SDK      | `VAP-DISPUTE\|V\|Job\|Reason\|Ts` |
+ * | cancel        | either | SDK      | `VAP-CANCEL\|V\|Job\|Reason\|Ts` |
+ * | extension     | either | SDK      | `VAP-EXTEND\|V\|Job\|Amt\|Reason\|Ts` |
+ * | deactivate    | agent  | SDK      | `VAP-DEACTIVATE\|V\|Agent\|Ts` |
+ * | review        | buyer  | SDK      | `VAP-REVIEW\|V\|Agent\|Job\|Rating\|Msg\|Ts` |
+ * | deletion      | agent  | platform | canonical JSON of the attestation payload |
+ *
+ * The job request message is not built here: the platform builds it
+ * (VAPClient.getJobRequestMessage()), so it always matches what the platform checks.
+ *
+ * Free-text fields (reason, review message) may contain `|`;
+ * the parsers still split them correctly because every other field is fixed.
  *
  * @example
  * ```typescript
- * import { buildAcceptMessage, buildDeliverMessage, signMessage } from '@autobb/vap-agent';
+ * import { buildAcceptMessage, parseMessage, signMessage } from '@autobb/vap-agent';
  *
  * const msg = buildAcceptMessage({ jobHash, buyerVerusId, amount: 5, currency: 'VRSCTEST', timestamp });
  * const sig = signMessage(wif, msg, 'verustest');
  * await client.acceptJob(jobId, sig, timestamp);
+ *
+ * parseMessage(msg); // { type: 'accept', version: null, params: { jobHash, buyerVerusId, amount: '5', ... } }
  * ```
  */
 
+import { canonicalize } from 'json-canonicalize';
+import type { DeletionAttestation } from '../privacy/attestation.js';
+
+/** Version of the SDK formats built here, written into each as `V:<version>` */
+export const MESSAGE_FORMAT_VERSION = 1;
+
+/** Version marker of the SDK formats */
+const V = `V:${MESSAGE_FORMAT_VERSION}`;
+
 export interface AcceptMessageParams {
   /** Job hash from the platform */
   jobHash: string;
@@ -33,8 +75,89 @@ export interface DeliverMessageParams {
   deliveryHash: string;
   /** Unix timestamp (seconds) */
   timestamp: number;
+  /** Milestone index for a partial delivery of a split-payment job */
+  milestone?: number;
+}
+
+export interface CompleteMessageParams {
+  /** Job hash from the platform */
+  jobHash: string;
+  /** Delivery hash the buyer is confirming */
+  deliveryHash: string;
+  /** Unix timestamp (seconds) */
+  timestamp: number;
+}
+
+export interface DisputeMessageParams {
+  /** Job hash from the platform */
+  jobHash: string;
+  /** Reason given for the dispute */
+  reason: string;
+  /** Unix timestamp (seconds) */
+  timestamp: number;
+}
+
+export interface CancelMessageParams {
+  /** Job hash from the platform */
+  jobHash: string;
+  /** Reason given for cancelling (may be empty) */
+  reason?: string;
+  /** Unix timestamp (seconds) */
+  timestamp: number;
 }
 
+export interface ExtensionMessageParams {
+  /** Job hash from the platform */
+  jobHash: string;
+  /** Extra amount requested */
+  amount: number | string;
+  /** Job currency */
+  currency: string;
+  /** Reason given for the extension (may be empty) */
+  reason?: string;
+  /** Unix timestamp (seconds) */
+  timestamp: number;
+}
+
+export interface DeactivateMessageParams {
+  /** Agent's Verus identity */
+  verusId: string;
+  /** Unix timestamp (seconds) */
+  timestamp: number;
+}
+
+export interface ReviewMessageParams {
+  /** Reviewed agent's Verus identity */
+  agentVerusId: string;
+  /** Job hash from the platform */
+  jobHash: string;
+  /** Rating (1-5) */
+  rating: number;
+  /** Review text */
+  message: string;
+  /** Unix timestamp (seconds) */
+  timestamp: number;
+}
+
+export type DeletionAttestationMessageParams = Omit<DeletionAttestation, 'signature'>;
+
+/**
+ * A parsed signed message; `buildMessage()` turns it back into the exact string.
+ * `version` is the format version of an SDK format, null for a platform format.
+ */
+export type SignedMessage =
+  | { type: 'accept'; version: number | null; params: AcceptMessageParams }
+  | { type: 'deliver'; version: number | null; params: DeliverMessageParams }
+  | { type: 'complete'; version: number | null; params: CompleteMessageParams }
+  | { type: 'dispute'; version: number | null; params: DisputeMessageParams }
+  | { type: 'cancel'; version: number | null; params: CancelMessageParams }
+  | { type: 'extension'; version: number | null; params: ExtensionMessageParams }
+  | { type: 'deactivate'; version: number | null; params: DeactivateMessageParams }
+  | { type: 'review'; version: number | null; params: ReviewMessageParams }
+  | { type: 'deletion'; version: number | null; params: DeletionAttestationMessageParams };
+
+export type SignedMessageType = SignedMessage['type'];
+
 /**
  * Build the canonical accept message for signing.
  * This is the exact format the VAP platform verifies.
@@ -46,7 +169,171 @@ export function buildAcceptMessage(params: AcceptMessageParams): string {
 /**
  * Build the canonical deliver message for signing.
  * This is the exact format the VAP platform verifies.
+ * With `milestone` set, the SDK format binds the signature to that milestone instead.
  */
 export function buildDeliverMessage(params: DeliverMessageParams): string {
+  if (params.milestone != null) {
+    return `VAP-DELIVER|${V}|Job:${params.jobHash}|Milestone:${params.milestone}|Delivery:${params.deliveryHash}|Ts:${params.timestamp}|I have delivered the work for this job.`;
+  }
   return `VAP-DELIVER|Job:${params.jobHash}|Delivery:${params.deliveryHash}|Ts:${params.timestamp}|I have delivered the work for this job.`;
 }
+
+/**
+ * Build the completion message for signing (buyer side).
+ * PROPOSED SDK format: the platform does not publish the message completeJob() expects.
+ */
+export function buildCompleteMessage(params: CompleteMessageParams): string {
+  return `VAP-COMPLETE|${V}|Job:${params.jobHash}|Delivery:${params.deliveryHash}|Ts:${params.timestamp}|I confirm the work for this job was delivered.`;
+}
+
+/**
+ * Build the dispute message for signing (buyer or seller).
+ * PROPOSED SDK format: the platform does not publish the message disputeJob() expects.
+ */
+export function buildDisputeMessage(params: DisputeMessageParams): string {
+  return `VAP-DISPUTE|${V}|Job:${params.jobHash}|Reason:${params.reason}|Ts:${params.timestamp}|I dispute the delivery of this job.`;
+}
+
+/** Build the cancel message for signing (buyer or seller). SDK-defined. */
+export function buildCancelMessage(params: CancelMessageParams): string {
+  return `VAP-CANCEL|${V}|Job:${params.jobHash}|Reason:${params.reason ?? ''}|Ts:${params.timestamp}|I cancel this job.`;
+}
+
+/** Build the extension request message for signing (buyer or seller). SDK-defined. */
+export function buildExtensionMessage(params: ExtensionMessageParams): string {
+  return `VAP-EXTEND|${V}|Job:${params.jobHash}|Amt:${params.amount} ${params.currency}|Reason:${params.reason ?? ''}|Ts:${params.timestamp}|I request an extension of this job.`;
+}
+
+/**
+ * Build the agent deactivation message for signing.
+ * PROPOSED SDK format: the platform does not publish the message deactivateAgent() expects.
+ */
+export function buildDeactivateMessage(params: DeactivateMessageParams): string {
+  return `VAP-DEACTIVATE|${V}|Agent:${params.verusId}|Ts:${params.timestamp}|I deactivate this agent.`;
+}
+
+/** Build the review message for signing (buyer side). SDK-defined. */
+export function buildReviewMessage(params: ReviewMessageParams): string {
+  return `VAP-REVIEW|${V}|Agent:${params.agentVerusId}|Job:${params.jobHash}|Rating:${params.rating}|Msg:${params.message}|Ts:${params.timestamp}|I submit this review of the agent's work.`;
+}
+
+/**
+ * Build the canonical deletion attestation message: the payload as canonical
+ * JSON (sorted keys), without the signature.
+ */
+export function buildDeletionAttestationMessage(params: DeletionAttestationMessageParams): string {
+  return canonicalize(params);
+}
+
+/**
+ * Build the message for any parsed or hand-made SignedMessage.
+ *
+ * @throws Error for a version other than MESSAGE_FORMAT_VERSION (null and unset are fine)
+ */
+export function buildMessage(message: SignedMessage): string {
+  if (message.version != null && message.version !== MESSAGE_FORMAT_VERSION) {
+    throw new Error(`Unsupported message format version ${message.version}`);
+  }
+  switch (message.type) {
+    case 'accept': return buildAcceptMessage(message.params);
+    case 'deliver': return buildDeliverMessage(message.params);
+    case 'complete': return buildCompleteMessage(message.params);
+    case 'dispute': return buildDisputeMessage(message.params);
+    case 'cancel': return buildCancelMessage(message.params);
+    case 'extension': return buildExtensionMessage(message.params);
+    case 'deactivate': return buildDeactivateMessage(message.params);
+    case 'review': return buildReviewMessage(message.params);
+    case 'deletion': return buildDeletionAttestationMessage(message.params);
+  }
+}
+
+// Parsers: one pattern per format; free-text groups are greedy, everything else is fixed.
+// SDK formats capture their version first; unknown versions don't parse.
+const PATTERNS = {
+  accept: /^VAP-ACCEPT\|Job:([^|]*)\|Buyer:([^|]*)\|Amt:(\S+) ([^|]+)\|Ts:(\d+)\|I accept this job and commit to delivering the work\.$/,
+  deliver: /^VAP-DELIVER\|Job:([^|]*)\|Delivery:([^|]*)\|Ts:(\d+)\|I have delivered the work for this job\.$/,
+  milestone: /^VAP-DELIVER\|V:(\d+)\|Job:([^|]*)\|Milestone:(\d+)\|Delivery:([^|]*)\|Ts:(\d+)\|I have delivered the work for this job\.$/,
+  complete: /^VAP-COMPLETE\|V:(\d+)\|Job:([^|]*)\|Delivery:([^|]*)\|Ts:(\d+)\|I confirm the work for this job was delivered\.$/,
+  dispute: /^VAP-DISPUTE\|V:(\d+)\|Job:([^|]*)\|Reason:([\s\S]*)\|Ts:(\d+)\|I dispute the delivery of this job\.$/,
+  cancel: /^VAP-CANCEL\|V:(\d+)\|Job:([^|]*)\|Reason:([\s\S]*)\|Ts:(\d+)\|I cancel this job\.$/,
+  extension: /^VAP-EXTEND\|V:(\d+)\|Job:([^|]*)\|Amt:(\S+) ([^|]+)\|Reason:([\s\S]*)\|Ts:(\d+)\|I request an extension of this job\.$/,
+  deactivate: /^VAP-DEACTIVATE\|V:(\d+)\|Agent:([^|]*)\|Ts:(\d+)\|I deactivate this agent\.$/,
+  review: /^VAP-REVIEW\|V:(\d+)\|Agent:([^|]*)\|Job:([^|]*)\|Rating:(\d+(?:\.\d+)?)\|Msg:([\s\S]*)\|Ts:(\d+)\|I submit this review of the agent's work\.$/,
+};
+
+const DELETION_FIELDS = ['attestedBy', 'containerId', 'createdAt', 'dataVolumes', 'deletionMethod', 'destroyedAt', 'jobId'];
+
+function parseDeletion(message: string): DeletionAttestationMessageParams | null {
+  if (!message.startsWith('{')) return null;
+  let payload: Record<string, unknown>;
+  try {
+    payload = JSON.parse(message);
+  } catch {
+    return null;
+  }
+  const keys = Object.keys(payload).sort();
+  if (keys.length !== DELETION_FIELDS.length || keys.some((k, i) => k !== DELETION_FIELDS[i])) return null;
+  const params = payload as unknown as DeletionAttestationMessageParams;
+  // Only the canonical serialization is a valid signed message
+  return buildDeletionAttestationMessage(params) === message ? params : null;
+}
+
+/**
+ * Parse a signed message back into its action, format version and fields.
+ * Amounts are kept as strings so that buildMessage() reproduces them exactly.
+ *
+ * @returns null when the message matches none of the formats, or carries a
+ *   version this module doesn't know
+ */
+export function parseMessage(message: string): SignedMessage | null {
+  let m: RegExpMatchArray | null;
+
+  if ((m = message.match(PATTERNS.accept))) {
+    const [, jobHash, buyerVerusId, amount, currency, ts] = m;
+    return { type: 'accept', version: null, params: { jobHash, buyerVerusId, amount, currency, timestamp: Number(ts) } };
+  }
+  if ((m = message.match(PATTERNS.deliver))) {
+    const [, jobHash, deliveryHash, ts] = m;
+    return { type: 'deliver', version: null, params: { jobHash, deliveryHash, timestamp: Number(ts) } };
+  }
+  const deletion = parseDeletion(message);
+  if (deletion) return { type: 'deletion', version: null, params: deletion };
+
+  // SDK formats: the first group is the version
+  const sdk = (pattern: RegExp): string[] | null => {
+    const match = message.match(pattern);
+    return match && Number(match[1]) === MESSAGE_FORMAT_VERSION ? match.slice(2) : null;
+  };
+  const version = MESSAGE_FORMAT_VERSION;
+  let f: string[] | null;
+
+  if ((f = sdk(PATTERNS.milestone))) {
+    const [jobHash, milestone, deliveryHash, ts] = f;
+    return { type: 'deliver', version, params: { jobHash, milestone: Number(milestone), deliveryHash, timestamp: Number(ts) } };
+  }
+  if ((f = sdk(PATTERNS.complete))) {
+    const [jobHash, deliveryHash, ts] = f;
+    return { type: 'complete', version, params: { jobHash, deliveryHash, timestamp: Number(ts) } };
+  }
+  if ((f = sdk(PATTERNS.dispute))) {
+    const [jobHash, reason, ts] = f;
+    return { type: 'dispute', version, params: { jobHash, reason, timestamp: Number(ts) } };
+  }
+  if ((f = sdk(PATTERNS.cancel))) {
+    const [jobHash, reason, ts] = f;
+    return { type: 'cancel', version, params: { jobHash, reason, timestamp: Number(ts) } };
+  }
+  if ((f = sdk(PATTERNS.extension))) {
+    const [jobHash, amount, currency, reason, ts] = f;
+    return { type: 'extension', version, params: { jobHash, amount, currency, reason, timestamp: Number(ts) } };
+  }
+  if ((f = sdk(PATTERNS.deactivate))) {
+    const [verusId, ts] = f;
+    return { type: 'deactivate', version, params: { verusId, timestamp: Number(ts) } };
+  }
+  if ((f = sdk(PATTERNS.review))) {
+    const [agentVerusId, jobHash, rating, text, ts] = f;
+    return { type: 'review', version, params: { agentVerusId, jobHash, rating: Number(rating), message: text, timestamp: Number(ts) } };
+  }
+  return null;
+}
@@ -0,0 +1,138 @@
+/**
+ * Coin selection — picks the UTXOs that fund a transaction.
+ * Shared by the payment and identity update builders and by UtxoManager.
+ *
+ * Strategies:
+ * - largest-first: fewest inputs (the original behaviour)
+ * - smallest-first: spends small UTXOs first, keeping large ones intact
+ * - branch-and-bound: looks for an input set that needs no change output, falls back to largest-first
+ * - privacy: avoids linking unrelated UTXOs — one input if possible, otherwise outputs of a single funding transaction
+ * - all: spends every UTXO given (used for consolidation)
+ */
+
+import type { Utxo } from '../client/index.js';
+
+export type CoinSelectionStrategy = 'largest-first' | 'smallest-first' | 'branch-and-bound' | 'privacy' | 'all';
+
+export interface CoinSelection {
+  selected: Utxo[];
+  /** Sum of the selected UTXOs in satoshis */
+  total: number;
+}
+
+/** Change at or below this many satoshis is not worth an output (matches buildPayment) */
+export const CHANGE_DUST = 1000;
+
+/** Upper bound on branch-and-bound search steps */
+const BNB_MAX_TRIES = 100_000;
+
+function sum(utxos: Utxo[]): number {
+  return utxos.reduce((total, u) => total + u.satoshis, 0);
+}
+
+function insufficient(targetSatoshis: number, available: number): Error {
+  return new Error(`Insufficient funds: need ${targetSatoshis} satoshis, have ${available}`);
+}
+
+/** Take UTXOs in the given order until the target is covered */
+function accumulate(sorted: Utxo[], targetSatoshis: number): CoinSelection {
+  const selected: Utxo[] = [];
+  let total = 0;
+  for (const utxo of sorted) {
+    selected.push(utxo);
+    total += utxo.satoshis;
+    if (total >= targetSatoshis) break;
+  }
+  if (total < targetSatoshis) throw insufficient(targetSatoshis, total);
+  return { selected, total };
+}
+
+function largestFirst(utxos: Utxo[], targetSatoshis: number): CoinSelection {
+  return accumulate([...utxos].sort((a, b) => b.satoshis - a.satoshis), targetSatoshis);
+}
+
+/**
+ * Depth-first search for an input set whose total lands in
+ * [target, target + CHANGE_DUST], so the transaction needs no change output.
+ */
+function branchAndBound(utxos: Utxo[], targetSatoshis: number): CoinSelection | null {
+  const sorted = [...utxos].sort((a, b) => b.satoshis - a.satoshis);
+  // remaining[i] = value of sorted[i..]
+  const remaining: number[] = new Array(sorted.length + 1).fill(0);
+  for (let i = sorted.length - 1; i >= 0; i--) remaining[i] = remaining[i + 1] + sorted[i].satoshis;
+
+  const upper = targetSatoshis + CHANGE_DUST;
+  const picked: boolean[] = [];
+  let best: { picks: boolean[]; total: number } | null = null;
+  let tries = 0;
+
+  const search = (index: number, total: number): boolean => {
+    if (++tries > BNB_MAX_TRIES) return true;
+    if (total > upper) return false;
+    if (total >= targetSatoshis) {
+      if (!best || total < best.total) best = { picks: [...picked], total };
+      return total === targetSatoshis;
+    }
+    if (index >= sorted.length || total + remaining[index] < targetSatoshis) return false;
+
+    picked[index] = true;
+    if (search(index + 1, total + sorted[index].satoshis)) return true;
+    picked[index] = false;
+    return search(index + 1, total);
+  };
+  search(0, 0);
+
+  if (!best) return null;
+  const { picks, total } = best as { picks: boolean[]; total: number };
+  return { selected: sorted.filter((_, i) => picks[i]), total };
+}
+
+function privacy(utxos: Utxo[], targetSatoshis: number): CoinSelection {
+  // One input reveals nothing about the wallet's other coins
+  const single = [...utxos]
+    .filter(u => u.satoshis >= targetSatoshis)
+    .sort((a, b) => a.satoshis - b.satoshis)[0];
+  if (single) return { selected: [single], total: single.satoshis };
+
+  // Outputs of the same funding transaction are already linked on-chain
+  const byTx = new Map<string, Utxo[]>();
+  for (const utxo of utxos) {
+    byTx.set(utxo.txid, [...(byTx.get(utxo.txid) || []), utxo]);
+  }
+  let best: CoinSelection | null = null;
+  for (const group of byTx.values()) {
+    if (sum(group) < targetSatoshis) continue;
+    const selection = largestFirst(group, targetSatoshis);
+    if (!best || selection.selected.length < best.selected.length) best = selection;
+  }
+  return best || largestFirst(utxos, targetSatoshis);
+}
+
+/**
+ * Select UTXOs covering `targetSatoshis` (amount plus fee).
+ *
+ * @throws Error('Insufficient funds: ...') when the UTXOs don't cover the target
+ */
+export function selectCoins(
+  utxos: Utxo[],
+  targetSatoshis: number,
+  strategy: CoinSelectionStrategy = 'largest-first',
+): CoinSelection {
+  const available = sum(utxos);
+  if (available < targetSatoshis) throw insufficient(targetSatoshis, available);
+
+  switch (strategy) {
+    case 'largest-first':
+      return largestFirst(utxos, targetSatoshis);
+    case 'smallest-first':
+      return accumulate([...utxos].sort((a, b) => a.satoshis - b.satoshis), targetSatoshis);
+    case 'branch-and-bound':
+      return branchAndBound(utxos, targetSatoshis) || largestFirst(utxos, targetSatoshis);
+    case 'privacy':
+      return privacy(utxos, targetSatoshis);
+    case 'all':
+      return { selected: [...utxos], total: available };
+    default:
+      throw new Error(`Unknown coin selection strategy: ${strategy as string}`);
+  }
+}
@@ -0,0 +1,121 @@
+/**
+ * Offline transaction decoding — inspect a signed transaction before broadcast.
+ * Reports inputs, outputs (with addresses where the script has one) and the
+ * identity output of an identity update.
+ */
+
+// @ts-ignore - VerusCoin fork, no TS declarations
+import * as utxolib from '@bitgo/utxo-lib';
+
+/** OP_RETURN */
+const OP_RETURN = 0x6a;
+/** OP_CHECKCRYPTOCONDITION — ends the smart transaction scripts that carry identities */
+const OP_CHECKCRYPTOCONDITION = 0xcc;
+
+export type OutputType = 'p2pkh' | 'p2sh' | 'nulldata' | 'cryptocondition' | 'nonstandard';
+
+export interface DecodedInput {
+  /** Txid of the spent output */
+  txid: string;
+  vout: number;
+  sequence: number;
+  /** Signature script (hex) */
+  scriptSig: string;
+}
+
+export interface DecodedOutput {
+  vout: number;
+  satoshis: number;
+  type: OutputType;
+  /** Output script (hex) */
+  script: string;
+  /** Destination for p2pkh / p2sh outputs */
+  address: string | null;
+  /** OP_RETURN payload (hex) */
+  data: string | null;
+}
+
+export interface DecodedTransaction {
+  txid: string;
+  version: number;
+  locktime: number;
+  expiryHeight: number | null;
+  /** Serialized size in bytes */
+  size: number;
+  inputs: DecodedInput[];
+  outputs: DecodedOutput[];
+  /** Sum of the outputs in satoshis */
+  outputTotal: number;
+  /** First smart transaction (cryptocondition) output, i.e. the identity of an identity update */
+  identityOutput: DecodedOutput | null;
+}
+
+function classify(script: Buffer): OutputType {
+  if (script.length === 0) return 'nonstandard';
+  if (script[0] === OP_RETURN) return 'nulldata';
+  if (script[script.length - 1] === OP_CHECKCRYPTOCONDITION) return 'cryptocondition';
+  const type = utxolib.script.classifyOutput(script);
+  if (type === 'pubkeyhash') return 'p2pkh';
+  if (type === 'scripthash') return 'p2sh';
+  return 'nonstandard';
+}
+
+function nullData(script: Buffer): string | null {
+  const chunks = utxolib.script.decompile(script) as (Buffer | number)[] | null;
+  const data = chunks?.slice(1).filter((c): c is Buffer => Buffer.isBuffer(c));
+  return data?.length ? Buffer.concat(data).toString('hex') : null;
+}
+
+/**
+ * Decode a raw transaction without a daemon.
+ *
+ * @param hex - Raw transaction hex (e.g. from buildPayment or buildIdentityUpdateTx)
+ * @throws Error when the hex is not a valid transaction for the network
+ */
+export function decodeTransaction(hex: string, network: 'verus' | 'verustest' = 'verustest'): DecodedTransaction {
+  const networkObj = network === 'verustest'
+    ? utxolib.networks.verustest
+    : utxolib.networks.verus;
+
+  let tx;
+  try {
+    tx = utxolib.Transaction.fromHex(hex, networkObj);
+  } catch (err) {
+    throw new Error(`Invalid transaction hex: ${err instanceof Error ? err.message : String(err)}`);
+  }
+
+  const inputs: DecodedInput[] = tx.ins.map((input: { hash: Buffer; index: number; sequence: number; script: Buffer }) => ({
+    txid: Buffer.from(input.hash).reverse().toString('hex'),
+    vout: input.index,
+    sequence: input.sequence,
+    scriptSig: input.script.toString('hex'),
+  }));
+
+  const outputs: DecodedOutput[] = tx.outs.map((output: { value: number; script: Buffer }, vout: number) => {
+    const type = classify(output.script);
+    let address: string | null = null;
+    if (type === 'p2pkh' || type === 'p2sh') {
+      address = utxolib.address.fromOutputScript(output.script, networkObj);
+    }
+    return {
+      vout,
+      satoshis: output.value,
+      type,
+      script: output.script.toString('hex'),
+      address,
+      data: type === 'nulldata' ? nullData(output.script) : null,
+    };
+  });
+
+  return {
+    txid: tx.getId(),
+    version: tx.version,
+    locktime: tx.locktime,
+    expiryHeight: tx.expiryHeight ?? null,
+    size: tx.byteLength(),
+    inputs,
+    outputs,
+    outputTotal: outputs.reduce((sum, o) => sum + o.satoshis, 0),
+    identityOutput: outputs.find(o => o.type === 'cryptocondition') || null,
+  };
+}
@@ -0,0 +1,144 @@
+/**
+ * Transaction size and fee estimation.
+ *
+ * Sizes are computed from the parts of a draft transaction (Sapling v4, no
+ * shielded data): every input's signature script and every output script.
+ * Signatures are not known before signing, so inputs use a fixed allowance.
+ * The fee is size × rate, never below a minimum, and can be capped.
+ */
+
+import type { ChainInfo } from '../client/index.js';
+
+export const DEFAULT_FEE = 10000; // 0.0001 VRSC in satoshis
+
+/** Default fee rate in satoshis per byte (0.0001 VRSC per kB) */
+export const DEFAULT_FEE_RATE = 10;
+
+/** Signature script of a P2PKH input: DER signature + sighash (~73) and compressed pubkey (34) */
+export const P2PKH_SCRIPT_SIG_SIZE = 107;
+/** P2PKH output script: OP_DUP OP_HASH160 <20> OP_EQUALVERIFY OP_CHECKSIG */
+export const P2PKH_SCRIPT_SIZE = 25;
+/** Allowance for the fulfillment that spends an identity output (larger than a P2PKH signature) */
+export const IDENTITY_SCRIPT_SIG_SIZE = 200;
+/** version 4 + version group 4 + lock time 4 + expiry height 4 + value balance 8 + 3 empty shielded counts */
+const SAPLING_OVERHEAD = 27;
+const SATS_PER_COIN = 100000000;
+
+/** Largest OP_RETURN payload relayed by default */
+export const MAX_MEMO_BYTES = 80;
+
+export interface TxSizeParams {
+  /** Number of P2PKH inputs */
+  inputs: number;
+  /** Number of P2PKH outputs (including change) */
+  outputs: number;
+  /** OP_RETURN payload length in bytes (no memo output when omitted) */
+  memoBytes?: number;
+  /** Signatures in each input (default: 1; funds held by a multisig identity need more) */
+  signaturesPerInput?: number;
+}
+
+export interface FeePolicy {
+  /** Satoshis per byte (default: 10) */
+  feeRate?: number;
+  /** Lowest fee paid in satoshis (default: DEFAULT_FEE) */
+  minFee?: number;
+  /** Refuse to build a transaction whose fee exceeds this many satoshis */
+  maxFee?: number;
+}
+
+/** How a fee was arrived at, available before the transaction is signed */
+export interface FeeBreakdown {
+  /** Estimated size of the signed transaction in bytes */
+  size: number;
+  inputs: number;
+  outputs: number;
+  /** Rate applied in satoshis per byte */
+  feeRate: number;
+  /** size × feeRate, rounded up */
+  sizeFee: number;
+  /** Floor that applied */
+  minFee: number;
+  /** Fee the transaction pays in satoshis */
+  fee: number;
+}
+
+function varIntSize(n: number): number {
+  if (n < 0xfd) return 1;
+  if (n <= 0xffff) return 3;
+  if (n <= 0xffffffff) return 5;
+  return 9;
+}
+
+/** Size in bytes of an input with a signature script of `scriptSigSize` bytes */
+export function inputSize(scriptSigSize: number): number {
+  return 36 + varIntSize(scriptSigSize) + scriptSigSize + 4; // outpoint + script + sequence
+}
+
+/** Size in bytes of an output with a `scriptSize`-byte script */
+export function outputSize(scriptSize: number): number {
+  return 8 + varIntSize(scriptSize) + scriptSize;
+}
+
+/** Length of an OP_RETURN script carrying `memoBytes` bytes */
+export function memoScriptSize(memoBytes: number): number {
+  const push = memoBytes < 0x4c ? 1 : 2; // direct push or OP_PUSHDATA1
+  return 1 + push + memoBytes;
+}
+
+/** Size in bytes of an OP_RETURN output carrying `memoBytes` bytes */
+export function memoOutputSize(memoBytes: number): number {
+  return outputSize(memoScriptSize(memoBytes));
+}
+
+/**
+ * Serialized size of a transaction from its parts.
+ *
+ * @param scriptSigSizes - Signature script length of each input
+ * @param scriptSizes - Script length of each output
+ */
+export function draftTxSize(scriptSigSizes: number[], scriptSizes: number[]): number {
+  return SAPLING_OVERHEAD
+    + varIntSize(scriptSigSizes.length) + scriptSigSizes.reduce((sum, s) => sum + inputSize(s), 0)
+    + varIntSize(scriptSizes.length) + scriptSizes.reduce((sum, s) => sum + outputSize(s), 0);
+}
+
+/** Estimated serialized size of a signed P2PKH transaction in bytes */
+export function estimateTxSize(params: TxSizeParams): number {
+  const scripts: number[] = new Array(params.outputs).fill(P2PKH_SCRIPT_SIZE);
+  if (params.memoBytes != null) scripts.push(memoScriptSize(params.memoBytes));
+  return draftTxSize(new Array(params.inputs).fill(P2PKH_SCRIPT_SIG_SIZE * (params.signaturesPerInput ?? 1)), scripts);
+}
+
+/**
+ * Fee for a transaction of `size` bytes. Never below DEFAULT_FEE, so small
+ * transactions pay what they always paid.
+ */
+export function estimateFee(size: number, feeRate = DEFAULT_FEE_RATE): number {
+  return Math.max(DEFAULT_FEE, Math.ceil(size * feeRate));
+}
+
+/**
+ * Apply a fee policy to a transaction size.
+ *
+ * @throws Error when the fee exceeds `policy.maxFee`
+ */
+export function computeFee(size: number, counts: { inputs: number; outputs: number }, policy: FeePolicy = {}): FeeBreakdown {
+  const feeRate = policy.feeRate ?? DEFAULT_FEE_RATE;
+  const minFee = policy.minFee ?? DEFAULT_FEE;
+  const sizeFee = Math.ceil(size * feeRate);
+  const fee = Math.max(minFee, sizeFee);
+  if (policy.maxFee != null && fee > policy.maxFee) {
+    throw new Error(`Fee of ${fee} satoshis (${size} bytes at ${feeRate} sat/byte) exceeds maxFee ${policy.maxFee}`);
+  }
+  return { size, inputs: counts.inputs, outputs: counts.outputs, feeRate, sizeFee, minFee, fee };
+}
+
+/**
+ * Fee rate in satoshis per byte from the node's relay and wallet fees
+ * (both in VRSC per kB), whichever is higher.
+ */
+export function feeRateFromChainInfo(info: Pick<ChainInfo, 'relayFee' | 'payTxFee'>): number {
+  const perKb = Math.max(info.relayFee || 0, info.payTxFee || 0);
+  return perKb > 0 ? Math.ceil((perKb * SATS_PER_COIN) / 1000) : DEFAULT_FEE_RATE;
+}
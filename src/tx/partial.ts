@@ -0,0 +1,304 @@
+/**
+ * Partially-signed transactions — for identities and funds that need more than
+ * one key (minimumsignatures > 1).
+ *
+ * A partial transaction carries the unsigned transaction, what each input
+ * spends and who may sign it, plus the signatures collected so far. It is plain
+ * JSON, so it can be passed between key holders in any way:
+ *
+ *   const partial = createPartialIdentityUpdate({ ... });   // proposer
+ *   const mine = signPartialTransaction(partial, wif);        // each key holder
+ *   const all = combinePartialTransactions(mine, theirs);
+ *   const rawhex = finalizePartialTransaction(all);           // anyone, once complete
+ */
+
+// @ts-ignore - VerusCoin fork, no TS declarations
+import * as utxolib from '@bitgo/utxo-lib';
+
+import { keypairFromWIF } from '../identity/keypair.js';
+import { publicKeyToAddress, signHash } from '../identity/verus-sign.js';
+import { isSigner, type Signer } from '../identity/signer.js';
+import { builderFromTx, networkObject, verifyInputSignature } from './sighash.js';
+import { andThen, placeSignatures, signatureHashes, type UnsignedTxBuilder } from './signing.js';
+
+const PARTIAL_TX_FORMAT = 'vap-partial-tx';
+const PARTIAL_TX_VERSION = 1;
+
+export interface PartialInput {
+  txid: string;
+  vout: number;
+  /** Value of the spent output in satoshis */
+  value: number;
+  /** Script of the spent output (hex) */
+  prevOutScript: string;
+  /** R-addresses whose keys may sign this input */
+  signers: string[];
+  /** Signatures needed before the input is complete */
+  required: number;
+  /** Signatures collected so far: public key (hex) → DER signature (hex) */
+  signatures: Record<string, string>;
+}
+
+export interface PartialTransaction {
+  format: typeof PARTIAL_TX_FORMAT;
+  version: number;
+  network: 'verus' | 'verustest';
+  /** Unsigned transaction (hex) */
+  tx: string;
+  inputs: PartialInput[];
+  /** What the transaction does, shown to key holders before they sign */
+  description?: string;
+}
+
+export interface PartialInputStatus {
+  index: number;
+  /** Signatures collected */
+  signed: number;
+  required: number;
+  /** Signers that haven't signed yet */
+  pending: string[];
+}
+
+export interface PartialTransactionStatus {
+  /** Every input has its required signatures */
+  complete: boolean;
+  inputs: PartialInputStatus[];
+}
+
+/** Who may sign an input being added to a partial transaction */
+export interface PartialInputSigners {
+  signers: string[];
+  required: number;
+}
+
+/** A fresh builder for the partial's unsigned transaction */
+function builderFor(partial: PartialTransaction): () => UnsignedTxBuilder {
+  const networkObj = networkObject(partial.network);
+  const scripts = partial.inputs.map(input => Buffer.from(input.prevOutScript, 'hex'));
+  return () => builderFromTx(networkObj, partial.tx, scripts);
+}
+
+/**
+ * Start a partial transaction from a builder with every input and output added.
+ *
+ * @param inputs - Spent value, output script and signers of each input, by input index
+ */
+export function createPartialTransaction(
+  network: 'verus' | 'verustest',
+  build: () => UnsignedTxBuilder,
+  inputs: ({ value: number; prevOutScript: Buffer } & PartialInputSigners)[],
+  description?: string,
+): PartialTransaction {
+  const tx = build().buildIncomplete();
+  if (tx.ins.length !== inputs.length) {
+    throw new Error(`Transaction has ${tx.ins.length} inputs but ${inputs.length} were described`);
+  }
+  return {
+    format: PARTIAL_TX_FORMAT,
+    version: PARTIAL_TX_VERSION,
+    network,
+    tx: tx.toHex(),
+    inputs: inputs.map((input, i) => {
+      if (input.required < 1 || input.required > input.signers.length) {
+        throw new Error(`Input ${i} needs ${input.required} of ${input.signers.length} signatures`);
+      }
+      return {
+        txid: Buffer.from(tx.ins[i].hash).reverse().toString('hex'),
+        vout: tx.ins[i].index,
+        value: input.value,
+        prevOutScript: input.prevOutScript.toString('hex'),
+        signers: [...input.signers],
+        required: input.required,
+        signatures: {},
+      };
+    }),
+    ...(description && { description }),
+  };
+}
+
+/** Addresses of the signers of `input` that have signed it; signatures from anyone else don't count */
+function signedSigners(input: PartialInput, network: 'verus' | 'verustest'): Set<string> {
+  const signers = new Set(input.signers);
+  return new Set(Object.keys(input.signatures)
+    .map(pubkey => publicKeyToAddress(pubkey, network))
+    .filter(address => signers.has(address)));
+}
+
+/** Which inputs still need signatures, and from whom */
+export function partialTransactionStatus(partial: PartialTransaction): PartialTransactionStatus {
+  const inputs = partial.inputs.map((input, index) => {
+    const signedBy = signedSigners(input, partial.network);
+    return {
+      index,
+      signed: signedBy.size,
+      required: input.required,
+      pending: input.signers.filter(address => !signedBy.has(address)),
+    };
+  });
+  return { complete: inputs.every(i => i.signed >= i.required), inputs };
+}
+
+/**
+ * Add signatures for every input `key` may sign and hasn't yet.
+ * Returns a new partial transaction; the one passed in is not modified.
+ *
+ * @param key - WIF (returns synchronously) or Signer (returns a Promise)
+ * @throws Error when the key is not a signer of any input
+ */
+export function signPartialTransaction(partial: PartialTransaction, key: string): PartialTransaction;
+export function signPartialTransaction(partial: PartialTransaction, key: Signer): Promise<PartialTransaction>;
+export function signPartialTransaction(partial: PartialTransaction, key: string | Signer): PartialTransaction | Promise<PartialTransaction>;
+export function signPartialTransaction(
+  partial: PartialTransaction,
+  key: string | Signer,
+): PartialTransaction | Promise<PartialTransaction> {
+  const sign = (pubkeyHex: string, signHashes: (unsignedTx: string, hashes: Map<number, Buffer>) => Map<number, string> | Promise<Map<number, string>>) => {
+    const address = publicKeyToAddress(pubkeyHex, partial.network);
+    const indexes = partial.inputs
+      .map((input, i) => (input.signers.includes(address) && !input.signatures[pubkeyHex] ? i : -1))
+      .filter(i => i >= 0);
+    if (indexes.length === 0) {
+      if (partial.inputs.some(input => input.signers.includes(address))) return partial;
+      throw new Error(`${address} is not a signer of any input`);
+    }
+
+    const values = partial.inputs.map(input => input.value);
+    const { unsignedTx, hashes } = signatureHashes(
+      networkObject(partial.network), builderFor(partial), Buffer.from(pubkeyHex, 'hex'), values, indexes,
+    );
+    const add = (signatures: Map<number, string>): PartialTransaction => ({
+      ...partial,
+      inputs: partial.inputs.map((input, i) => signatures.has(i)
+        ? { ...input, signatures: { ...input.signatures, [pubkeyHex]: signatures.get(i)! } }
+        : input),
+    });
+    return andThen(signHashes(unsignedTx, hashes), add);
+  };
+
+  if (!isSigner(key)) {
+    return sign(keypairFromWIF(key, partial.network).pubkey, (_tx, hashes) => new Map(
+      [...hashes].map(([i, hash]) => [i, signHash(key, hash.toString('hex'), partial.network)]),
+    ));
+  }
+
+  return key.getPublicKey().then(pubkey => sign(pubkey, async (unsignedTx, hashes) => {
+    const signatures = new Map<number, string>();
+    for (const [index, hash] of hashes) {
+      const der = await key.signTransactionInput({
+        unsignedTx,
+        index,
+        value: partial.inputs[index].value,
+        hashType: utxolib.Transaction.SIGHASH_ALL,
+        prevOutScript: partial.inputs[index].prevOutScript,
+      });
+      if (!verifyInputSignature(pubkey, hash, der)) {
+        throw new Error(`Signer returned an invalid signature for input ${index}`);
+      }
+      signatures.set(index, der);
+    }
+    return signatures;
+  }));
+}
+
+/**
+ * Merge the signatures of copies of the same partial transaction signed by different key holders.
+ * Every signature is checked against the transaction before it is taken.
+ *
+ * @throws Error when the copies are not the same transaction, or a signature is
+ *   not from a signer of its input or doesn't match it
+ */
+export function combinePartialTransactions(...partials: PartialTransaction[]): PartialTransaction {
+  if (partials.length === 0) throw new Error('Nothing to combine');
+  const [first] = partials;
+  for (const other of partials.slice(1)) {
+    if (other.tx !== first.tx || other.network !== first.network || other.inputs.length !== first.inputs.length) {
+      throw new Error('Partial transactions are not for the same transaction');
+    }
+  }
+
+  const networkObj = networkObject(first.network);
+  const build = builderFor(first);
+  const values = first.inputs.map(input => input.value);
+  return {
+    ...first,
+    inputs: first.inputs.map((input, i) => {
+      const signatures: Record<string, string> = {};
+      for (const [pubkey, der] of partials.flatMap(p => Object.entries(p.inputs[i].signatures))) {
+        if (signatures[pubkey] === der) continue;
+        const address = publicKeyToAddress(pubkey, first.network);
+        if (!input.signers.includes(address)) {
+          throw new Error(`${address} is not a signer of input ${i}`);
+        }
+        const { hashes } = signatureHashes(networkObj, build, Buffer.from(pubkey, 'hex'), values, [i]);
+        if (!verifyInputSignature(pubkey, hashes.get(i)!, der)) {
+          throw new Error(`Signature of ${address} on input ${i} does not match the transaction`);
+        }
+        signatures[pubkey] = der;
+      }
+      return { ...input, signatures };
+    }),
+  };
+}
+
+/**
+ * Assemble the fully signed transaction.
+ *
+ * @returns Signed raw transaction hex ready for broadcast
+ * @throws Error when an input is still missing signatures
+ */
+export function finalizePartialTransaction(partial: PartialTransaction): string {
+  const status = partialTransactionStatus(partial);
+  if (!status.complete) {
+    const missing = status.inputs
+      .filter(i => i.signed < i.required)
+      .map(i => `input ${i.index} has ${i.signed}/${i.required} (waiting on ${i.pending.join(', ')})`);
+    throw new Error(`Partial transaction is not fully signed: ${missing.join('; ')}`);
+  }
+
+  const signatures = partial.inputs.flatMap((input, index) => Object.entries(input.signatures)
+    .filter(([pubkey]) => input.signers.includes(publicKeyToAddress(pubkey, partial.network)))
+    .slice(0, input.required)
+    .map(([pubkey, der]) => ({ index, pubkey: Buffer.from(pubkey, 'hex'), der: Buffer.from(der, 'hex') })));
+
+  return placeSignatures(
+    networkObject(partial.network),
+    builderFor(partial),
+    partial.inputs.map(input => input.value),
+    signatures,
+  );
+}
+
+/** Serialize a partial transaction for passing to other key holders */
+export function serializePartialTransaction(partial: PartialTransaction): string {
+  return JSON.stringify(partial);
+}
+
+/**
+ * Parse a serialized partial transaction.
+ * @throws Error when the data is not a partial transaction this version understands
+ */
+export function parsePartialTransaction(data: string): PartialTransaction {
+  let partial: PartialTransaction;
+  try {
+    partial = JSON.parse(data) as PartialTransaction;
+  } catch {
+    throw new Error('Partial transaction is not valid JSON');
+  }
+  if (partial?.format !== PARTIAL_TX_FORMAT) {
+    throw new Error('Not a partial transaction');
+  }
+  if (partial.version !== PARTIAL_TX_VERSION) {
+    throw new Error(`Unsupported partial transaction version: ${partial.version}`);
+  }
+  if (typeof partial.tx !== 'string' || !Array.isArray(partial.inputs)
+    || (partial.network !== 'verus' && partial.network !== 'verustest')) {
+    throw new Error('Malformed partial transaction');
+  }
+  for (const [i, input] of partial.inputs.entries()) {
+    if (typeof input.value !== 'number' || typeof input.prevOutScript !== 'string' || !Array.isArray(input.signers)
+      || typeof input.required !== 'number' || !input.signatures || typeof input.signatures !== 'object') {
+      throw new Error(`Malformed partial transaction input ${i}`);
+    }
+  }
+  return partial;
+}
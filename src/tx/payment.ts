@@ -7,97 +7,360 @@
 import * as utxolib from '@bitgo/utxo-lib';
 import type { Utxo } from '../client/index.js';
 import { keypairFromWIF } from '../identity/keypair.js';
+import type { Signer } from '../identity/signer.js';
+import { selectCoins, CHANGE_DUST, type CoinSelectionStrategy } from './coin-selection.js';
+import { DEFAULT_FEE, MAX_MEMO_BYTES, computeFee, estimateTxSize, type FeeBreakdown, type FeePolicy } from './fees.js';
+import { createPartialTransaction, type PartialTransaction } from './partial.js';
+import { andThen, keyAddress, signInputs, signingKey, type UnsignedTxBuilder } from './signing.js';
 
-const DEFAULT_FEE = 10000; // 0.0001 VRSC in satoshis
+export { DEFAULT_FEE };
 const SATS_PER_COIN = 100000000;
 
-export interface PaymentParams {
-  wif: string;
+/** Key that signs a transaction: a WIF (signs synchronously) or a Signer (returns a Promise) */
+export interface SigningKeyParams {
+  wif?: string;
+  signer?: Signer;
+}
+
+export interface PaymentParams extends FeePolicy, SigningKeyParams {
   toAddress: string;
   amount: number;        // Amount in VRSC (not satoshis)
   utxos: Utxo[];
-  fee?: number;          // Fee in satoshis (default 10000)
+  fee?: number;          // Fixed fee in satoshis (default: size-based, at least 10000)
   changeAddress?: string;
   network?: 'verus' | 'verustest';
+  /** Coin selection strategy (default: largest-first) */
+  strategy?: CoinSelectionStrategy;
 }
 
 /**
- * Select UTXOs to cover the target amount (greedy algorithm).
- * Prefers larger UTXOs to minimize inputs.
+ * Select UTXOs to cover the target amount (in VRSC).
+ * Defaults to largest-first, which minimizes inputs.
  */
 export function selectUtxos(
   utxos: Utxo[],
   targetAmount: number,
+  strategy: CoinSelectionStrategy = 'largest-first',
 ): { selected: Utxo[]; total: number } {
-  const targetSatoshis = Math.ceil(targetAmount * SATS_PER_COIN);
-  const sorted = [...utxos].sort((a, b) => b.satoshis - a.satoshis);
-  const selected: Utxo[] = [];
-  let total = 0;
-
-  for (const utxo of sorted) {
-    selected.push(utxo);
-    total += utxo.satoshis;
-    if (total >= targetSatoshis) break;
-  }
+  return selectCoins(utxos, Math.ceil(targetAmount * SATS_PER_COIN), strategy);
+}
+
+/**
+ * Build a signed payment transaction.
+ *
+ * @returns Signed raw transaction hex ready for broadcast
+ */
+export function buildPayment(params: PaymentParams & { signer: Signer }): Promise<string>;
+export function buildPayment(params: PaymentParams & { wif: string }): string;
+export function buildPayment(params: PaymentParams): string | Promise<string> {
+  const { toAddress, amount, ...rest } = params;
+  return andThen(buildBatchPayment({ ...rest, outputs: [{ address: toAddress, amount }] }), result => result.rawhex);
+}
+
+export interface BatchOutput {
+  address: string;
+  amount: number;        // Amount in VRSC (not satoshis)
+}
+
+export interface BatchPaymentParams extends FeePolicy, SigningKeyParams {
+  outputs: BatchOutput[];
+  utxos: Utxo[];
+  /** OP_RETURN memo, e.g. a job hash (max 80 bytes) */
+  memo?: string | Uint8Array;
+  /** Fixed fee in satoshis instead of the size-based estimate */
+  fee?: number;
+  changeAddress?: string;
+  network?: 'verus' | 'verustest';
+  /** Coin selection strategy (default: largest-first) */
+  strategy?: CoinSelectionStrategy;
+}
+
+/** Inputs, outputs and fee of a payment, worked out before anything is signed */
+export interface BatchPaymentPlan {
+  /** Inputs to spend */
+  inputs: Utxo[];
+  /** Payment outputs in satoshis, in order */
+  outputs: { address: string; satoshis: number }[];
+  /** OP_RETURN payload (output right after the payments) */
+  memo: Buffer | null;
+  /** Change output, if one is added */
+  change: { vout: number; satoshis: number; address: string } | null;
+  fee: FeeBreakdown;
+}
+
+export interface BatchPaymentResult {
+  /** Signed raw transaction hex ready for broadcast */
+  rawhex: string;
+  /** Fee paid in satoshis */
+  fee: number;
+  /** How the fee was computed */
+  feeBreakdown: FeeBreakdown;
+  /** Inputs spent */
+  inputs: Utxo[];
+  /** Change output, if one was added */
+  change: { vout: number; satoshis: number } | null;
+}
 
-  if (total < targetSatoshis) {
-    throw new Error(`Insufficient funds: need ${targetSatoshis} satoshis, have ${total}`);
+type TxOutput = { address: string; satoshis: number } | { script: Buffer; satoshis: number };
+
+function memoBuffer(memo: string | Uint8Array): Buffer {
+  const data = typeof memo === 'string' ? Buffer.from(memo, 'utf8') : Buffer.from(memo);
+  if (data.length > MAX_MEMO_BYTES) {
+    throw new Error(`Memo is ${data.length} bytes, at most ${MAX_MEMO_BYTES} fit in an OP_RETURN output`);
   }
+  return data;
+}
 
-  return { selected, total };
+/** A fixed fee expressed as a policy: no size component, the fee is the floor */
+function feePolicy(params: FeePolicy & { fee?: number }): FeePolicy {
+  return params.fee != null
+    ? { feeRate: 0, minFee: params.fee, maxFee: params.maxFee }
+    : { feeRate: params.feeRate, minFee: params.minFee, maxFee: params.maxFee };
 }
 
 /**
- * Build a signed payment transaction.
+ * Fee for a batch payment with `inputs` inputs.
+ * Assumes a change output, so the estimate never comes out short.
+ */
+export function estimateBatchFee(params: FeePolicy & { inputs: number; outputs: number; memoBytes?: number; signaturesPerInput?: number }): number {
+  const size = estimateTxSize({
+    inputs: params.inputs,
+    outputs: params.outputs + 1,
+    memoBytes: params.memoBytes,
+    signaturesPerInput: params.signaturesPerInput,
+  });
+  return computeFee(size, { inputs: params.inputs, outputs: params.outputs + 1 }, { ...params, maxFee: undefined }).fee;
+}
+
+/**
+ * Work out inputs, outputs and fee of a batch payment without signing it,
+ * e.g. to show the fee or compare it with a budget first.
  *
- * @returns Signed raw transaction hex ready for broadcast
+ * @throws Error when funds are insufficient or the fee exceeds `maxFee`
  */
-export function buildPayment(params: PaymentParams): string {
-  const {
-    wif,
-    toAddress,
-    amount,
-    utxos,
-    fee = DEFAULT_FEE,
-    network = 'verustest',
-  } = params;
+export function planBatchPayment(
+  params: Omit<BatchPaymentParams, keyof SigningKeyParams> & { changeAddress: string; signaturesPerInput?: number },
+): BatchPaymentPlan {
+  const { outputs, utxos, strategy, signaturesPerInput } = params;
+  if (outputs.length === 0) {
+    throw new Error('A payment needs at least one output');
+  }
+
+  const payments = outputs.map((o) => {
+    const satoshis = Math.ceil(o.amount * SATS_PER_COIN);
+    if (!(satoshis > 0)) throw new Error(`Output to ${o.address} must have a positive amount, got ${o.amount}`);
+    return { address: o.address, satoshis };
+  });
+  const amountSatoshis = payments.reduce((sum, o) => sum + o.satoshis, 0);
+  const memo = params.memo != null ? memoBuffer(params.memo) : null;
+  const policy = feePolicy(params);
+
+  // More inputs mean a larger fee, so select until the fee for the chosen inputs is covered
+  const feeFor = (inputs: number) => estimateBatchFee({
+    ...policy, inputs, outputs: payments.length, memoBytes: memo?.length, signaturesPerInput,
+  });
+  let fee = feeFor(1);
+  let selection = selectCoins(utxos, amountSatoshis + fee, strategy);
+  while (feeFor(selection.selected.length) > fee) {
+    fee = feeFor(selection.selected.length);
+    selection = selectCoins(utxos, amountSatoshis + fee, strategy);
+  }
+  const { selected, total: inputTotal } = selection;
 
+  const changeSatoshis = inputTotal - amountSatoshis - fee;
+  const hasChange = changeSatoshis > CHANGE_DUST;
+  const outputCount = payments.length + (hasChange ? 1 : 0);
+  const breakdown = computeFee(
+    estimateTxSize({ inputs: selected.length, outputs: outputCount, memoBytes: memo?.length, signaturesPerInput }),
+    { inputs: selected.length, outputs: outputCount + (memo ? 1 : 0) },
+    policy,
+  );
+  // The estimate assumed a change output; without one, the leftover (dust) goes to the miner
+  breakdown.fee = hasChange ? fee : inputTotal - amountSatoshis;
+
+  return {
+    inputs: selected,
+    outputs: payments,
+    memo,
+    change: hasChange
+      ? { vout: payments.length + (memo ? 1 : 0), satoshis: changeSatoshis, address: params.changeAddress }
+      : null,
+    fee: breakdown,
+  };
+}
+
+/**
+ * Build a signed transaction paying several outputs at once, e.g. the seller
+ * and the platform fee of a job. The fee follows the transaction size.
+ *
+ * Output order: payment outputs, then the memo (if any), then change.
+ */
+export function buildBatchPayment(params: BatchPaymentParams & { signer: Signer }): Promise<BatchPaymentResult>;
+export function buildBatchPayment(params: BatchPaymentParams & { wif: string }): BatchPaymentResult;
+export function buildBatchPayment(params: BatchPaymentParams): BatchPaymentResult | Promise<BatchPaymentResult>;
+export function buildBatchPayment(params: BatchPaymentParams): BatchPaymentResult | Promise<BatchPaymentResult> {
+  const { network = 'verustest' } = params;
+  const key = signingKey(params);
   const networkObj = network === 'verustest'
     ? utxolib.networks.verustest
     : utxolib.networks.verus;
 
-  const amountSatoshis = Math.ceil(amount * SATS_PER_COIN);
-  const totalNeeded = amountSatoshis + fee;
-  const { selected, total: inputTotal } = selectUtxos(utxos, totalNeeded / SATS_PER_COIN);
+  return andThen(params.changeAddress || keyAddress(key, network), (changeAddress) => {
+    const plan = planBatchPayment({ ...params, changeAddress });
 
-  const changeAddress = params.changeAddress || keypairFromWIF(wif, network).address;
-  const changeSatoshis = inputTotal - amountSatoshis - fee;
-
-  // Build transaction
-  const keyPair = utxolib.ECPair.fromWIF(wif, networkObj);
-  const txb = new utxolib.TransactionBuilder(networkObj);
-  txb.setVersion(4);
-  txb.setVersionGroupId(0x892f2085);
+    return andThen(signTransaction(key, networkObj, plan.inputs, planOutputs(plan)), rawhex => ({
+      rawhex,
+      fee: plan.fee.fee,
+      feeBreakdown: plan.fee,
+      inputs: plan.inputs,
+      change: plan.change && { vout: plan.change.vout, satoshis: plan.change.satoshis },
+    }));
+  });
+}
 
-  // Add inputs
-  for (const utxo of selected) {
-    txb.addInput(utxo.txid, utxo.vout);
+/** Outputs of a planned payment in transaction order: payments, memo, change */
+function planOutputs(plan: BatchPaymentPlan): TxOutput[] {
+  const txOutputs: TxOutput[] = [...plan.outputs];
+  if (plan.memo) {
+    txOutputs.push({ script: utxolib.script.nullData.output.encode(plan.memo), satoshis: 0 });
   }
+  if (plan.change) {
+    txOutputs.push({ address: plan.change.address, satoshis: plan.change.satoshis });
+  }
+  return txOutputs;
+}
 
-  // Payment output
-  txb.addOutput(utxolib.address.toOutputScript(toAddress, networkObj), amountSatoshis);
+/** Returns a fresh unsigned builder spending `inputs` to `outputs` each call */
+function unsignedTransaction(networkObj: unknown, inputs: Utxo[], outputs: TxOutput[]): () => UnsignedTxBuilder {
+  return () => {
+    const txb = new utxolib.TransactionBuilder(networkObj);
+    txb.setVersion(4);
+    txb.setVersionGroupId(0x892f2085);
 
-  // Change output (if above dust threshold)
-  if (changeSatoshis > 1000) {
-    txb.addOutput(utxolib.address.toOutputScript(changeAddress, networkObj), changeSatoshis);
-  }
+    for (const utxo of inputs) {
+      txb.addInput(utxo.txid, utxo.vout);
+    }
+    for (const output of outputs) {
+      const script = 'script' in output ? output.script : utxolib.address.toOutputScript(output.address, networkObj);
+      txb.addOutput(script, output.satoshis);
+    }
+    return txb;
+  };
+}
+
+/** Build a transaction spending `inputs` to `outputs` and sign every input */
+function signTransaction(
+  key: string | Signer,
+  networkObj: unknown,
+  inputs: Utxo[],
+  outputs: TxOutput[],
+): string | Promise<string> {
+  return signInputs(key, networkObj, unsignedTransaction(networkObj, inputs, outputs), inputs.map(u => u.satoshis));
+}
+
+/** Funds a partial payment spends, and who may sign for them */
+export interface PartialPaymentSource {
+  /** Address holding the UTXOs: an R-address, or the i-address of a (multisig) identity */
+  address: string;
+  /** Output script of the UTXOs (hex); required unless `address` is an R-address */
+  script?: string;
+  /** R-addresses that may sign (default: `address` itself, which must then be an R-address) */
+  signers?: string[];
+  /** Signatures each input needs (default: 1) */
+  minimumSignatures?: number;
+}
+
+export interface PartialPaymentParams extends Omit<BatchPaymentParams, keyof SigningKeyParams | 'changeAddress'> {
+  from: PartialPaymentSource;
+  /** Where change goes (default: `from.address`) */
+  changeAddress?: string;
+  /** Shown to key holders before they sign */
+  description?: string;
+}
+
+/**
+ * Start a payment that several key holders sign, e.g. one spending funds held
+ * by a multisig identity. Pass the result to signPartialTransaction().
+ *
+ * Output order is the same as buildBatchPayment's.
+ */
+export function createPartialPayment(params: PartialPaymentParams): { partial: PartialTransaction; plan: BatchPaymentPlan } {
+  const { from, network = 'verustest' } = params;
+  const networkObj = network === 'verustest'
+    ? utxolib.networks.verustest
+    : utxolib.networks.verus;
 
-  // Sign all inputs
-  for (let i = 0; i < selected.length; i++) {
-    txb.sign(i, keyPair, undefined, utxolib.Transaction.SIGHASH_ALL, selected[i].satoshis);
+  const signers = from.signers || [from.address];
+  const required = from.minimumSignatures ?? 1;
+  let prevOutScript: Buffer;
+  if (from.script) {
+    prevOutScript = Buffer.from(from.script, 'hex');
+  } else if (from.address.startsWith('R')) {
+    prevOutScript = utxolib.address.toOutputScript(from.address, networkObj);
+  } else {
+    throw new Error(`Output script of ${from.address} is required to spend from it`);
   }
 
-  return txb.build().toHex();
+  const plan = planBatchPayment({
+    ...params,
+    changeAddress: params.changeAddress || from.address,
+    signaturesPerInput: required,
+  });
+  const partial = createPartialTransaction(
+    network,
+    unsignedTransaction(networkObj, plan.inputs, planOutputs(plan)),
+    plan.inputs.map(utxo => ({ value: utxo.satoshis, prevOutScript, signers, required })),
+    params.description,
+  );
+  return { partial, plan };
+}
+
+export interface ConsolidationParams extends FeePolicy, SigningKeyParams {
+  /** UTXOs to merge — all of them are spent */
+  utxos: Utxo[];
+  fee?: number;          // Fixed fee in satoshis (default: size-based, at least 10000)
+  /** Where the merged output goes (default: the signing key's own address) */
+  toAddress?: string;
+  network?: 'verus' | 'verustest';
+}
+
+/** Fee of a consolidation transaction, before it is built */
+export function estimateConsolidationFee(params: Pick<ConsolidationParams, 'utxos' | 'fee' | keyof FeePolicy>): FeeBreakdown {
+  const counts = { inputs: params.utxos.length, outputs: 1 };
+  return computeFee(estimateTxSize(counts), counts, feePolicy(params));
+}
+
+export interface ConsolidationResult {
+  /** Signed raw transaction hex */
+  rawhex: string;
+  /** Value of the merged output (vout 0) in satoshis */
+  satoshis: number;
+  fee: FeeBreakdown;
+}
+
+/**
+ * Build a signed transaction merging many small UTXOs into one output.
+ *
+ * @returns Signed raw transaction hex, the value of the merged output (vout 0) in satoshis and the fee
+ */
+export function buildConsolidation(params: ConsolidationParams & { signer: Signer }): Promise<ConsolidationResult>;
+export function buildConsolidation(params: ConsolidationParams & { wif: string }): ConsolidationResult;
+export function buildConsolidation(params: ConsolidationParams): ConsolidationResult | Promise<ConsolidationResult>;
+export function buildConsolidation(params: ConsolidationParams): ConsolidationResult | Promise<ConsolidationResult> {
+  const { utxos, network = 'verustest' } = params;
+  const key = signingKey(params);
+  const total = utxos.reduce((sum, u) => sum + u.satoshis, 0);
+  const fee = estimateConsolidationFee(params);
+  const satoshis = total - fee.fee;
+  if (utxos.length < 2 || satoshis <= CHANGE_DUST) {
+    throw new Error(`Nothing to consolidate: ${utxos.length} UTXO(s) worth ${total} satoshis`);
+  }
+  const networkObj = network === 'verustest'
+    ? utxolib.networks.verustest
+    : utxolib.networks.verus;
+  return andThen(params.toAddress || keyAddress(key, network), toAddress =>
+    andThen(signTransaction(key, networkObj, utxos, [{ address: toAddress, satoshis }]), rawhex => ({ rawhex, satoshis, fee })),
+  );
 }
 
 export function wifToAddress(wif: string, networkName: 'verus' | 'verustest' = 'verustest'): string {
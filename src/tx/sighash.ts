@@ -0,0 +1,126 @@
+/**
+ * Signature hashes computed from a serialized transaction.
+ *
+ * A signer that holds a key for someone else never signs a hash it is handed:
+ * it is given the unsigned transaction and computes the hash of the input
+ * itself, so the outputs it checked are the outputs its signature covers.
+ */
+
+// @ts-ignore - VerusCoin fork, no TS declarations
+import * as utxolib from '@bitgo/utxo-lib';
+
+import { publicKeyToAddress } from '../identity/verus-sign.js';
+
+/** Placeholder signature returned while recording hashes (DER of r = 1, s = 1) */
+const PLACEHOLDER_DER = Buffer.from('3006020101020101', 'hex');
+
+/** A utxolib TransactionBuilder with every input and output added, nothing signed */
+export type UnsignedTxBuilder = InstanceType<typeof utxolib.TransactionBuilder>;
+
+/** What a signer needs to compute the signature hash of one input itself */
+export interface InputSigningData {
+  /** Unsigned transaction (hex) */
+  unsignedTx: string;
+  /** Input index */
+  index: number;
+  /** Value of the spent output in satoshis */
+  value: number;
+  /** Sighash type; only SIGHASH_ALL is signed, so the signature covers every output */
+  hashType: number;
+  /** Script of the spent output (hex); default: P2PKH of the signer's key */
+  prevOutScript?: string;
+}
+
+export function networkObject(network: 'verus' | 'verustest') {
+  return network === 'verustest' ? utxolib.networks.verustest : utxolib.networks.verus;
+}
+
+/** Key pair stand-in that has only a public key and signs through `sign` */
+export function externalKeyPair(networkObj: unknown, pubkey: Buffer, sign: (hash: Buffer) => unknown) {
+  return { network: networkObj, compressed: true, getPublicKeyBuffer: () => pubkey, sign };
+}
+
+/**
+ * Builder for a serialized unsigned transaction, ready to sign.
+ *
+ * @param prevOutScripts - Script of the output each input spends, by input index (where known)
+ */
+export function builderFromTx(networkObj: unknown, txHex: string, prevOutScripts: (Buffer | undefined)[]): UnsignedTxBuilder {
+  const tx = utxolib.Transaction.fromHex(txHex, networkObj);
+  const txb = new utxolib.TransactionBuilder(networkObj);
+  txb.setVersion(tx.version);
+  if (tx.versionGroupId) txb.setVersionGroupId(tx.versionGroupId);
+  if (tx.expiryHeight) txb.setExpiryHeight(tx.expiryHeight);
+  if (tx.locktime) txb.setLockTime(tx.locktime);
+  tx.ins.forEach((input: { hash: Buffer; index: number; sequence: number }, i: number) => {
+    txb.addInput(input.hash, input.index, input.sequence, prevOutScripts[i]);
+  });
+  for (const output of tx.outs as { script: Buffer; value: number }[]) {
+    txb.addOutput(output.script, output.value);
+  }
+  return txb;
+}
+
+/** The hash `txb.sign()` asks `pubkey` to sign for one input; nothing is signed */
+export function recordSignatureHash(
+  networkObj: unknown,
+  txb: UnsignedTxBuilder,
+  index: number,
+  pubkey: Buffer,
+  value: number,
+  hashType: number = utxolib.Transaction.SIGHASH_ALL,
+): Buffer {
+  let recorded: Buffer | null = null;
+  txb.sign(index, externalKeyPair(networkObj, pubkey, (hash) => {
+    recorded = Buffer.from(hash);
+    return utxolib.ECSignature.fromDER(PLACEHOLDER_DER);
+  }), undefined, hashType, value);
+  if (!recorded) throw new Error(`Input ${index} was not signed by ${pubkey.toString('hex')}`);
+  return recorded;
+}
+
+/**
+ * Signature hash of one input of `data.unsignedTx` for `pubkey`.
+ *
+ * @throws Error on a malformed request or a sighash type other than SIGHASH_ALL
+ *   (which would leave outputs out of the signature)
+ */
+export function inputSignatureHash(data: InputSigningData, pubkey: string, network: 'verus' | 'verustest'): Buffer {
+  const { unsignedTx, index, value, hashType, prevOutScript } = data;
+  if (typeof unsignedTx !== 'string' || !/^([0-9a-fA-F]{2})+$/.test(unsignedTx)) {
+    throw new Error('unsignedTx must be a hex transaction');
+  }
+  if (hashType !== utxolib.Transaction.SIGHASH_ALL) {
+    throw new Error(`Only SIGHASH_ALL is signed, got sighash type ${hashType}`);
+  }
+  if (!Number.isSafeInteger(value) || value < 0) {
+    throw new Error(`Invalid input value: ${value}`);
+  }
+  if (prevOutScript !== undefined && (typeof prevOutScript !== 'string' || !/^([0-9a-fA-F]{2})+$/.test(prevOutScript))) {
+    throw new Error('prevOutScript must be hex');
+  }
+
+  const networkObj = networkObject(network);
+  const tx = utxolib.Transaction.fromHex(unsignedTx, networkObj);
+  if (!Number.isInteger(index) || index < 0 || index >= tx.ins.length) {
+    throw new Error(`Transaction has no input ${index}`);
+  }
+  const script = prevOutScript !== undefined
+    ? Buffer.from(prevOutScript, 'hex')
+    : utxolib.address.toOutputScript(publicKeyToAddress(pubkey, network), networkObj);
+  const scripts: (Buffer | undefined)[] = [];
+  scripts[index] = script;
+
+  const txb = builderFromTx(networkObj, unsignedTx, scripts);
+  return recordSignatureHash(networkObj, txb, index, Buffer.from(pubkey, 'hex'), value, hashType);
+}
+
+/** True when `der` is `pubkey`'s signature over `hash` */
+export function verifyInputSignature(pubkey: string | Buffer, hash: Buffer, der: string | Buffer): boolean {
+  try {
+    const keyPair = utxolib.ECPair.fromPublicKeyBuffer(Buffer.isBuffer(pubkey) ? pubkey : Buffer.from(pubkey, 'hex'));
+    return keyPair.verify(hash, utxolib.ECSignature.fromDER(Buffer.isBuffer(der) ? der : Buffer.from(der, 'hex')));
+  } catch {
+    return false;
+  }
+}
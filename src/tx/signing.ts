@@ -0,0 +1,148 @@
+/**
+ * Input signing shared by the transaction builders.
+ *
+ * A WIF signs every input in place. A Signer can't be called from inside
+ * TransactionBuilder.sign() (it is asynchronous), so the transaction is built
+ * twice: the first pass records the signature hash of each input, the Signer
+ * signs each input of the unsigned transaction (computing the same hashes
+ * itself), and the second pass puts its signatures in place. Signatures are
+ * checked against the recorded hashes before they are used.
+ */
+
+// @ts-ignore - VerusCoin fork, no TS declarations
+import * as utxolib from '@bitgo/utxo-lib';
+
+import { keypairFromWIF } from '../identity/keypair.js';
+import { isSigner, signerAddress, type Signer } from '../identity/signer.js';
+import { externalKeyPair, recordSignatureHash, verifyInputSignature, type UnsignedTxBuilder } from './sighash.js';
+
+export type { UnsignedTxBuilder } from './sighash.js';
+
+/** The key a builder signs with: `wif` or `signer`, exactly one */
+export function signingKey(params: { wif?: string; signer?: Signer }): string | Signer {
+  if (params.wif && params.signer) {
+    throw new Error('Provide either wif or signer, not both');
+  }
+  const key = params.signer || params.wif;
+  if (!key) throw new Error('A wif or signer is required to sign the transaction');
+  return key;
+}
+
+/** R-address of a key (immediately for a WIF) */
+export function keyAddress(key: string | Signer, network: 'verus' | 'verustest'): string | Promise<string> {
+  return isSigner(key) ? signerAddress(key, network) : keypairFromWIF(key, network).address;
+}
+
+/** Apply `fn` to a value that may still be pending, staying synchronous when it isn't */
+export function andThen<T, R>(value: T | Promise<T>, fn: (value: T) => R | Promise<R>): R | Promise<R> {
+  return value instanceof Promise ? value.then(fn) : fn(value);
+}
+
+/**
+ * Signature hashes of the given inputs for `pubkey`, without signing anything.
+ *
+ * @param values - Value in satoshis of the output each input spends, by input index
+ * @param indexes - Inputs to hash (default: all)
+ */
+export function signatureHashes(
+  networkObj: unknown,
+  build: () => UnsignedTxBuilder,
+  pubkey: Buffer,
+  values: number[],
+  indexes: number[] = values.map((_, i) => i),
+): { unsignedTx: string; hashes: Map<number, Buffer> } {
+  const txb = build();
+  const unsignedTx = txb.buildIncomplete().toHex();
+  const hashes = new Map<number, Buffer>();
+  for (const i of indexes) {
+    hashes.set(i, recordSignatureHash(networkObj, txb, i, pubkey, values[i]));
+  }
+  return { unsignedTx, hashes };
+}
+
+/**
+ * Put signatures made elsewhere into a fresh builder from `build` and serialize the transaction.
+ *
+ * @param signatures - `hash`, when given, is the hash the signature was made for in an earlier pass
+ * @throws Error when a hash changed between passes or a signature doesn't match its input
+ */
+export function placeSignatures(
+  networkObj: unknown,
+  build: () => UnsignedTxBuilder,
+  values: number[],
+  signatures: { index: number; pubkey: Buffer; der: Buffer; hash?: Buffer }[],
+): string {
+  const txb = build();
+  for (const { index, pubkey, der, hash: expected } of signatures) {
+    txb.sign(index, externalKeyPair(networkObj, pubkey, (hash) => {
+      if (expected && !Buffer.from(hash).equals(expected)) {
+        throw new Error(`Signature hash of input ${index} changed between passes`);
+      }
+      if (!verifyInputSignature(pubkey, Buffer.from(hash), der)) {
+        throw new Error(`Signature of ${pubkey.toString('hex')} does not match input ${index}`);
+      }
+      return utxolib.ECSignature.fromDER(der);
+    }), undefined, utxolib.Transaction.SIGHASH_ALL, values[index]);
+  }
+  return txb.build().toHex();
+}
+
+/** Script of the output each input of a builder spends, where it was given to addInput() */
+export function inputScripts(txb: UnsignedTxBuilder): (Buffer | undefined)[] {
+  return (txb.inputs as { prevOutScript?: Buffer }[]).map(input => input.prevOutScript);
+}
+
+/**
+ * Sign every input of the transaction returned by `build` and serialize it.
+ *
+ * @param build - Returns a fresh builder each call (a Signer needs two)
+ * @param values - Value in satoshis of the output each input spends, by input index
+ * @returns Signed raw transaction hex (a Promise for a Signer)
+ */
+export function signInputs(
+  key: string | Signer,
+  networkObj: unknown,
+  build: () => UnsignedTxBuilder,
+  values: number[],
+): string | Promise<string> {
+  const hashType = utxolib.Transaction.SIGHASH_ALL;
+
+  if (!isSigner(key)) {
+    const keyPair = utxolib.ECPair.fromWIF(key, networkObj);
+    const txb = build();
+    values.forEach((value, i) => txb.sign(i, keyPair, undefined, hashType, value));
+    return txb.build().toHex();
+  }
+
+  return (async () => {
+    const pubkey = Buffer.from(await key.getPublicKey(), 'hex');
+
+    // Pass 1: record the hash of each input
+    const { unsignedTx, hashes } = signatureHashes(networkObj, build, pubkey, values);
+    const prevOutScripts = inputScripts(build());
+
+    // The signer computes each hash from unsignedTx; a signature over anything else is refused
+    const signatures: { index: number; pubkey: Buffer; der: Buffer; hash: Buffer }[] = [];
+    for (let i = 0; i < values.length; i++) {
+      const der = await key.signTransactionInput({
+        unsignedTx,
+        index: i,
+        value: values[i],
+        hashType,
+        ...(prevOutScripts[i] && { prevOutScript: prevOutScripts[i]!.toString('hex') }),
+      });
+      if (!verifyInputSignature(pubkey, hashes.get(i)!, der)) {
+        throw new Error(`Signer returned an invalid signature for input ${i}`);
+      }
+      signatures.push({ index: i, pubkey, der: Buffer.from(der, 'hex'), hash: hashes.get(i)! });
+    }
+
+    // Pass 2: same transaction, real signatures
+    return placeSignatures(networkObj, build, values, signatures);
+  })();
+}
+
+/** Builder params for a key: `{ wif }` or `{ signer }` */
+export function keyParams(key: string | Signer): { wif: string } | { signer: Signer } {
+  return isSigner(key) ? { signer: key } : { wif: key };
+}
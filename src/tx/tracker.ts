@@ -0,0 +1,272 @@
+/**
+ * Transaction tracker — follows broadcast transactions until they are buried.
+ *
+ * Polls getTxStatus() for every tracked txid and emits:
+ * - tx:confirmed  — reached the required confirmations
+ * - tx:reorged    — its block changed or it fell out of the chain
+ * - tx:rebroadcast — it disappeared and the stored raw hex was sent again
+ * - tx:dropped    — it disappeared and could not be brought back
+ *
+ * Transactions stay tracked until `finality` confirmations, so a reorg after
+ * the first confirmation is still noticed.
+ *
+ * @example
+ * ```typescript
+ * const tracker = new TxTracker(client);
+ * const { txid } = await client.broadcast(rawhex);
+ * const status = await tracker.wait(txid, { rawhex, confirmations: 2, timeout: 30 * 60 * 1000 });
+ * ```
+ */
+
+import { EventEmitter } from 'node:events';
+import { isNotFound } from '../client/errors.js';
+import type { TxStatus, VAPClient } from '../client/index.js';
+
+export interface TxTrackerOptions {
+  /** Confirmations a transaction needs by default (default: 1) */
+  confirmations?: number;
+  /** Stop watching for reorgs after this many confirmations (default: 10) */
+  finality?: number;
+  /** Polling interval in ms (default: 15000) */
+  pollInterval?: number;
+  /** A missing transaction without raw hex counts as dropped after this many ms (default: 1800000) */
+  dropAfter?: number;
+  /** How often a missing transaction is re-broadcast before it counts as dropped (default: 3) */
+  maxRebroadcasts?: number;
+}
+
+export interface TrackOptions {
+  /** Signed raw hex, re-broadcast if the transaction disappears */
+  rawhex?: string;
+  /** Confirmations required (default: the tracker's) */
+  confirmations?: number;
+}
+
+export interface WaitForConfirmationOptions extends TrackOptions {
+  /** Reject after this many ms (default: no limit) */
+  timeout?: number;
+}
+
+export interface TxReorgEvent {
+  txid: string;
+  /** Last status seen before the reorg */
+  previous: TxStatus;
+  /** Current status, null when the transaction is no longer in a block or the mempool */
+  status: TxStatus | null;
+}
+
+interface TrackedTx {
+  txid: string;
+  rawhex?: string;
+  confirmations: number;
+  status: TxStatus | null;
+  confirmed: boolean;
+  missingSince: number | null;
+  rebroadcasts: number;
+  waiters: { resolve: (status: TxStatus) => void; reject: (err: Error) => void }[];
+}
+
+export class TxTracker extends EventEmitter {
+  private readonly client: Pick<VAPClient, 'getTxStatus' | 'broadcast'>;
+  private readonly confirmations: number;
+  private readonly finality: number;
+  private readonly pollInterval: number;
+  private readonly dropAfter: number;
+  private readonly maxRebroadcasts: number;
+
+  private tracked = new Map<string, TrackedTx>();
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private checking: Promise<void> | null = null;
+
+  constructor(client: Pick<VAPClient, 'getTxStatus' | 'broadcast'>, options: TxTrackerOptions = {}) {
+    super();
+    this.client = client;
+    this.confirmations = options.confirmations ?? 1;
+    this.finality = Math.max(options.finality ?? 10, this.confirmations);
+    this.pollInterval = options.pollInterval ?? 15_000;
+    this.dropAfter = options.dropAfter ?? 30 * 60 * 1000;
+    this.maxRebroadcasts = options.maxRebroadcasts ?? 3;
+  }
+
+  /** Start watching a transaction (no-op if it is already tracked, except to add raw hex) */
+  track(txid: string, options: TrackOptions = {}): void {
+    const existing = this.tracked.get(txid);
+    if (existing) {
+      existing.rawhex = existing.rawhex || options.rawhex;
+      if (options.confirmations != null) existing.confirmations = Math.max(existing.confirmations, options.confirmations);
+      return;
+    }
+    this.tracked.set(txid, {
+      txid,
+      rawhex: options.rawhex,
+      confirmations: options.confirmations ?? this.confirmations,
+      status: null,
+      confirmed: false,
+      missingSince: null,
+      rebroadcasts: 0,
+      waiters: [],
+    });
+    this.schedule();
+  }
+
+  /** Stop watching a transaction; pending wait() calls are rejected */
+  untrack(txid: string): void {
+    const entry = this.tracked.get(txid);
+    if (!entry) return;
+    this.tracked.delete(txid);
+    for (const waiter of entry.waiters) waiter.reject(new Error(`Stopped tracking transaction ${txid}`));
+    this.schedule();
+  }
+
+  /** Txids currently watched */
+  get txids(): string[] {
+    return [...this.tracked.keys()];
+  }
+
+  /**
+   * Wait until a transaction has the required confirmations.
+   *
+   * @throws Error when the transaction is dropped or the timeout passes first
+   */
+  wait(txid: string, options: WaitForConfirmationOptions = {}): Promise<TxStatus> {
+    this.track(txid, options);
+    const entry = this.tracked.get(txid)!;
+    if (entry.confirmed && entry.status) return Promise.resolve(entry.status);
+
+    return new Promise<TxStatus>((resolve, reject) => {
+      let timer: ReturnType<typeof setTimeout> | null = null;
+      const waiter = {
+        resolve: (status: TxStatus) => {
+          if (timer) clearTimeout(timer);
+          resolve(status);
+        },
+        reject: (err: Error) => {
+          if (timer) clearTimeout(timer);
+          reject(err);
+        },
+      };
+      entry.waiters.push(waiter);
+      if (options.timeout != null) {
+        timer = setTimeout(() => {
+          entry.waiters = entry.waiters.filter(w => w !== waiter);
+          reject(new Error(`Transaction ${txid} not confirmed after ${options.timeout}ms`));
+        }, options.timeout);
+      }
+      // Don't make the first check wait a whole interval
+      void this.check().catch(() => {});
+    });
+  }
+
+  /** Check every tracked transaction once (concurrent callers share one pass) */
+  check(): Promise<void> {
+    if (!this.checking) {
+      this.checking = this.checkAll().finally(() => {
+        this.checking = null;
+      });
+    }
+    return this.checking;
+  }
+
+  /** Stop polling and reject every pending wait() */
+  stop(): void {
+    for (const txid of [...this.tracked.keys()]) this.untrack(txid);
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private schedule(): void {
+    if (this.tracked.size > 0 && !this.timer) {
+      this.timer = setInterval(() => {
+        this.check().catch((err) => {
+          console.error('[VAP Agent] Transaction check failed:', err instanceof Error ? err.message : String(err));
+        });
+      }, this.pollInterval);
+    } else if (this.tracked.size === 0 && this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private async checkAll(now = Date.now()): Promise<void> {
+    for (const entry of [...this.tracked.values()]) {
+      let status: TxStatus | null;
+      try {
+        status = await this.client.getTxStatus(entry.txid);
+      } catch (err) {
+        if (!isNotFound(err)) throw err;
+        status = null;
+      }
+      if (this.tracked.get(entry.txid) !== entry) continue; // untracked meanwhile
+      if (status) {
+        this.update(entry, status);
+      } else {
+        await this.missing(entry, now);
+      }
+    }
+  }
+
+  private update(entry: TrackedTx, status: TxStatus): void {
+    const previous = entry.status;
+    entry.status = status;
+    entry.missingSince = null;
+
+    if (previous?.blockHash && (status.blockHash !== previous.blockHash || status.confirmations < previous.confirmations)) {
+      this.emit('tx:reorged', { txid: entry.txid, previous, status } satisfies TxReorgEvent);
+    }
+
+    if (status.confirmations < entry.confirmations) {
+      entry.confirmed = false;
+      return;
+    }
+    if (!entry.confirmed) {
+      entry.confirmed = true;
+      this.emit('tx:confirmed', status);
+      for (const waiter of entry.waiters.splice(0)) waiter.resolve(status);
+    }
+    if (status.confirmations >= this.finality) {
+      this.tracked.delete(entry.txid);
+      this.schedule();
+    }
+  }
+
+  private async missing(entry: TrackedTx, now: number): Promise<void> {
+    const previous = entry.status;
+    entry.status = null;
+    entry.confirmed = false;
+    if (previous?.blockHash) {
+      this.emit('tx:reorged', { txid: entry.txid, previous, status: null } satisfies TxReorgEvent);
+    }
+
+    // A transaction the platform hasn't seen yet gets one poll of grace; one that left a block doesn't
+    if (entry.missingSince == null) entry.missingSince = now;
+    const due = !!previous?.blockHash || now > entry.missingSince;
+
+    if (entry.rawhex && entry.rebroadcasts < this.maxRebroadcasts && due) {
+      entry.rebroadcasts++;
+      try {
+        await this.client.broadcast(entry.rawhex);
+        this.emit('tx:rebroadcast', { txid: entry.txid, attempt: entry.rebroadcasts });
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        // Rejected for another reason than already being known, e.g. an input was spent by a conflicting transaction
+        if (!/already/i.test(message)) this.drop(entry, message);
+      }
+      return;
+    }
+
+    if (now - entry.missingSince >= this.dropAfter) {
+      this.drop(entry, entry.rebroadcasts > 0 ? `still missing after ${entry.rebroadcasts} re-broadcasts` : 'not found');
+    }
+  }
+
+  private drop(entry: TrackedTx, reason: string): void {
+    this.tracked.delete(entry.txid);
+    this.emit('tx:dropped', { txid: entry.txid, reason });
+    for (const waiter of entry.waiters.splice(0)) {
+      waiter.reject(new Error(`Transaction ${entry.txid} dropped: ${reason}`));
+    }
+    this.schedule();
+  }
+}
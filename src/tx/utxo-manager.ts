@@ -0,0 +1,260 @@
+/**
+ * UTXO manager — one view of the agent's coins for every transaction builder.
+ *
+ * Caches getUtxos(), locks the inputs of transactions being built so two
+ * concurrent builds never pick the same UTXO, and remembers spent inputs and
+ * unconfirmed change until the platform's UTXO list catches up.
+ *
+ * Spent inputs are never handed out again on a timer: they stay excluded until
+ * their transaction is reported confirmed() (and the platform stops listing them)
+ * or dropped(). Feed both from a TxTracker's tx:confirmed and tx:dropped events.
+ *
+ * @example
+ * ```typescript
+ * const utxos = new UtxoManager(client, { strategy: 'branch-and-bound' });
+ * const txid = await utxos.spend(amountSats + DEFAULT_FEE, async (inputs, total) => {
+ *   const rawhex = buildPayment({ wif, toAddress, amount, utxos: inputs, strategy: 'all' });
+ *   const { txid } = await client.broadcast(rawhex);
+ *   return { txid, change: { vout: 1, satoshis: total - amountSats - DEFAULT_FEE } };
+ * });
+ * ```
+ */
+
+import type { Utxo, VAPClient } from '../client/index.js';
+import { selectCoins, CHANGE_DUST, type CoinSelectionStrategy } from './coin-selection.js';
+
+export interface UtxoManagerOptions {
+  /** How long a getUtxos() result is reused in ms (default: 30000) */
+  cacheTtl?: number;
+  /** Default coin selection strategy (default: largest-first) */
+  strategy?: CoinSelectionStrategy;
+  /** Locks and unconfirmed change expire after this many ms, e.g. when a build never finishes (default: 600000) */
+  lockTtl?: number;
+  /** UTXOs below this many satoshis count as dust (default: 100000) */
+  dustThreshold?: number;
+}
+
+/** Output of a broadcast transaction that pays back to the agent */
+export interface ChangeOutput {
+  vout: number;
+  satoshis: number;
+}
+
+export interface UtxoReservation {
+  /** Locked inputs — build the transaction with exactly these (strategy 'all') */
+  utxos: Utxo[];
+  /** Sum of the locked inputs in satoshis */
+  total: number;
+  /** The transaction was broadcast: inputs are spent, `change` can be spent right away */
+  commit(txid: string, change?: ChangeOutput | null): void;
+  /** The transaction was not broadcast: unlock the inputs */
+  release(): void;
+}
+
+/** Satoshis to cover, or a function of the input count (for size-based fees) */
+export type SpendTarget = number | ((inputs: number) => number);
+
+/** What a spend() callback reports back */
+export interface SpendResult {
+  txid: string;
+  change?: ChangeOutput | null;
+}
+
+function key(utxo: Pick<Utxo, 'txid' | 'vout'>): string {
+  return `${utxo.txid}:${utxo.vout}`;
+}
+
+export class UtxoManager {
+  private readonly client: Pick<VAPClient, 'getUtxos'>;
+  private readonly cacheTtl: number;
+  private readonly strategy: CoinSelectionStrategy;
+  private readonly lockTtl: number;
+  private readonly dustThreshold: number;
+
+  private cache: Utxo[] | null = null;
+  private fetchedAt = 0;
+  private fetching: Promise<Utxo[]> | null = null;
+  /** Inputs of transactions being built → locked at (ms) */
+  private locks = new Map<string, number>();
+  /** Inputs of broadcast transactions the platform may still list → spending txid */
+  private spent = new Map<string, string>();
+  /** Spending transactions that confirmed; their inputs are forgotten once the platform stops listing them */
+  private confirmedTxids = new Set<string>();
+  /** Unconfirmed change outputs the platform may not list yet */
+  private pending = new Map<string, { utxo: Utxo; at: number }>();
+
+  constructor(client: Pick<VAPClient, 'getUtxos'>, options: UtxoManagerOptions = {}) {
+    this.client = client;
+    this.cacheTtl = options.cacheTtl ?? 30_000;
+    this.strategy = options.strategy ?? 'largest-first';
+    this.lockTtl = options.lockTtl ?? 10 * 60 * 1000;
+    this.dustThreshold = options.dustThreshold ?? 100_000;
+  }
+
+  /** UTXOs from the platform (cached for cacheTtl; concurrent callers share one request) */
+  async list(force = false): Promise<Utxo[]> {
+    if (!force && this.cache && Date.now() - this.fetchedAt < this.cacheTtl) {
+      return this.cache;
+    }
+    if (!this.fetching) {
+      this.fetching = this.client.getUtxos()
+        .then((res) => {
+          this.cache = res.utxos || [];
+          this.fetchedAt = Date.now();
+          return this.cache;
+        })
+        .finally(() => {
+          this.fetching = null;
+        });
+    }
+    return this.fetching;
+  }
+
+  /** Drop the cached list; the next call fetches it again */
+  invalidate(): void {
+    this.cache = null;
+  }
+
+  /** Spendable UTXOs: the platform's list without locked or spent inputs, plus unconfirmed change */
+  async available(): Promise<Utxo[]> {
+    const listed = await this.list();
+    return this.unlocked(listed);
+  }
+
+  /**
+   * Select and lock inputs covering `target` satoshis.
+   * Selection and locking happen without yielding, so concurrent reservations never overlap.
+   *
+   * @param target - Satoshis, or a function of the input count when the fee depends on the inputs
+   * @throws Error('Insufficient funds: ...') when the unlocked UTXOs don't cover the target
+   */
+  async reserve(target: SpendTarget, strategy: CoinSelectionStrategy = this.strategy): Promise<UtxoReservation> {
+    const listed = await this.list();
+    const available = this.unlocked(listed);
+    const targetFor = typeof target === 'number' ? () => target : target;
+
+    let needed = targetFor(1);
+    let selection = selectCoins(available, needed, strategy);
+    while (targetFor(selection.selected.length) > needed) {
+      needed = targetFor(selection.selected.length);
+      selection = selectCoins(available, needed, strategy);
+    }
+    return this.lock(selection.selected, selection.total);
+  }
+
+  /**
+   * Lock dust UTXOs for a consolidation transaction.
+   *
+   * @returns null when there are fewer than two dust UTXOs
+   */
+  async reserveDust(options: { threshold?: number; maxInputs?: number } = {}): Promise<UtxoReservation | null> {
+    const threshold = options.threshold ?? this.dustThreshold;
+    const listed = await this.list();
+    const dust = this.unlocked(listed)
+      .filter(u => u.satoshis < threshold)
+      .sort((a, b) => a.satoshis - b.satoshis)
+      .slice(0, options.maxInputs ?? 50);
+    if (dust.length < 2) return null;
+    return this.lock(dust, dust.reduce((sum, u) => sum + u.satoshis, 0));
+  }
+
+  /**
+   * Reserve inputs, run `build` with them and commit its result.
+   * The inputs are released again when `build` throws.
+   */
+  async spend(
+    target: SpendTarget,
+    build: (utxos: Utxo[], total: number) => Promise<SpendResult>,
+    strategy?: CoinSelectionStrategy,
+  ): Promise<string> {
+    const reservation = await this.reserve(target, strategy);
+    let result: SpendResult;
+    try {
+      result = await build(reservation.utxos, reservation.total);
+    } catch (err) {
+      reservation.release();
+      throw err;
+    }
+    reservation.commit(result.txid, result.change);
+    return result.txid;
+  }
+
+  /**
+   * The spending transaction confirmed: its inputs are forgotten as soon as the
+   * platform's UTXO list no longer contains them.
+   */
+  confirmed(txid: string): void {
+    if ([...this.spent.values()].includes(txid)) this.confirmedTxids.add(txid);
+  }
+
+  /**
+   * The spending transaction will not confirm: its inputs are spendable again
+   * and its change output is forgotten.
+   */
+  dropped(txid: string): void {
+    for (const [k, spender] of this.spent) if (spender === txid) this.spent.delete(k);
+    for (const [k, p] of this.pending) if (p.utxo.txid === txid) this.pending.delete(k);
+    this.confirmedTxids.delete(txid);
+  }
+
+  /** Number of inputs currently locked by unfinished builds */
+  get lockedCount(): number {
+    this.expire();
+    return this.locks.size;
+  }
+
+  private unlocked(listed: Utxo[]): Utxo[] {
+    this.expire();
+    const listedKeys = new Set(listed.map(key));
+    // Change the platform lists by now no longer needs to be tracked separately
+    for (const k of listedKeys) this.pending.delete(k);
+    // Inputs of confirmed transactions the platform no longer lists cannot come back
+    for (const [k, txid] of this.spent) {
+      if (this.confirmedTxids.has(txid) && !listedKeys.has(k)) this.spent.delete(k);
+    }
+    const spenders = new Set(this.spent.values());
+    for (const txid of this.confirmedTxids) if (!spenders.has(txid)) this.confirmedTxids.delete(txid);
+
+    const pending = [...this.pending.values()].map(p => p.utxo);
+    return [...listed, ...pending].filter(u => !this.locks.has(key(u)) && !this.spent.has(key(u)));
+  }
+
+  private lock(selected: Utxo[], total: number): UtxoReservation {
+    const now = Date.now();
+    for (const utxo of selected) this.locks.set(key(utxo), now);
+
+    let settled = false;
+    const unlock = () => {
+      if (settled) return false;
+      settled = true;
+      for (const utxo of selected) this.locks.delete(key(utxo));
+      return true;
+    };
+
+    return {
+      utxos: selected,
+      total,
+      commit: (txid, change) => {
+        if (!unlock()) return;
+        const at = Date.now();
+        for (const utxo of selected) {
+          this.spent.set(key(utxo), txid);
+          this.pending.delete(key(utxo));
+        }
+        if (change && change.satoshis > CHANGE_DUST) {
+          const utxo = { txid, vout: change.vout, satoshis: change.satoshis, height: 0 };
+          this.pending.set(key(utxo), { utxo, at });
+        }
+      },
+      release: () => {
+        unlock();
+      },
+    };
+  }
+
+  private expire(): void {
+    const cutoff = Date.now() - this.lockTtl;
+    for (const [k, at] of this.locks) if (at < cutoff) this.locks.delete(k);
+    for (const [k, p] of this.pending) if (p.at < cutoff) this.pending.delete(k);
+  }
+}
@@ -97,4 +97,123 @@ describe('VAPAgent', () => {
     assert.strictEqual(result.iAddress, 'i5test123');
     assert.strictEqual(agent.identity, 'testagent.agentplatform@');
   });
+
+  describe('prepay payment gating', () => {
+    const kp = generateKeypair('verustest');
+    const prepay = {
+      id: 'job-1', jobHash: 'h1', status: 'in_progress', amount: 5, currency: 'VRSCTEST',
+      timestamps: { accepted: new Date().toISOString() },
+      payment: { terms: 'prepay', txid: 'pay', platformFeeTxid: 'fee', verified: true, platformFeeVerified: true },
+    };
+
+    function gatedAgent(confirmations: Record<string, number>, payments: Record<string, unknown> = {}) {
+      const agent = new VAPAgent({
+        vapUrl: 'https://api.example.com', wif: kp.wif, jobConfig: { payments },
+      });
+      const started: string[] = [];
+      const disputes: string[] = [];
+      agent.setHandler({ onJobStarted: async (job: any) => { started.push(job.id); } });
+      agent.client.getTxStatus = async (txid: string) => ({ txid, confirmations: confirmations[txid] ?? 0, confirmed: true });
+      agent.client.getJob = async () => prepay;
+      agent.client.disputeJob = async (_id: string, reason: string) => {
+        disputes.push(reason);
+        return { ...prepay, status: 'disputed' };
+      };
+      return { agent: agent as any, started, disputes };
+    }
+
+    const tick = () => new Promise(resolve => setImmediate(resolve));
+
+    it('holds onJobStarted until the payment is confirmed', async () => {
+      const confirmations: Record<string, number> = { pay: 0, fee: 0 };
+      const { agent, started } = gatedAgent(confirmations);
+      const confirmed: string[] = [];
+      agent.on('job:paymentConfirmed', (e: any) => confirmed.push(e.jobId));
+
+      await agent.dispatchTransition({ job: prepay, status: 'in_progress', previousStatus: 'accepted' });
+      await tick();
+      assert.deepStrictEqual(started, []);
+      assert.strictEqual((await agent.jobStore.get('job-1')).paymentPending, true);
+
+      confirmations.pay = 1;
+      confirmations.fee = 1;
+      await agent.checkPayment('job-1');
+      await tick();
+      assert.deepStrictEqual(confirmed, ['job-1']);
+      assert.deepStrictEqual(started, ['job-1']);
+      assert.strictEqual((await agent.jobStore.get('job-1')).paymentPending, false);
+    });
+
+    it('does not start a job whose payment pays the wrong address', async () => {
+      const { agent, started } = gatedAgent({ pay: 1, fee: 1 }, {
+        requirePlatformFee: false,
+        getTransaction: async (txid: string) => ({ txid, outputs: [{ vout: 0, address: 'RSomeoneElse', satoshis: 500000000 }] }),
+      });
+      await agent.dispatchTransition({ job: prepay, status: 'in_progress', previousStatus: 'accepted' });
+      await tick();
+      assert.deepStrictEqual(started, []);
+      assert.strictEqual((await agent.jobStore.get('job-1')).paymentPending, true);
+    });
+
+    it('releases a job whose payment times out without disputing it by default', async () => {
+      const { agent, started, disputes } = gatedAgent({}, { timeoutMs: 0 });
+      const timeouts: string[] = [];
+      agent.on('job:paymentTimeout', (e: any) => timeouts.push(e.jobId));
+
+      const late = { ...prepay, timestamps: { accepted: '2025-01-01T00:00:00Z' } };
+      await agent.dispatchTransition({ job: late, status: 'in_progress', previousStatus: 'accepted' });
+      await tick();
+      assert.deepStrictEqual(started, []);
+      assert.deepStrictEqual(timeouts, ['job-1']);
+      assert.deepStrictEqual(disputes, []);
+    });
+
+    it('disputes a job whose payment times out when disputeOnTimeout is set', async () => {
+      const { agent, started, disputes } = gatedAgent({}, { timeoutMs: 0, disputeOnTimeout: true });
+      const timeouts: string[] = [];
+      agent.on('job:paymentTimeout', (e: any) => timeouts.push(e.jobId));
+
+      const late = { ...prepay, timestamps: { accepted: '2025-01-01T00:00:00Z' } };
+      await agent.dispatchTransition({ job: late, status: 'in_progress', previousStatus: 'accepted' });
+      await tick();
+      assert.deepStrictEqual(started, []);
+      assert.deepStrictEqual(timeouts, ['job-1']);
+      assert.strictEqual(disputes.length, 1);
+      assert.match(disputes[0], /Payment not confirmed/);
+    });
+  });
+
+  it('fails a webhook event that arrives before start() without recording the job', async () => {
+    const kp = generateKeypair('verustest');
+    const agent = new VAPAgent({ vapUrl: 'https://api.example.com', wif: kp.wif }) as any;
+    const requested: string[] = [];
+    agent.setHandler({ onJobRequested: async (job: any) => { requested.push(job.id); return 'reject'; } });
+    agent.client.getJob = async (id: string) => ({ id, status: 'requested', jobHash: 'h1', amount: 1, currency: 'VRSCTEST' });
+
+    await assert.rejects(agent.handleWebhookEvent({ id: 'd1', type: 'job.requested', jobId: 'job-1' }), /not running/);
+    assert.strictEqual(await agent.jobStore.get('job-1'), undefined);
+
+    // The job is still decided once the agent picks it up
+    await agent.processRequestedJob(await agent.client.getJob('job-1'));
+    assert.deepStrictEqual(requested, ['job-1']);
+    assert.strictEqual((await agent.jobStore.get('job-1')).decision, 'rejected');
+  });
+
+  it('restores queue slots and deadlines of jobs in progress before a restart', async () => {
+    const { MemoryJobStore } = require('../dist/jobs/store.js');
+    const kp = generateKeypair('verustest');
+    const jobStore = new MemoryJobStore();
+    await jobStore.update('job-1', { decision: 'accepted', lastStatus: 'in_progress' });
+    await jobStore.update('job-2', { decision: 'accepted', lastStatus: 'accepted' });
+    await jobStore.update('job-3', { decision: 'accepted', lastStatus: 'completed' });
+    const agent = new VAPAgent({ vapUrl: 'https://api.example.com', wif: kp.wif, jobStore, jobConfig: { maxConcurrentJobs: 2 } }) as any;
+    const deadline = new Date(Date.now() + 3_600_000).toISOString();
+    const statuses: Record<string, string> = { 'job-1': 'in_progress', 'job-2': 'accepted', 'job-3': 'completed' };
+    agent.client.getJob = async (id: string) => ({ id, status: statuses[id], jobHash: id, amount: 1, currency: 'VRSCTEST', deadline });
+
+    await agent.restoreActiveJobs();
+    assert.deepStrictEqual(agent.queue.stats, { reserved: 2, queued: 0, running: 0 });
+    assert.strictEqual(agent.deadlines.size, 2);
+    assert.strictEqual(agent.queue.hasCapacity({ id: 'job-4' }), false);
+  });
 });
@@ -0,0 +1,97 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { createRequire } from 'node:module';
+const require = createRequire(import.meta.url);
+
+const { evaluateAutoAccept, buyerTrustLevel } = require('../dist/jobs/auto-accept.js');
+const { VAPError } = require('../dist/client/errors.js');
+
+const job = {
+  id: 'job-1',
+  jobHash: 'hash-1',
+  status: 'requested',
+  buyerVerusId: 'buyer.agentplatform@',
+  sellerVerusId: 'seller.agentplatform@',
+  serviceId: 'svc-1',
+  description: 'Review my code',
+  amount: 5,
+  currency: 'VRSCTEST',
+  createdAt: '2025-01-01T00:00:00Z',
+  updatedAt: '2025-01-01T00:00:00Z',
+};
+
+function mockLookup(opts: { rating?: number; completedJobs?: number; repStatus?: number } = {}) {
+  const calls = { service: 0, reputation: 0, reviews: 0 };
+  return {
+    calls,
+    getService: async (id: string) => {
+      calls.service++;
+      return { id, name: 'Code Review' };
+    },
+    getReputation: async () => {
+      calls.reputation++;
+      if (opts.repStatus) {
+        throw new VAPError('not found', 'NOT_FOUND', opts.repStatus);
+      }
+      return { score: opts.rating ?? 0, totalReviews: 0 };
+    },
+    getBuyerReviews: async () => {
+      calls.reviews++;
+      return { data: new Array(opts.completedJobs ?? 0).fill({}), buyer: job.buyerVerusId };
+    },
+  };
+}
+
+describe('Auto-accept rules', () => {
+  it('accepts when the first matching rule passes', async () => {
+    const lookup = mockLookup({ completedJobs: 6 });
+    const rule = { service: 'code review', maxPrice: 10, minBuyerJobs: 5 };
+    const decision = await evaluateAutoAccept(job, [rule], lookup);
+    assert.strictEqual(decision.action, 'accept');
+    assert.strictEqual(decision.rule, rule);
+  });
+
+  it('defers by default when no rule passes', async () => {
+    const lookup = mockLookup();
+    const rule = { service: '*', maxPrice: 1 };
+    const decision = await evaluateAutoAccept(job, [rule], lookup);
+    assert.strictEqual(decision.action, 'defer');
+    assert.strictEqual(decision.rule, rule);
+    assert.match(decision.reason, /exceeds maxPrice/);
+  });
+
+  it('rejects when fallback is reject', async () => {
+    const decision = await evaluateAutoAccept(job, [{ service: 'Translation' }], mockLookup(), { fallback: 'reject' });
+    assert.strictEqual(decision.action, 'reject');
+    assert.strictEqual(decision.rule, null);
+  });
+
+  it('treats a missing buyer reputation as unknown rating', async () => {
+    const decision = await evaluateAutoAccept(job, [{ service: '*', minBuyerRating: 3 }], mockLookup({ repStatus: 404 }));
+    assert.strictEqual(decision.action, 'defer');
+    assert.match(decision.reason, /unknown/);
+  });
+
+  it('defers when a lookup fails', async () => {
+    const decision = await evaluateAutoAccept(job, [{ service: '*', minBuyerRating: 3 }], mockLookup({ repStatus: 500 }), { fallback: 'reject' });
+    assert.strictEqual(decision.action, 'defer');
+    assert.match(decision.reason, /lookup failed/);
+  });
+
+  it('only looks up what the rules need, once', async () => {
+    const lookup = mockLookup({ completedJobs: 25 });
+    const decision = await evaluateAutoAccept(job, [
+      { service: '*', minBuyerJobs: 30 },
+      { service: '*', buyerTrustLevel: 'trusted' },
+    ], lookup);
+    assert.strictEqual(decision.action, 'accept');
+    assert.deepStrictEqual(lookup.calls, { service: 0, reputation: 0, reviews: 1 });
+  });
+
+  it('buyerTrustLevel thresholds', () => {
+    assert.strictEqual(buyerTrustLevel(0), 'new');
+    assert.strictEqual(buyerTrustLevel(1), 'establishing');
+    assert.strictEqual(buyerTrustLevel(5), 'established');
+    assert.strictEqual(buyerTrustLevel(20), 'trusted');
+  });
+});
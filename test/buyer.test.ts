@@ -0,0 +1,171 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { createHash } from 'node:crypto';
+import { createRequire } from 'node:module';
+const require = createRequire(import.meta.url);
+
+const { VAPBuyer } = require('../dist/buyer.js');
+const { computeDeliveryHash } = require('../dist/jobs/delivery.js');
+const { generateKeypair } = require('../dist/identity/keypair.js');
+const { verifyMessage } = require('../dist/identity/verify.js');
+const { buildCompleteMessage } = require('../dist/signing/messages.js');
+
+const buyerKey = generateKeypair('verustest');
+const seller = generateKeypair('verustest');
+const platform = generateKeypair('verustest');
+
+const utxos = [{ txid: 'a'.repeat(64), vout: 0, satoshis: 500_000_000, height: 1 }];
+
+function sha256(data: string): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+/** In-memory platform: one job, the calls made against it */
+function fakeClient(job: Record<string, unknown>, files: { id: string; data: string; uploaderVerusId?: string }[] = []) {
+  const calls: { method: string; args: unknown[] }[] = [];
+  const record = (method: string) => async (...args: unknown[]) => {
+    calls.push({ method, args });
+    return { ...job, status: method };
+  };
+  const client = {
+    calls,
+    getJob: async () => job,
+    getJobRequestMessage: async (params: Record<string, unknown>) => ({
+      message: `Platform request for ${params.sellerVerusId}: ${params.description}`,
+      timestamp: 1700000000,
+    }),
+    createJob: async (params: Record<string, unknown>) => {
+      calls.push({ method: 'createJob', args: [params] });
+      return { id: 'job-1', ...params };
+    },
+    getPaymentQr: async (_jobId: string, type: string) => ({
+      address: type === 'fee' ? platform.address : seller.address,
+      amount: type === 'fee' ? 0.05 : 1,
+    }),
+    broadcast: async (rawhex: string) => {
+      calls.push({ method: 'broadcast', args: [rawhex] });
+      return { txid: 'f'.repeat(64) };
+    },
+    recordPayment: record('recordPayment'),
+    recordPlatformFee: record('recordPlatformFee'),
+    completeJob: record('completeJob'),
+    disputeJob: record('disputeJob'),
+    getJobFiles: async () => ({
+      data: files.map((f, i) => ({
+        id: f.id,
+        filename: `${f.id}.txt`,
+        uploaderVerusId: f.uploaderVerusId ?? 'seller@',
+        createdAt: new Date(1700000000000 + i * 1000).toISOString(),
+      })),
+    }),
+    downloadFile: async (_jobId: string, fileId: string) => {
+      const data = Buffer.from(files.find(f => f.id === fileId)!.data);
+      return { data: data.buffer.slice(data.byteOffset, data.byteOffset + data.length), filename: fileId, mimeType: 'text/plain', checksum: '' };
+    },
+  };
+  return client;
+}
+
+function buyer(client: object) {
+  // Spends straight from the fixed UTXO set
+  const spend = { spend: async (_target: unknown, build: (u: typeof utxos) => Promise<{ txid: string }>) => (await build(utxos)).txid };
+  return new VAPBuyer({ client, utxos: spend, wif: buyerKey.wif, identityName: 'buyer@', network: 'verustest' });
+}
+
+function job(overrides: Record<string, unknown> = {}) {
+  return { id: 'job-1', jobHash: 'jh', status: 'delivered', sellerVerusId: 'seller@', ...overrides };
+}
+
+describe('VAPBuyer', () => {
+  it('signs the request message the platform built', async () => {
+    const client = fakeClient(job());
+    await buyer(client).hire({ sellerVerusId: 'seller@', description: 'Translate', amount: 1 });
+    const [{ args: [params] }] = client.calls as { args: Record<string, string>[] }[];
+    assert.strictEqual(params.timestamp, 1700000000);
+    assert.ok(verifyMessage(buyerKey.address, 'Platform request for seller@: Translate', params.signature));
+  });
+
+  it('pays seller and fee in one transaction and records it for both', async () => {
+    const client = fakeClient(job({ status: 'accepted' }));
+    const result = await buyer(client).pay('job-1');
+    assert.deepStrictEqual(client.calls.map(c => c.method), ['broadcast', 'recordPayment', 'recordPlatformFee']);
+    assert.strictEqual(result.paymentTxid, 'f'.repeat(64));
+    assert.strictEqual(result.feeTxid, 'f'.repeat(64));
+  });
+
+  it('records the broadcast payment again instead of paying twice when recording fails', async () => {
+    const accepted = job({ status: 'accepted' }) as Record<string, any>;
+    const client = fakeClient(accepted);
+    client.recordPayment = async (...args: unknown[]) => {
+      client.calls.push({ method: 'recordPayment', args });
+      accepted.payment = { txid: args[1] };
+      return accepted;
+    };
+    let feeFailures = 1;
+    client.recordPlatformFee = async (...args: unknown[]) => {
+      client.calls.push({ method: 'recordPlatformFee', args });
+      if (feeFailures-- > 0) throw new Error('platform unavailable');
+      return accepted;
+    };
+    const payer = buyer(client);
+    const broadcasts: string[] = [];
+    payer.on('buyer:broadcast', (e: { txid: string }) => broadcasts.push(e.txid));
+
+    await assert.rejects(payer.pay('job-1'), /platform unavailable/);
+    const result = await payer.pay('job-1');
+
+    assert.deepStrictEqual(client.calls.map(c => c.method), ['broadcast', 'recordPayment', 'recordPlatformFee', 'recordPlatformFee']);
+    assert.deepStrictEqual(broadcasts, ['f'.repeat(64)]);
+    assert.deepStrictEqual(client.calls[3].args, ['job-1', 'f'.repeat(64)]);
+    assert.strictEqual(result.feeTxid, result.paymentTxid);
+  });
+
+  it('does not pay again what is already recorded', async () => {
+    const client = fakeClient(job({ status: 'accepted', payment: { txid: 'p'.repeat(64), platformFeeTxid: 'q'.repeat(64) } }));
+    const result = await buyer(client).pay('job-1');
+    assert.deepStrictEqual(client.calls, []);
+    assert.strictEqual(result.paymentTxid, 'p'.repeat(64));
+  });
+
+  it('recomputes the delivery hash from the downloaded files', async () => {
+    const files = [
+      { id: 'f1', data: 'first' },
+      { id: 'f2', data: 'second' },
+      { id: 'x', data: 'from the buyer', uploaderVerusId: 'buyer@' },
+    ];
+    const hash = computeDeliveryHash('Done', [sha256('first'), sha256('second')]);
+    const good = await buyer(fakeClient(job({ delivery: { hash, message: 'Done' } }), files)).verifyDelivery('job-1');
+    assert.strictEqual(good.valid, true);
+    assert.deepStrictEqual(good.files.map((f: { id: string }) => f.id), ['f1', 'f2']);
+
+    const tampered = files.map(f => f.id === 'f2' ? { ...f, data: 'changed' } : f);
+    const bad = await buyer(fakeClient(job({ delivery: { hash, message: 'Done' } }), tampered)).verifyDelivery('job-1');
+    assert.strictEqual(bad.valid, false);
+  });
+
+  it('refuses to complete a delivery without a delivery hash', async () => {
+    const client = fakeClient(job({ delivery: { message: 'Done' } }));
+    await assert.rejects(buyer(client).complete('job-1'), /no delivery hash/);
+    assert.deepStrictEqual(client.calls, []);
+  });
+
+  it('completes with a signature over the delivery hash', async () => {
+    const client = fakeClient(job({ delivery: { hash: 'dh', message: 'Done' } }));
+    await buyer(client).complete('job-1');
+    const [{ method, args: [, signature, timestamp] }] = client.calls as { method: string; args: [string, string, number] }[];
+    assert.strictEqual(method, 'completeJob');
+    const message = buildCompleteMessage({ jobHash: 'jh', deliveryHash: 'dh', timestamp });
+    assert.ok(verifyMessage(buyerKey.address, message, signature));
+  });
+
+  it('needs a reason to dispute', async () => {
+    const client = fakeClient(job());
+    await assert.rejects(buyer(client).dispute('job-1', '  '), /needs a reason/);
+    assert.deepStrictEqual(client.calls, []);
+  });
+
+  it('stops waiting when the job ends in another final status', async () => {
+    const client = fakeClient(job({ status: 'cancelled' }));
+    await assert.rejects(buyer(client).waitForDelivery('job-1', { pollInterval: 1 }), /ended in status 'cancelled'/);
+  });
+});
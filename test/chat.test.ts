@@ -0,0 +1,153 @@
+import { describe, it, afterEach } from 'node:test';
+import assert from 'node:assert';
+import { createRequire } from 'node:module';
+import { createHash } from 'node:crypto';
+import http from 'node:http';
+import type { AddressInfo, Socket } from 'node:net';
+const require = createRequire(import.meta.url);
+
+const { ChatClient } = require('../dist/chat/client.js');
+
+/**
+ * Minimal Socket.IO server: answers the chat token request, accepts the
+ * WebSocket upgrade on /ws and completes the Engine.IO / Socket.IO handshake.
+ * Client frames are ignored; `emit` pushes an event to every open socket.
+ */
+async function chatServer() {
+  const sockets = new Set<Socket>();
+  let connections = 0;
+
+  const server = http.createServer((req, res) => {
+    res.setHeader('Content-Type', 'application/json');
+    res.end(JSON.stringify(req.url === '/v1/chat/token' ? { data: { token: 'chat-token' } } : {}));
+  });
+  server.on('upgrade', (req, socket: Socket) => {
+    const accept = createHash('sha1')
+      .update(`${req.headers['sec-websocket-key']}258EAFA5-E914-47DA-95CA-C5AB0DC85B11`)
+      .digest('base64');
+    socket.write(`HTTP/1.1 101 Switching Protocols\r\nUpgrade: websocket\r\nConnection: Upgrade\r\nSec-WebSocket-Accept: ${accept}\r\n\r\n`);
+    socket.on('data', () => {});
+    socket.on('error', () => {});
+    sockets.add(socket);
+    socket.on('close', () => sockets.delete(socket));
+    connections++;
+    send(socket, `0${JSON.stringify({ sid: `e${connections}`, upgrades: [], pingInterval: 60_000, pingTimeout: 60_000, maxPayload: 1e6 })}`);
+    send(socket, `40${JSON.stringify({ sid: `s${connections}` })}`);
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+  return {
+    url: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    get connections() { return connections; },
+    emit(event: string, data: unknown) {
+      for (const socket of sockets) send(socket, `42${JSON.stringify([event, data])}`);
+    },
+    /** Drop every connection so the client reconnects */
+    drop() {
+      for (const socket of sockets) socket.destroy();
+    },
+    async close() {
+      for (const socket of sockets) socket.destroy();
+      await new Promise(resolve => server.close(resolve));
+    },
+  };
+}
+
+/** Unmasked server text frame (payloads < 64 KiB) */
+function send(socket: Socket, text: string) {
+  const payload = Buffer.from(text);
+  const header = payload.length < 126
+    ? Buffer.from([0x81, payload.length])
+    : Buffer.from([0x81, 126, payload.length >> 8, payload.length & 0xff]);
+  socket.write(Buffer.concat([header, payload]));
+}
+
+function waitFor(check: () => boolean, timeoutMs = 8_000): Promise<void> {
+  const started = Date.now();
+  return new Promise((resolve, reject) => {
+    const timer = setInterval(() => {
+      if (check()) {
+        clearInterval(timer);
+        resolve();
+      } else if (Date.now() - started > timeoutMs) {
+        clearInterval(timer);
+        reject(new Error('Timed out waiting for condition'));
+      }
+    }, 20);
+  });
+}
+
+describe('ChatClient', () => {
+  let cleanup: (() => Promise<void>) | null = null;
+  afterEach(async () => {
+    await cleanup?.();
+    cleanup = null;
+  });
+
+  it('passes job_requested events to onJobRequested', async () => {
+    const server = await chatServer();
+    const chat = new ChatClient({ vapUrl: server.url, sessionToken: 'session' });
+    cleanup = async () => { chat.disconnect(); await server.close(); };
+
+    const requested: unknown[] = [];
+    chat.onJobRequested((event: unknown) => { requested.push(event); });
+    await chat.connect();
+    assert.strictEqual(chat.isConnected, true);
+
+    server.emit('job_requested', { jobId: 'job-1', buyerVerusId: 'buyer@' });
+    await waitFor(() => requested.length === 1);
+    assert.deepStrictEqual(requested[0], { jobId: 'job-1', buyerVerusId: 'buyer@' });
+  });
+
+  it('fires onReconnect after a dropped connection but not on the first connect', async () => {
+    const server = await chatServer();
+    const chat = new ChatClient({ vapUrl: server.url, sessionToken: 'session' });
+    cleanup = async () => { chat.disconnect(); await server.close(); };
+
+    let reconnects = 0;
+    chat.onReconnect(() => { reconnects++; });
+    await chat.connect();
+    assert.strictEqual(reconnects, 0);
+
+    server.drop();
+    await waitFor(() => reconnects === 1);
+    assert.strictEqual(server.connections, 2);
+  });
+});
+
+describe('VAPAgent over SafeChat', () => {
+  let cleanup: (() => Promise<void>) | null = null;
+  afterEach(async () => {
+    await cleanup?.();
+    cleanup = null;
+  });
+
+  it('handles pushed job requests, catches up on reconnect and keeps a reconcile poll', async () => {
+    const { VAPAgent } = require('../dist/agent.js');
+    const server = await chatServer();
+    const agent = new VAPAgent({
+      vapUrl: server.url,
+      jobConfig: { notificationMethod: 'websocket', reconcileInterval: 5_000 },
+    });
+    cleanup = async () => { agent.stop(); await server.close(); };
+
+    const requested: string[] = [];
+    agent.setHandler({ onJobRequested: async (job: any) => { requested.push(job.id); return null; } });
+    agent.on('error', () => {});
+    agent.client.setSessionToken('session');
+    let polls = 0;
+    agent.client.getMyJobs = async () => { polls++; return { data: [] }; };
+    agent.client.getJob = async (id: string) => ({ id, status: 'requested', jobHash: 'h', amount: 1, currency: 'VRSCTEST' });
+
+    await agent.start();
+    assert.ok(polls > 0, 'checks for jobs once at start');
+    assert.ok(agent.pollTimer, 'keeps a slow reconcile poll in websocket mode');
+
+    server.emit('job_requested', { jobId: 'job-1' });
+    await waitFor(() => requested.includes('job-1'));
+
+    const before = polls;
+    server.drop();
+    await waitFor(() => polls > before);
+  });
+});
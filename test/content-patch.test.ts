@@ -0,0 +1,82 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { createRequire } from 'node:module';
+const require = createRequire(import.meta.url);
+
+const {
+  applyContentMultimapPatch,
+  diffContentMultimaps,
+  additionsToPatch,
+  normalizeContentMultimap,
+} = require('../dist/identity/content-patch.js');
+
+const current = {
+  iServices: ['aa', 'bb', 'aa'],
+  iTags: ['01'],
+  iAvatar: ['ff'],
+};
+
+describe('Contentmultimap Patches', () => {
+  it('applies add, append, removeValue and removeKey in order', () => {
+    const result = applyContentMultimapPatch(current, [
+      { op: 'removeValue', key: 'iServices', value: 'aa' },
+      { op: 'append', key: 'iTags', values: ['02', '03'] },
+      { op: 'removeKey', key: 'iAvatar' },
+      { op: 'add', key: 'iName', values: ['6e616d65'] },
+      { op: 'append', key: 'iNew', values: ['04'] },
+    ]);
+    assert.deepStrictEqual(result, {
+      iServices: ['bb'],
+      iTags: ['01', '02', '03'],
+      iName: ['6e616d65'],
+      iNew: ['04'],
+    });
+    // The input is left alone
+    assert.deepStrictEqual(current.iServices, ['aa', 'bb', 'aa']);
+  });
+
+  it('treats add with no values as removing the key and append with none as a no-op', () => {
+    const result = applyContentMultimapPatch(current, [
+      { op: 'add', key: 'iTags', values: [] },
+      { op: 'add', key: 'iMissing', values: [] },
+      { op: 'append', key: 'iOther', values: [] },
+    ]);
+    assert.strictEqual('iTags' in result, false);
+    assert.strictEqual('iMissing' in result, false);
+    assert.strictEqual('iOther' in result, false);
+    assert.deepStrictEqual(diffContentMultimaps(current, result).map((d: any) => d.key), ['iTags']);
+    assert.deepStrictEqual(diffContentMultimaps({ iEmpty: [] }, {}), []);
+  });
+
+  it('drops a key whose last value is removed', () => {
+    const result = applyContentMultimapPatch(current, [{ op: 'removeValue', key: 'iTags', value: '01' }]);
+    assert.strictEqual('iTags' in result, false);
+  });
+
+  it('rejects malformed operations and non-hex values', () => {
+    assert.throws(() => applyContentMultimapPatch(current, [{ op: 'rename', key: 'iTags' }]), /Unknown patch operation: rename/);
+    assert.throws(() => applyContentMultimapPatch(current, [{ op: 'removeKey' }]), /has no key/);
+    assert.throws(() => applyContentMultimapPatch(current, [{ op: 'append', key: 'iTags', values: ['xyz'] }]), /not hex/);
+    assert.throws(() => applyContentMultimapPatch(current, [{ op: 'add', key: 'iTags', values: 'aa' }]), /values array/);
+  });
+
+  it('diffs only the keys that changed', () => {
+    const after = applyContentMultimapPatch(current, [
+      { op: 'removeValue', key: 'iServices', value: 'aa' },
+      { op: 'add', key: 'iTags', values: ['01'] },
+      { op: 'removeKey', key: 'iAvatar' },
+      { op: 'add', key: 'iName', values: ['00'] },
+    ]);
+    assert.deepStrictEqual(diffContentMultimaps(current, after), [
+      { key: 'iAvatar', before: ['ff'], after: null, added: [], removed: ['ff'] },
+      { key: 'iName', before: null, after: ['00'], added: ['00'], removed: [] },
+      { key: 'iServices', before: ['aa', 'bb', 'aa'], after: ['bb'], added: [], removed: ['aa', 'aa'] },
+    ]);
+  });
+
+  it('treats vdxfAdditions as add operations and normalizes single values', () => {
+    assert.deepStrictEqual(additionsToPatch({ iTags: ['05'] }), [{ op: 'add', key: 'iTags', values: ['05'] }]);
+    assert.deepStrictEqual(normalizeContentMultimap({ iTags: '05' }), { iTags: ['05'] });
+    assert.deepStrictEqual(normalizeContentMultimap(undefined), {});
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { createRequire } from 'node:module';
+const require = createRequire(import.meta.url);
+
+const { DeadlineScheduler } = require('../dist/jobs/deadlines.js');
+
+const NOW = Date.parse('2025-01-01T12:00:00Z');
+
+function recorder() {
+  const calls: { type: string; data: any }[] = [];
+  return {
+    calls,
+    actions: {
+      approaching: (e: any) => calls.push({ type: 'approaching', data: e }),
+      missed: (e: any) => calls.push({ type: 'missed', data: e }),
+      extend: async (jobId: string, amount: number) => { calls.push({ type: 'extend', data: { jobId, amount } }); },
+      deliver: async (jobId: string) => { calls.push({ type: 'deliver', data: { jobId } }); },
+      error: (err: Error) => calls.push({ type: 'error', data: err }),
+    },
+  };
+}
+
+function job(deadlineOffsetSeconds: number) {
+  return { id: 'job-1', deadline: new Date(NOW + deadlineOffsetSeconds * 1000).toISOString() };
+}
+
+describe('Deadline scheduler', () => {
+  it('fires each threshold once, closest crossed threshold only', async () => {
+    const { calls, actions } = recorder();
+    const scheduler = new DeadlineScheduler({ thresholds: [3600, 600, 120] }, actions);
+    scheduler.track(job(500));
+
+    await scheduler.tick(NOW);
+    await scheduler.tick(NOW + 10_000);
+    await scheduler.tick(NOW + 400_000);
+
+    const thresholds = calls.filter(c => c.type === 'approaching').map(c => c.data.threshold);
+    assert.deepStrictEqual(thresholds, [600, 120]);
+  });
+
+  it('extends and delivers before the deadline', async () => {
+    const { calls, actions } = recorder();
+    const scheduler = new DeadlineScheduler({
+      thresholds: [],
+      autoExtend: { amount: 2, before: 600 },
+      deliverBeforeDeadline: { before: 60 },
+    }, actions);
+    scheduler.track(job(300));
+
+    await scheduler.tick(NOW);
+    await scheduler.tick(NOW + 1_000);
+    assert.deepStrictEqual(calls.map(c => c.type), ['extend']);
+
+    await scheduler.tick(NOW + 250_000);
+    assert.deepStrictEqual(calls.map(c => c.type), ['extend', 'deliver']);
+    assert.strictEqual(scheduler.size, 0);
+  });
+
+  it('reports a missed deadline and re-arms after an extension', async () => {
+    const { calls, actions } = recorder();
+    const scheduler = new DeadlineScheduler({ thresholds: [60] }, actions);
+    scheduler.setDeadline('job-1', NOW + 30_000, 'session');
+
+    await scheduler.tick(NOW);
+    scheduler.setDeadline('job-1', NOW + 90_000, 'session');
+    await scheduler.tick(NOW + 40_000);
+    await scheduler.tick(NOW + 100_000);
+
+    assert.deepStrictEqual(calls.map(c => c.type), ['approaching', 'approaching', 'missed']);
+    assert.strictEqual(calls[2].data.source, 'session');
+  });
+});
@@ -0,0 +1,159 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { createHash } from 'node:crypto';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { createRequire } from 'node:module';
+const require = createRequire(import.meta.url);
+
+const { runDelivery, computeDeliveryHash, DeliveryError } = require('../dist/jobs/delivery.js');
+const { MemoryJobStore } = require('../dist/jobs/store.js');
+const { VAPError } = require('../dist/client/errors.js');
+
+const JOB = { id: 'job-1', jobHash: 'h1', status: 'in_progress' };
+
+function sha256(data: string): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+function tmpFiles(contents: Record<string, string>): string[] {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'vap-delivery-'));
+  return Object.entries(contents).map(([name, data]) => {
+    const file = path.join(dir, name);
+    fs.writeFileSync(file, data);
+    return file;
+  });
+}
+
+/** Client recording uploads and deliveries; `fail.upload[name]` / `fail.deliver` are thrown once */
+function fakeClient(fail: { upload?: Record<string, unknown>; deliver?: unknown } = {}) {
+  const uploads: string[] = [];
+  const deliveries: { deliveryHash: string; signature: string }[] = [];
+  return {
+    uploads,
+    deliveries,
+    uploadFile: async (_jobId: string, _bytes: Uint8Array, name: string) => {
+      if (fail.upload?.[name]) {
+        const err = fail.upload[name];
+        delete fail.upload[name];
+        throw err;
+      }
+      uploads.push(name);
+      return { id: `file-${name}` };
+    },
+    deliverJob: async (_jobId: string, deliveryHash: string, signature: string) => {
+      if (fail.deliver) {
+        const err = fail.deliver;
+        fail.deliver = undefined;
+        throw err;
+      }
+      deliveries.push({ deliveryHash, signature });
+      return {};
+    },
+    deliverMilestone: async () => ({}),
+  };
+}
+
+const sign = async (message: string) => `sig:${message}`;
+
+describe('Delivery pipeline', () => {
+  it('hashes the canonical JSON of the content and ordered file checksums', () => {
+    const checksums = [sha256('a'), sha256('b')];
+    assert.strictEqual(
+      computeDeliveryHash('done', checksums),
+      sha256(`{"content":"done","files":["${checksums[0]}","${checksums[1]}"]}`),
+    );
+    assert.strictEqual(computeDeliveryHash('done'), sha256('{"content":"done","files":[]}'));
+    assert.notStrictEqual(computeDeliveryHash('done', checksums), computeDeliveryHash('done', [...checksums].reverse()));
+  });
+
+  it('uploads files, signs the delivery and records it', async () => {
+    const files = tmpFiles({ 'a.txt': 'a', 'b.txt': 'b' });
+    const client = fakeClient();
+    const store = new MemoryJobStore();
+
+    const result = await runDelivery(JOB, { content: 'done', files }, { client, store, sign });
+    assert.strictEqual(result.deliveryHash, computeDeliveryHash('done', [sha256('a'), sha256('b')]));
+    assert.strictEqual(result.alreadyDelivered, false);
+    assert.deepStrictEqual(client.uploads, ['a.txt', 'b.txt']);
+    assert.strictEqual(client.deliveries.length, 1);
+    assert.match(client.deliveries[0].signature, new RegExp(`Delivery:${result.deliveryHash}`));
+
+    const again = await runDelivery(JOB, { content: 'done', files }, { client, store, sign });
+    assert.strictEqual(again.alreadyDelivered, true);
+    assert.strictEqual(client.deliveries.length, 1);
+  });
+
+  it('resumes after a partial upload without repeating finished uploads', async () => {
+    const files = tmpFiles({ 'a.txt': 'a', 'b.txt': 'b', 'c.txt': 'c' });
+    const client = fakeClient({ upload: { 'b.txt': new VAPError('Unavailable', 'UNAVAILABLE', 503) } });
+    const store = new MemoryJobStore();
+
+    await assert.rejects(
+      runDelivery(JOB, { content: 'done', files }, { client, store, sign }),
+      (err: any) => err instanceof DeliveryError && err.stage === 'upload' && err.retryable,
+    );
+    assert.deepStrictEqual(client.uploads, ['a.txt']);
+    assert.deepStrictEqual(Object.keys((await store.get('job-1')).deliveryFiles), [files[0]]);
+
+    const result = await runDelivery(JOB, { content: 'done', files }, { client, store, sign });
+    assert.deepStrictEqual(client.uploads, ['a.txt', 'b.txt', 'c.txt']);
+    assert.deepStrictEqual(result.files.map((f: any) => f.fileId), ['file-a.txt', 'file-b.txt', 'file-c.txt']);
+    assert.strictEqual(client.deliveries.length, 1);
+  });
+
+  it('re-uploads a file whose content changed since the failed attempt', async () => {
+    const files = tmpFiles({ 'a.txt': 'a', 'b.txt': 'b' });
+    const client = fakeClient({ deliver: new Error('socket hang up') });
+    const store = new MemoryJobStore();
+
+    await assert.rejects(runDelivery(JOB, { content: 'done', files }, { client, store, sign }), DeliveryError);
+    fs.writeFileSync(files[0], 'a2');
+    await runDelivery(JOB, { content: 'done', files }, { client, store, sign });
+    assert.deepStrictEqual(client.uploads, ['a.txt', 'b.txt', 'a.txt']);
+  });
+
+  it('records an earlier delivery the platform already accepted', async () => {
+    const client = fakeClient();
+    const store = new MemoryJobStore();
+    const deliveryHash = computeDeliveryHash('done');
+    const delivered = { ...JOB, status: 'delivered', delivery: { hash: deliveryHash } };
+
+    const result = await runDelivery(delivered, { content: 'done' }, { client, store, sign });
+    assert.strictEqual(result.alreadyDelivered, true);
+    assert.strictEqual(client.deliveries.length, 0);
+    assert.strictEqual((await store.get('job-1')).deliveryHash, deliveryHash);
+  });
+
+  it('classifies failures as retryable or not', async () => {
+    const cases: [unknown, string, boolean][] = [
+      [new Error('fetch failed'), 'deliver', true],
+      [new VAPError('Timeout', 'TIMEOUT', 408), 'deliver', true],
+      [new VAPError('Slow down', 'RATE_LIMITED', 429), 'deliver', true],
+      [new VAPError('Bad gateway', 'BAD_GATEWAY', 502), 'deliver', true],
+      [new VAPError('Bad signature', 'INVALID_SIGNATURE', 400), 'deliver', false],
+      [new VAPError('Forbidden', 'FORBIDDEN', 403), 'deliver', false],
+      ['not an error', 'deliver', false],
+    ];
+    for (const [thrown, stage, retryable] of cases) {
+      const client = fakeClient({ deliver: thrown });
+      await assert.rejects(
+        runDelivery(JOB, { content: 'done' }, { client, store: new MemoryJobStore(), sign }),
+        (err: any) => err instanceof DeliveryError && err.stage === stage && err.retryable === retryable && err.jobId === 'job-1',
+      );
+    }
+
+    await assert.rejects(
+      runDelivery(JOB, { content: 'done', files: ['/nonexistent/vap-delivery-file'] }, { client: fakeClient(), store: new MemoryJobStore(), sign }),
+      (err: any) => err instanceof DeliveryError && err.stage === 'read' && !err.retryable,
+    );
+
+    const mismatch = fakeClient();
+    mismatch.uploadFile = async () => ({ id: 'f', checksum: sha256('other') });
+    await assert.rejects(
+      runDelivery(JOB, { content: 'done', files: tmpFiles({ 'a.txt': 'a' }) }, { client: mismatch, store: new MemoryJobStore(), sign }),
+      (err: any) => err instanceof DeliveryError && err.stage === 'upload' && err.retryable && /Checksum mismatch/.test(err.message),
+    );
+  });
+});
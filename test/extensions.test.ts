@@ -0,0 +1,127 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { createRequire } from 'node:module';
+const require = createRequire(import.meta.url);
+
+const { ExtensionTracker } = require('../dist/jobs/extensions.js');
+const { MemoryJobStore } = require('../dist/jobs/store.js');
+const { VAPError } = require('../dist/client/errors.js');
+
+function ext(id: string, status: string, extra: Record<string, unknown> = {}) {
+  return { id, jobId: 'job-1', requester: 'buyer@', amount: 2, status, createdAt: '2025-01-01T00:00:00Z', ...extra };
+}
+
+const JOB = {
+  id: 'job-1', amount: 10, currency: 'VRSCTEST',
+  payment: { terms: 'prepay', platformFeeAddress: 'RFee', feeAmount: 0.5, verified: true, platformFeeVerified: true },
+};
+
+/** Decoded transactions: tx1 pays the agent 2, fee1 pays the platform 0.1 */
+const TXS: Record<string, { vout: number; address: string; satoshis: number }[]> = {
+  tx1: [{ vout: 0, address: 'RAgent', satoshis: 200000000 }],
+  fee1: [{ vout: 0, address: 'RFee', satoshis: 10000000 }],
+  short: [{ vout: 0, address: 'RAgent', satoshis: 100000000 }],
+  elsewhere: [{ vout: 0, address: 'RSomeoneElse', satoshis: 200000000 }],
+};
+
+function setup(options: { decision?: string; confirmations?: number; notFound?: boolean; verify?: boolean } = {}) {
+  const state = { extensions: [] as any[], approved: [] as string[], rejected: [] as string[], requested: 0, paid: 0, jobLoads: 0, problems: [] as string[] };
+  const client = {
+    getExtensions: async () => state.extensions,
+    approveExtension: async (_jobId: string, id: string) => { state.approved.push(id); return { id, status: 'approved' }; },
+    rejectExtension: async (_jobId: string, id: string) => { state.rejected.push(id); return { id, status: 'rejected' }; },
+    getTxStatus: async (txid: string) => {
+      if (options.notFound) throw new VAPError('Not found', 'NOT_FOUND', 404);
+      return { txid, confirmations: options.confirmations ?? 1, confirmed: true };
+    },
+  };
+  const tracker = new ExtensionTracker(client, new MemoryJobStore(), {
+    requested: async () => { state.requested++; return options.decision ?? 'approve'; },
+    paid: async () => { state.paid++; },
+    paymentProblem: (_job: unknown, _ext: unknown, problem: string) => { state.problems.push(problem); },
+  }, {
+    self: () => ['seller@', null],
+    getTransaction: options.verify === false ? undefined : async (txid: string) => ({ txid, outputs: TXS[txid] }),
+    addresses: async () => ['RAgent'],
+  });
+  const loadJob = async () => { state.jobLoads++; return JOB; };
+  return { state, tracker, loadJob };
+}
+
+describe('Extension tracker', () => {
+  it('decides a buyer request once', async () => {
+    const { state, tracker, loadJob } = setup();
+    state.extensions = [ext('e1', 'pending')];
+    await tracker.check('job-1', loadJob);
+    await tracker.check('job-1', loadJob);
+    assert.strictEqual(state.requested, 1);
+    assert.deepStrictEqual(state.approved, ['e1']);
+  });
+
+  it('asks again for held requests and ignores the agent\'s own', async () => {
+    const { state, tracker, loadJob } = setup({ decision: 'hold' });
+    state.extensions = [ext('e1', 'pending'), ext('e2', 'pending', { requester: 'seller@' })];
+    await tracker.check('job-1', loadJob);
+    await tracker.check('job-1', loadJob);
+    assert.strictEqual(state.requested, 2);
+    assert.deepStrictEqual(state.approved, []);
+  });
+
+  it('reports a payment once it is confirmed', async () => {
+    const pending = setup({ confirmations: 0 });
+    pending.state.extensions = [ext('e1', 'paid', { agentTxid: 'tx1', feeTxid: 'fee1' })];
+    await pending.tracker.check('job-1', pending.loadJob);
+    assert.strictEqual(pending.state.paid, 0);
+
+    const confirmed = setup({ confirmations: 1 });
+    confirmed.state.extensions = [ext('e1', 'paid', { agentTxid: 'tx1', feeTxid: 'fee1' })];
+    await confirmed.tracker.check('job-1', confirmed.loadJob);
+    await confirmed.tracker.check('job-1', confirmed.loadJob);
+    assert.strictEqual(confirmed.state.paid, 1);
+  });
+
+  it('keeps a payment the node does not know yet pending', async () => {
+    const { state, tracker, loadJob } = setup({ notFound: true });
+    state.extensions = [ext('e1', 'paid', { agentTxid: 'tx1', feeTxid: 'fee1' })];
+    await tracker.check('job-1', loadJob);
+    assert.strictEqual(state.paid, 0);
+    assert.deepStrictEqual(state.problems, []);
+  });
+
+  it('does not report a confirmed payment with the wrong amount, address or fee', async () => {
+    const cases: [Record<string, unknown>, RegExp][] = [
+      [{ agentTxid: 'short', feeTxid: 'fee1' }, /pays 1 VRSCTEST to this agent, extension amount is 2/],
+      [{ agentTxid: 'elsewhere', feeTxid: 'fee1' }, /pays 0 VRSCTEST to this agent/],
+      [{ agentTxid: 'tx1', feeTxid: 'short' }, /extension fee short pays 0 VRSCTEST, fee is 0\.1/],
+    ];
+    for (const [txids, problem] of cases) {
+      const { state, tracker, loadJob } = setup();
+      state.extensions = [ext('e1', 'paid', txids)];
+      await tracker.check('job-1', loadJob);
+      await tracker.check('job-1', loadJob);
+      assert.strictEqual(state.paid, 0);
+      assert.strictEqual(state.problems.length, 1, 'each problem is reported once');
+      assert.match(state.problems[0], problem);
+    }
+
+    const missingFee = setup();
+    missingFee.state.extensions = [ext('e1', 'paid', { agentTxid: 'tx1' })];
+    await missingFee.tracker.check('job-1', missingFee.loadJob);
+    assert.strictEqual(missingFee.state.paid, 0);
+  });
+
+  it('reports no payment without getTransaction', async () => {
+    const { state, tracker, loadJob } = setup({ verify: false });
+    state.extensions = [ext('e1', 'paid', { agentTxid: 'tx1', feeTxid: 'fee1' })];
+    await tracker.check('job-1', loadJob);
+    assert.strictEqual(state.paid, 0);
+    assert.match(state.problems[0], /getTransaction/);
+  });
+
+  it('does not load the job when nothing needs a hook', async () => {
+    const { state, tracker, loadJob } = setup();
+    state.extensions = [ext('e1', 'rejected')];
+    await tracker.check('job-1', loadJob);
+    assert.strictEqual(state.jobLoads, 0);
+  });
+});
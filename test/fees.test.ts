@@ -0,0 +1,39 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { createRequire } from 'node:module';
+const require = createRequire(import.meta.url);
+
+const { estimateTxSize, estimateFee, computeFee, draftTxSize, feeRateFromChainInfo, memoOutputSize, DEFAULT_FEE } = require('../dist/tx/fees.js');
+
+describe('Fee estimation', () => {
+  it('sizes P2PKH transactions with an optional memo', () => {
+    assert.strictEqual(estimateTxSize({ inputs: 1, outputs: 2 }), 27 + 1 + 148 + 1 + 68);
+    assert.strictEqual(memoOutputSize(64), 8 + 1 + 66);
+    assert.strictEqual(estimateTxSize({ inputs: 1, outputs: 2, memoBytes: 64 }), estimateTxSize({ inputs: 1, outputs: 2 }) + 75);
+  });
+
+  it('scales with size but never drops below DEFAULT_FEE', () => {
+    assert.strictEqual(estimateFee(250), DEFAULT_FEE);
+    assert.strictEqual(estimateFee(30 * 148), 44_400);
+    assert.strictEqual(estimateFee(250, 100), 25_000);
+  });
+
+  it('sizes drafts from script lengths', () => {
+    assert.strictEqual(draftTxSize([107], [25, 25]), estimateTxSize({ inputs: 1, outputs: 2 }));
+    // a 300-byte script needs a 3-byte length prefix
+    assert.strictEqual(draftTxSize([200], [300]) - draftTxSize([200], [0]), 300 + 2);
+  });
+
+  it('applies a fee policy and reports the breakdown', () => {
+    const fee = computeFee(2000, { inputs: 10, outputs: 2 }, { feeRate: 20 });
+    assert.deepStrictEqual(fee, { size: 2000, inputs: 10, outputs: 2, feeRate: 20, sizeFee: 40_000, minFee: DEFAULT_FEE, fee: 40_000 });
+    assert.strictEqual(computeFee(200, { inputs: 1, outputs: 1 }, { minFee: 5000 }).fee, 5000);
+    assert.throws(() => computeFee(2000, { inputs: 10, outputs: 2 }, { maxFee: 15_000 }), /exceeds maxFee 15000/);
+  });
+
+  it('derives the fee rate from chain info', () => {
+    assert.strictEqual(feeRateFromChainInfo({ relayFee: 0.0001, payTxFee: 0 }), 10);
+    assert.strictEqual(feeRateFromChainInfo({ relayFee: 0.0001, payTxFee: 0.0005 }), 50);
+    assert.strictEqual(feeRateFromChainInfo({ relayFee: 0, payTxFee: 0 }), 10);
+  });
+});
@@ -50,3 +50,272 @@ describe('Identity — Signer & Keys', () => {
     assert.ok(sdkKp.pubkey.startsWith('02') || sdkKp.pubkey.startsWith('03'));
   });
 });
+
+describe('Identity — Verification & Decoding', () => {
+  const { signChallenge } = require('../dist/identity/signer.js');
+  const { verifyMessage, verifyMessageDetailed } = require('../dist/identity/verify.js');
+  const { decodeTransaction } = require('../dist/tx/decode.js');
+  const { buildPayment } = require('../dist/tx/payment.js');
+  const I_ADDRESS = 'iJhCezBExJHvtyH3fGhNnt2NhU4Ztkf2yq';
+
+  it('verifies legacy signatures from signMessage', () => {
+    const kp = generateKeypair('verustest');
+    const other = generateKeypair('verustest');
+    const sig = signMessage(kp.wif, 'VAP-ACCEPT|Job:abc', 'verustest');
+    assert.deepStrictEqual(verifyMessageDetailed(kp.address, 'VAP-ACCEPT|Job:abc', sig), { valid: true, format: 'legacy', address: kp.address });
+    assert.strictEqual(verifyMessage(kp.address, 'VAP-ACCEPT|Job:abd', sig), false);
+    assert.strictEqual(verifyMessage(other.address, 'VAP-ACCEPT|Job:abc', sig), false);
+    assert.strictEqual(verifyMessage(kp.address, 'VAP-ACCEPT|Job:abc', sig, { format: 'identity' }), false);
+  });
+
+  it('verifies identity signatures for an i-address via its primary addresses', () => {
+    const kp = generateKeypair('verustest');
+    const sig = signChallenge(kp.wif, 'login challenge', I_ADDRESS, 'verustest');
+    const result = verifyMessageDetailed(I_ADDRESS, 'login challenge', sig, { primaryAddresses: [kp.address] });
+    assert.strictEqual(result.valid, true);
+    assert.strictEqual(result.format, 'identity');
+    assert.strictEqual(verifyMessage(I_ADDRESS, 'other challenge', sig, { primaryAddresses: [kp.address] }), false);
+    assert.throws(() => verifyMessage(I_ADDRESS, 'login challenge', sig), /Primary addresses/);
+  });
+
+  it('decodes a payment before broadcast', () => {
+    const kp = generateKeypair('verustest');
+    const recipient = generateKeypair('verustest');
+    const utxos = [{ txid: 'a'.repeat(64), vout: 1, satoshis: 100_000_000, height: 1 }];
+    const rawhex = buildPayment({ wif: kp.wif, toAddress: recipient.address, amount: 0.5, utxos, network: 'verustest' });
+
+    const tx = decodeTransaction(rawhex, 'verustest');
+    assert.deepStrictEqual(tx.inputs.map((i: { txid: string; vout: number }) => [i.txid, i.vout]), [['a'.repeat(64), 1]]);
+    assert.strictEqual(tx.outputs[0].address, recipient.address);
+    assert.strictEqual(tx.outputs[0].satoshis, 50_000_000);
+    assert.strictEqual(tx.outputs[1].address, kp.address);
+    assert.strictEqual(tx.identityOutput, null);
+    assert.throws(() => decodeTransaction('00'), /Invalid transaction hex/);
+  });
+});
+
+describe('Identity — Pluggable Signers', () => {
+  const { LocalWifSigner, signMessage: sign, signChallenge } = require('../dist/identity/signer.js');
+  const { buildPayment } = require('../dist/tx/payment.js');
+  const { signAttestation, generateAttestationPayload } = require('../dist/privacy/attestation.js');
+
+  it('LocalWifSigner signs exactly like the WIF functions', async () => {
+    const kp = generateKeypair('verustest');
+    const signer = new LocalWifSigner(kp.wif, 'verustest');
+    assert.strictEqual(await signer.getPublicKey(), kp.pubkey);
+    assert.strictEqual(await sign(signer, 'hello'), sign(kp.wif, 'hello', 'verustest'));
+    assert.strictEqual(
+      await signChallenge(signer, 'challenge', kp.address),
+      signChallenge(kp.wif, 'challenge', kp.address, 'verustest'),
+    );
+  });
+
+  it('builds the same payment from a Signer as from its WIF', async () => {
+    const kp = generateKeypair('verustest');
+    const recipient = generateKeypair('verustest');
+    const utxos = [
+      { txid: 'a'.repeat(64), vout: 0, satoshis: 30_000_000, height: 1 },
+      { txid: 'b'.repeat(64), vout: 2, satoshis: 40_000_000, height: 1 },
+    ];
+    const params = { toAddress: recipient.address, amount: 0.5, utxos, network: 'verustest' };
+
+    const fromWif = buildPayment({ ...params, wif: kp.wif });
+    const fromSigner = await buildPayment({ ...params, signer: new LocalWifSigner(kp.wif, 'verustest') });
+    assert.strictEqual(fromSigner, fromWif);
+    assert.throws(() => buildPayment({ ...params }), /wif or signer is required/);
+  });
+
+  it('signs attestations with a Signer', async () => {
+    const kp = generateKeypair('verustest');
+    const payload = generateAttestationPayload({
+      jobId: 'job-1', containerId: 'c1', createdAt: '2025-01-01T00:00:00Z', destroyedAt: '2025-01-01T01:00:00Z', attestedBy: 'a@',
+    });
+    const attestation = await signAttestation(payload, new LocalWifSigner(kp.wif));
+    assert.deepStrictEqual(attestation, signAttestation(payload, kp.wif));
+  });
+});
+
+describe('Identity — Multisig & Partial Transactions', () => {
+  const { buildBatchPayment, createPartialPayment } = require('../dist/tx/payment.js');
+  const { buildIdentityUpdateTx, createPartialIdentityUpdate, multisigPrimaries } = require('../dist/identity/update.js');
+  const { decodeTransaction } = require('../dist/tx/decode.js');
+  const { Identity, IdentityScript } = require('verus-typescript-primitives');
+  const SYSTEM = 'iJhCezBExJHvtyH3fGhNnt2NhU4Ztkf2yq';
+  const {
+    signPartialTransaction,
+    combinePartialTransactions,
+    partialTransactionStatus,
+    finalizePartialTransaction,
+    serializePartialTransaction,
+    parsePartialTransaction,
+  } = require('../dist/tx/partial.js');
+  const { LocalWifSigner } = require('../dist/identity/signer.js');
+
+  const utxos = [
+    { txid: 'c'.repeat(64), vout: 0, satoshis: 30_000_000, height: 1 },
+    { txid: 'd'.repeat(64), vout: 1, satoshis: 40_000_000, height: 1 },
+  ];
+
+  it('validates multisig primary addresses', () => {
+    const [a, b, c] = [generateKeypair(), generateKeypair(), generateKeypair()].map(kp => kp.address);
+    assert.deepStrictEqual(multisigPrimaries([a, b, c], 2), { primaryaddresses: [a, b, c], minimumsignatures: 2 });
+    assert.throws(() => multisigPrimaries([a, b], 3), /Cannot require 3 of 2/);
+    assert.throws(() => multisigPrimaries([a, a], 1), /must not repeat/);
+    assert.throws(() => multisigPrimaries([a, 'iExampleIdentityAddress1234567890'], 1), /must be an R-address/);
+  });
+
+  it('refuses to single-sign an identity that needs more signatures', () => {
+    const kp = generateKeypair('verustest');
+    const identityData = {
+      identity: { name: 'team', primaryaddresses: [kp.address, generateKeypair().address], minimumsignatures: 2 },
+      txid: null,
+      blockHeight: 100,
+      prevOutput: { txid: 'e'.repeat(64), vout: 0, scriptHex: '', value: 0 },
+    };
+    assert.throws(
+      () => buildIdentityUpdateTx({ wif: kp.wif, identityData, utxos, vdxfAdditions: {} }),
+      /needs 2 signatures; use createPartialIdentityUpdate/,
+    );
+  });
+
+  it('finalizes a partial payment into the same transaction as buildBatchPayment', async () => {
+    const kp = generateKeypair('verustest');
+    const recipient = generateKeypair('verustest');
+    const outputs = [{ address: recipient.address, amount: 0.5 }];
+
+    const { partial } = createPartialPayment({ from: { address: kp.address }, outputs, utxos, network: 'verustest' });
+    assert.strictEqual(partialTransactionStatus(partial).complete, false);
+    assert.throws(() => finalizePartialTransaction(partial), /not fully signed/);
+
+    const bySigner = await signPartialTransaction(partial, new LocalWifSigner(kp.wif, 'verustest'));
+    const byWif = signPartialTransaction(parsePartialTransaction(serializePartialTransaction(partial)), kp.wif);
+    assert.deepStrictEqual(bySigner, byWif);
+    assert.strictEqual(partialTransactionStatus(byWif).complete, true);
+    assert.strictEqual(
+      finalizePartialTransaction(combinePartialTransactions(partial, byWif)),
+      buildBatchPayment({ wif: kp.wif, outputs, utxos, network: 'verustest' }).rawhex,
+    );
+  });
+
+  it('collects 2 of 3 signatures for a multisig identity update', () => {
+    const [a, b, c] = [generateKeypair('verustest'), generateKeypair('verustest'), generateKeypair('verustest')];
+    const identity = {
+      version: 3,
+      flags: 0,
+      name: 'team',
+      parent: SYSTEM,
+      systemid: SYSTEM,
+      primaryaddresses: [a.address, b.address, c.address],
+      minimumsignatures: 2,
+      revocationauthority: SYSTEM,
+      recoveryauthority: SYSTEM,
+      contentmap: {},
+      contentmultimap: {},
+      timelock: 0,
+    };
+    const scriptHex = IdentityScript.fromIdentity(Identity.fromJson(identity)).toBuffer().toString('hex');
+    const identityData = {
+      identity,
+      txid: 'e'.repeat(64),
+      blockHeight: 100,
+      prevOutput: { txid: 'e'.repeat(64), vout: 0, scriptHex, value: 0 },
+    };
+
+    const partial = createPartialIdentityUpdate({ identityData, utxos, fundingAddress: a.address, vdxfAdditions: {} });
+    const identityInput = partial.inputs.length - 1;
+    assert.strictEqual(partial.inputs[identityInput].required, 2);
+
+    const byA = signPartialTransaction(partial, a.wif);
+    const afterA = partialTransactionStatus(byA);
+    assert.strictEqual(afterA.complete, false);
+    assert.strictEqual(afterA.inputs[identityInput].signed, 1);
+    assert.deepStrictEqual(afterA.inputs[identityInput].pending, [b.address, c.address]);
+    assert.throws(() => finalizePartialTransaction(byA), /input \d+ has 1\/2/);
+
+    const all = combinePartialTransactions(byA, signPartialTransaction(partial, c.wif));
+    assert.strictEqual(partialTransactionStatus(all).complete, true);
+    const tx = decodeTransaction(finalizePartialTransaction(all), 'verustest');
+    assert.strictEqual(tx.inputs.length, partial.inputs.length);
+    assert.ok(tx.inputs.every((input: { scriptSig: string }) => input.scriptSig.length > 0));
+  });
+
+  it('refuses signatures from non-signers or over another transaction', () => {
+    const kp = generateKeypair('verustest');
+    const stranger = generateKeypair('verustest');
+    const outputs = [{ address: generateKeypair('verustest').address, amount: 0.5 }];
+    const { partial } = createPartialPayment({ from: { address: kp.address }, outputs, utxos, network: 'verustest' });
+    const byStranger = signPartialTransaction(
+      createPartialPayment({ from: { address: stranger.address }, outputs, utxos, network: 'verustest' }).partial,
+      stranger.wif,
+    );
+
+    // A stranger's signature doesn't count towards completion
+    const withStranger = {
+      ...partial,
+      inputs: partial.inputs.map((input, i) => ({ ...input, signatures: byStranger.inputs[i].signatures })),
+    };
+    assert.strictEqual(partialTransactionStatus(withStranger).complete, false);
+    assert.throws(() => combinePartialTransactions(partial, withStranger), /is not a signer of input 0/);
+
+    // A signer's signature over another transaction is refused
+    const byKp = signPartialTransaction(partial, kp.wif);
+    const other = signPartialTransaction(
+      createPartialPayment({ from: { address: kp.address }, outputs: [{ ...outputs[0], amount: 0.4 }], utxos, network: 'verustest' }).partial,
+      kp.wif,
+    );
+    const forged = {
+      ...byKp,
+      inputs: byKp.inputs.map((input, i) => ({ ...input, signatures: other.inputs[i].signatures })),
+    };
+    assert.throws(() => combinePartialTransactions(partial, forged), /does not match the transaction/);
+    assert.throws(() => finalizePartialTransaction(forged), /does not match input 0/);
+  });
+
+  it('rejects keys that are not signers and malformed partials', () => {
+    const kp = generateKeypair('verustest');
+    const { partial } = createPartialPayment({
+      from: { address: kp.address },
+      outputs: [{ address: generateKeypair().address, amount: 0.1 }],
+      utxos,
+    });
+    assert.throws(() => signPartialTransaction(partial, generateKeypair().wif), /is not a signer of any input/);
+    assert.throws(() => parsePartialTransaction('{"format":"psbt"}'), /Not a partial transaction/);
+    assert.throws(() => parsePartialTransaction('not json'), /not valid JSON/);
+    assert.throws(
+      () => createPartialPayment({ from: { address: 'iExampleIdentityAddress1234567890' }, outputs: [], utxos }),
+      /Output script of .* is required/,
+    );
+  });
+});
+
+describe('Identity — Rotation, Revocation & Recovery', () => {
+  const {
+    buildIdentityUpdateTx,
+    buildRevokeIdentityTx,
+    isIdentityRevoked,
+    IDENTITY_FLAG_REVOKED,
+  } = require('../dist/identity/update.js');
+
+  const kp = generateKeypair('verustest');
+  const identityData = (flags) => ({
+    identity: { name: 'agent', primaryaddresses: [kp.address], minimumsignatures: 1, flags },
+    txid: null,
+    blockHeight: 100,
+    prevOutput: { txid: 'f'.repeat(64), vout: 0, scriptHex: '', value: 0 },
+  });
+  const utxos = [{ txid: 'a'.repeat(64), vout: 0, satoshis: 1_000_000, height: 1 }];
+
+  it('detects revoked identities from their flags', () => {
+    assert.strictEqual(isIdentityRevoked(identityData(0)), false);
+    assert.strictEqual(isIdentityRevoked(identityData(IDENTITY_FLAG_REVOKED)), true);
+  });
+
+  it('refuses to update or re-revoke a revoked identity', () => {
+    const revoked = identityData(IDENTITY_FLAG_REVOKED);
+    assert.throws(
+      () => buildIdentityUpdateTx({ wif: kp.wif, identityData: revoked, utxos, vdxfAdditions: {} }),
+      /is revoked; recover it/,
+    );
+    assert.throws(() => buildRevokeIdentityTx({ wif: kp.wif, identityData: revoked, utxos }), /already revoked/);
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { createRequire } from 'node:module';
+const require = createRequire(import.meta.url);
+
+const { Keystore, encryptKey, decryptKey, unlockKeystoreRef } = require('../dist/identity/keystore.js');
+const { generateKeypair } = require('../dist/identity/keypair.js');
+
+// Cheap scrypt parameters keep the tests fast
+const FAST = { scrypt: { n: 1024, r: 8, p: 1 } };
+
+function tmpFile(): string {
+  return path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'vap-keystore-')), 'keys.json');
+}
+
+describe('Keystore', () => {
+  it('round-trips a key through encryptKey/decryptKey and rejects a wrong passphrase', () => {
+    const data = encryptKey('UwifExample', 'correct horse', FAST.scrypt);
+    assert.strictEqual(data.kdf, 'scrypt');
+    assert.strictEqual(data.cipher, 'aes-256-gcm');
+    assert.ok(!data.ciphertext.includes(Buffer.from('UwifExample').toString('hex')));
+    assert.strictEqual(decryptKey(data, 'correct horse'), 'UwifExample');
+    assert.throws(() => decryptKey(data, 'wrong'), /Wrong passphrase/);
+  });
+
+  it('stores multiple named keys without writing the WIF in plaintext', () => {
+    const file = tmpFile();
+    const seller = generateKeypair('verustest');
+    const buyer = generateKeypair('verustest');
+    const keystore = new Keystore(file, FAST);
+
+    const entry = keystore.add('seller', seller.wif, 'pw1', { identity: 'seller.agentplatform@' });
+    keystore.add('buyer', buyer.wif, 'pw2');
+    assert.strictEqual(entry.address, seller.address);
+    assert.strictEqual(entry.identity, 'seller.agentplatform@');
+    assert.throws(() => keystore.add('seller', seller.wif, 'pw1'), /already exists/);
+
+    const raw = fs.readFileSync(file, 'utf8');
+    assert.ok(!raw.includes(seller.wif) && !raw.includes(buyer.wif));
+    assert.strictEqual(fs.statSync(file).mode & 0o777, 0o600);
+
+    const reopened = new Keystore(file);
+    assert.deepStrictEqual(reopened.names, ['seller', 'buyer']);
+    assert.strictEqual(reopened.unlock('seller', 'pw1'), seller.wif);
+    assert.strictEqual(reopened.unlock('buyer', 'pw2'), buyer.wif);
+    assert.throws(() => reopened.unlock('buyer', 'pw1'), /Wrong passphrase/);
+  });
+
+  it('changes passphrases and removes keys', () => {
+    const keystore = new Keystore(tmpFile(), FAST);
+    const kp = generateKeypair('verustest');
+    keystore.add('a', kp.wif, 'old');
+    keystore.changePassphrase('a', 'old', 'new');
+    assert.throws(() => keystore.unlock('a', 'old'), /Wrong passphrase/);
+    assert.strictEqual(keystore.unlock('a', 'new'), kp.wif);
+    assert.strictEqual(keystore.remove('a'), true);
+    assert.strictEqual(keystore.entry('a'), null);
+  });
+
+  it('migrates a plaintext key file and resolves keystore references', () => {
+    const file = tmpFile();
+    const kp = generateKeypair('verustest');
+    const legacy = path.join(path.dirname(file), '.vap-keys.json');
+    fs.writeFileSync(legacy, JSON.stringify({ ...kp, network: 'verustest', identity: 'old.agentplatform@', iAddress: 'iOld' }));
+
+    const keystore = new Keystore(file, FAST);
+    keystore.importPlaintext(legacy, 'default', 'pw');
+
+    const { wif, entry } = unlockKeystoreRef({ keystore: file, name: 'default', passphrase: 'pw' });
+    assert.strictEqual(wif, kp.wif);
+    assert.strictEqual(entry.identity, 'old.agentplatform@');
+    assert.strictEqual(entry.iAddress, 'iOld');
+    assert.throws(() => unlockKeystoreRef({ keystore, name: 'missing', passphrase: 'pw' }), /No key "missing"/);
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { createRequire } from 'node:module';
+const require = createRequire(import.meta.url);
+
+const messages = require('../dist/signing/messages.js');
+const { parseMessage, buildMessage, MESSAGE_FORMAT_VERSION } = messages;
+
+const TS = 1767225600;
+
+const SAMPLES = [
+  { type: 'accept', params: { jobHash: 'abc123', buyerVerusId: 'buyer.agentplatform@', amount: '5', currency: 'VRSCTEST', timestamp: TS } },
+  { type: 'deliver', params: { jobHash: 'abc123', deliveryHash: 'f'.repeat(64), timestamp: TS } },
+  { type: 'deliver', params: { jobHash: 'abc123', milestone: 2, deliveryHash: 'f'.repeat(64), timestamp: TS } },
+  { type: 'complete', params: { jobHash: 'abc123', deliveryHash: 'f'.repeat(64), timestamp: TS } },
+  { type: 'dispute', params: { jobHash: 'abc123', reason: 'Missing part 2 | wrong format', timestamp: TS } },
+  { type: 'cancel', params: { jobHash: 'abc123', reason: '', timestamp: TS } },
+  { type: 'extension', params: { jobHash: 'abc123', amount: '1.5', currency: 'VRSCTEST', reason: 'More pages', timestamp: TS } },
+  { type: 'deactivate', params: { verusId: 'myagent.agentplatform@', timestamp: TS } },
+  { type: 'review', params: { agentVerusId: 'myagent.agentplatform@', jobHash: 'abc123', rating: 5, message: 'Great | fast', timestamp: TS } },
+  {
+    type: 'deletion',
+    params: {
+      attestedBy: 'myagent.agentplatform@', containerId: 'c1', createdAt: '2026-01-01T00:00:00.000Z',
+      dataVolumes: ['v1'], deletionMethod: 'container-destroy+volume-rm', destroyedAt: '2026-01-01T01:00:00.000Z', jobId: 'job-1',
+    },
+  },
+];
+
+/** Samples in a platform format (no version marker) */
+const PLATFORM = new Set([SAMPLES[0], SAMPLES[1], SAMPLES[SAMPLES.length - 1]]);
+
+describe('Signed message formats', () => {
+  for (const sample of SAMPLES) {
+    it(`round-trips ${sample.type}${'milestone' in sample.params ? ' (milestone)' : ''}`, () => {
+      const version = PLATFORM.has(sample) ? null : MESSAGE_FORMAT_VERSION;
+      const message = buildMessage({ ...sample, version });
+      const parsed = parseMessage(message);
+      assert.deepStrictEqual(parsed, { ...sample, version });
+      assert.strictEqual(buildMessage(parsed), message);
+    });
+  }
+
+  it('keeps the platform formats byte-for-byte', () => {
+    assert.strictEqual(
+      messages.buildAcceptMessage({ jobHash: 'h', buyerVerusId: 'b@', amount: 5, currency: 'VRSCTEST', timestamp: TS }),
+      `VAP-ACCEPT|Job:h|Buyer:b@|Amt:5 VRSCTEST|Ts:${TS}|I accept this job and commit to delivering the work.`,
+    );
+    assert.strictEqual(
+      messages.buildDeliverMessage({ jobHash: 'h', deliveryHash: 'd', timestamp: TS }),
+      `VAP-DELIVER|Job:h|Delivery:d|Ts:${TS}|I have delivered the work for this job.`,
+    );
+  });
+
+  it('marks SDK formats with their version and parses only known versions', () => {
+    const complete = messages.buildCompleteMessage({ jobHash: 'h', deliveryHash: 'd', timestamp: TS });
+    assert.ok(complete.startsWith(`VAP-COMPLETE|V:${MESSAGE_FORMAT_VERSION}|Job:h|`));
+    assert.strictEqual(parseMessage(complete.replace(`|V:${MESSAGE_FORMAT_VERSION}|`, '|V:99|')), null);
+    assert.strictEqual(parseMessage(complete.replace(`|V:${MESSAGE_FORMAT_VERSION}|`, '|')), null);
+    assert.throws(() => buildMessage({ ...SAMPLES[3], version: 99 }), /Unsupported message format version 99/);
+  });
+
+  it('rejects messages that match no format', () => {
+    assert.strictEqual(parseMessage('VAP-ACCEPT|Job:h|Ts:1|I accept this job.'), null);
+    assert.strictEqual(parseMessage('hello'), null);
+    assert.strictEqual(parseMessage('{"jobId":"job-1"}'), null);
+    // Deletion attestations only parse in canonical (sorted-key) form
+    const canonical = buildMessage({ ...SAMPLES[SAMPLES.length - 1], version: null });
+    const reordered = JSON.stringify(Object.fromEntries(Object.entries(JSON.parse(canonical)).reverse()));
+    assert.strictEqual(parseMessage(reordered), null);
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { createRequire } from 'node:module';
+const require = createRequire(import.meta.url);
+
+const { MilestoneTracker, validateMilestones } = require('../dist/jobs/milestones.js');
+const { MemoryJobStore } = require('../dist/jobs/store.js');
+const { buildDeliverMessage } = require('../dist/signing/messages.js');
+const { VAPError } = require('../dist/client/errors.js');
+
+const JOB = { id: 'job-1', amount: 0.3, currency: 'VRSCTEST', payment: { terms: 'split' } };
+
+function milestone(index: number, txid?: string) {
+  return { index, title: `Part ${index}`, amount: 0.1, status: txid ? 'paid' : 'delivered', txid, verified: !!txid };
+}
+
+describe('Milestones', () => {
+  it('requires tranches that add up to the job amount', () => {
+    validateMilestones(JOB, [{ title: 'a', amount: 0.1 }, { title: 'b', amount: 0.2 }]);
+    assert.throws(() => validateMilestones(JOB, [{ title: 'a', amount: 0.1 }]), /add up/);
+    assert.throws(() => validateMilestones(JOB, [{ title: 'a', amount: 0.3 }, { title: 'b', amount: 0 }]), /positive/);
+    assert.throws(() => validateMilestones(JOB, []), /at least one/);
+  });
+
+  it('signs the milestone index into partial deliveries', () => {
+    const params = { jobHash: 'h', deliveryHash: 'd', timestamp: 1 };
+    assert.ok(!buildDeliverMessage(params).includes('Milestone'));
+    assert.ok(buildDeliverMessage({ ...params, milestone: 0 }).includes('|Job:h|Milestone:0|Delivery:d|'));
+  });
+
+  it('reports each tranche once it is confirmed', async () => {
+    const confirmations: Record<string, number> = { tx0: 1, tx1: 0 };
+    const paid: number[] = [];
+    const store = new MemoryJobStore();
+    const tracker = new MilestoneTracker(
+      { getTxStatus: async (txid: string) => ({ txid, confirmations: confirmations[txid], confirmed: confirmations[txid] > 0 }) },
+      store,
+      { paid: async (_job: unknown, m: { index: number }) => { paid.push(m.index); } },
+    );
+    const job = { ...JOB, milestones: [milestone(0, 'tx0'), milestone(1, 'tx1'), milestone(2)] };
+
+    await tracker.check(job);
+    await tracker.check(job);
+    assert.deepStrictEqual(paid, [0]);
+    assert.strictEqual((await store.get('job-1')).milestones['1'].txid, 'tx1');
+
+    confirmations.tx1 = 2;
+    await tracker.check(job);
+    assert.deepStrictEqual(paid, [0, 1]);
+  });
+
+  it('treats a tranche txid the node does not know yet as unconfirmed', async () => {
+    let known = false;
+    const paid: number[] = [];
+    const store = new MemoryJobStore();
+    const tracker = new MilestoneTracker(
+      {
+        getTxStatus: async (txid: string) => {
+          if (!known) throw new VAPError('Not found', 'NOT_FOUND', 404);
+          return { txid, confirmations: 1, confirmed: true };
+        },
+      },
+      store,
+      { paid: async (_job: unknown, m: { index: number }) => { paid.push(m.index); } },
+    );
+    const job = { ...JOB, milestones: [milestone(0, 'tx0')] };
+
+    await tracker.check(job);
+    assert.deepStrictEqual(paid, []);
+    assert.strictEqual((await store.get('job-1')).milestones['0'].confirmations, 0);
+
+    known = true;
+    await tracker.check(job);
+    assert.deepStrictEqual(paid, [0]);
+  });
+
+  it('keeps a confirmed tranche with the wrong amount or address unpaid', async () => {
+    const outputs: Record<string, { vout: number; address: string; satoshis: number }[]> = {
+      short: [{ vout: 0, address: 'RAgent', satoshis: 9_000_000 }],
+      elsewhere: [{ vout: 0, address: 'RSomeoneElse', satoshis: 10_000_000 }],
+      good: [{ vout: 0, address: 'RAgent', satoshis: 4_000_000 }, { vout: 1, address: 'RAgent', satoshis: 6_000_000 }],
+    };
+    const paid: number[] = [];
+    const problems: string[] = [];
+    const store = new MemoryJobStore();
+    const tracker = new MilestoneTracker(
+      { getTxStatus: async (txid: string) => ({ txid, confirmations: 1, confirmed: true }) },
+      store,
+      {
+        paid: async (_job: unknown, m: { index: number }) => { paid.push(m.index); },
+        paymentProblem: (_job: unknown, _m: unknown, problem: string) => { problems.push(problem); },
+      },
+      { getTransaction: async (txid: string) => ({ txid, outputs: outputs[txid] }), addresses: async () => ['RAgent'] },
+    );
+    const job = { ...JOB, milestones: [milestone(0, 'short'), milestone(1, 'elsewhere'), milestone(2, 'good')] };
+
+    await tracker.check(job);
+    await tracker.check(job);
+    assert.deepStrictEqual(paid, [2]);
+    assert.strictEqual(problems.length, 2, 'each problem is reported once');
+    assert.match(problems[0], /tranche short pays 0\.09 VRSCTEST to this agent, milestone amount is 0\.1/);
+    assert.match(problems[1], /tranche elsewhere pays 0 VRSCTEST/);
+    assert.strictEqual((await store.get('job-1')).milestones['0'].paidAt, undefined);
+  });
+
+  it('requires the platform verified flag without getTransaction', async () => {
+    const paid: number[] = [];
+    const tracker = new MilestoneTracker(
+      { getTxStatus: async (txid: string) => ({ txid, confirmations: 1, confirmed: true }) },
+      new MemoryJobStore(),
+      { paid: async (_job: unknown, m: { index: number }) => { paid.push(m.index); } },
+    );
+    await tracker.check({ ...JOB, milestones: [{ ...milestone(0, 'tx0'), verified: false }, milestone(1, 'tx1')] });
+    assert.deepStrictEqual(paid, [1]);
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { createRequire } from 'node:module';
+const require = createRequire(import.meta.url);
+
+const { PaymentWatcher, requiresPayment } = require('../dist/jobs/payments.js');
+const { VAPError } = require('../dist/client/errors.js');
+
+const ACCEPTED = Date.parse('2025-01-01T12:00:00Z');
+
+function client(confirmations: Record<string, number>) {
+  return {
+    getTxStatus: async (txid: string) => {
+      if (!(txid in confirmations)) throw new VAPError('Not found', 'NOT_FOUND', 404);
+      return { txid, confirmations: confirmations[txid], confirmed: confirmations[txid] > 0 };
+    },
+  };
+}
+
+function job(payment: Record<string, unknown>) {
+  return { id: 'job-1', status: 'in_progress', amount: 5, currency: 'VRSCTEST', payment: { terms: 'prepay', ...payment } };
+}
+
+const SELLER = 'RSeller';
+const FEE_ADDRESS = 'RPlatformFee';
+
+/** getTransaction returning decoded outputs (address, satoshis) per txid */
+function transactions(outputs: Record<string, [string, number][]>) {
+  return async (txid: string) => ({
+    txid,
+    outputs: outputs[txid].map(([address, satoshis], vout) => ({ vout, address, satoshis, type: 'p2pkh', data: null })),
+  });
+}
+
+const PAID = { txid: 'pay', platformFeeTxid: 'fee', platformFeeAddress: FEE_ADDRESS, feeAmount: 0.25 };
+
+describe('Payment watcher', () => {
+  it('only applies to prepay jobs', () => {
+    assert.strictEqual(requiresPayment(job({})), true);
+    assert.strictEqual(requiresPayment(job({ terms: 'postpay' })), false);
+    assert.strictEqual(requiresPayment({ id: 'job-2' }), false);
+  });
+
+  it('confirms once payment and fee reach the confirmations', async () => {
+    const watcher = new PaymentWatcher(client({ pay: 2, fee: 1 }), { confirmations: 2 });
+    const pending = await watcher.check(job({ txid: 'pay', platformFeeTxid: 'fee', verified: true }), ACCEPTED, [SELLER], ACCEPTED);
+    assert.strictEqual(pending.state, 'pending');
+
+    const relaxed = new PaymentWatcher(client({ pay: 2 }), { confirmations: 2, requirePlatformFee: false });
+    const confirmed = await relaxed.check(job({ txid: 'pay', verified: true }), ACCEPTED, [SELLER], ACCEPTED);
+    assert.strictEqual(confirmed.state, 'confirmed');
+    assert.strictEqual(confirmed.payment.confirmations, 2);
+  });
+
+  it('treats unknown transactions as pending and times out', async () => {
+    const watcher = new PaymentWatcher(client({}), { timeoutMs: 60_000 });
+    const unpaid = job({ txid: 'missing' });
+    assert.strictEqual((await watcher.check(unpaid, ACCEPTED, [SELLER], ACCEPTED + 30_000)).state, 'pending');
+    assert.strictEqual((await watcher.check(unpaid, ACCEPTED, [SELLER], ACCEPTED + 61_000)).state, 'timeout');
+  });
+
+  it('checks the decoded outputs pay the job amount to the agent and the fee to the platform', async () => {
+    const check = (outputs: Record<string, [string, number][]>) =>
+      new PaymentWatcher(client({ pay: 1, fee: 1 }), { getTransaction: transactions(outputs) })
+        .check(job(PAID), ACCEPTED, [SELLER], ACCEPTED);
+
+    const paid = await check({ pay: [[SELLER, 500000000], ['RChange', 1]], fee: [[FEE_ADDRESS, 25000000]] });
+    assert.strictEqual(paid.state, 'confirmed');
+
+    // Payment and fee in the same transaction
+    const combined = await new PaymentWatcher(client({ pay: 1 }), {
+      getTransaction: transactions({ pay: [[SELLER, 500000000], [FEE_ADDRESS, 25000000]] }),
+    }).check(job({ ...PAID, platformFeeTxid: 'pay' }), ACCEPTED, [SELLER], ACCEPTED);
+    assert.strictEqual(combined.state, 'confirmed');
+
+    const elsewhere = await check({ pay: [['RSomeoneElse', 500000000]], fee: [[FEE_ADDRESS, 25000000]] });
+    assert.strictEqual(elsewhere.state, 'pending');
+    assert.match(elsewhere.problem, /pays 0 VRSCTEST to this agent, job amount is 5/);
+
+    const short = await check({ pay: [[SELLER, 499999999]], fee: [[FEE_ADDRESS, 25000000]] });
+    assert.match(short.problem, /pays 4\.99999999 VRSCTEST/);
+
+    const noFee = await check({ pay: [[SELLER, 500000000]], fee: [[SELLER, 25000000]] });
+    assert.strictEqual(noFee.state, 'pending');
+    assert.match(noFee.problem, /platform fee fee pays 0 VRSCTEST, fee is 0\.25/);
+  });
+
+  it('requires the platform verified flags without getTransaction and reports the problem on timeout', async () => {
+    const watcher = new PaymentWatcher(client({ pay: 1, fee: 1 }), { timeoutMs: 60_000 });
+    const unverified = await watcher.check(job(PAID), ACCEPTED, [SELLER], ACCEPTED);
+    assert.strictEqual(unverified.state, 'pending');
+    assert.match(unverified.problem, /payment not verified by the platform/);
+
+    const feeUnverified = await watcher.check(job({ ...PAID, verified: true }), ACCEPTED, [SELLER], ACCEPTED);
+    assert.match(feeUnverified.problem, /platform fee not verified/);
+
+    const verified = await watcher.check(job({ ...PAID, verified: true, platformFeeVerified: true }), ACCEPTED, [SELLER], ACCEPTED);
+    assert.strictEqual(verified.state, 'confirmed');
+
+    const late = await watcher.check(job(PAID), ACCEPTED, [SELLER], ACCEPTED + 61_000);
+    assert.strictEqual(late.state, 'timeout');
+    assert.match(late.problem, /payment not verified/);
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { createRequire } from 'node:module';
+const require = createRequire(import.meta.url);
+
+const { JobQueue, compareJobPriority } = require('../dist/jobs/queue.js');
+
+function makeJob(id: string, amount = 1, extra: Record<string, unknown> = {}) {
+  return { id, amount, status: 'in_progress', ...extra };
+}
+
+function deferred() {
+  let resolve!: () => void;
+  const promise = new Promise<void>(r => { resolve = r; });
+  return { promise, resolve };
+}
+
+describe('Job queue', () => {
+  it('runs at most maxConcurrentJobs and starts the highest priority next', async () => {
+    const queue = new JobQueue({ maxConcurrentJobs: 1, maxQueuedJobs: 5 });
+    const order: string[] = [];
+    const gate = deferred();
+
+    const first = queue.enqueue(makeJob('a', 1), async () => { order.push('a'); await gate.promise; });
+    const low = queue.enqueue(makeJob('b', 2), async () => { order.push('b'); });
+    const high = queue.enqueue(makeJob('c', 9), async () => { order.push('c'); });
+
+    assert.deepStrictEqual(queue.stats, { reserved: 0, queued: 2, running: 1 });
+    gate.resolve();
+    await first;
+    queue.release('a');
+    await high;
+    queue.release('c');
+    await low;
+    queue.release('b');
+    assert.deepStrictEqual(order, ['a', 'c', 'b']);
+    assert.deepStrictEqual(queue.stats, { reserved: 0, queued: 0, running: 0 });
+  });
+
+  it('keeps the slot after the task returns until the job is released', async () => {
+    const queue = new JobQueue({ maxConcurrentJobs: 1, maxQueuedJobs: 1 });
+    await queue.enqueue(makeJob('a'), async () => {});
+    assert.deepStrictEqual(queue.stats, { reserved: 0, queued: 0, running: 1 });
+
+    let startedB = false;
+    const b = queue.enqueue(makeJob('b'), async () => { startedB = true; });
+    await new Promise(resolve => setImmediate(resolve));
+    assert.strictEqual(startedB, false, 'waits while a still holds the slot');
+    assert.strictEqual(queue.hasCapacity(makeJob('c')), false);
+
+    assert.strictEqual(queue.release('a'), true);
+    await b;
+    assert.strictEqual(startedB, true);
+  });
+
+  it('frees a job released while its task runs once the task returns', async () => {
+    const queue = new JobQueue({ maxConcurrentJobs: 1 });
+    const gate = deferred();
+    const a = queue.enqueue(makeJob('a'), () => gate.promise);
+    assert.strictEqual(queue.release('a'), false);
+    assert.deepStrictEqual(queue.stats, { reserved: 0, queued: 0, running: 1 });
+    gate.resolve();
+    await a;
+    assert.deepStrictEqual(queue.stats, { reserved: 0, queued: 0, running: 0 });
+  });
+
+  it('reports no capacity once reservations fill the slots', () => {
+    const queue = new JobQueue({ maxConcurrentJobs: 2 });
+    queue.reserve(makeJob('a'));
+    assert.strictEqual(queue.hasCapacity(makeJob('b')), true);
+    queue.reserve(makeJob('b'));
+    assert.strictEqual(queue.hasCapacity(makeJob('c')), false);
+    assert.strictEqual(queue.hasCapacity(makeJob('a')), true, 'already committed jobs always fit');
+
+    queue.release('a');
+    assert.strictEqual(queue.hasCapacity(makeJob('c')), true);
+  });
+
+  it('applies per-service limits', async () => {
+    const queue = new JobQueue({ perServiceLimits: { gpu: 1 } });
+    queue.reserve(makeJob('a', 1, { serviceId: 'gpu' }));
+    assert.strictEqual(queue.hasCapacity(makeJob('b', 1, { serviceId: 'gpu' })), false);
+    assert.strictEqual(queue.hasCapacity(makeJob('c', 1, { serviceId: 'text' })), true);
+  });
+
+  it('emits depth changes', async () => {
+    const queue = new JobQueue();
+    const seen: unknown[] = [];
+    queue.onChange = (stats: unknown) => seen.push(stats);
+    await queue.enqueue(makeJob('a'), async () => {});
+    assert.deepStrictEqual(seen.at(-1), { reserved: 0, queued: 0, running: 1 });
+    queue.release('a');
+    assert.deepStrictEqual(seen.at(-1), { reserved: 0, queued: 0, running: 0 });
+  });
+
+  it('orders by amount, then earliest deadline', () => {
+    const soon = makeJob('a', 5, { deadline: '2025-01-01T00:00:00Z' });
+    const later = makeJob('b', 5, { deadline: '2025-02-01T00:00:00Z' });
+    const none = makeJob('c', 5);
+    const sorted = [none, later, soon].sort(compareJobPriority).map(j => j.id);
+    assert.deepStrictEqual(sorted, ['a', 'b', 'c']);
+  });
+});
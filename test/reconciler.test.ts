@@ -0,0 +1,97 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { createRequire } from 'node:module';
+const require = createRequire(import.meta.url);
+
+const { StatusReconciler } = require('../dist/jobs/reconciler.js');
+const { MemoryJobStore } = require('../dist/jobs/store.js');
+
+function makeJob(id: string, status: string, updatedAt = '2025-01-01T00:00:00Z') {
+  return { id, jobHash: `hash-${id}`, status, updatedAt };
+}
+
+function mockClient(jobs: Map<string, any>) {
+  return {
+    getMyJobs: async ({ status }: { status: string }) => ({
+      data: [...jobs.values()].filter(j => j.status === status),
+    }),
+    getJob: async (id: string) => jobs.get(id),
+  };
+}
+
+describe('Status reconciler', () => {
+  it('dispatches each transition once', async () => {
+    const jobs = new Map([['job-1', makeJob('job-1', 'in_progress')]]);
+    const store = new MemoryJobStore();
+    const seen: string[] = [];
+    const reconciler = new StatusReconciler(mockClient(jobs), store, async (t: any) => {
+      seen.push(`${t.previousStatus ?? '-'}>${t.status}`);
+    });
+
+    assert.strictEqual(await reconciler.reconcile(), 1);
+    assert.strictEqual(await reconciler.reconcile(), 0);
+
+    // Same transition reported by a push transport is a no-op
+    assert.strictEqual(await reconciler.observe(jobs.get('job-1')), false);
+    assert.deepStrictEqual(seen, ['->in_progress']);
+  });
+
+  it('follows tracked jobs that leave the active lists', async () => {
+    const jobs = new Map([['job-1', makeJob('job-1', 'delivered')]]);
+    const store = new MemoryJobStore();
+    const seen: string[] = [];
+    const reconciler = new StatusReconciler(mockClient(jobs), store, async (t: any) => {
+      seen.push(t.status);
+    });
+
+    await reconciler.reconcile();
+    jobs.set('job-1', makeJob('job-1', 'completed', '2025-01-02T00:00:00Z'));
+    await reconciler.reconcile();
+    await reconciler.reconcile();
+
+    assert.deepStrictEqual(seen, ['delivered', 'completed']);
+    assert.strictEqual((await store.get('job-1')).lastStatus, 'completed');
+  });
+
+  it('serializes concurrent observations and ignores stale snapshots', async () => {
+    const store = new MemoryJobStore();
+    const seen: string[] = [];
+    const reconciler = new StatusReconciler(mockClient(new Map()), store, async (t: any) => {
+      seen.push(t.status);
+    });
+
+    const newer = makeJob('job-1', 'delivered', '2025-01-02T00:00:00Z');
+    const older = makeJob('job-1', 'in_progress', '2025-01-01T00:00:00Z');
+    const results = await Promise.all([
+      reconciler.observe(newer),
+      reconciler.observe(newer),
+      reconciler.observe(older),
+    ]);
+
+    assert.deepStrictEqual(results, [true, false, false]);
+    assert.deepStrictEqual(seen, ['delivered']);
+  });
+
+  it('records a transition only after the handler succeeds', async () => {
+    const jobs = new Map([['job-1', makeJob('job-1', 'cancelled')]]);
+    const store = new MemoryJobStore();
+    await store.update('job-1', { decision: 'accepted', lastStatus: 'in_progress' });
+    let failures = 1;
+    const seen: string[] = [];
+    const reconciler = new StatusReconciler(mockClient(jobs), store, async (t: any) => {
+      seen.push(`${t.previousStatus}>${t.status}`);
+      if (failures-- > 0) throw new Error('hook failed');
+    });
+    const errors: Error[] = [];
+    reconciler.onError = (err: Error) => errors.push(err);
+
+    assert.strictEqual(await reconciler.reconcile(), 0);
+    assert.strictEqual(errors.length, 1);
+    assert.strictEqual((await store.get('job-1')).lastStatus, 'in_progress');
+
+    assert.strictEqual(await reconciler.reconcile(), 1);
+    assert.strictEqual(await reconciler.reconcile(), 0);
+    assert.deepStrictEqual(seen, ['in_progress>cancelled', 'in_progress>cancelled']);
+    assert.strictEqual((await store.get('job-1')).lastStatus, 'cancelled');
+  });
+});
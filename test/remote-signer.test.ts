@@ -0,0 +1,151 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { PassThrough } from 'node:stream';
+import { createRequire } from 'node:module';
+const require = createRequire(import.meta.url);
+
+const { RemoteSigner, serveSigner } = require('../dist/identity/remote-signer.js');
+const { LocalWifSigner } = require('../dist/identity/signer.js');
+const { generateKeypair } = require('../dist/identity/keypair.js');
+const { buildPayment, createPartialPayment } = require('../dist/tx/payment.js');
+const { inputSignatureHash, verifyInputSignature } = require('../dist/tx/sighash.js');
+const DIST = require.resolve('../dist/index.js');
+
+const key = generateKeypair('verustest');
+const utxos = [
+  { txid: 'a'.repeat(64), vout: 0, satoshis: 300_000_000, height: 1 },
+  { txid: 'b'.repeat(64), vout: 2, satoshis: 400_000_000, height: 1 },
+];
+
+/** Signer process serving `key`; refuses transactions paying more than 1 VRSC to anyone but itself */
+const SIGNER_SCRIPT = `
+const { LocalWifSigner, serveSigner, decodeTransaction } = require(${JSON.stringify(DIST)});
+serveSigner(new LocalWifSigner(${JSON.stringify(key.wif)}, 'verustest'), {
+  network: 'verustest',
+  authorize: (method, params) => method !== 'signTransactionInput'
+    || decodeTransaction(params.unsignedTx, 'verustest').outputs
+      .every(o => o.address === ${JSON.stringify(key.address)} || o.satoshis <= 100000000),
+});
+`;
+
+function remoteSigner(timeout?: number) {
+  return new RemoteSigner({ command: process.execPath, args: ['-e', SIGNER_SCRIPT], timeout });
+}
+
+/** Unsigned payment from `key` with its first input's spent script */
+function unsignedPayment(amount: number) {
+  const { partial } = createPartialPayment({
+    from: { address: key.address },
+    outputs: [{ address: generateKeypair('verustest').address, amount }],
+    utxos,
+    network: 'verustest',
+  });
+  return { unsignedTx: partial.tx, prevOutScript: partial.inputs[0].prevOutScript };
+}
+
+/** Send raw lines to serveSigner() and collect the parsed responses */
+async function exchange(
+  lines: string[],
+  count: number,
+  signer: object = {
+    getPublicKey: async () => 'pub',
+    signMessage: async () => 'sig',
+    signTransactionInput: async () => 'der',
+  },
+): Promise<{ id: number | null; result?: unknown; error?: { code: number; message: string } }[]> {
+  const input = new PassThrough();
+  const output = new PassThrough();
+  const stop = serveSigner(signer, { input, output, network: 'verustest' });
+  const responses: { id: number | null }[] = [];
+  const done = new Promise<void>((resolve) => {
+    output.on('data', (chunk: Buffer) => {
+      for (const line of chunk.toString().split('\n').filter(Boolean)) responses.push(JSON.parse(line));
+      if (responses.length >= count) resolve();
+    });
+  });
+  for (const line of lines) input.write(line + '\n');
+  await done;
+  stop();
+  return responses;
+}
+
+describe('Remote signer', () => {
+  it('forwards requests to the signer process over JSON-RPC', async () => {
+    const signer = remoteSigner();
+    const local = new LocalWifSigner(key.wif, 'verustest');
+    try {
+      assert.strictEqual(await signer.getPublicKey(), key.pubkey);
+      assert.strictEqual(await signer.signMessage('hello'), await local.signMessage('hello'));
+      const params = { toAddress: generateKeypair('verustest').address, amount: 0.5, utxos, network: 'verustest' };
+      assert.strictEqual(await buildPayment({ ...params, signer }), buildPayment({ ...params, wif: key.wif }));
+    } finally {
+      signer.close();
+    }
+  });
+
+  it('rejects requests refused by the signer policy', async () => {
+    const signer = remoteSigner();
+    try {
+      const params = { toAddress: generateKeypair('verustest').address, amount: 5, utxos, network: 'verustest' };
+      await assert.rejects(buildPayment({ ...params, signer }), /refused by signer policy/);
+    } finally {
+      signer.close();
+    }
+  });
+
+  it('signs the hash of the transaction it was shown, never a hash it is handed', async () => {
+    const benign = unsignedPayment(0.5);
+    const draining = unsignedPayment(6);
+    const drainingHash = inputSignatureHash({ ...draining, index: 0, value: utxos[0].satoshis, hashType: 1 }, key.pubkey, 'verustest');
+    const benignHash = inputSignatureHash({ ...benign, index: 0, value: utxos[0].satoshis, hashType: 1 }, key.pubkey, 'verustest');
+    const request = (id: number, extra: object) => JSON.stringify({
+      jsonrpc: '2.0', id, method: 'signTransactionInput',
+      params: { ...benign, index: 0, value: utxos[0].satoshis, hashType: 1, ...extra },
+    });
+
+    const responses = await exchange([
+      request(1, { hash: drainingHash.toString('hex') }),
+      request(2, {}),
+      request(3, { hashType: 2 }),
+    ], 3, new LocalWifSigner(key.wif, 'verustest'));
+    const byId = new Map(responses.map(r => [r.id, r]));
+    assert.match(byId.get(1)?.error?.message ?? '', /does not match the unsigned transaction/);
+    assert.ok(verifyInputSignature(key.pubkey, benignHash, byId.get(2)?.result as string));
+    assert.ok(!verifyInputSignature(key.pubkey, drainingHash, byId.get(2)?.result as string));
+    assert.match(byId.get(3)?.error?.message ?? '', /Only SIGHASH_ALL/);
+  });
+
+  it('refuses signatures that do not cover the requested input', async () => {
+    const benign = unsignedPayment(0.5);
+    const draining = unsignedPayment(6);
+    const local = new LocalWifSigner(key.wif, 'verustest');
+    // A signer that ignores the request and signs something else
+    const rogue = {
+      getPublicKey: () => local.getPublicKey(),
+      signMessage: () => local.signMessage(''),
+      signTransactionInput: (request: object) => local.signTransactionInput({ ...request, ...draining }),
+    };
+    const [response] = await exchange([JSON.stringify({
+      jsonrpc: '2.0', id: 1, method: 'signTransactionInput',
+      params: { ...benign, index: 0, value: utxos[0].satoshis, hashType: 1 },
+    })], 1, rogue);
+    assert.match(response.error?.message ?? '', /signature over a different transaction/);
+  });
+
+  it('fails pending requests when the signer process exits', async () => {
+    const signer = new RemoteSigner({ command: process.execPath, args: ['-e', 'process.exit(3)'] });
+    await assert.rejects(signer.getPublicKey(), /exited \(code 3\)/);
+  });
+
+  it('answers malformed and unknown requests with JSON-RPC errors', async () => {
+    const responses = await exchange([
+      'not json',
+      JSON.stringify({ jsonrpc: '2.0', id: 7, method: 'exportKey' }),
+      JSON.stringify({ jsonrpc: '2.0', id: 8, method: 'getPublicKey' }),
+    ], 3);
+    const byId = new Map(responses.map(r => [r.id, r]));
+    assert.strictEqual(byId.get(null)?.error?.code, -32700);
+    assert.strictEqual(byId.get(7)?.error?.code, -32601);
+    assert.strictEqual(byId.get(8)?.result, 'pub');
+  });
+});
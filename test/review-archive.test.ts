@@ -0,0 +1,138 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { createRequire } from 'node:module';
+const require = createRequire(import.meta.url);
+
+const {
+  planReviewCompaction,
+  reviewsFromContentMultimap,
+  readReviewAggregate,
+  reviewSummary,
+  reviewMerkleRoot,
+  buildReviewProof,
+  verifyArchivedReview,
+  FileReviewArchiveStore,
+  appendReviewPatch,
+} = require('../dist/identity/review-archive.js');
+const { applyContentMultimapPatch } = require('../dist/identity/content-patch.js');
+const { VDXF_KEYS, encodeVdxfValue } = require('../dist/onboarding/vdxf.js');
+
+const AGGREGATE_KEY = 'iAggregateKeyForTests111111111111';
+const R = VDXF_KEYS.review;
+
+/** contentmultimap with `n` reviews rated 1..5 in turn */
+function withReviews(n, offset = 0) {
+  const cmm = {};
+  for (let i = offset; i < offset + n; i++) {
+    const fields = { buyer: `buyer${i}@`, jobHash: `job-${i}`, rating: (i % 5) + 1, timestamp: 1700000000 + i };
+    for (const [field, value] of Object.entries(fields)) {
+      (cmm[R[field]] ||= []).push(encodeVdxfValue(value));
+    }
+  }
+  return cmm;
+}
+
+describe('Review Archival', () => {
+  it('reads reviews from the parallel review keys', () => {
+    const reviews = reviewsFromContentMultimap(withReviews(3));
+    assert.strictEqual(reviews.length, 3);
+    assert.strictEqual(reviews[2].jobHash, encodeVdxfValue('job-2'));
+    assert.strictEqual(reviews[0].message, undefined);
+  });
+
+  it('keeps sparse reviews apart by appending a value to every review key', () => {
+    let cmm = {};
+    cmm = applyContentMultimapPatch(cmm, appendReviewPatch({ buyer: encodeVdxfValue('a@'), message: encodeVdxfValue('Great') }));
+    cmm = applyContentMultimapPatch(cmm, appendReviewPatch({ buyer: encodeVdxfValue('b@'), rating: encodeVdxfValue(4) }));
+    const reviews = reviewsFromContentMultimap(cmm);
+    assert.deepStrictEqual(reviews, [
+      { buyer: encodeVdxfValue('a@'), message: encodeVdxfValue('Great') },
+      { buyer: encodeVdxfValue('b@'), rating: encodeVdxfValue(4) },
+    ]);
+
+    const compaction = planReviewCompaction({ contentmultimap: cmm, keep: 1, aggregateKey: AGGREGATE_KEY, archive: [] });
+    assert.deepStrictEqual(compaction.archived, [reviews[0]]);
+    assert.deepStrictEqual(reviewsFromContentMultimap(applyContentMultimapPatch(cmm, compaction.patch)), [reviews[1]]);
+  });
+
+  it('refuses review keys that are not parallel', () => {
+    const cmm = withReviews(3);
+    cmm[R.rating] = cmm[R.rating].slice(1);
+    assert.throws(() => reviewsFromContentMultimap(cmm), /different numbers of values/);
+    assert.throws(() => planReviewCompaction({ contentmultimap: cmm, keep: 1, aggregateKey: AGGREGATE_KEY, archive: [] }), /different numbers of values/);
+  });
+
+  it('keeps the newest reviews and folds the rest into the aggregate', () => {
+    const cmm = withReviews(7);
+    assert.strictEqual(planReviewCompaction({ contentmultimap: cmm, keep: 7, aggregateKey: AGGREGATE_KEY, archive: [] }), null);
+
+    const compaction = planReviewCompaction({ contentmultimap: cmm, keep: 2, aggregateKey: AGGREGATE_KEY, archive: [], now: 1 });
+    assert.strictEqual(compaction.archived.length, 5);
+    assert.deepStrictEqual(compaction.aggregate, {
+      version: 1,
+      count: 5,
+      ratedCount: 5,
+      ratingSum: 15,
+      meanRating: 3,
+      merkleRoot: reviewMerkleRoot(compaction.archive),
+      updatedAt: 1,
+    });
+
+    const after = applyContentMultimapPatch(cmm, compaction.patch);
+    assert.deepStrictEqual(reviewsFromContentMultimap(after).map(r => r.jobHash), [encodeVdxfValue('job-5'), encodeVdxfValue('job-6')]);
+    assert.deepStrictEqual(readReviewAggregate(after, AGGREGATE_KEY), compaction.aggregate);
+    assert.deepStrictEqual(reviewSummary(after, AGGREGATE_KEY), reviewSummary(cmm, AGGREGATE_KEY));
+  });
+
+  it('extends the archive across compactions and refuses a mismatched archive', () => {
+    const first = planReviewCompaction({ contentmultimap: withReviews(4), keep: 1, aggregateKey: AGGREGATE_KEY, archive: [] });
+    // Three more reviews arrive after the first compaction
+    const onChain = { ...applyContentMultimapPatch(withReviews(4), first.patch) };
+    const more = withReviews(3, 4);
+    for (const [key, values] of Object.entries(more)) onChain[key] = [...(onChain[key] || []), ...values];
+
+    // An archive saved for a compaction that never confirmed runs past the aggregate
+    const stale = [...first.archive, { jobHash: 'ff' }];
+    const second = planReviewCompaction({ contentmultimap: onChain, keep: 1, aggregateKey: AGGREGATE_KEY, archive: stale });
+    assert.strictEqual(second.aggregate.count, 6);
+    assert.deepStrictEqual(second.archive.slice(0, 3), first.archive);
+
+    assert.throws(
+      () => planReviewCompaction({ contentmultimap: onChain, keep: 1, aggregateKey: AGGREGATE_KEY, archive: [] }),
+      /does not match the on-chain Merkle root/,
+    );
+  });
+
+  it('proves every archived review against the root and rejects altered ones', () => {
+    for (const size of [1, 2, 5, 8]) {
+      const { archive, aggregate } = planReviewCompaction({
+        contentmultimap: withReviews(size + 1), keep: 1, aggregateKey: AGGREGATE_KEY, archive: [],
+      });
+      archive.forEach((review, index) => {
+        const proof = buildReviewProof(archive, index);
+        assert.strictEqual(verifyArchivedReview(review, proof, aggregate), true, `size ${size}, index ${index}`);
+        assert.strictEqual(verifyArchivedReview({ ...review, rating: encodeVdxfValue(5) }, proof, aggregate.merkleRoot), review.rating === encodeVdxfValue(5));
+      });
+    }
+    assert.throws(() => buildReviewProof([], 0), /No archived review at index 0/);
+  });
+
+  it('persists the archive to a file and refuses a corrupt one', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'vap-reviews-'));
+    try {
+      const file = path.join(dir, 'nested', 'reviews.json');
+      const store = new FileReviewArchiveStore(file);
+      assert.deepStrictEqual(await store.load(), []);
+      await store.save([{ jobHash: 'aa' }]);
+      assert.deepStrictEqual(await new FileReviewArchiveStore(file).load(), [{ jobHash: 'aa' }]);
+
+      fs.writeFileSync(file, '{not json');
+      await assert.rejects(() => store.load(), /is corrupt/);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
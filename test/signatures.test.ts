@@ -0,0 +1,91 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { createRequire } from 'node:module';
+const require = createRequire(import.meta.url);
+
+const { verifyJobSignatures } = require('../dist/jobs/signatures.js');
+const { buildAcceptMessage } = require('../dist/signing/messages.js');
+const { signMessage } = require('../dist/identity/signer.js');
+const { generateKeypair } = require('../dist/identity/keypair.js');
+
+const buyer = generateKeypair('verustest');
+const seller = generateKeypair('verustest');
+const REQUESTED = '2026-03-01T12:00:00.000Z';
+const ACCEPTED = '2026-03-01T12:05:00.000Z';
+const ts = (iso: string) => Math.floor(Date.parse(iso) / 1000);
+
+/** Stand-in for the platform's request message, built from the fields it is given */
+function requestMessage(params: Record<string, unknown>): string {
+  return `Request ${params.sellerVerusId}|${params.description}|${params.amount} ${params.currency}|${params.safechatEnabled}|${params.timestamp}`;
+}
+
+const client = {
+  requested: [] as Record<string, unknown>[],
+  async getJobRequestMessage(params: Record<string, unknown>) {
+    this.requested.push(params);
+    return { message: requestMessage(params), timestamp: params.timestamp };
+  },
+};
+
+function job(overrides: Record<string, unknown> = {}) {
+  const base = {
+    id: 'job-1',
+    jobHash: 'hash-1',
+    status: 'accepted',
+    buyerVerusId: 'buyer.agentplatform@',
+    sellerVerusId: 'seller.agentplatform@',
+    description: 'Summarize a paper',
+    amount: 5,
+    currency: 'VRSCTEST',
+    deadline: null,
+    safechatEnabled: true,
+    timestamps: { requested: REQUESTED, accepted: ACCEPTED },
+    createdAt: REQUESTED,
+    updatedAt: ACCEPTED,
+  };
+  const request = requestMessage({ ...base, timestamp: ts(REQUESTED) });
+  const acceptance = buildAcceptMessage({ ...base, timestamp: ts(ACCEPTED) });
+  return {
+    ...base,
+    signatures: { request: signMessage(buyer.wif, request, 'verustest'), acceptance: signMessage(seller.wif, acceptance, 'verustest') },
+    ...overrides,
+  };
+}
+
+const resolve = async (verusId: string) =>
+  verusId === 'buyer.agentplatform@' ? [buyer.address] : verusId === 'seller.agentplatform@' ? [seller.address] : [];
+
+describe('Job signature verification', () => {
+  it('accepts signatures over the rebuilt messages', async () => {
+    const report = await verifyJobSignatures(job(), resolve, { client });
+    assert.strictEqual(report.valid, true);
+    assert.strictEqual(report.signatures.request.status, 'valid');
+    assert.strictEqual(report.signatures.request.address, buyer.address);
+    assert.strictEqual(report.signatures.acceptance.status, 'valid');
+    assert.strictEqual(report.signatures.delivery.status, 'missing');
+    assert.strictEqual(client.requested.at(-1)?.safechatEnabled, true);
+  });
+
+  it('flags a request signed without SafeChat when the job has it', async () => {
+    const report = await verifyJobSignatures(job({ safechatEnabled: false }), resolve, { kinds: ['request'], client });
+    assert.strictEqual(report.signatures.request.status, 'invalid');
+  });
+
+  it('leaves the request unresolved without a client to fetch its message', async () => {
+    const report = await verifyJobSignatures(job(), resolve, { kinds: ['request'] });
+    assert.strictEqual(report.signatures.request.status, 'unresolved');
+    assert.match(report.signatures.request.reason, /no client/);
+  });
+
+  it('flags a request whose fields were changed after signing', async () => {
+    const report = await verifyJobSignatures(job({ amount: 50 }), resolve, { kinds: ['request'], client });
+    assert.strictEqual(report.valid, false);
+    assert.strictEqual(report.signatures.request.status, 'invalid');
+  });
+
+  it('reports signers it cannot resolve', async () => {
+    const report = await verifyJobSignatures(job({ buyerVerusId: 'stranger@' }), resolve, { kinds: ['request'], client });
+    assert.strictEqual(report.signatures.request.status, 'unresolved');
+    assert.match(report.signatures.request.reason, /stranger@/);
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { createRequire } from 'node:module';
+const require = createRequire(import.meta.url);
+
+const { MemoryJobStore, FileJobStore } = require('../dist/jobs/store.js');
+
+function tmpFile(): string {
+  return path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'vap-store-')), 'jobs.json');
+}
+
+describe('Job stores', () => {
+  it('new records default to seen and keep firstSeenAt', async () => {
+    const store = new MemoryJobStore();
+    const created = await store.update('job-1', { jobHash: 'h1' });
+    assert.strictEqual(created.decision, 'seen');
+
+    const updated = await store.update('job-1', { decision: 'accepted' });
+    assert.strictEqual(updated.decision, 'accepted');
+    assert.strictEqual(updated.jobHash, 'h1');
+    assert.strictEqual(updated.firstSeenAt, created.firstSeenAt);
+  });
+
+  it('evicts the oldest records past maxRecords', async () => {
+    const store = new MemoryJobStore({ maxRecords: 2 });
+    await store.update('a', {});
+    await store.update('b', {});
+    await store.update('c', {});
+    assert.strictEqual(await store.get('a'), undefined);
+    assert.strictEqual((await store.list()).length, 2);
+  });
+
+  it('never evicts records of jobs still in progress', async () => {
+    const store = new MemoryJobStore({ maxRecords: 2 });
+    await store.update('a', { decision: 'accepted', lastStatus: 'in_progress' });
+    await store.update('b', { decision: 'held' });
+    await store.update('c', { decision: 'accepted', lastStatus: 'completed' });
+    await store.update('d', { decision: 'rejected' });
+    assert.deepStrictEqual((await store.list()).map((r: any) => r.jobId), ['a', 'b', 'd']);
+
+    await store.update('e', { decision: 'accepted' });
+    assert.deepStrictEqual((await store.list()).map((r: any) => r.jobId), ['a', 'b', 'e']);
+  });
+
+  it('FileJobStore keeps every change made during concurrent writes', async () => {
+    const file = tmpFile();
+    const store = new FileJobStore(file);
+    await store.load();
+    await Promise.all(Array.from({ length: 20 }, (_, i) => store.update(`job-${i}`, { decision: 'accepted' })));
+
+    const reloaded = new FileJobStore(file);
+    await reloaded.load();
+    assert.strictEqual((await reloaded.list()).length, 20);
+  });
+
+  it('FileJobStore survives a restart', async () => {
+    const file = tmpFile();
+    const first = new FileJobStore(file);
+    await first.load();
+    await first.update('job-1', { decision: 'rejected' });
+    await first.update('job-2', { decision: 'accepted', deliveryHash: 'abc', deliveredAt: '2025-01-01T00:00:00Z' });
+
+    const second = new FileJobStore(file);
+    await second.load();
+    assert.strictEqual((await second.get('job-1'))?.decision, 'rejected');
+    assert.strictEqual((await second.get('job-2'))?.deliveryHash, 'abc');
+    assert.ok(!fs.existsSync(file + '.tmp'), 'temp file should be renamed away');
+  });
+
+  it('FileJobStore starts fresh on a corrupt file', async () => {
+    const file = tmpFile();
+    fs.writeFileSync(file, '{not json');
+    const store = new FileJobStore(file);
+    await store.load();
+    assert.deepStrictEqual(await store.list(), []);
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { createRequire } from 'node:module';
+const require = createRequire(import.meta.url);
+
+const { TxTracker } = require('../dist/tx/tracker.js');
+const { VAPError } = require('../dist/client/errors.js');
+
+type Status = { txid: string; confirmations: number; blockHash: string | null } | null;
+
+/** Client whose getTxStatus answers from `chain` (null = 404) */
+function fakeClient(chain: Map<string, Status>) {
+  const broadcasts: string[] = [];
+  return {
+    broadcasts,
+    async getTxStatus(txid: string) {
+      const status = chain.get(txid);
+      if (!status) throw new VAPError('Not found', 'NOT_FOUND', 404);
+      return { blockTime: null, timestamp: null, confirmed: status.confirmations > 0, ...status };
+    },
+    async broadcast(rawhex: string) {
+      broadcasts.push(rawhex);
+      return { txid: 'tx1', status: 'sent' };
+    },
+  };
+}
+
+describe('Transaction tracker', () => {
+  it('resolves wait() once the required confirmations are reached', async () => {
+    const chain = new Map<string, Status>([['tx1', { txid: 'tx1', confirmations: 0, blockHash: null }]]);
+    const tracker = new TxTracker(fakeClient(chain), { pollInterval: 60_000 });
+    const confirmed: unknown[] = [];
+    tracker.on('tx:confirmed', (s: unknown) => confirmed.push(s));
+
+    const waiting = tracker.wait('tx1', { confirmations: 2 });
+    await tracker.check();
+    chain.set('tx1', { txid: 'tx1', confirmations: 2, blockHash: 'b1' });
+    await tracker.check();
+
+    const status = await waiting;
+    assert.strictEqual(status.confirmations, 2);
+    assert.strictEqual(confirmed.length, 1);
+    assert.deepStrictEqual(tracker.txids, ['tx1']); // still watched for reorgs
+    tracker.stop();
+  });
+
+  it('reports a reorg and re-broadcasts the stored raw hex', async () => {
+    const chain = new Map<string, Status>([['tx1', { txid: 'tx1', confirmations: 1, blockHash: 'b1' }]]);
+    const client = fakeClient(chain);
+    const tracker = new TxTracker(client, { pollInterval: 60_000 });
+    const reorgs: { status: Status }[] = [];
+    tracker.on('tx:reorged', (e: { status: Status }) => reorgs.push(e));
+
+    tracker.track('tx1', { rawhex: 'deadbeef' });
+    await tracker.check();
+    chain.delete('tx1');
+    await tracker.check();
+
+    assert.strictEqual(reorgs.length, 1);
+    assert.strictEqual(reorgs[0].status, null);
+    assert.deepStrictEqual(client.broadcasts, ['deadbeef']);
+    tracker.stop();
+  });
+
+  it('drops a missing transaction and rejects its waiters', async () => {
+    const tracker = new TxTracker(fakeClient(new Map()), { pollInterval: 60_000, dropAfter: 0 });
+    const dropped: unknown[] = [];
+    tracker.on('tx:dropped', (e: unknown) => dropped.push(e));
+
+    const waiting = tracker.wait('tx2');
+    await tracker.check();
+
+    await assert.rejects(waiting, /dropped/);
+    assert.strictEqual(dropped.length, 1);
+    assert.deepStrictEqual(tracker.txids, []);
+  });
+
+  it('rejects wait() after the timeout', async () => {
+    const chain = new Map<string, Status>([['tx3', { txid: 'tx3', confirmations: 0, blockHash: null }]]);
+    const tracker = new TxTracker(fakeClient(chain), { pollInterval: 60_000 });
+    await assert.rejects(tracker.wait('tx3', { timeout: 10 }), /not confirmed after 10ms/);
+    tracker.stop();
+  });
+});
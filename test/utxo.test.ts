@@ -0,0 +1,98 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { createRequire } from 'node:module';
+const require = createRequire(import.meta.url);
+
+const { selectCoins } = require('../dist/tx/coin-selection.js');
+const { UtxoManager } = require('../dist/tx/utxo-manager.js');
+
+function utxo(txid: string, satoshis: number, vout = 0) {
+  return { txid: txid.padEnd(64, '0'), vout, satoshis, height: 1 };
+}
+
+const UTXOS = [utxo('a', 50_000), utxo('b', 30_000), utxo('c', 20_000), utxo('d', 5_000)];
+
+function total(selection: { selected: { satoshis: number }[] }) {
+  return selection.selected.map(u => u.satoshis);
+}
+
+describe('Coin selection', () => {
+  it('supports largest-first and smallest-first', () => {
+    assert.deepStrictEqual(total(selectCoins(UTXOS, 60_000)), [50_000, 30_000]);
+    assert.deepStrictEqual(total(selectCoins(UTXOS, 24_000, 'smallest-first')), [5_000, 20_000]);
+    assert.throws(() => selectCoins(UTXOS, 200_000), /Insufficient funds/);
+  });
+
+  it('finds a changeless input set with branch-and-bound', () => {
+    const { selected, total: sum } = selectCoins(UTXOS, 55_000, 'branch-and-bound');
+    assert.strictEqual(sum, 55_000);
+    assert.strictEqual(selected.length, 2);
+  });
+
+  it('prefers one input, then outputs of one transaction, for privacy', () => {
+    assert.deepStrictEqual(total(selectCoins(UTXOS, 25_000, 'privacy')), [30_000]);
+    const linked = [utxo('x', 40_000), utxo('y', 30_000, 0), utxo('y', 30_000, 1)];
+    const { selected } = selectCoins(linked, 55_000, 'privacy');
+    assert.ok(selected.every((u: { txid: string }) => u.txid === linked[1].txid));
+  });
+});
+
+describe('UTXO manager', () => {
+  function manager(utxos = UTXOS) {
+    let fetches = 0;
+    const client = { getUtxos: async () => { fetches++; return { utxos }; } };
+    return { utxos: new UtxoManager(client), fetches: () => fetches };
+  }
+
+  it('never hands the same input to concurrent reservations', async () => {
+    const { utxos, fetches } = manager();
+    const [first, second] = await Promise.all([utxos.reserve(40_000), utxos.reserve(40_000)]);
+    const keys = [...first.utxos, ...second.utxos].map((u: { txid: string }) => u.txid);
+    assert.strictEqual(new Set(keys).size, keys.length);
+    assert.strictEqual(fetches(), 1);
+
+    first.release();
+    second.release();
+    assert.strictEqual(utxos.lockedCount, 0);
+  });
+
+  it('spends committed inputs once and offers the change', async () => {
+    const { utxos } = manager([utxo('a', 50_000)]);
+    const txid = await utxos.spend(20_000, async (_inputs: unknown[], sum: number) => (
+      { txid: 'f'.repeat(64), change: { vout: 1, satoshis: sum - 20_000 } }
+    ));
+    const available = await utxos.available();
+    assert.deepStrictEqual(available.map((u: { txid: string; satoshis: number }) => [u.txid, u.satoshis]), [[txid, 30_000]]);
+  });
+
+  it('keeps spent inputs out until their transaction is dropped', async () => {
+    // The platform still lists the spent input, long after the lock TTL
+    const client = { getUtxos: async () => ({ utxos: [utxo('a', 50_000)] }) };
+    const utxos = new UtxoManager(client, { cacheTtl: 0, lockTtl: 1 });
+    const txid = await utxos.spend(20_000, async () => ({ txid: 'f'.repeat(64) }));
+    await new Promise(resolve => setTimeout(resolve, 10));
+    assert.deepStrictEqual(await utxos.available(), []);
+
+    utxos.confirmed('e'.repeat(64));
+    assert.deepStrictEqual(await utxos.available(), []);
+
+    utxos.dropped(txid);
+    assert.deepStrictEqual((await utxos.available()).map((u: { satoshis: number }) => u.satoshis), [50_000]);
+  });
+
+  it('grows the target with the number of inputs', async () => {
+    const { utxos } = manager();
+    const reservation = await utxos.reserve((inputs: number) => 60_000 + inputs * 12_000);
+    assert.strictEqual(reservation.utxos.length, 3);
+    assert.ok(reservation.total >= 60_000 + 3 * 12_000);
+  });
+
+  it('releases inputs when the build fails and reserves dust', async () => {
+    const { utxos } = manager([utxo('a', 500), utxo('b', 700), utxo('c', 500_000)]);
+    await assert.rejects(utxos.spend(1_000, async () => { throw new Error('broadcast failed'); }), /broadcast failed/);
+    assert.strictEqual((await utxos.available()).length, 3);
+
+    const dust = await utxos.reserveDust();
+    assert.deepStrictEqual(dust.utxos.map((u: { satoshis: number }) => u.satoshis), [500, 700]);
+  });
+});
@@ -0,0 +1,153 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { createHmac } from 'node:crypto';
+import { createRequire } from 'node:module';
+const require = createRequire(import.meta.url);
+
+const { WebhookReceiver, verifyWebhookSignature } = require('../dist/jobs/webhook.js');
+const { MemoryJobStore } = require('../dist/jobs/store.js');
+
+const SECRET = 'test-secret';
+
+function sign(body: string, timestamp: number, secret = SECRET): string {
+  return 'sha256=' + createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+/** POST a signed event to a started receiver */
+function deliver(port: number, event: Record<string, unknown>) {
+  const body = JSON.stringify(event);
+  const ts = Math.floor(Date.now() / 1000);
+  return fetch(`http://127.0.0.1:${port}/vap/webhook`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'X-VAP-Timestamp': String(ts), 'X-VAP-Signature': sign(body, ts) },
+    body,
+  });
+}
+
+const tick = () => new Promise(resolve => setImmediate(resolve));
+
+describe('Webhook receiver', () => {
+  it('verifies signatures and rejects stale timestamps', () => {
+    const now = 1_700_000_000;
+    const body = '{"id":"d1"}';
+    assert.strictEqual(verifyWebhookSignature(body, String(now), sign(body, now), SECRET, 300, now), true);
+    assert.strictEqual(verifyWebhookSignature(body, String(now), sign(body, now, 'other'), SECRET, 300, now), false);
+    assert.strictEqual(verifyWebhookSignature(body + ' ', String(now), sign(body, now), SECRET, 300, now), false);
+    assert.strictEqual(verifyWebhookSignature(body, String(now - 301), sign(body, now - 301), SECRET, 300, now), false);
+    assert.strictEqual(verifyWebhookSignature(body, undefined, sign(body, now), SECRET, 300, now), false);
+  });
+
+  it('dispatches signed events once and rejects bad signatures', async () => {
+    const events: any[] = [];
+    const store = new MemoryJobStore();
+    await store.update('job-1', { decision: 'accepted' });
+    const receiver = new WebhookReceiver({ secret: SECRET, port: 0, host: '127.0.0.1', store }, async (event: any) => {
+      events.push(event);
+    });
+    const port = await receiver.start();
+    const url = `http://127.0.0.1:${port}/vap/webhook`;
+
+    try {
+      const body = JSON.stringify({ id: 'd1', type: 'job.requested', jobId: 'job-1' });
+      const ts = Math.floor(Date.now() / 1000);
+      const post = (signature: string) => fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'X-VAP-Timestamp': String(ts), 'X-VAP-Signature': signature },
+        body,
+      });
+
+      assert.strictEqual((await post(sign(body, ts, 'wrong'))).status, 401);
+      assert.strictEqual((await post(sign(body, ts))).status, 200);
+      assert.strictEqual((await fetch(url)).status, 405);
+      assert.strictEqual((await fetch(`http://127.0.0.1:${port}/other`, { method: 'POST' })).status, 404);
+
+      assert.strictEqual(events.length, 1);
+      assert.strictEqual(events[0].jobId, 'job-1');
+    } finally {
+      await receiver.stop();
+    }
+  });
+
+  it('records a delivery only after its handler succeeds', async () => {
+    let failures = 1;
+    const handled: string[] = [];
+    const errors: Error[] = [];
+    const store = new MemoryJobStore();
+    await store.update('job-1', { decision: 'accepted' });
+    const receiver = new WebhookReceiver({ secret: SECRET, port: 0, host: '127.0.0.1', store }, async (event: any) => {
+      if (failures-- > 0) throw new Error('handler failed');
+      handled.push(event.id);
+    });
+    receiver.onError = (err: Error) => errors.push(err);
+    const port = await receiver.start();
+
+    try {
+      const event = { id: 'd1', type: 'job.status_changed', jobId: 'job-1', status: 'cancelled' };
+      assert.strictEqual((await deliver(port, event)).status, 500);
+      assert.strictEqual(errors.length, 1);
+      assert.strictEqual((await store.get('job-1'))?.webhookDeliveries, undefined);
+
+      // Redelivered after the failure: handled again, then recorded
+      assert.strictEqual((await deliver(port, event)).status, 200);
+      assert.deepStrictEqual(handled, ['d1']);
+      assert.deepStrictEqual((await store.get('job-1')).webhookDeliveries, ['d1']);
+      assert.strictEqual((await deliver(port, event)).status, 200);
+    } finally {
+      await receiver.stop();
+    }
+  });
+
+  it('skips deliveries recorded in the store by an earlier run', async () => {
+    const store = new MemoryJobStore();
+    await store.update('job-1', { webhookDeliveries: ['d1'] });
+    const handled: string[] = [];
+    const receiver = new WebhookReceiver({ secret: SECRET, port: 0, host: '127.0.0.1', store }, async (event: any) => {
+      handled.push(event.id);
+    });
+    const port = await receiver.start();
+
+    try {
+      assert.strictEqual((await deliver(port, { id: 'd1', type: 'job.requested', jobId: 'job-1' })).status, 200);
+      assert.strictEqual((await deliver(port, { id: 'd2', type: 'job.requested', jobId: 'job-1' })).status, 200);
+      assert.deepStrictEqual(handled, ['d2']);
+    } finally {
+      await receiver.stop();
+    }
+  });
+
+  it('refuses a redelivery while the first is still being handled', async () => {
+    let release!: () => void;
+    let entered = false;
+    const gate = new Promise<void>(resolve => { release = resolve; });
+    const receiver = new WebhookReceiver({ secret: SECRET, port: 0, host: '127.0.0.1' }, () => {
+      entered = true;
+      return gate;
+    });
+    const port = await receiver.start();
+
+    try {
+      const event = { id: 'd1', type: 'job.requested', jobId: 'job-1' };
+      const first = deliver(port, event);
+      while (!entered) await tick();
+      assert.strictEqual((await deliver(port, event)).status, 409);
+      release();
+      assert.strictEqual((await first).status, 200);
+    } finally {
+      await receiver.stop();
+    }
+  });
+
+  it('does not create a job record for a delivery it records', async () => {
+    // e.g. an event the agent ignored: a record would mark the requested job as decided
+    const store = new MemoryJobStore();
+    const receiver = new WebhookReceiver({ secret: SECRET, port: 0, host: '127.0.0.1', store }, async () => {});
+    const port = await receiver.start();
+
+    try {
+      assert.strictEqual((await deliver(port, { id: 'd1', type: 'job.requested', jobId: 'job-1' })).status, 200);
+      assert.strictEqual(await store.get('job-1'), undefined);
+    } finally {
+      await receiver.stop();
+    }
+  });
+});